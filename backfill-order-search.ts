@@ -0,0 +1,41 @@
+/**
+ * Fill orders.customerNameSearch for orders saved before the column existed,
+ * so the dashboard search finds them regardless of case
+ *
+ * Run once after `pnpm db:push`:
+ *   npx tsx --env-file=.env backfill-order-search.ts
+ */
+
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { DB } from "./src/db";
+import { orders } from "./src/schema";
+import { normalizeSearchText } from "./src/utils/orderFilters";
+
+async function backfillOrderSearch() {
+	const db = DB();
+
+	const pending = await db
+		.select({ id: orders.id, customerName: orders.customerName })
+		.from(orders)
+		.where(
+			and(isNull(orders.customerNameSearch), isNotNull(orders.customerName)),
+		);
+
+	console.log(`Orders to update: ${pending.length}`);
+
+	for (const order of pending) {
+		await db
+			.update(orders)
+			.set({
+				customerNameSearch: normalizeSearchText(order.customerName ?? ""),
+			})
+			.where(eq(orders.id, order.id));
+	}
+
+	console.log("Done");
+}
+
+backfillOrderSearch().catch((error) => {
+	console.error("Backfill failed:", error);
+	process.exit(1);
+});
@@ -21,6 +21,8 @@ interface AdminOrderConfirmationProps {
 	Name?: string;
 	LastName?: string;
 	email?: string;
+	phone?: string;
+	contactMethod?: string;
 	orderId?: string;
 	orderDate?: string;
 	subtotal?: string;
@@ -64,6 +66,8 @@ export const AdminOrderConfirmation = ({
 	Name,
 	LastName,
 	email,
+	phone,
+	contactMethod,
 	orderId,
 	orderDate,
 	subtotal,
@@ -104,6 +108,12 @@ export const AdminOrderConfirmation = ({
 						<Text className="text-foreground text-[14px] leading-[15px]">
 							Customer Email: {email}
 						</Text>
+						<Text className="text-foreground text-[14px] leading-[15px]">
+							Customer Phone: {phone || "Not provided"}
+						</Text>
+						<Text className="text-foreground text-[14px] leading-[15px]">
+							Preferred Contact: {contactMethod || "Not specified"}
+						</Text>
 						<Text className="text-foreground text-[14px] leading-[15px]">
 							Order Status: {orderStatus || "Pending"}
 						</Text>
@@ -21,6 +21,7 @@ interface ClientOrderConfirmationProps {
 	Name?: string;
 	LastName?: string;
 	orderId?: string;
+	orderUrl?: string;
 	subtotal?: string;
 	totalDiscount?: string;
 	orderTotal?: string;
@@ -37,7 +38,7 @@ interface ClientOrderConfirmationProps {
 export const ClientOrderConfirmation = ({
 	Name,
 	LastName,
-	orderId,
+	orderUrl,
 	subtotal,
 	totalDiscount,
 	orderTotal,
@@ -145,7 +146,7 @@ export const ClientOrderConfirmation = ({
 								<Column align="center">
 									<Button
 										className="box-border w-full rounded-[8px] bg-primary px-[12px] py-[12px] text-center font-normal text-primary-foreground"
-										href={`https://www.rublevsky.studio/order/${orderId}`}
+										href={orderUrl}
 									>
 										View Order
 									</Button>
@@ -155,11 +156,8 @@ export const ClientOrderConfirmation = ({
 
 						<Text className="text-gray-400 text-[14px] leading-[24px]">
 							or copy and paste this URL into your browser:{" "}
-							<Link
-								href={`https://www.rublevsky.studio/order/${orderId}`}
-								className="text-blue-400 no-underline"
-							>
-								{`https://www.rublevsky.studio/order/${orderId}`}
+							<Link href={orderUrl} className="text-blue-400 no-underline">
+								{orderUrl}
 							</Link>
 						</Text>
 						<Hr className="border border-solid border-[#eaeaea] my-[26px] mx-0 w-full" />
@@ -185,6 +183,7 @@ ClientOrderConfirmation.PreviewProps = {
 	Name: "Alan",
 	LastName: "Turing",
 	orderId: "1234567890",
+	orderUrl: "https://www.rublevsky.studio/order/q3Xv9Lk2PzR8mWn4Tb7YcA",
 	subtotal: "250.00",
 	totalDiscount: "45.00",
 	orderTotal: "205.00",
@@ -0,0 +1,103 @@
+import {
+	Body,
+	Button,
+	Container,
+	Head,
+	Heading,
+	Hr,
+	Html,
+	Link,
+	Preview,
+	Section,
+	Tailwind,
+	Text,
+} from "@react-email/components";
+import { getOrderStatusName } from "~/constants/orderStatuses";
+import {
+	type NotifiableOrderStatus,
+	ORDER_STATUS_EMAIL_COPY,
+} from "./orderStatusUpdateHtml";
+
+interface OrderStatusUpdateProps {
+	customerName?: string;
+	orderId?: string;
+	status: NotifiableOrderStatus;
+	comment?: string;
+	orderUrl?: string;
+}
+
+export const OrderStatusUpdate = ({
+	customerName,
+	orderId,
+	status,
+	comment,
+	orderUrl,
+}: OrderStatusUpdateProps) => {
+	const copy = ORDER_STATUS_EMAIL_COPY[status];
+	const previewText = `${copy.subject} №${orderId}`;
+
+	return (
+		<Html lang="ru">
+			<Head />
+			<Tailwind>
+				<Body className="bg-white my-auto mx-auto font-sans px-2">
+					<Preview>{previewText}</Preview>
+					<Container className="border border-solid border-[#eaeaea] rounded my-[40px] mx-auto p-[10px] max-w-[465px]">
+						<Heading className="text-foreground text-[24px] font-normal text-center p-0 my-[30px] mx-0">
+							{copy.heading}
+						</Heading>
+						<Text className="text-foreground text-[14px] leading-[15px]">
+							Здравствуйте{customerName ? `, ${customerName}` : ""}!
+						</Text>
+						<Text className="text-foreground text-[14px]">
+							Статус заказа №{orderId}:{" "}
+							<strong>{getOrderStatusName(status)}</strong>.
+						</Text>
+						<Text className="text-foreground text-[14px]">{copy.text}</Text>
+						{comment && (
+							<Text className="text-gray-700 text-[14px] bg-gray-50 rounded-[8px] p-[12px] whitespace-pre-line">
+								{comment}
+							</Text>
+						)}
+
+						{orderUrl && (
+							<>
+								<Section className="py-[8px] text-center">
+									<Button
+										className="box-border w-full rounded-[8px] bg-primary px-[12px] py-[12px] text-center font-normal text-primary-foreground"
+										href={orderUrl}
+									>
+										Открыть заказ
+									</Button>
+								</Section>
+
+								<Text className="text-gray-400 text-[14px] leading-[24px]">
+									или скопируйте ссылку в браузер:{" "}
+									<Link href={orderUrl} className="text-blue-400 no-underline">
+										{orderUrl}
+									</Link>
+								</Text>
+							</>
+						)}
+						<Hr className="border border-solid border-[#eaeaea] my-[26px] mx-0 w-full" />
+						<Text className="text-[#666666] text-[12px] leading-[22px]">
+							Вы получили это письмо, потому что оформили заказ в BeautyFloor и
+							согласились получать уведомления о его статусе. Чтобы отказаться
+							от уведомлений по этому заказу, ответьте на это письмо.
+						</Text>
+					</Container>
+				</Body>
+			</Tailwind>
+		</Html>
+	);
+};
+
+OrderStatusUpdate.PreviewProps = {
+	customerName: "Иван Иванов",
+	orderId: "1024",
+	status: "shipped",
+	comment: "Доставка запланирована на пятницу, с 10:00 до 14:00.",
+	orderUrl: "http://localhost:3000/order/q3Xv9Lk2PzR8mWn4Tb7YcA",
+} as OrderStatusUpdateProps;
+
+export default OrderStatusUpdate;
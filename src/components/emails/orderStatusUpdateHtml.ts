@@ -0,0 +1,115 @@
+import {
+	getOrderStatusName,
+	type OrderStatus,
+} from "~/constants/orderStatuses";
+import { escapeHtml } from "~/utils/html";
+
+// Statuses the customer is notified about. "pending" is covered by the order confirmation email
+export type NotifiableOrderStatus = Exclude<OrderStatus, "pending">;
+
+export const ORDER_STATUS_EMAIL_COPY: Record<
+	NotifiableOrderStatus,
+	{ subject: string; heading: string; text: string }
+> = {
+	processed: {
+		subject: "Заказ принят в работу",
+		heading: "Ваш заказ принят в работу",
+		text: "Менеджер проверил заказ и уже собирает его. Мы свяжемся с вами, чтобы согласовать доставку и оплату.",
+	},
+	shipped: {
+		subject: "Заказ отправлен",
+		heading: "Ваш заказ отправлен",
+		text: "Заказ передан в доставку. Перед приездом курьер или менеджер свяжется с вами.",
+	},
+	delivered: {
+		subject: "Заказ доставлен",
+		heading: "Ваш заказ доставлен",
+		text: "Спасибо за покупку! Если у вас есть вопросы по товару или укладке, просто ответьте на это письмо.",
+	},
+	cancelled: {
+		subject: "Заказ отменён",
+		heading: "Ваш заказ отменён",
+		text: "Если вы не отменяли заказ или хотите оформить его заново, свяжитесь с нами — мы поможем.",
+	},
+};
+
+export const isNotifiableOrderStatus = (
+	status: string,
+): status is NotifiableOrderStatus => status in ORDER_STATUS_EMAIL_COPY;
+
+export interface OrderStatusUpdateEmailData {
+	customerName?: string;
+	orderId: string;
+	status: NotifiableOrderStatus;
+	comment?: string;
+	orderUrl?: string;
+}
+
+export function getOrderStatusUpdateSubject(
+	orderId: string,
+	status: NotifiableOrderStatus,
+): string {
+	return `${ORDER_STATUS_EMAIL_COPY[status].subject} №${orderId} - BeautyFloor`;
+}
+
+// HTML version of OrderStatusUpdate for server functions (same approach as sendOrderEmails)
+export function generateOrderStatusUpdateHtml(
+	data: OrderStatusUpdateEmailData,
+): string {
+	const copy = ORDER_STATUS_EMAIL_COPY[data.status];
+
+	return `
+    <!DOCTYPE html>
+    <html lang="ru">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${copy.subject} №${data.orderId}</title>
+      </head>
+      <body style="margin: 0; padding: 16px; font-family: system-ui, -apple-system, sans-serif; background-color: #ffffff;">
+        <div style="max-width: 465px; margin: 40px auto; border: 1px solid #eaeaea; border-radius: 8px; padding: 20px;">
+
+          <!-- Heading -->
+          <h1 style="color: #000; font-size: 24px; font-weight: normal; text-align: center; margin: 30px 0;">
+            ${copy.heading}
+          </h1>
+
+          <!-- Greeting -->
+          <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 8px 0;">
+            Здравствуйте${data.customerName ? `, ${escapeHtml(data.customerName)}` : ""}!
+          </p>
+          <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 16px 0;">
+            Статус заказа №${data.orderId}: <strong>${getOrderStatusName(data.status)}</strong>.
+          </p>
+          <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 16px 0;">
+            ${copy.text}
+          </p>
+          ${
+						data.comment
+							? `<p style="color: #374151; font-size: 14px; line-height: 1.4; margin: 0 0 16px 0; padding: 12px; background-color: #f9fafb; border-radius: 8px; white-space: pre-line;">${escapeHtml(data.comment)}</p>`
+							: ""
+					}
+
+          <!-- View Order Button -->
+          ${
+						data.orderUrl
+							? `<div style="text-align: center; margin: 24px 0;">
+            <a href="${data.orderUrl}"
+               style="display: inline-block; width: 100%; max-width: 200px; background-color: #000; color: #fff; text-decoration: none; padding: 12px; border-radius: 8px; font-weight: 500; text-align: center;">
+              Открыть заказ
+            </a>
+          </div>`
+							: ""
+					}
+
+          <hr style="border: none; border-top: 1px solid #eaeaea; margin: 26px 0;" />
+
+          <p style="color: #6b7280; font-size: 12px; line-height: 1.8; margin: 0;">
+            Вы получили это письмо, потому что оформили заказ в BeautyFloor и согласились получать уведомления о его статусе.
+            Чтобы отказаться от уведомлений по этому заказу, ответьте на это письмо.
+          </p>
+        </div>
+      </body>
+    </html>
+  `;
+}
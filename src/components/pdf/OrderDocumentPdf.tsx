@@ -0,0 +1,287 @@
+import {
+	Document,
+	Font,
+	Page,
+	StyleSheet,
+	Text,
+	View,
+} from "@react-pdf/renderer";
+import {
+	getOrderDocumentName,
+	type OrderDocumentType,
+} from "~/constants/orderDocuments";
+
+export interface OrderDocumentLine {
+	name: string;
+	sku: string | null;
+	unit: string;
+	quantity: number;
+	unitAmount: number;
+	discountPercentage: number | null;
+	finalAmount: number;
+}
+
+export interface OrderDocumentRequisites {
+	companyName: string;
+	addresses: string[];
+	phones: readonly string[];
+	email: string;
+	website: string;
+	inn: string | null;
+	kpp: string | null;
+	ogrn: string | null;
+	bankName: string | null;
+	bankBik: string | null;
+	bankAccount: string | null;
+	bankCorrAccount: string | null;
+}
+
+export interface OrderDocumentData {
+	type: OrderDocumentType;
+	orderId: number;
+	issuedAt: Date;
+	validUntil: Date;
+	customerName: string | null;
+	customerPhone: string | null;
+	customerEmail: string | null;
+	lines: OrderDocumentLine[];
+	subtotalAmount: number;
+	discountAmount: number;
+	shippingAmount: number;
+	shippingLabel: string;
+	totalAmount: number;
+	requisites: OrderDocumentRequisites;
+}
+
+let fontsRegistered = false;
+
+/**
+ * Built-in PDF fonts have no Cyrillic, so Roboto is loaded from /public/fonts
+ */
+export function registerPdfFonts(siteUrl: string) {
+	if (fontsRegistered) return;
+	Font.register({
+		family: "Roboto",
+		fonts: [
+			{ src: `${siteUrl}/fonts/Roboto-Regular.woff` },
+			{ src: `${siteUrl}/fonts/Roboto-Bold.woff`, fontWeight: 700 },
+		],
+	});
+	Font.registerHyphenationCallback((word) => [word]);
+	fontsRegistered = true;
+}
+
+const formatMoney = (amount: number) =>
+	`${amount.toLocaleString("ru-RU", {
+		minimumFractionDigits: 2,
+		maximumFractionDigits: 2,
+	})} руб.`;
+
+const formatDocumentDate = (date: Date) =>
+	date.toLocaleDateString("ru-RU", {
+		day: "2-digit",
+		month: "2-digit",
+		year: "numeric",
+		timeZone: "Asia/Vladivostok",
+	});
+
+const styles = StyleSheet.create({
+	page: {
+		fontFamily: "Roboto",
+		fontSize: 9,
+		padding: 36,
+		color: "#111827",
+	},
+	header: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		marginBottom: 16,
+		paddingBottom: 12,
+		borderBottomWidth: 2,
+		borderBottomColor: "#111827",
+	},
+	brand: { fontSize: 18, fontWeight: 700 },
+	muted: { color: "#6b7280" },
+	title: { fontSize: 14, fontWeight: 700, marginBottom: 4 },
+	section: { marginBottom: 12 },
+	sectionTitle: { fontWeight: 700, marginBottom: 4 },
+	requisitesRow: { flexDirection: "row", gap: 24 },
+	table: { borderWidth: 1, borderColor: "#d1d5db", marginBottom: 12 },
+	tableRow: {
+		flexDirection: "row",
+		borderBottomWidth: 1,
+		borderBottomColor: "#e5e7eb",
+	},
+	tableHeader: { backgroundColor: "#f3f4f6", fontWeight: 700 },
+	cellIndex: { width: "5%", padding: 4 },
+	cellName: { width: "39%", padding: 4 },
+	cellUnit: { width: "10%", padding: 4 },
+	cellQty: { width: "8%", padding: 4, textAlign: "right" },
+	cellPrice: { width: "14%", padding: 4, textAlign: "right" },
+	cellDiscount: { width: "8%", padding: 4, textAlign: "right" },
+	cellTotal: { width: "16%", padding: 4, textAlign: "right" },
+	totals: { alignSelf: "flex-end", width: "45%" },
+	totalsRow: {
+		flexDirection: "row",
+		justifyContent: "space-between",
+		paddingVertical: 2,
+	},
+	grandTotal: {
+		fontSize: 12,
+		fontWeight: 700,
+		borderTopWidth: 1,
+		borderTopColor: "#111827",
+		paddingTop: 4,
+		marginTop: 2,
+	},
+	footer: {
+		position: "absolute",
+		bottom: 24,
+		left: 36,
+		right: 36,
+		fontSize: 8,
+		color: "#6b7280",
+		textAlign: "center",
+	},
+});
+
+function RequisiteLine({
+	label,
+	value,
+}: {
+	label: string;
+	value: string | null;
+}) {
+	if (!value) return null;
+	return (
+		<Text>
+			{label}: {value}
+		</Text>
+	);
+}
+
+export function OrderDocumentPdf({ data }: { data: OrderDocumentData }) {
+	const { requisites } = data;
+	const title = `${getOrderDocumentName(data.type)} № ${data.orderId} от ${formatDocumentDate(data.issuedAt)}`;
+
+	return (
+		<Document title={title} author={requisites.companyName} language="ru">
+			<Page size="A4" style={styles.page}>
+				{/* Header */}
+				<View style={styles.header}>
+					<View>
+						<Text style={styles.brand}>BeautyFloor</Text>
+						<Text style={styles.muted}>Напольные покрытия во Владивостоке</Text>
+					</View>
+					<View style={{ alignItems: "flex-end" }}>
+						<Text>{requisites.phones.join(", ")}</Text>
+						<Text>{requisites.email}</Text>
+						<Text>{requisites.website}</Text>
+					</View>
+				</View>
+
+				{/* Seller requisites */}
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>Поставщик</Text>
+					<Text>{requisites.companyName}</Text>
+					<View style={styles.requisitesRow}>
+						<View>
+							<RequisiteLine label="ИНН" value={requisites.inn} />
+							<RequisiteLine label="КПП" value={requisites.kpp} />
+							<RequisiteLine label="ОГРН" value={requisites.ogrn} />
+						</View>
+						<View>
+							<RequisiteLine label="Банк" value={requisites.bankName} />
+							<RequisiteLine label="БИК" value={requisites.bankBik} />
+							<RequisiteLine label="Р/с" value={requisites.bankAccount} />
+							<RequisiteLine label="К/с" value={requisites.bankCorrAccount} />
+						</View>
+					</View>
+					{requisites.addresses.map((address) => (
+						<Text key={address} style={styles.muted}>
+							{address}
+						</Text>
+					))}
+				</View>
+
+				<Text style={styles.title}>{title}</Text>
+				<Text style={[styles.muted, { marginBottom: 12 }]}>
+					Действительно до {formatDocumentDate(data.validUntil)}
+				</Text>
+
+				{/* Customer */}
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>Покупатель</Text>
+					<Text>{data.customerName || "—"}</Text>
+					{data.customerPhone && <Text>{data.customerPhone}</Text>}
+					{data.customerEmail && <Text>{data.customerEmail}</Text>}
+				</View>
+
+				{/* Line items */}
+				<View style={styles.table}>
+					<View style={[styles.tableRow, styles.tableHeader]} fixed>
+						<Text style={styles.cellIndex}>№</Text>
+						<Text style={styles.cellName}>Товар</Text>
+						<Text style={styles.cellUnit}>Ед.</Text>
+						<Text style={styles.cellQty}>Кол-во</Text>
+						<Text style={styles.cellPrice}>Цена</Text>
+						<Text style={styles.cellDiscount}>Скидка</Text>
+						<Text style={styles.cellTotal}>Сумма</Text>
+					</View>
+					{data.lines.map((line, index) => (
+						<View
+							key={`${line.name}-${index}`}
+							style={styles.tableRow}
+							wrap={false}
+						>
+							<Text style={styles.cellIndex}>{index + 1}</Text>
+							<View style={styles.cellName}>
+								<Text>{line.name}</Text>
+								{line.sku && <Text style={styles.muted}>Арт. {line.sku}</Text>}
+							</View>
+							<Text style={styles.cellUnit}>{line.unit}</Text>
+							<Text style={styles.cellQty}>{line.quantity}</Text>
+							<Text style={styles.cellPrice}>
+								{formatMoney(line.unitAmount)}
+							</Text>
+							<Text style={styles.cellDiscount}>
+								{line.discountPercentage ? `${line.discountPercentage}%` : "—"}
+							</Text>
+							<Text style={styles.cellTotal}>
+								{formatMoney(line.finalAmount)}
+							</Text>
+						</View>
+					))}
+				</View>
+
+				{/* Totals */}
+				<View style={styles.totals}>
+					<View style={styles.totalsRow}>
+						<Text>Товары</Text>
+						<Text>{formatMoney(data.subtotalAmount)}</Text>
+					</View>
+					{data.discountAmount > 0 && (
+						<View style={styles.totalsRow}>
+							<Text>Скидка</Text>
+							<Text>−{formatMoney(data.discountAmount)}</Text>
+						</View>
+					)}
+					<View style={styles.totalsRow}>
+						<Text>{data.shippingLabel}</Text>
+						<Text>{formatMoney(data.shippingAmount)}</Text>
+					</View>
+					<View style={[styles.totalsRow, styles.grandTotal]}>
+						<Text>Итого</Text>
+						<Text>{formatMoney(data.totalAmount)}</Text>
+					</View>
+				</View>
+
+				<Text style={styles.footer} fixed>
+					{data.type === "invoice"
+						? "Оплата счёта означает согласие с условиями поставки. Товар отпускается после поступления денег на расчётный счёт."
+						: "Предложение не является публичной офертой. Наличие и цены уточняйте у менеджера."}
+				</Text>
+			</Page>
+		</Document>
+	);
+}
@@ -1,22 +1,37 @@
+import { useState } from "react";
+import { OrderCommentForm } from "~/components/ui/dashboard/OrderComments";
 import { Button } from "~/components/ui/shared/Button";
 import { Checkbox } from "~/components/ui/shared/Checkbox";
 import { Image } from "~/components/ui/shared/Image";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "~/components/ui/shared/Popover";
 import { Switch } from "~/components/ui/shared/Switch";
+import { getContactMethodName } from "~/constants/contactMethods";
+import { getOrderStatusName } from "~/constants/orderStatuses";
 import { ASSETS_BASE_URL } from "~/constants/urls";
 import { formatDate } from "~/lib/utils";
-import { Trash } from "../shared/Icon";
+import type { OrderCommentSummary } from "~/utils/orderComments";
+import { formatPhone } from "~/utils/phone";
+import { formatSaleQuantity, type SaleUnit } from "~/utils/units";
+import { MessageSquare, Trash } from "../shared/Icon";
 
 interface OrderItem {
 	id: number;
 	orderId: number;
 	productId: number;
 	quantity: number;
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null;
 	unitAmount: number;
 	finalAmount: number;
 	discountPercentage: number | null;
 	product: {
 		name: string;
 		images: string | null;
+		unitOfMeasurement: string | null;
 	};
 	variation?: {
 		id: number;
@@ -32,14 +47,31 @@ interface Order {
 	discountAmount: number;
 	shippingAmount: number;
 	totalAmount: number;
+	refundedAmount: number;
 	currency: string;
 	paymentMethod: string | null;
 	paymentStatus: string;
+	paymentId: string | null;
 	shippingMethod: string | null;
+	shippingBreakdown: string | null;
+	deliveryAddress: string | null;
+	deliveryNeedsReview: boolean;
+	deliveryReviewedBy: string | null;
+	deliveryReviewedAt: Date | null;
+	pickupLocationId: number | null;
+	couponCode: string | null;
+	couponDiscountAmount: number;
 	notes: string | null;
+	customerName: string | null;
+	customerPhone: string | null;
+	customerEmail: string | null;
+	contactMethod: string | null;
+	notifyStatusChanges: boolean;
+	publicToken: string | null;
 	createdAt: Date;
 	completedAt: Date | null;
 	items: OrderItem[];
+	comments?: OrderCommentSummary | null;
 }
 
 interface OrderCardProps {
@@ -61,6 +93,7 @@ export function OrderCard({
 	isSelected = false,
 	onSelectionChange,
 }: OrderCardProps) {
+	const [isCommentOpen, setIsCommentOpen] = useState(false);
 	const totalItems =
 		order.items?.reduce((sum, item) => sum + item.quantity, 0) || 0;
 
@@ -119,6 +152,26 @@ export function OrderCard({
 				</div>
 			</div>
 
+			{/* Customer */}
+			{(order.customerName || order.customerPhone) && (
+				<div className="space-y-0.5">
+					<p className="text-sm font-medium truncate">
+						{order.customerName || "Без имени"}
+					</p>
+					<p className="text-xs text-muted-foreground">
+						{formatPhone(order.customerPhone)}
+						{order.contactMethod &&
+							` · ${getContactMethodName(order.contactMethod)}`}
+					</p>
+				</div>
+			)}
+
+			{order.deliveryNeedsReview && (
+				<p className="text-xs font-medium text-amber-600">
+					Расстояние доставки не подтверждено
+				</p>
+			)}
+
 			{/* All Order Items */}
 			{order.items && order.items.length > 0 && (
 				<div className="space-y-2">
@@ -143,7 +196,12 @@ export function OrderCard({
 									{item.product.name}
 								</p>
 								<p className="text-xs text-muted-foreground">
-									Qty: {item.quantity} × ${item.unitAmount.toFixed(2)}
+									Qty:{" "}
+									{formatSaleQuantity(item.quantity, {
+										squareMetersPerPack: item.squareMetersPerPack,
+										unitOfMeasurement: item.product.unitOfMeasurement,
+									})}{" "}
+									× ${item.unitAmount.toFixed(2)}
 								</p>
 							</div>
 							<p className="text-xs font-medium shrink-0">
@@ -154,6 +212,45 @@ export function OrderCard({
 				</div>
 			)}
 
+			{/* Internal comments */}
+			<div className="flex items-start gap-2 text-xs text-muted-foreground">
+				<MessageSquare size={14} className="shrink-0 mt-0.5" />
+				<p className="min-w-0 flex-1 line-clamp-2">
+					{order.comments
+						? `${order.comments.latest.body}${
+								order.comments.count > 1
+									? ` (+${order.comments.count - 1})`
+									: ""
+							}`
+						: "Нет комментариев"}
+				</p>
+				<Popover open={isCommentOpen} onOpenChange={setIsCommentOpen}>
+					<PopoverTrigger asChild>
+						<Button
+							type="button"
+							variant="link"
+							size="sm"
+							onClick={(e) => e.stopPropagation()}
+							className="h-auto p-0 text-xs shrink-0"
+						>
+							Добавить
+						</Button>
+					</PopoverTrigger>
+					<PopoverContent
+						align="end"
+						className="w-72"
+						// The popover is rendered in a portal, but React still bubbles its events to the card
+						onClick={(e) => e.stopPropagation()}
+						onKeyDown={(e) => e.stopPropagation()}
+					>
+						<OrderCommentForm
+							orderId={order.id}
+							onDone={() => setIsCommentOpen(false)}
+						/>
+					</PopoverContent>
+				</Popover>
+			</div>
+
 			{/* Price and Status Toggle */}
 			<div className="flex items-center justify-between pt-2 border-t">
 				<div>
@@ -165,10 +262,25 @@ export function OrderCard({
 							{order.currency}
 						</span>
 					</div>
+					{order.refundedAmount > 0 && (
+						<p className="text-xs text-muted-foreground">
+							Возврат: -{order.refundedAmount.toFixed(2)}, итого{" "}
+							{(order.totalAmount - order.refundedAmount).toFixed(2)}
+						</p>
+					)}
 				</div>
 				<div className="flex items-center gap-2">
+					{/* Quick toggle only between New and Processed, other statuses are set in the drawer */}
+					{order.status !== "pending" && order.status !== "processed" && (
+						<span className="text-xs text-muted-foreground">
+							{getOrderStatusName(order.status)}
+						</span>
+					)}
 					<Switch
-						checked={order.status === "processed"}
+						checked={order.status !== "pending"}
+						disabled={
+							order.status !== "pending" && order.status !== "processed"
+						}
 						onChange={(e) => {
 							e.stopPropagation();
 							onStatusToggle(order.id, order.status);
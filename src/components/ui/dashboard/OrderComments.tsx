@@ -0,0 +1,227 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { DrawerSection } from "~/components/ui/dashboard/DrawerSection";
+import { Button } from "~/components/ui/shared/Button";
+import { Textarea } from "~/components/ui/shared/TextArea";
+import { orderCommentsQueryOptions } from "~/lib/queryOptions";
+import { formatDateTime } from "~/lib/utils";
+import { addOrderComment } from "~/server_functions/dashboard/orders/addOrderComment";
+import { updateOrderComment } from "~/server_functions/dashboard/orders/updateOrderComment";
+import {
+	ORDER_COMMENT_MAX_LENGTH,
+	type OrderCommentView,
+} from "~/utils/orderComments";
+
+interface OrderCommentFormProps {
+	orderId: number;
+	parentId?: number; // Reply to this comment
+	comment?: OrderCommentView; // Edit this comment
+	placeholder?: string;
+	onDone?: () => void;
+	onCancel?: () => void;
+}
+
+/**
+ * Add, reply to or edit an internal comment.
+ * Refreshes the drawer thread and the comment counts on the order cards.
+ */
+export function OrderCommentForm({
+	orderId,
+	parentId,
+	comment,
+	placeholder = "Например: позвонили клиенту, доставка в пятницу",
+	onDone,
+	onCancel,
+}: OrderCommentFormProps) {
+	const queryClient = useQueryClient();
+	const [body, setBody] = useState(comment?.body ?? "");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const handleSubmit = async () => {
+		if (!body.trim()) return;
+
+		setIsSaving(true);
+		try {
+			if (comment) {
+				await updateOrderComment({ data: { id: comment.id, body } });
+			} else {
+				await addOrderComment({ data: { orderId, parentId, body } });
+			}
+			setBody("");
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderComments", orderId],
+			});
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			onDone?.();
+		} catch (error) {
+			console.error("Failed to save order comment:", error);
+			toast.error(
+				error instanceof Error
+					? error.message
+					: "Не удалось сохранить комментарий",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<Textarea
+				value={body}
+				onChange={(e) => setBody(e.target.value)}
+				onKeyDown={(e) => {
+					// Ctrl/Cmd+Enter sends, plain Enter is a new line
+					if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+						e.preventDefault();
+						handleSubmit();
+					}
+				}}
+				placeholder={placeholder}
+				maxLength={ORDER_COMMENT_MAX_LENGTH}
+				rows={2}
+			/>
+			<div className="flex gap-2">
+				<Button
+					size="sm"
+					onClick={handleSubmit}
+					disabled={!body.trim() || isSaving}
+				>
+					{isSaving
+						? "Сохранение..."
+						: comment
+							? "Сохранить"
+							: parentId
+								? "Ответить"
+								: "Добавить"}
+				</Button>
+				{onCancel && (
+					<Button size="sm" variant="outline" onClick={onCancel}>
+						Отмена
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function OrderCommentItem({
+	orderId,
+	comment,
+	onReply,
+}: {
+	orderId: number;
+	comment: OrderCommentView;
+	onReply?: () => void;
+}) {
+	const [isEditing, setIsEditing] = useState(false);
+
+	return (
+		<div className="space-y-1 text-sm">
+			<div className="flex flex-wrap items-baseline gap-x-2 text-xs text-muted-foreground">
+				<span className="font-medium text-foreground">
+					{comment.authorEmail}
+				</span>
+				<span>{formatDateTime(comment.createdAt)}</span>
+				{comment.updatedAt && (
+					<span title={formatDateTime(comment.updatedAt)}>(изменено)</span>
+				)}
+			</div>
+
+			{isEditing ? (
+				<OrderCommentForm
+					orderId={orderId}
+					comment={comment}
+					onDone={() => setIsEditing(false)}
+					onCancel={() => setIsEditing(false)}
+				/>
+			) : (
+				<>
+					<p className="whitespace-pre-wrap break-words">{comment.body}</p>
+					<div className="flex gap-3 text-xs">
+						{onReply && (
+							<button
+								type="button"
+								onClick={onReply}
+								className="text-muted-foreground hover:text-foreground"
+							>
+								Ответить
+							</button>
+						)}
+						{comment.canEdit && (
+							<button
+								type="button"
+								onClick={() => setIsEditing(true)}
+								className="text-muted-foreground hover:text-foreground"
+							>
+								Изменить
+							</button>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Internal comments of managers in OrderDrawer.
+ * Not shown to the customer: the public order page doesn't load them.
+ */
+export function OrderCommentsSection({ orderId }: { orderId: number }) {
+	const [replyTo, setReplyTo] = useState<number | null>(null);
+	const { data: threads, isPending } = useQuery(
+		orderCommentsQueryOptions(orderId),
+	);
+
+	return (
+		<DrawerSection title="Комментарии">
+			<div className="space-y-4">
+				{isPending ? (
+					<p className="text-sm text-muted-foreground">
+						Загрузка комментариев...
+					</p>
+				) : !threads || threads.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						Комментариев пока нет. Их видят только сотрудники.
+					</p>
+				) : (
+					<ul className="space-y-4">
+						{threads.map((thread) => (
+							<li key={thread.id} className="space-y-3">
+								<OrderCommentItem
+									orderId={orderId}
+									comment={thread}
+									onReply={() => setReplyTo(thread.id)}
+								/>
+								{(thread.replies.length > 0 || replyTo === thread.id) && (
+									<div className="ml-4 pl-3 border-l space-y-3">
+										{thread.replies.map((reply) => (
+											<OrderCommentItem
+												key={reply.id}
+												orderId={orderId}
+												comment={reply}
+											/>
+										))}
+										{replyTo === thread.id && (
+											<OrderCommentForm
+												orderId={orderId}
+												parentId={thread.id}
+												placeholder="Ответ"
+												onDone={() => setReplyTo(null)}
+												onCancel={() => setReplyTo(null)}
+											/>
+										)}
+									</div>
+								)}
+							</li>
+						))}
+					</ul>
+				)}
+
+				<OrderCommentForm orderId={orderId} />
+			</div>
+		</DrawerSection>
+	);
+}
@@ -1,4 +1,10 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useId, useState } from "react";
+import { toast } from "sonner";
 import { DrawerSection } from "~/components/ui/dashboard/DrawerSection";
+import { OrderCommentsSection } from "~/components/ui/dashboard/OrderComments";
+import { OrderItemsEditor } from "~/components/ui/dashboard/OrderItemsEditor";
+import { OrderReturnsSection } from "~/components/ui/dashboard/OrderReturns";
 import { Button } from "~/components/ui/shared/Button";
 import {
 	Drawer,
@@ -8,7 +14,51 @@ import {
 	DrawerTitle,
 } from "~/components/ui/shared/Drawer";
 import { Image } from "~/components/ui/shared/Image";
+import { OrderDocumentButtons } from "~/components/ui/shared/OrderDocumentButtons";
+import { OrderStatusTimeline } from "~/components/ui/shared/OrderStatusTimeline";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import { Switch } from "~/components/ui/shared/Switch";
+import { Textarea } from "~/components/ui/shared/TextArea";
+import { getContactMethodName } from "~/constants/contactMethods";
+import { getOrderAuditActionName } from "~/constants/orderAudit";
+import {
+	getAllowedOrderStatusTransitions,
+	getOrderStatusName,
+} from "~/constants/orderStatuses";
+import { getPaymentStatusName } from "~/constants/paymentStatuses";
+import { getShippingMethodName } from "~/constants/shippingMethods";
+import { getStoreLocationsByIds } from "~/data/storeLocations";
+import {
+	orderAuditLogQueryOptions,
+	orderStatusHistoryQueryOptions,
+} from "~/lib/queryOptions";
 import { formatDate } from "~/lib/utils";
+import { confirmOrderDelivery } from "~/server_functions/dashboard/orders/confirmOrderDelivery";
+import { refundOrderPayment } from "~/server_functions/dashboard/orders/refundOrderPayment";
+import { updateOrderNotifications } from "~/server_functions/dashboard/orders/updateOrderNotifications";
+import { updateOrderStatus } from "~/server_functions/dashboard/orders/updateOrderStatus";
+import {
+	isBlockedByDeliveryReview,
+	parseDeliveryBreakdown,
+} from "~/utils/deliveryPricing";
+import {
+	canEditOrderItems,
+	describeOrderItemChange,
+	parseOrderItemsAuditChanges,
+} from "~/utils/orderEditing";
+import { getRefundableAmount } from "~/utils/orderReturns";
+import {
+	describePaymentChange,
+	parsePaymentAuditChanges,
+} from "~/utils/paymentAudit";
+import { formatPhone } from "~/utils/phone";
+import { formatSaleQuantity, type SaleUnit } from "~/utils/units";
 import { X } from "../shared/Icon";
 
 interface OrderItem {
@@ -16,12 +66,15 @@ interface OrderItem {
 	orderId: number;
 	productId: number;
 	quantity: number;
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null;
 	unitAmount: number;
 	finalAmount: number;
 	discountPercentage: number | null;
 	product: {
 		name: string;
 		images: string | null;
+		unitOfMeasurement: string | null;
 	};
 	variation?: {
 		id: number;
@@ -37,11 +90,27 @@ interface Order {
 	discountAmount: number;
 	shippingAmount: number;
 	totalAmount: number;
+	refundedAmount: number;
 	currency: string;
 	paymentMethod: string | null;
 	paymentStatus: string;
+	paymentId: string | null;
 	shippingMethod: string | null;
+	shippingBreakdown: string | null;
+	deliveryAddress: string | null;
+	deliveryNeedsReview: boolean;
+	deliveryReviewedBy: string | null;
+	deliveryReviewedAt: Date | null;
+	pickupLocationId: number | null;
+	couponCode: string | null;
+	couponDiscountAmount: number;
 	notes: string | null;
+	customerName: string | null;
+	customerPhone: string | null;
+	customerEmail: string | null;
+	contactMethod: string | null;
+	notifyStatusChanges: boolean;
+	publicToken: string | null;
 	createdAt: Date;
 	completedAt: Date | null;
 	items: OrderItem[];
@@ -51,28 +120,443 @@ interface OrderDrawerProps {
 	order: Order | null;
 	isOpen: boolean;
 	onClose: () => void;
+	onOrderChange?: (
+		orderId: number,
+		update: Partial<
+			Pick<
+				Order,
+				| "status"
+				| "completedAt"
+				| "notifyStatusChanges"
+				| "subtotalAmount"
+				| "discountAmount"
+				| "totalAmount"
+				| "items"
+				| "paymentStatus"
+				| "refundedAmount"
+				| "deliveryNeedsReview"
+				| "deliveryReviewedBy"
+				| "deliveryReviewedAt"
+			>
+		>,
+	) => void;
+}
+
+interface OrderStatusSectionProps {
+	order: Order;
+	onOrderChange?: OrderDrawerProps["onOrderChange"];
+}
+
+function OrderStatusSection({ order, onOrderChange }: OrderStatusSectionProps) {
+	const queryClient = useQueryClient();
+	const [nextStatus, setNextStatus] = useState("");
+	const [comment, setComment] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const { data: history, isPending } = useQuery(
+		orderStatusHistoryQueryOptions(order.id),
+	);
+
+	const allowedStatuses = getAllowedOrderStatusTransitions(order.status);
+
+	const handleStatusChange = async () => {
+		if (!nextStatus) return;
+
+		setIsSaving(true);
+		try {
+			const result = await updateOrderStatus({
+				data: { id: order.id, status: nextStatus, comment },
+			});
+
+			toast.success(
+				`Заказ #${order.id}: ${getOrderStatusName(result.order.status)}`,
+			);
+			if (result.notification.sent) {
+				toast.success("Клиенту отправлено уведомление");
+			} else if (result.notification.warning) {
+				toast.warning(result.notification.warning);
+			}
+			setNextStatus("");
+			setComment("");
+
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderStatusHistory", order.id],
+			});
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			onOrderChange?.(order.id, {
+				status: result.order.status,
+				completedAt: result.order.completedAt,
+			});
+		} catch (error) {
+			console.error("Failed to update order status:", error);
+			toast.error(
+				error instanceof Error
+					? error.message
+					: "Не удалось изменить статус заказа",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<DrawerSection title="Статус заказа">
+			<div className="space-y-4">
+				<p className="text-sm">
+					<span className="font-medium">Текущий статус:</span>{" "}
+					{getOrderStatusName(order.status)}
+				</p>
+
+				{allowedStatuses.length > 0 ? (
+					<div className="space-y-3 max-w-md">
+						<Select value={nextStatus} onValueChange={setNextStatus}>
+							<SelectTrigger label="Новый статус">
+								<SelectValue placeholder="Выберите статус" />
+							</SelectTrigger>
+							<SelectContent>
+								{allowedStatuses.map((status) => (
+									<SelectItem
+										key={status}
+										value={status}
+										disabled={isBlockedByDeliveryReview(order, status)}
+									>
+										{getOrderStatusName(status)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						{order.deliveryNeedsReview && (
+							<p className="text-xs text-muted-foreground">
+								Отправить заказ можно после подтверждения расстояния доставки
+							</p>
+						)}
+						<Textarea
+							label="Комментарий"
+							value={comment}
+							onChange={(e) => setComment(e.target.value)}
+							placeholder="Не обязательно"
+							rows={2}
+						/>
+						<Button
+							size="sm"
+							onClick={handleStatusChange}
+							disabled={!nextStatus || isSaving}
+						>
+							{isSaving ? "Сохранение..." : "Сменить статус"}
+						</Button>
+					</div>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						Статус этого заказа больше нельзя изменить
+					</p>
+				)}
+
+				{isPending ? (
+					<p className="text-sm text-muted-foreground">Загрузка истории...</p>
+				) : (
+					<OrderStatusTimeline entries={history ?? []} showAuthor />
+				)}
+			</div>
+		</DrawerSection>
+	);
+}
+
+function OrderPaymentRefundButton({
+	order,
+	onOrderChange,
+}: OrderStatusSectionProps) {
+	const queryClient = useQueryClient();
+	const [isRefunding, setIsRefunding] = useState(false);
+
+	const handleRefund = async () => {
+		if (
+			!window.confirm(
+				`Вернуть ${getRefundableAmount(order).toFixed(2)} ${order.currency} клиенту?`,
+			)
+		) {
+			return;
+		}
+
+		setIsRefunding(true);
+		try {
+			const result = await refundOrderPayment({ data: { orderId: order.id } });
+			toast.success("Платёж возвращён");
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderAuditLog", order.id],
+			});
+			onOrderChange?.(order.id, {
+				paymentStatus: result.paymentStatus,
+				refundedAmount: result.refundedAmount,
+			});
+		} catch (error) {
+			console.error("Failed to refund order payment:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось вернуть платёж",
+			);
+		} finally {
+			setIsRefunding(false);
+		}
+	};
+
+	return (
+		<Button
+			size="sm"
+			variant="outline"
+			onClick={handleRefund}
+			disabled={isRefunding}
+		>
+			{isRefunding ? "Возврат..." : "Вернуть платёж"}
+		</Button>
+	);
+}
+
+function OrderDeliveryReview({
+	order,
+	onOrderChange,
+}: OrderStatusSectionProps) {
+	const queryClient = useQueryClient();
+	const [isSaving, setIsSaving] = useState(false);
+
+	const handleConfirm = async () => {
+		setIsSaving(true);
+		try {
+			const result = await confirmOrderDelivery({ data: { id: order.id } });
+			toast.success("Расстояние доставки подтверждено");
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			onOrderChange?.(order.id, result);
+		} catch (error) {
+			console.error("Failed to confirm order delivery:", error);
+			toast.error(
+				error instanceof Error
+					? error.message
+					: "Не удалось подтвердить расстояние",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (!order.deliveryNeedsReview) {
+		return (
+			<p className="text-xs text-muted-foreground">
+				Расстояние подтвердил {order.deliveryReviewedBy ?? "менеджер"}
+				{order.deliveryReviewedAt &&
+					`, ${formatDate(order.deliveryReviewedAt)}`}
+			</p>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<p className="text-xs font-medium text-amber-600">
+				Расстояние указал клиент: сверьте его с адресом, прежде чем отправлять
+				заказ
+			</p>
+			<Button
+				size="sm"
+				variant="outline"
+				onClick={handleConfirm}
+				disabled={isSaving}
+			>
+				{isSaving ? "Сохранение..." : "Расстояние верное"}
+			</Button>
+		</div>
+	);
+}
+
+function OrderNotificationsToggle({
+	order,
+	onOrderChange,
+}: OrderStatusSectionProps) {
+	const queryClient = useQueryClient();
+	const [isSaving, setIsSaving] = useState(false);
+	const switchId = useId();
+
+	const handleToggle = async (notifyStatusChanges: boolean) => {
+		setIsSaving(true);
+		try {
+			await updateOrderNotifications({
+				data: { id: order.id, notifyStatusChanges },
+			});
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			onOrderChange?.(order.id, { notifyStatusChanges });
+		} catch (error) {
+			console.error("Failed to update order notifications:", error);
+			toast.error("Не удалось изменить настройки уведомлений");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="flex items-center gap-3 text-sm">
+			<Switch
+				id={switchId}
+				checked={order.notifyStatusChanges}
+				disabled={isSaving}
+				onChange={(e) => handleToggle(e.target.checked)}
+			/>
+			<label htmlFor={switchId} className="cursor-pointer">
+				<span className="font-medium">Email-уведомления о статусе:</span>{" "}
+				{order.notifyStatusChanges ? "включены" : "отключены"}
+			</label>
+		</div>
+	);
 }
 
-export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
+function OrderAuditLogSection({ order }: { order: Order }) {
+	const { data: entries } = useQuery(orderAuditLogQueryOptions(order.id));
+
+	if (!entries || entries.length === 0) return null;
+
+	return (
+		<DrawerSection title="История изменений">
+			<ol className="space-y-4">
+				{entries.map((entry) => {
+					const changes =
+						entry.action === "items_updated"
+							? parseOrderItemsAuditChanges(entry.changes)
+							: null;
+					const paymentChanges =
+						entry.action === "payment_status_changed"
+							? parsePaymentAuditChanges(entry.changes)
+							: null;
+					return (
+						<li key={entry.id} className="text-sm space-y-1">
+							<p>
+								<span className="font-medium">
+									{getOrderAuditActionName(entry.action)}
+								</span>{" "}
+								<span className="text-muted-foreground">
+									{formatDate(entry.createdAt)}
+									{entry.changedBy && ` · ${entry.changedBy}`}
+								</span>
+							</p>
+							{changes && (
+								<>
+									<ul className="list-disc pl-5 text-muted-foreground">
+										{changes.items.map((change) => (
+											<li key={describeOrderItemChange(change)}>
+												{describeOrderItemChange(change)}
+											</li>
+										))}
+									</ul>
+									<p className="text-muted-foreground">
+										Итого: {changes.before.totalAmount.toFixed(2)} →{" "}
+										{changes.after.totalAmount.toFixed(2)} {order.currency}
+									</p>
+								</>
+							)}
+							{paymentChanges && (
+								<p className="text-muted-foreground">
+									{describePaymentChange(paymentChanges)}
+								</p>
+							)}
+							{entry.comment && <p className="italic">{entry.comment}</p>}
+						</li>
+					);
+				})}
+			</ol>
+		</DrawerSection>
+	);
+}
+
+export function OrderDrawer({
+	order,
+	isOpen,
+	onClose,
+	onOrderChange,
+}: OrderDrawerProps) {
+	const [isEditingItems, setIsEditingItems] = useState(false);
+
 	if (!order) return null;
 
+	const shippingBreakdown = parseDeliveryBreakdown(order.shippingBreakdown);
+	const [pickupLocation] = order.pickupLocationId
+		? getStoreLocationsByIds([order.pickupLocationId])
+		: [];
+
+	const handleClose = () => {
+		setIsEditingItems(false);
+		onClose();
+	};
+
 	return (
-		<Drawer open={isOpen} onOpenChange={onClose}>
+		<Drawer open={isOpen} onOpenChange={handleClose}>
 			<DrawerContent width="full">
 				<DrawerHeader className="px-4 sm:px-6 lg:px-8">
 					<div className="flex items-center justify-between">
 						<DrawerTitle>Order #{order.id}</DrawerTitle>
-						<Button size="icon" onClick={onClose}>
+						<Button size="icon" onClick={handleClose}>
 							<X className="h-5 w-5" />
 						</Button>
 					</div>
 					<p className="text-sm text-muted-foreground">
 						Placed on {formatDate(order.createdAt)}
 					</p>
+					{order.publicToken && (
+						<a
+							href={`/order/${order.publicToken}`}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="text-sm text-primary hover:underline"
+						>
+							Страница заказа для клиента
+						</a>
+					)}
+					<OrderDocumentButtons orderId={String(order.id)} className="mt-2" />
 				</DrawerHeader>
 
 				<DrawerBody className="w-full p-0">
 					<div className="space-y-6">
+						{/* Customer Details */}
+						<DrawerSection title="Клиент">
+							<div className="space-y-2">
+								<p className="text-sm">
+									<span className="font-medium">Имя:</span>{" "}
+									{order.customerName || "Не указано"}
+								</p>
+								<p className="text-sm">
+									<span className="font-medium">Телефон:</span>{" "}
+									{order.customerPhone ? (
+										<a
+											href={`tel:${order.customerPhone}`}
+											className="text-primary hover:underline"
+										>
+											{formatPhone(order.customerPhone)}
+										</a>
+									) : (
+										"Не указан"
+									)}
+								</p>
+								<p className="text-sm">
+									<span className="font-medium">Email:</span>{" "}
+									{order.customerEmail ? (
+										<a
+											href={`mailto:${order.customerEmail}`}
+											className="text-primary hover:underline"
+										>
+											{order.customerEmail}
+										</a>
+									) : (
+										"Не указан"
+									)}
+								</p>
+								<p className="text-sm">
+									<span className="font-medium">Способ связи:</span>{" "}
+									{getContactMethodName(order.contactMethod)}
+								</p>
+								<OrderNotificationsToggle
+									order={order}
+									onOrderChange={onOrderChange}
+								/>
+							</div>
+						</DrawerSection>
+
+						{/* Status and History */}
+						<OrderStatusSection order={order} onOrderChange={onOrderChange} />
+
 						{/* Payment Details */}
 						<DrawerSection title="Детали оплаты">
 							<div className="space-y-2">
@@ -86,6 +570,13 @@ export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
 										{order.currency} {order.discountAmount.toFixed(2)}
 									</p>
 								)}
+								{order.couponCode && (
+									<p className="text-sm">
+										<span className="font-medium">Промокод:</span>{" "}
+										{order.couponCode} (-{order.currency}{" "}
+										{order.couponDiscountAmount.toFixed(2)})
+									</p>
+								)}
 								{order.shippingAmount > 0 && (
 									<p className="text-sm">
 										<span className="font-medium">Shipping:</span>{" "}
@@ -96,9 +587,24 @@ export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
 									<span className="font-medium">Total:</span> {order.currency}{" "}
 									{order.totalAmount.toFixed(2)}
 								</p>
+								{order.refundedAmount > 0 && (
+									<>
+										<p className="text-sm">
+											<span className="font-medium">Возвращено:</span> -
+											{order.currency} {order.refundedAmount.toFixed(2)}
+										</p>
+										<p className="text-sm font-semibold">
+											<span className="font-medium">
+												Итого с учётом возвратов:
+											</span>{" "}
+											{order.currency}{" "}
+											{(order.totalAmount - order.refundedAmount).toFixed(2)}
+										</p>
+									</>
+								)}
 								<p className="text-sm">
 									<span className="font-medium">Status:</span>{" "}
-									{order.paymentStatus}
+									{getPaymentStatusName(order.paymentStatus)}
 								</p>
 								{order.paymentMethod && (
 									<p className="text-sm">
@@ -106,19 +612,54 @@ export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
 										{order.paymentMethod}
 									</p>
 								)}
+								{order.paymentStatus === "paid" && order.paymentId && (
+									<OrderPaymentRefundButton
+										order={order}
+										onOrderChange={onOrderChange}
+									/>
+								)}
 							</div>
 						</DrawerSection>
 
 						{/* Shipping Details */}
 						<DrawerSection title="Доставка">
 							<div className="space-y-2">
-								<p className="text-sm">
-									<span className="font-medium">Status:</span> {order.status}
-								</p>
 								{order.shippingMethod && (
 									<p className="text-sm">
 										<span className="font-medium">Method:</span>{" "}
-										{order.shippingMethod}
+										{getShippingMethodName(order.shippingMethod)}
+									</p>
+								)}
+								{pickupLocation && (
+									<div className="text-sm">
+										<p>
+											<span className="font-medium">Магазин:</span>{" "}
+											{pickupLocation.address}
+										</p>
+										<p className="text-muted-foreground whitespace-pre-line">
+											{pickupLocation.openingHours}
+										</p>
+									</div>
+								)}
+								{shippingBreakdown && (
+									<p className="text-sm">
+										<span className="font-medium">Зона:</span>{" "}
+										{shippingBreakdown.zoneName} —{" "}
+										{shippingBreakdown.baseAmount} {order.currency}
+										{shippingBreakdown.distanceKm !== null &&
+											` + ${shippingBreakdown.distanceKm} км × ${shippingBreakdown.perKmAmount} ${order.currency}`}
+									</p>
+								)}
+								{shippingBreakdown?.distanceKm != null && (
+									<OrderDeliveryReview
+										order={order}
+										onOrderChange={onOrderChange}
+									/>
+								)}
+								{order.deliveryAddress && (
+									<p className="text-sm">
+										<span className="font-medium">Адрес:</span>{" "}
+										{order.deliveryAddress}
 									</p>
 								)}
 								{order.notes && (
@@ -132,50 +673,95 @@ export function OrderDrawer({ order, isOpen, onClose }: OrderDrawerProps) {
 						{/* Order Items */}
 						{order.items && order.items.length > 0 && (
 							<DrawerSection title="Товары">
-								<div className="space-y-4">
-									{order.items.map((item) => (
-										<div key={item.id} className="flex items-center gap-4">
-											<div className="relative w-16 h-16 shrink-0 bg-muted rounded overflow-hidden">
-												{item.product.images ? (
-													<Image
-														src={`https://assets.rublevsky.studio/${item.product.images.split(",").map((img) => img.trim())[0]}`}
-														alt={item.product.name}
-														className="object-cover"
-														sizes="4rem"
-													/>
-												) : (
-													<div className="w-full h-full flex items-center justify-center text-muted-foreground text-xs">
-														No image
-													</div>
-												)}
-											</div>
-											<div className="flex-1">
-												<p className="font-medium">{item.product.name}</p>
-												{item.variation?.sku && (
-													<p className="text-sm text-muted-foreground">
-														SKU: {item.variation.sku}
-													</p>
-												)}
-												{item.attributes &&
-													Object.keys(item.attributes).length > 0 && (
+								{canEditOrderItems(order) && !isEditingItems && (
+									<Button
+										size="sm"
+										variant="outline"
+										className="mb-4"
+										onClick={() => setIsEditingItems(true)}
+									>
+										Изменить состав заказа
+									</Button>
+								)}
+								{isEditingItems ? (
+									<OrderItemsEditor
+										orderId={order.id}
+										currency={order.currency}
+										items={order.items}
+										onCancel={() => setIsEditingItems(false)}
+										onSaved={(result) => {
+											setIsEditingItems(false);
+											onOrderChange?.(order.id, {
+												subtotalAmount: result.order.subtotalAmount,
+												discountAmount: result.order.discountAmount,
+												totalAmount: result.order.totalAmount,
+												items: result.items,
+											});
+										}}
+									/>
+								) : (
+									<div className="space-y-4">
+										{order.items.map((item) => (
+											<div key={item.id} className="flex items-center gap-4">
+												<div className="relative w-16 h-16 shrink-0 bg-muted rounded overflow-hidden">
+													{item.product.images ? (
+														<Image
+															src={`https://assets.rublevsky.studio/${item.product.images.split(",").map((img) => img.trim())[0]}`}
+															alt={item.product.name}
+															className="object-cover"
+															sizes="4rem"
+														/>
+													) : (
+														<div className="w-full h-full flex items-center justify-center text-muted-foreground text-xs">
+															No image
+														</div>
+													)}
+												</div>
+												<div className="flex-1">
+													<p className="font-medium">{item.product.name}</p>
+													{item.variation?.sku && (
 														<p className="text-sm text-muted-foreground">
-															{Object.entries(item.attributes)
-																.map(([key, value]) => `${key}: ${value}`)
-																.join(", ")}
+															SKU: {item.variation.sku}
 														</p>
 													)}
-												<p className="text-sm text-muted-foreground">
-													Qty: {item.quantity} × ${item.unitAmount.toFixed(2)}
+													{item.attributes &&
+														Object.keys(item.attributes).length > 0 && (
+															<p className="text-sm text-muted-foreground">
+																{Object.entries(item.attributes)
+																	.map(([key, value]) => `${key}: ${value}`)
+																	.join(", ")}
+															</p>
+														)}
+													<p className="text-sm text-muted-foreground">
+														Qty:{" "}
+														{formatSaleQuantity(item.quantity, {
+															squareMetersPerPack: item.squareMetersPerPack,
+															unitOfMeasurement: item.product.unitOfMeasurement,
+														})}{" "}
+														× ${item.unitAmount.toFixed(2)}
+													</p>
+												</div>
+												<p className="font-semibold">
+													${item.finalAmount.toFixed(2)}
 												</p>
 											</div>
-											<p className="font-semibold">
-												${item.finalAmount.toFixed(2)}
-											</p>
-										</div>
-									))}
-								</div>
+										))}
+									</div>
+								)}
 							</DrawerSection>
 						)}
+
+						<OrderReturnsSection
+							order={order}
+							onRefunded={(refundedAmount) =>
+								onOrderChange?.(order.id, { refundedAmount })
+							}
+						/>
+
+						{/* Internal comments */}
+						<OrderCommentsSection orderId={order.id} />
+
+						<OrderAuditLogSection order={order} />
 					</div>
 				</DrawerBody>
 			</DrawerContent>
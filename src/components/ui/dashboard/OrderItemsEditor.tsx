@@ -0,0 +1,304 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import ProductSelector from "~/components/ui/dashboard/ProductSelector";
+import { Button } from "~/components/ui/shared/Button";
+import { Trash } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import { Textarea } from "~/components/ui/shared/TextArea";
+import { UNITS } from "~/constants/units";
+import { dashboardProductQueryOptions } from "~/lib/queryOptions";
+import { updateOrderItems } from "~/server_functions/dashboard/orders/updateOrderItems";
+import {
+	getSaleStep,
+	getUnitShortLabel,
+	isPackProduct,
+	normalizeSaleQuantity,
+	type SaleUnit,
+} from "~/utils/units";
+
+interface EditableOrderItem {
+	id: number;
+	productId: number;
+	quantity: number;
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null;
+	unitAmount: number;
+	product: { name: string; unitOfMeasurement: string | null };
+	variation?: { id: number; sku: string };
+}
+
+interface DraftLine {
+	key: string;
+	id?: number; // Existing order item
+	productId: number;
+	productName: string;
+	variationId: number | null;
+	quantity: number;
+	saleUnit?: SaleUnit; // Unknown for new lines until the product loads
+	squareMetersPerPack?: number | null;
+	unitOfMeasurement?: string | null;
+	unitAmount: number | null; // Known for existing lines, new lines are priced on save
+}
+
+export type OrderItemsEditorResult = Awaited<
+	ReturnType<typeof updateOrderItems>
+>;
+
+interface OrderItemsEditorProps {
+	orderId: number;
+	currency: string;
+	items: EditableOrderItem[];
+	onSaved: (result: OrderItemsEditorResult) => void;
+	onCancel: () => void;
+}
+
+const toDraftLine = (item: EditableOrderItem): DraftLine => ({
+	key: `item-${item.id}`,
+	id: item.id,
+	productId: item.productId,
+	productName: item.product.name,
+	variationId: item.variation?.id ?? null,
+	quantity: item.quantity,
+	saleUnit: item.saleUnit,
+	squareMetersPerPack: item.squareMetersPerPack,
+	unitOfMeasurement: item.product.unitOfMeasurement,
+	unitAmount: item.unitAmount,
+});
+
+interface DraftLineRowProps {
+	line: DraftLine;
+	currency: string;
+	onChange: (update: Partial<DraftLine>) => void;
+	onRemove: () => void;
+}
+
+function DraftLineRow({
+	line,
+	currency,
+	onChange,
+	onRemove,
+}: DraftLineRowProps) {
+	// Variations are needed to substitute a colour on existing lines and to pick one on new lines
+	const { data: product } = useQuery({
+		...dashboardProductQueryOptions(line.productId),
+		enabled: line.id === undefined || line.variationId !== null,
+	});
+	const variations = product?.hasVariations ? product.variations : [];
+	const isPack =
+		line.saleUnit === "pack" ||
+		(line.id === undefined && isPackProduct(product?.squareMetersPerPack));
+	const unitLabel = isPack
+		? UNITS.pack.shortLabel
+		: getUnitShortLabel(line.unitOfMeasurement ?? product?.unitOfMeasurement);
+	const unitProduct = {
+		squareMetersPerPack: isPack
+			? (line.squareMetersPerPack ?? product?.squareMetersPerPack)
+			: null,
+		unitOfMeasurement: line.unitOfMeasurement ?? product?.unitOfMeasurement,
+	};
+	const step = getSaleStep(unitProduct);
+
+	return (
+		<div className="flex flex-wrap items-end gap-3 border-b border-border pb-3">
+			<div className="flex-1 min-w-48">
+				<p className="font-medium">{line.productName}</p>
+				<p className="text-sm text-muted-foreground">
+					{line.unitAmount !== null
+						? `${line.unitAmount.toFixed(2)} ${currency} за ${unitLabel}`
+						: "Цена по каталогу при сохранении"}
+				</p>
+			</div>
+			{variations.length > 0 && (
+				<div className="w-48">
+					<Select
+						value={line.variationId !== null ? String(line.variationId) : ""}
+						onValueChange={(value) =>
+							onChange({
+								variationId: Number(value),
+								// Substituted variation is repriced on the server
+								unitAmount: null,
+							})
+						}
+					>
+						<SelectTrigger label="Вариант">
+							<SelectValue placeholder="Выберите вариант" />
+						</SelectTrigger>
+						<SelectContent>
+							{variations.map((variation) => (
+								<SelectItem key={variation.id} value={variation.id}>
+									{variation.sku}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			)}
+			<div className="w-24">
+				<Input
+					label={`Кол-во, ${unitLabel}`}
+					type="number"
+					min={step}
+					step={step}
+					value={line.quantity}
+					onChange={(e) =>
+						onChange({
+							quantity: normalizeSaleQuantity(
+								Number(e.target.value) || step,
+								unitProduct,
+							),
+						})
+					}
+				/>
+			</div>
+			<Button
+				type="button"
+				variant="outline"
+				size="icon"
+				onClick={onRemove}
+				aria-label="Удалить позицию"
+			>
+				<Trash size={16} />
+			</Button>
+		</div>
+	);
+}
+
+export function OrderItemsEditor({
+	orderId,
+	currency,
+	items,
+	onSaved,
+	onCancel,
+}: OrderItemsEditorProps) {
+	const queryClient = useQueryClient();
+	const [lines, setLines] = useState<DraftLine[]>(() => items.map(toDraftLine));
+	const [newProductSlug, setNewProductSlug] = useState("");
+	const [comment, setComment] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const updateLine = (key: string, update: Partial<DraftLine>) => {
+		setLines((prev) =>
+			prev.map((line) => (line.key === key ? { ...line, ...update } : line)),
+		);
+	};
+
+	const removeLine = (key: string) => {
+		setLines((prev) => prev.filter((line) => line.key !== key));
+	};
+
+	const handleProductSelect = (
+		productSlug: string,
+		product: { id: number; name: string } | null,
+	) => {
+		setNewProductSlug(productSlug);
+		if (!product) return;
+
+		setLines((prev) => [
+			...prev,
+			{
+				key: `new-${Date.now()}`,
+				productId: product.id,
+				productName: product.name,
+				variationId: null,
+				quantity: 1,
+				unitAmount: null,
+			},
+		]);
+		setNewProductSlug("");
+	};
+
+	const handleSave = async () => {
+		if (lines.length === 0) {
+			toast.error("В заказе должен остаться хотя бы один товар");
+			return;
+		}
+
+		setIsSaving(true);
+		try {
+			const result = await updateOrderItems({
+				data: {
+					orderId,
+					items: lines.map((line) => ({
+						id: line.id,
+						productId: line.productId,
+						variationId: line.variationId,
+						quantity: line.quantity,
+					})),
+					comment,
+				},
+			});
+
+			toast.success(`Заказ #${orderId} обновлён`);
+			queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderAuditLog", orderId],
+			});
+			onSaved(result);
+		} catch (error) {
+			console.error("Failed to update order items:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось изменить заказ",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			{lines.map((line) => (
+				<DraftLineRow
+					key={line.key}
+					line={line}
+					currency={currency}
+					onChange={(update) => updateLine(line.key, update)}
+					onRemove={() => removeLine(line.key)}
+				/>
+			))}
+
+			<div className="max-w-md space-y-2">
+				<p className="text-sm font-medium">Добавить товар</p>
+				<ProductSelector
+					selectedProductSlug={newProductSlug}
+					onProductSelect={handleProductSelect}
+				/>
+			</div>
+
+			<Textarea
+				label="Комментарий к изменению"
+				value={comment}
+				onChange={(e) => setComment(e.target.value)}
+				placeholder="Например: клиент попросил заменить цвет по телефону"
+				rows={2}
+			/>
+
+			<p className="text-sm text-muted-foreground">
+				Суммы заказа будут пересчитаны на сервере. Существующие позиции
+				сохраняют цену на момент заказа, новые и заменённые — по текущему
+				каталогу.
+			</p>
+
+			<div className="flex gap-2">
+				<Button size="sm" onClick={handleSave} disabled={isSaving}>
+					{isSaving ? "Сохранение..." : "Сохранить изменения"}
+				</Button>
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={onCancel}
+					disabled={isSaving}
+				>
+					Отмена
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,433 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { DrawerSection } from "~/components/ui/dashboard/DrawerSection";
+import { Button } from "~/components/ui/shared/Button";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import { Textarea } from "~/components/ui/shared/TextArea";
+import { getReturnReasonName, RETURN_REASONS } from "~/constants/returnReasons";
+import {
+	getAllowedReturnStatusTransitions,
+	getReturnStatusName,
+	isReturnActive,
+} from "~/constants/returnStatuses";
+import { orderReturnsQueryOptions } from "~/lib/queryOptions";
+import { formatDate } from "~/lib/utils";
+import { createOrderReturn } from "~/server_functions/dashboard/orders/createOrderReturn";
+import { updateOrderReturnStatus } from "~/server_functions/dashboard/orders/updateOrderReturnStatus";
+import {
+	calculateReturnRefund,
+	getReturnableQuantities,
+	type ReturnOrderLine,
+} from "~/utils/orderReturns";
+import { getSaleStep } from "~/utils/units";
+
+interface ReturnOrder {
+	id: number;
+	status: string;
+	currency: string;
+	couponDiscountAmount: number;
+	items: {
+		id: number;
+		quantity: number;
+		finalAmount: number;
+		squareMetersPerPack: number | null;
+		product: { name: string; unitOfMeasurement: string | null };
+	}[];
+}
+
+const getReturnOrderLines = (order: ReturnOrder): ReturnOrderLine[] =>
+	order.items.map((item) => ({
+		...item,
+		unitOfMeasurement: item.product.unitOfMeasurement,
+	}));
+
+interface OrderReturnsSectionProps {
+	order: ReturnOrder;
+	onRefunded?: (refundedAmount: number) => void;
+}
+
+type OrderReturnWithItems = Awaited<
+	ReturnType<
+		NonNullable<ReturnType<typeof orderReturnsQueryOptions>["queryFn"]>
+	>
+>[number];
+
+function OrderReturnForm({
+	order,
+	returnable,
+	onDone,
+}: {
+	order: ReturnOrder;
+	returnable: Map<number, number>;
+	onDone: () => void;
+}) {
+	const queryClient = useQueryClient();
+	const [quantities, setQuantities] = useState<Record<number, string>>({});
+	const [reason, setReason] = useState("");
+	const [feePercent, setFeePercent] = useState("0");
+	const [notes, setNotes] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const lines = order.items.map((item) => ({
+		orderItemId: item.id,
+		quantity: Number(quantities[item.id] || 0),
+	}));
+	const preview = calculateReturnRefund(
+		getReturnOrderLines(order),
+		order.couponDiscountAmount,
+		lines,
+		returnable,
+		Number(feePercent.replace(",", ".")),
+	);
+
+	const handleSubmit = async () => {
+		if (!preview.success || !reason) return;
+
+		setIsSaving(true);
+		try {
+			await createOrderReturn({
+				data: {
+					orderId: order.id,
+					reason,
+					notes,
+					restockingFeePercent: Number(feePercent.replace(",", ".")),
+					items: lines.filter((line) => line.quantity > 0),
+				},
+			});
+			toast.success("Возврат оформлен");
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderReturns", order.id],
+			});
+			onDone();
+		} catch (error) {
+			console.error("Failed to create order return:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось оформить возврат",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="space-y-4 border rounded-lg p-4">
+			<div className="space-y-2">
+				{order.items.map((item) => {
+					const max = returnable.get(item.id) ?? 0;
+					return (
+						<div key={item.id} className="flex items-center gap-3 text-sm">
+							<span className="flex-1 min-w-0 truncate">
+								{item.product.name}
+							</span>
+							<span className="text-muted-foreground shrink-0">
+								можно вернуть: {max}
+							</span>
+							<Input
+								type="number"
+								min={0}
+								max={max}
+								step={getSaleStep({
+									squareMetersPerPack: item.squareMetersPerPack,
+									unitOfMeasurement: item.product.unitOfMeasurement,
+								})}
+								value={quantities[item.id] ?? ""}
+								onChange={(e) =>
+									setQuantities((prev) => ({
+										...prev,
+										[item.id]: e.target.value,
+									}))
+								}
+								disabled={max === 0}
+								className="w-20"
+								aria-label={`Количество: ${item.product.name}`}
+							/>
+						</div>
+					);
+				})}
+			</div>
+
+			<div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+				<Select value={reason} onValueChange={setReason}>
+					<SelectTrigger label="Причина">
+						<SelectValue placeholder="Выберите причину" />
+					</SelectTrigger>
+					<SelectContent>
+						{RETURN_REASONS.map((returnReason) => (
+							<SelectItem key={returnReason} value={returnReason}>
+								{getReturnReasonName(returnReason)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Input
+					label="Сбор за возврат, %"
+					inputMode="decimal"
+					value={feePercent}
+					onChange={(e) => setFeePercent(e.target.value)}
+				/>
+			</div>
+
+			<Textarea
+				label="Комментарий"
+				value={notes}
+				onChange={(e) => setNotes(e.target.value)}
+				placeholder="Не обязательно"
+				rows={2}
+			/>
+
+			{preview.success ? (
+				<div className="text-sm space-y-0.5">
+					<p>
+						Товары: {preview.calculation.itemsAmount.toFixed(2)}{" "}
+						{order.currency}
+					</p>
+					{preview.calculation.couponAmount > 0 && (
+						<p>
+							Доля промокода: -{preview.calculation.couponAmount.toFixed(2)}{" "}
+							{order.currency}
+						</p>
+					)}
+					{preview.calculation.restockingFee > 0 && (
+						<p>
+							Сбор за возврат: -{preview.calculation.restockingFee.toFixed(2)}{" "}
+							{order.currency}
+						</p>
+					)}
+					<p className="font-semibold">
+						К возврату: {preview.calculation.refundAmount.toFixed(2)}{" "}
+						{order.currency}
+					</p>
+				</div>
+			) : (
+				<p className="text-sm text-muted-foreground">{preview.error}</p>
+			)}
+
+			<div className="flex gap-2">
+				<Button
+					size="sm"
+					onClick={handleSubmit}
+					disabled={!preview.success || !reason || isSaving}
+				>
+					{isSaving ? "Сохранение..." : "Оформить возврат"}
+				</Button>
+				<Button size="sm" variant="outline" onClick={onDone}>
+					Отмена
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+function OrderReturnCard({
+	order,
+	orderReturn,
+	onRefunded,
+}: {
+	order: ReturnOrder;
+	orderReturn: OrderReturnWithItems;
+	onRefunded?: (refundedAmount: number) => void;
+}) {
+	const queryClient = useQueryClient();
+	const [nextStatus, setNextStatus] = useState("");
+	const [restockingNotes, setRestockingNotes] = useState(
+		orderReturn.restockingNotes ?? "",
+	);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const allowedStatuses = getAllowedReturnStatusTransitions(orderReturn.status);
+	const itemNames = new Map(
+		order.items.map((item) => [item.id, item.product.name]),
+	);
+
+	const handleStatusChange = async () => {
+		if (!nextStatus) return;
+
+		setIsSaving(true);
+		try {
+			const result = await updateOrderReturnStatus({
+				data: { id: orderReturn.id, status: nextStatus, restockingNotes },
+			});
+			toast.success(
+				`Возврат #${orderReturn.id}: ${getReturnStatusName(result.orderReturn.status)}`,
+			);
+			setNextStatus("");
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderReturns", order.id],
+			});
+			if (result.refundedAmount !== null) {
+				queryClient.invalidateQueries({ queryKey: ["bfloorDashboardOrders"] });
+				onRefunded?.(result.refundedAmount);
+			}
+		} catch (error) {
+			console.error("Failed to update return status:", error);
+			toast.error(
+				error instanceof Error
+					? error.message
+					: "Не удалось изменить статус возврата",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="border rounded-lg p-4 space-y-3 text-sm">
+			<div className="flex flex-wrap items-baseline justify-between gap-2">
+				<p>
+					<span className="font-medium">Возврат #{orderReturn.id}</span>{" "}
+					<span className="text-muted-foreground">
+						{formatDate(orderReturn.createdAt)}
+						{orderReturn.createdBy && ` · ${orderReturn.createdBy}`}
+					</span>
+				</p>
+				<span className="font-medium">
+					{getReturnStatusName(orderReturn.status)}
+				</span>
+			</div>
+
+			<p>
+				<span className="font-medium">Причина:</span>{" "}
+				{getReturnReasonName(orderReturn.reason)}
+			</p>
+			{orderReturn.notes && <p className="italic">{orderReturn.notes}</p>}
+
+			<ul className="list-disc pl-5 text-muted-foreground">
+				{orderReturn.items.map((item) => (
+					<li key={item.id}>
+						{itemNames.get(item.orderItemId) ?? `Позиция #${item.orderItemId}`}{" "}
+						× {item.quantity} — {item.amount.toFixed(2)} {order.currency}
+					</li>
+				))}
+			</ul>
+
+			<p>
+				<span className="font-medium">К возврату:</span>{" "}
+				{orderReturn.refundAmount.toFixed(2)} {order.currency}
+				{(orderReturn.couponAmount > 0 || orderReturn.restockingFee > 0) && (
+					<span className="text-muted-foreground">
+						{" "}
+						(товары {orderReturn.itemsAmount.toFixed(2)}
+						{orderReturn.couponAmount > 0 &&
+							`, промокод -${orderReturn.couponAmount.toFixed(2)}`}
+						{orderReturn.restockingFee > 0 &&
+							`, сбор ${orderReturn.restockingFeePercent}% -${orderReturn.restockingFee.toFixed(2)}`}
+						)
+					</span>
+				)}
+			</p>
+
+			{allowedStatuses.length > 0 ? (
+				<div className="space-y-2 max-w-md">
+					<Select value={nextStatus} onValueChange={setNextStatus}>
+						<SelectTrigger label="Новый статус">
+							<SelectValue placeholder="Выберите статус" />
+						</SelectTrigger>
+						<SelectContent>
+							{allowedStatuses.map((status) => (
+								<SelectItem key={status} value={status}>
+									{getReturnStatusName(status)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Textarea
+						label="Заметки о приёмке на склад"
+						value={restockingNotes}
+						onChange={(e) => setRestockingNotes(e.target.value)}
+						placeholder="Состояние упаковок, куда убраны"
+						rows={2}
+					/>
+					<Button
+						size="sm"
+						onClick={handleStatusChange}
+						disabled={!nextStatus || isSaving}
+					>
+						{isSaving ? "Сохранение..." : "Сменить статус"}
+					</Button>
+				</div>
+			) : (
+				orderReturn.restockingNotes && (
+					<p>
+						<span className="font-medium">Приёмка на склад:</span>{" "}
+						{orderReturn.restockingNotes}
+					</p>
+				)
+			)}
+		</div>
+	);
+}
+
+/**
+ * Returns of the order in OrderDrawer: the list with status controls
+ * and the form for a new return
+ */
+export function OrderReturnsSection({
+	order,
+	onRefunded,
+}: OrderReturnsSectionProps) {
+	const [isCreating, setIsCreating] = useState(false);
+	const { data: returns = [], isPending } = useQuery(
+		orderReturnsQueryOptions(order.id),
+	);
+
+	const returnable = getReturnableQuantities(
+		getReturnOrderLines(order),
+		returns
+			.filter((orderReturn) => isReturnActive(orderReturn.status))
+			.flatMap((orderReturn) => orderReturn.items),
+	);
+	const canCreate =
+		order.status !== "pending" &&
+		order.status !== "cancelled" &&
+		Array.from(returnable.values()).some((quantity) => quantity > 0);
+
+	return (
+		<DrawerSection title="Возвраты">
+			<div className="space-y-4">
+				{isPending ? (
+					<p className="text-sm text-muted-foreground">Загрузка возвратов...</p>
+				) : (
+					returns.length === 0 &&
+					!isCreating && (
+						<p className="text-sm text-muted-foreground">Возвратов нет</p>
+					)
+				)}
+
+				{returns.map((orderReturn) => (
+					<OrderReturnCard
+						key={orderReturn.id}
+						order={order}
+						orderReturn={orderReturn}
+						onRefunded={onRefunded}
+					/>
+				))}
+
+				{isCreating ? (
+					<OrderReturnForm
+						order={order}
+						returnable={returnable}
+						onDone={() => setIsCreating(false)}
+					/>
+				) : (
+					canCreate && (
+						<Button
+							size="sm"
+							variant="outline"
+							onClick={() => setIsCreating(true)}
+						>
+							Оформить возврат
+						</Button>
+					)
+				)}
+			</div>
+		</DrawerSection>
+	);
+}
@@ -0,0 +1,158 @@
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/shared/Button";
+import { Checkbox } from "~/components/ui/shared/Checkbox";
+import { Download } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "~/components/ui/shared/Popover";
+import {
+	ORDER_EXPORT_FORMATS,
+	ORDER_EXPORT_MIME_TYPES,
+	type OrderExportFormat,
+} from "~/constants/orderExport";
+import {
+	getOrderStatusName,
+	ORDER_STATUSES,
+	type OrderStatus,
+} from "~/constants/orderStatuses";
+import { exportOrders } from "~/server_functions/dashboard/orders/exportOrders";
+import { downloadBase64File } from "~/utils/fileDownload";
+
+export function OrdersExportPopover() {
+	const idPrefix = useId();
+	const [statuses, setStatuses] = useState<Set<OrderStatus>>(new Set());
+	const [dateFrom, setDateFrom] = useState("");
+	const [dateTo, setDateTo] = useState("");
+	const [pendingFormat, setPendingFormat] = useState<OrderExportFormat | null>(
+		null,
+	);
+
+	const toggleStatus = (status: OrderStatus, checked: boolean) => {
+		setStatuses((prev) => {
+			const next = new Set(prev);
+			if (checked) {
+				next.add(status);
+			} else {
+				next.delete(status);
+			}
+			return next;
+		});
+	};
+
+	const handleExport = async (format: OrderExportFormat) => {
+		if (dateFrom && dateTo && dateFrom > dateTo) {
+			toast.error("Дата начала позже даты окончания");
+			return;
+		}
+
+		setPendingFormat(format);
+		try {
+			const result = await exportOrders({
+				data: {
+					format,
+					statuses: Array.from(statuses),
+					dateFrom: dateFrom || undefined,
+					dateTo: dateTo || undefined,
+				},
+			});
+			if (result.orderCount === 0) {
+				toast.warning("Нет заказов по выбранным фильтрам");
+				return;
+			}
+			downloadBase64File(
+				result.base64,
+				result.fileName,
+				ORDER_EXPORT_MIME_TYPES[format],
+			);
+		} catch (error) {
+			console.error("Failed to export orders:", error);
+			toast.error("Не удалось выгрузить заказы");
+		} finally {
+			setPendingFormat(null);
+		}
+	};
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button variant="outline" size="sm" className="flex items-center gap-1">
+					<Download size={16} />
+					Экспорт
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="start" className="w-72 space-y-4">
+				<div className="space-y-2">
+					<p className="text-sm font-medium">Статусы</p>
+					{ORDER_STATUSES.map((status) => (
+						<div key={status} className="flex items-center gap-2">
+							<Checkbox
+								id={`${idPrefix}-${status}`}
+								checked={statuses.has(status)}
+								onCheckedChange={(checked) =>
+									toggleStatus(status, checked === true)
+								}
+							/>
+							<label
+								htmlFor={`${idPrefix}-${status}`}
+								className="text-sm cursor-pointer"
+							>
+								{getOrderStatusName(status)}
+							</label>
+						</div>
+					))}
+					<p className="text-xs text-muted-foreground">
+						Если ничего не выбрано — все статусы
+					</p>
+				</div>
+
+				<div className="grid grid-cols-2 gap-2">
+					<div className="space-y-1">
+						<label htmlFor={`${idPrefix}-from`} className="text-sm font-medium">
+							С
+						</label>
+						<Input
+							id={`${idPrefix}-from`}
+							type="date"
+							value={dateFrom}
+							onChange={(e) => setDateFrom(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1">
+						<label htmlFor={`${idPrefix}-to`} className="text-sm font-medium">
+							По
+						</label>
+						<Input
+							id={`${idPrefix}-to`}
+							type="date"
+							value={dateTo}
+							onChange={(e) => setDateTo(e.target.value)}
+						/>
+					</div>
+				</div>
+
+				<div className="flex gap-2">
+					{ORDER_EXPORT_FORMATS.map((format) => (
+						<Button
+							key={format}
+							type="button"
+							size="sm"
+							className="flex-1"
+							onClick={() => handleExport(format)}
+							disabled={pendingFormat !== null}
+						>
+							{pendingFormat === format ? "Выгрузка..." : format.toUpperCase()}
+						</Button>
+					))}
+				</div>
+				<p className="text-xs text-muted-foreground">
+					CSV — одна строка на позицию заказа. XLSX дополнительно содержит лист
+					со сводкой по заказам.
+				</p>
+			</PopoverContent>
+		</Popover>
+	);
+}
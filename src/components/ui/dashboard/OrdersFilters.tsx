@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/shared/Button";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import {
+	getOrderListSortName,
+	isOrderListSort,
+	ORDER_LIST_SORTS,
+	type OrderListSort,
+} from "~/constants/orderList";
+import {
+	getOrderStatusName,
+	isOrderStatus,
+	ORDER_STATUSES,
+	type OrderStatus,
+} from "~/constants/orderStatuses";
+import {
+	getPaymentStatusName,
+	isPaymentStatus,
+	PAYMENT_STATUSES,
+	type PaymentStatus,
+} from "~/constants/paymentStatuses";
+
+export interface OrdersFiltersValue {
+	status?: OrderStatus;
+	paymentStatus?: PaymentStatus;
+	dateFrom?: string;
+	dateTo?: string;
+	minTotal?: number;
+	maxTotal?: number;
+	deliveryNeedsReview?: boolean;
+	sort?: OrderListSort;
+}
+
+interface OrdersFiltersProps {
+	value: OrdersFiltersValue;
+	onChange: (update: Partial<OrdersFiltersValue>) => void;
+	onReset: () => void;
+}
+
+// Radix Select doesn't allow an empty value
+const ALL = "all";
+const DELIVERY_NEEDS_REVIEW = "needs-review";
+
+/**
+ * Filter bar of /dashboard/orders. The values live in the route search params,
+ * the amount fields are applied on blur so typing doesn't reload the list.
+ */
+export function OrdersFilters({
+	value,
+	onChange,
+	onReset,
+}: OrdersFiltersProps) {
+	const [minTotal, setMinTotal] = useState(value.minTotal?.toString() ?? "");
+	const [maxTotal, setMaxTotal] = useState(value.maxTotal?.toString() ?? "");
+
+	// Sync with URL on back/forward and reset
+	useEffect(() => {
+		setMinTotal(value.minTotal?.toString() ?? "");
+		setMaxTotal(value.maxTotal?.toString() ?? "");
+	}, [value.minTotal, value.maxTotal]);
+
+	const parseAmount = (amount: string) => {
+		const parsed = Number(amount.replace(",", "."));
+		return amount.trim() && Number.isFinite(parsed) && parsed >= 0
+			? parsed
+			: undefined;
+	};
+
+	const hasFilters =
+		value.status ||
+		value.paymentStatus ||
+		value.dateFrom ||
+		value.dateTo ||
+		value.minTotal !== undefined ||
+		value.maxTotal !== undefined ||
+		value.deliveryNeedsReview;
+
+	return (
+		<div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-9 gap-2 items-end">
+			<Select
+				value={value.status ?? ALL}
+				onValueChange={(status) =>
+					onChange({ status: isOrderStatus(status) ? status : undefined })
+				}
+			>
+				<SelectTrigger label="Статус">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={ALL}>Все</SelectItem>
+					{ORDER_STATUSES.map((status) => (
+						<SelectItem key={status} value={status}>
+							{getOrderStatusName(status)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<Select
+				value={value.paymentStatus ?? ALL}
+				onValueChange={(paymentStatus) =>
+					onChange({
+						paymentStatus: isPaymentStatus(paymentStatus)
+							? paymentStatus
+							: undefined,
+					})
+				}
+			>
+				<SelectTrigger label="Оплата">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={ALL}>Все</SelectItem>
+					{PAYMENT_STATUSES.map((status) => (
+						<SelectItem key={status} value={status}>
+							{getPaymentStatusName(status)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<Select
+				value={value.deliveryNeedsReview ? DELIVERY_NEEDS_REVIEW : ALL}
+				onValueChange={(delivery) =>
+					onChange({
+						deliveryNeedsReview:
+							delivery === DELIVERY_NEEDS_REVIEW ? true : undefined,
+					})
+				}
+			>
+				<SelectTrigger label="Доставка">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={ALL}>Все</SelectItem>
+					<SelectItem value={DELIVERY_NEEDS_REVIEW}>
+						Расстояние не подтверждено
+					</SelectItem>
+				</SelectContent>
+			</Select>
+
+			<Input
+				label="С даты"
+				type="date"
+				value={value.dateFrom ?? ""}
+				onChange={(e) => onChange({ dateFrom: e.target.value || undefined })}
+			/>
+			<Input
+				label="По дату"
+				type="date"
+				value={value.dateTo ?? ""}
+				onChange={(e) => onChange({ dateTo: e.target.value || undefined })}
+			/>
+
+			<Input
+				label="Сумма от"
+				inputMode="decimal"
+				value={minTotal}
+				onChange={(e) => setMinTotal(e.target.value)}
+				onBlur={() => onChange({ minTotal: parseAmount(minTotal) })}
+			/>
+			<Input
+				label="Сумма до"
+				inputMode="decimal"
+				value={maxTotal}
+				onChange={(e) => setMaxTotal(e.target.value)}
+				onBlur={() => onChange({ maxTotal: parseAmount(maxTotal) })}
+			/>
+
+			<Select
+				value={value.sort ?? "newest"}
+				onValueChange={(sort) =>
+					onChange({ sort: isOrderListSort(sort) ? sort : undefined })
+				}
+			>
+				<SelectTrigger label="Сортировка">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{ORDER_LIST_SORTS.map((sort) => (
+						<SelectItem key={sort} value={sort}>
+							{getOrderListSortName(sort)}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			<Button
+				variant="outline"
+				onClick={onReset}
+				disabled={!hasFilters}
+				className="h-10"
+			>
+				Сбросить
+			</Button>
+		</div>
+	);
+}
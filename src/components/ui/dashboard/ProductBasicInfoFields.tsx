@@ -10,7 +10,7 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "~/components/ui/shared/Select";
-import { UNITS_OF_MEASUREMENT } from "~/constants/units";
+import { UNIT_CODES, UNITS } from "~/constants/units";
 import { generateSlug } from "~/hooks/useSlugGeneration";
 import type { Brand, Category, Collection, ProductFormData } from "~/types";
 
@@ -151,6 +151,16 @@ export function ProductBasicInfoFields({
 					min="0"
 				/>
 
+				<Input
+					label="Длина упаковки/штуки (м.п.)"
+					type="number"
+					name="linearMetersPerPack"
+					value={formData.linearMetersPerPack || ""}
+					onChange={onChange}
+					step="0.01"
+					min="0"
+				/>
+
 				<div>
 					<Select
 						value={formData.unitOfMeasurement || "упаковка"}
@@ -165,9 +175,9 @@ export function ProductBasicInfoFields({
 							<SelectValue placeholder="Выберите единицу" />
 						</SelectTrigger>
 						<SelectContent>
-							{UNITS_OF_MEASUREMENT.map((unit) => (
-								<SelectItem key={unit} value={unit}>
-									{unit}
+							{UNIT_CODES.map((code) => (
+								<SelectItem key={code} value={UNITS[code].name}>
+									{UNITS[code].longLabel} ({UNITS[code].shortLabel})
 								</SelectItem>
 							))}
 						</SelectContent>
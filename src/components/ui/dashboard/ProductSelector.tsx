@@ -11,7 +11,7 @@ interface Product {
 
 interface ProductSelectorProps {
 	selectedProductSlug: string;
-	onProductSelect: (productSlug: string) => void;
+	onProductSelect: (productSlug: string, product: Product | null) => void;
 }
 
 // Placeholder component for products without images
@@ -95,14 +95,14 @@ export default function ProductSelector({
 
 	const handleProductSelect = (product: Product) => {
 		setSelectedProduct(product);
-		onProductSelect(product.slug);
+		onProductSelect(product.slug, product);
 		setShowDropdown(false);
 		setSearchTerm("");
 	};
 
 	const handleClearSelection = () => {
 		setSelectedProduct(null);
-		onProductSelect("");
+		onProductSelect("", null);
 		openDropdown();
 	};
 
@@ -6,7 +6,7 @@ import {
 	DrawerTrigger,
 } from "~/components/ui/shared/Drawer";
 import type { ActionButtonConfig } from "~/config/dashboardActionButtons";
-import { useCart } from "~/lib/cartContext";
+import { clearSavedCart, useCart } from "~/lib/cartContext";
 import { signOut } from "~/utils/auth-client";
 import { cn } from "~/utils/utils";
 import { CartDrawerContent } from "../store/CartDrawerContent";
@@ -163,6 +163,7 @@ export function BottomNavBar({
 	const handleLogout = async () => {
 		try {
 			await signOut();
+			clearSavedCart();
 			// Clear any local storage or cached data
 			localStorage.clear();
 			sessionStorage.clear();
@@ -32,11 +32,22 @@ const entityTranslations: Record<
 	},
 	products: { singular: "товар", plural: "товары", genitive: "товаров" },
 	orders: { singular: "заказ", plural: "заказы", genitive: "заказов" },
+	coupons: {
+		singular: "промокод",
+		plural: "промокоды",
+		genitive: "промокодов",
+	},
 	attributes: {
 		singular: "атрибут",
 		plural: "атрибуты",
 		genitive: "атрибутов",
 	},
+	quotes: { singular: "смета", plural: "сметы", genitive: "смет" },
+	"blocked-attempts": {
+		singular: "блокировка",
+		plural: "блокировки",
+		genitive: "блокировок",
+	},
 };
 
 export function EmptyState({
@@ -14,7 +14,7 @@ import { getActionButtonsForRoute } from "~/config/dashboardActionButtons";
 import { usePrefetch } from "~/hooks/usePrefetch";
 import { useScrollDirection } from "~/hooks/useScrollDirection";
 import { useSearchPlaceholderWithCount } from "~/hooks/useSearchPlaceholderWithCount";
-import { useCart } from "~/lib/cartContext";
+import { clearSavedCart, useCart } from "~/lib/cartContext";
 import { useClientSearch } from "~/lib/clientSearchContext";
 import {
 	categoriesQueryOptions,
@@ -29,6 +29,7 @@ import { Button } from "./Button";
 import {
 	ArrowLeftFromLine,
 	Icon,
+	AlertCircle as IconAlert,
 	BadgeCheck as IconBadgeTm,
 	Box as IconBox,
 	FolderTree as IconCategory,
@@ -62,6 +63,13 @@ const dashboardNavItems: NavItem[] = [
 	{ name: "Коллекции", url: "/dashboard/collections", icon: IconCategory },
 	{ name: "Атрибуты", url: "/dashboard/attributes", icon: IconTags },
 	{ name: "Заказы", url: "/dashboard/orders", icon: IconPackage },
+	{ name: "Промокоды", url: "/dashboard/coupons", icon: IconTags },
+	{ name: "Сметы", url: "/dashboard/quotes", icon: IconPackage },
+	{
+		name: "Блокировки",
+		url: "/dashboard/blocked-attempts",
+		icon: IconAlert,
+	},
 	{ name: "Прочее", url: "/dashboard/misc", icon: IconCategory },
 ];
 
@@ -245,6 +253,7 @@ const DropdownNavMenu = ({
 							onClick={async () => {
 								try {
 									const _result = await signOut();
+									clearSavedCart();
 
 									// Clear any local storage or cached data
 									localStorage.clear();
@@ -892,6 +901,7 @@ export function NavBar({ className }: Omit<NavBarProps, "items">) {
 				search: (prev) => ({
 					...(prev as Record<string, unknown>),
 					search: applied,
+					page: undefined, // Paginated lists start over on a new search
 				}),
 				replace: true,
 			});
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/shared/Button";
+import { Download } from "~/components/ui/shared/Icon";
+import {
+	getOrderDocumentName,
+	ORDER_DOCUMENT_TYPES,
+	type OrderDocumentType,
+} from "~/constants/orderDocuments";
+import { cn } from "~/lib/utils";
+import { generateOrderDocument } from "~/server_functions/dashboard/orders/generateOrderDocument";
+import { downloadBase64File } from "~/utils/fileDownload";
+
+interface OrderDocumentButtonsProps {
+	orderId: string; // Public token, or numeric ID in the dashboard
+	className?: string;
+}
+
+export function OrderDocumentButtons({
+	orderId,
+	className,
+}: OrderDocumentButtonsProps) {
+	const [pendingType, setPendingType] = useState<OrderDocumentType | null>(
+		null,
+	);
+
+	const handleDownload = async (type: OrderDocumentType) => {
+		setPendingType(type);
+		try {
+			const result = await generateOrderDocument({ data: { orderId, type } });
+			downloadBase64File(result.base64, result.fileName, "application/pdf");
+		} catch (error) {
+			console.error("Failed to generate order document:", error);
+			toast.error("Не удалось сформировать документ");
+		} finally {
+			setPendingType(null);
+		}
+	};
+
+	return (
+		<div className={cn("flex flex-wrap gap-2", className)}>
+			{ORDER_DOCUMENT_TYPES.map((type) => (
+				<Button
+					key={type}
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={() => handleDownload(type)}
+					disabled={pendingType !== null}
+				>
+					<Download size={16} />
+					{pendingType === type
+						? "Формирование..."
+						: getOrderDocumentName(type)}
+				</Button>
+			))}
+		</div>
+	);
+}
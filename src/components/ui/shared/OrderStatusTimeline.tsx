@@ -0,0 +1,68 @@
+import { getOrderStatusName } from "~/constants/orderStatuses";
+import { cn, formatDateTime } from "~/lib/utils";
+
+interface OrderStatusTimelineEntry {
+	id: number;
+	fromStatus?: string | null;
+	toStatus: string;
+	changedBy?: string | null;
+	comment: string | null;
+	createdAt: Date;
+}
+
+interface OrderStatusTimelineProps {
+	entries: OrderStatusTimelineEntry[];
+	showAuthor?: boolean; // Only in dashboard - public order page must not expose admin emails
+	className?: string;
+}
+
+export function OrderStatusTimeline({
+	entries,
+	showAuthor = false,
+	className,
+}: OrderStatusTimelineProps) {
+	if (entries.length === 0) {
+		return (
+			<p className={cn("text-sm text-muted-foreground", className)}>
+				История статусов пока пуста
+			</p>
+		);
+	}
+
+	return (
+		<ol className={cn("relative border-l border-border ml-2", className)}>
+			{entries.map((entry, index) => {
+				const isLatest = index === entries.length - 1;
+
+				return (
+					<li key={entry.id} className="ml-4 pb-4 last:pb-0">
+						<span
+							className={cn(
+								"absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background",
+								isLatest ? "bg-primary" : "bg-muted-foreground/40",
+							)}
+						/>
+						<p className="text-xs text-muted-foreground">
+							{formatDateTime(entry.createdAt)}
+						</p>
+						<p className={cn("text-sm", isLatest && "font-medium")}>
+							{entry.fromStatus
+								? `${getOrderStatusName(entry.fromStatus)} → ${getOrderStatusName(entry.toStatus)}`
+								: getOrderStatusName(entry.toStatus)}
+						</p>
+						{entry.comment && (
+							<p className="text-sm text-muted-foreground whitespace-pre-line">
+								{entry.comment}
+							</p>
+						)}
+						{showAuthor && (
+							<p className="text-xs text-muted-foreground">
+								{entry.changedBy ?? "Система"}
+							</p>
+						)}
+					</li>
+				);
+			})}
+		</ol>
+	);
+}
@@ -0,0 +1,48 @@
+import { Button } from "~/components/ui/shared/Button";
+import { AlertCircle } from "~/components/ui/shared/Icon";
+import { useCartRevalidation } from "~/hooks/useCartRevalidation";
+import { useCart } from "~/lib/cartContext";
+import { cn } from "~/lib/utils";
+
+/**
+ * What changed in the catalog since the items were put into the cart.
+ * The customer confirms the new prices before checking out.
+ */
+export function CartChangesNotice({ className }: { className?: string }) {
+	const { cart } = useCart();
+	const { getItemChange, hasChanges, applyChanges } = useCartRevalidation();
+
+	if (!hasChanges) return null;
+
+	return (
+		<div
+			className={cn(
+				"rounded-lg border border-destructive/50 p-4 space-y-3 text-sm",
+				className,
+			)}
+		>
+			<p className="flex items-center gap-2 font-medium">
+				<AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+				Товары в корзине изменились
+			</p>
+			<ul className="space-y-1">
+				{cart.items.map((item) => {
+					const change = getItemChange(item);
+					if (!change) return null;
+
+					return (
+						<li key={`${item.productId}-${item.variationId || "default"}`}>
+							<span className="font-medium">{item.productName}</span>:{" "}
+							{change.type === "price_changed"
+								? `цена изменилась с ${change.from.toFixed(2)} р до ${change.to.toFixed(2)} р`
+								: change.message.toLowerCase()}
+						</li>
+					);
+				})}
+			</ul>
+			<Button size="sm" onClick={applyChanges}>
+				Обновить корзину
+			</Button>
+		</div>
+	);
+}
@@ -8,8 +8,10 @@ import {
 import { useEnrichedCart } from "~/hooks/useEnrichedCart";
 import { useCart } from "~/lib/cartContext";
 import { ShoppingBag } from "../shared/Icon";
+import { CartChangesNotice } from "./CartChangesNotice";
 import { CartItem } from "./CartItem";
 import { CartCheckoutButton, CartSummary } from "./CartSummary";
+import { SaveQuoteButton } from "./SaveQuoteButton";
 
 export function CartDrawerContent() {
 	const { cart } = useCart();
@@ -42,6 +44,7 @@ export function CartDrawerContent() {
 					</div>
 				) : (
 					<div className="space-y-6">
+						<CartChangesNotice />
 						<div className="space-y-4">
 							{enrichedItems.map((item) => (
 								<CartItem
@@ -59,6 +62,7 @@ export function CartDrawerContent() {
 			{enrichedItems.length > 0 && (
 				<DrawerFooter>
 					<CartCheckoutButton />
+					<SaveQuoteButton />
 				</DrawerFooter>
 			)}
 		</>
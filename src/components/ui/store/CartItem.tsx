@@ -1,6 +1,7 @@
 import { Badge } from "~/components/ui/shared/Badge";
 import { Link } from "~/components/ui/shared/Link";
 import { QuantitySelector } from "~/components/ui/shared/QuantitySelector";
+import { UNITS } from "~/constants/units";
 import { ASSETS_BASE_URL } from "~/constants/urls";
 import type { EnrichedCartItem } from "~/hooks/useEnrichedCart";
 import {
@@ -9,6 +10,14 @@ import {
 } from "~/hooks/useProductAttributes";
 import { useCart } from "~/lib/cartContext";
 import { parseImages } from "~/utils/productParsing";
+import {
+	formatArea,
+	getPacksArea,
+	getSaleStep,
+	getSaleUnitCode,
+	isPackProduct,
+	normalizeSaleQuantity,
+} from "~/utils/units";
 import { Skeleton } from "../dashboard/skeleton";
 import { Icon, X } from "../shared/Icon";
 
@@ -21,13 +30,23 @@ export function CartItem({ item }: CartItemProps) {
 	const { updateQuantity, removeFromCart } = useCart();
 	const { data: attributes } = useProductAttributes();
 
+	const step = getSaleStep(item);
+
 	const handleIncrement = () => {
-		updateQuantity(item.productId, item.quantity + 1, item.variationId);
+		updateQuantity(
+			item.productId,
+			normalizeSaleQuantity(item.quantity + step, item),
+			item.variationId,
+		);
 	};
 
 	const handleDecrement = () => {
-		if (item.quantity > 1) {
-			updateQuantity(item.productId, item.quantity - 1, item.variationId);
+		if (item.quantity > step) {
+			updateQuantity(
+				item.productId,
+				normalizeSaleQuantity(item.quantity - step, item),
+				item.variationId,
+			);
 		}
 	};
 
@@ -113,13 +132,19 @@ export function CartItem({ item }: CartItemProps) {
 					</div>
 				)}
 
-				<div className="mt-2">
+				<div className="mt-2 flex items-center gap-2">
 					<QuantitySelector
 						quantity={item.quantity}
 						onIncrement={handleIncrement}
 						onDecrement={handleDecrement}
+						minQuantity={step}
 						size="compact"
 					/>
+					<span className="text-sm text-muted-foreground">
+						{UNITS[getSaleUnitCode(item)].shortLabel}
+						{isPackProduct(item.squareMetersPerPack) &&
+							` · ${formatArea(getPacksArea(item.quantity, item.squareMetersPerPack))}`}
+					</span>
 				</div>
 			</div>
 
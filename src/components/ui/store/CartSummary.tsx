@@ -1,6 +1,8 @@
 import { useNavigate } from "@tanstack/react-router";
 import { useState } from "react";
 import { Button } from "~/components/ui/shared/Button";
+import { CouponCodeField } from "~/components/ui/store/CouponCodeField";
+import { useCouponPreview } from "~/hooks/useCouponPreview";
 import { useEnrichedCart } from "~/hooks/useEnrichedCart";
 import { useCart } from "~/lib/cartContext";
 import { Badge } from "../shared/Badge";
@@ -8,6 +10,7 @@ import { Badge } from "../shared/Badge";
 export function CartSummary() {
 	const { cart } = useCart();
 	const enrichedItems = useEnrichedCart(cart.items);
+	const { couponDiscount } = useCouponPreview();
 
 	// Calculate cart totals with discounts
 	const subtotal = enrichedItems.reduce(
@@ -22,10 +25,12 @@ export function CartSummary() {
 		return total;
 	}, 0);
 
-	const total = subtotal - discountTotal;
+	const total = subtotal - discountTotal - couponDiscount;
 
 	return (
 		<div className="space-y-2 pb-0">
+			<CouponCodeField />
+
 			<div className="flex justify-between text-sm">
 				<p>Промежуточный итог</p>
 				<p>{subtotal.toFixed(2)} р</p>
@@ -40,6 +45,15 @@ export function CartSummary() {
 				</div>
 			)}
 
+			{couponDiscount > 0 && (
+				<div className="flex justify-between text-sm text-foreground">
+					<p>Промокод</p>
+					<Badge variant="green" className="text-sm translate-x-2">
+						-{couponDiscount.toFixed(2)} р
+					</Badge>
+				</div>
+			)}
+
 			<div className="flex justify-between">
 				<span>Итого</span>
 				<h4>{total.toFixed(2)} р</h4>
@@ -55,6 +69,7 @@ export function CartSummary() {
 export function CartCheckoutButton() {
 	const { cart, setCartOpen } = useCart();
 	const enrichedItems = useEnrichedCart(cart.items);
+	const { couponDiscount } = useCouponPreview();
 	const [isLoading, setIsLoading] = useState(false);
 	const navigate = useNavigate();
 
@@ -71,7 +86,7 @@ export function CartCheckoutButton() {
 		return total;
 	}, 0);
 
-	const total = subtotal - discountTotal;
+	const total = subtotal - discountTotal - couponDiscount;
 
 	const handleCheckout = async () => {
 		if (cart.items.length === 0) return;
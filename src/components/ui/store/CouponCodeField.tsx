@@ -0,0 +1,120 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/shared/Button";
+import { X } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import { useCouponPreview } from "~/hooks/useCouponPreview";
+import { useEnrichedCart } from "~/hooks/useEnrichedCart";
+import { useCart } from "~/lib/cartContext";
+import { couponPreviewQueryOptions } from "~/lib/queryOptions";
+
+/**
+ * Promo code input for the cart drawer and checkout.
+ * The code is checked before it's saved to the cart, so only valid codes stick.
+ */
+export function CouponCodeField() {
+	const queryClient = useQueryClient();
+	const { cart, applyCoupon, removeCoupon } = useCart();
+	const enrichedItems = useEnrichedCart(cart.items);
+	const { couponCode, appliedCoupon, couponError, isChecking } =
+		useCouponPreview();
+	const [code, setCode] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isApplying, setIsApplying] = useState(false);
+
+	const handleApply = async () => {
+		const normalizedCode = code.trim().toUpperCase();
+		if (!normalizedCode) return;
+
+		setIsApplying(true);
+		setError(null);
+		try {
+			// Same query the totals use, so the result is reused after applying
+			const result = await queryClient.fetchQuery(
+				couponPreviewQueryOptions(
+					normalizedCode,
+					enrichedItems.map((item) => ({
+						productId: item.productId,
+						variationId: item.variationId ?? null,
+						quantity: item.quantity,
+					})),
+				),
+			);
+			if (!result.success) {
+				setError(result.message);
+				return;
+			}
+			applyCoupon(normalizedCode);
+			setCode("");
+			toast.success(`Промокод ${result.code} применён`);
+		} catch (applyError) {
+			console.error("Failed to apply coupon:", applyError);
+			setError("Не удалось проверить промокод");
+		} finally {
+			setIsApplying(false);
+		}
+	};
+
+	if (couponCode) {
+		return (
+			<div className="space-y-1">
+				<div className="flex items-center justify-between gap-2 text-sm">
+					<span>
+						Промокод <span className="font-medium">{couponCode}</span>
+						{appliedCoupon?.description && (
+							<span className="text-muted-foreground">
+								{" "}
+								— {appliedCoupon.description}
+							</span>
+						)}
+					</span>
+					<button
+						type="button"
+						onClick={removeCoupon}
+						className="flex items-center justify-center w-6 h-6 hover:bg-muted rounded transition-colors"
+						aria-label="Убрать промокод"
+					>
+						<X size={14} />
+					</button>
+				</div>
+				{isChecking && (
+					<p className="text-xs text-muted-foreground">Проверка промокода...</p>
+				)}
+				{couponError && !isChecking && (
+					<p className="text-xs text-destructive">{couponError}</p>
+				)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-1">
+			<div className="flex items-end gap-2">
+				<div className="flex-1">
+					<Input
+						label="Промокод"
+						value={code}
+						onChange={(e) => setCode(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								handleApply();
+							}
+						}}
+						className="uppercase"
+					/>
+				</div>
+				<Button
+					type="button"
+					variant="outline"
+					onClick={handleApply}
+					disabled={!code.trim() || isApplying || enrichedItems.length === 0}
+				>
+					{isApplying ? "Проверка..." : "Применить"}
+				</Button>
+			</div>
+			{error && <p className="text-xs text-destructive">{error}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "~/components/ui/shared/Button";
+import { Link } from "~/components/ui/shared/Link";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import {
+	createRoom,
+	type RoomDraft,
+	RoomList,
+	toRoomInput,
+} from "~/components/ui/store/RoomFields";
+import {
+	getLayingPatternName,
+	isLayingPattern,
+	LAYING_PATTERN_WASTE,
+	LAYING_PATTERNS,
+	type LayingPattern,
+} from "~/constants/layingPatterns";
+import { estimateFlooring } from "~/utils/roomCalculator";
+import { formatArea, formatQuantity } from "~/utils/units";
+
+interface FlooringCalculatorProps {
+	productSlug: string;
+	squareMetersPerPack: number;
+	packPrice: number; // After discount
+	canAddToCart: boolean;
+	onAddToCart: (packs: number) => void;
+}
+
+const formatPrice = (amount: number) =>
+	`${Math.round(amount).toLocaleString("ru-RU")} р`;
+
+/**
+ * How many packs the rooms need, including the waste for the laying pattern
+ */
+export function FlooringCalculator({
+	productSlug,
+	squareMetersPerPack,
+	packPrice,
+	canAddToCart,
+	onAddToCart,
+}: FlooringCalculatorProps) {
+	const [isOpen, setIsOpen] = useState(false);
+	const [rooms, setRooms] = useState<RoomDraft[]>([createRoom(0)]);
+	const [pattern, setPattern] = useState<LayingPattern>("straight");
+
+	const estimate = estimateFlooring(
+		rooms.map(toRoomInput),
+		pattern,
+		squareMetersPerPack,
+		packPrice,
+	);
+
+	if (!isOpen) {
+		return (
+			<Button
+				type="button"
+				variant="outline"
+				className="w-full"
+				onClick={() => setIsOpen(true)}
+			>
+				Рассчитать количество упаковок
+			</Button>
+		);
+	}
+
+	return (
+		<div className="border border-border rounded-lg p-4 space-y-4">
+			<div className="flex items-center justify-between gap-3">
+				<h6>Калькулятор пола</h6>
+				<Button
+					type="button"
+					variant="link"
+					size="sm"
+					onClick={() => setIsOpen(false)}
+				>
+					Свернуть
+				</Button>
+			</div>
+
+			<RoomList rooms={rooms} onRoomsChange={setRooms} />
+
+			<Select
+				value={pattern}
+				onValueChange={(value) => {
+					if (isLayingPattern(value)) setPattern(value);
+				}}
+			>
+				<SelectTrigger label="Способ укладки">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{LAYING_PATTERNS.map((option) => (
+						<SelectItem key={option} value={option}>
+							{getLayingPatternName(option)} (запас{" "}
+							{LAYING_PATTERN_WASTE[option]}%)
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+
+			{estimate ? (
+				<div className="space-y-1 text-sm">
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">Площадь комнат</span>
+						<span>{formatArea(estimate.area)}</span>
+					</div>
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">
+							С запасом {estimate.wastePercentage}%
+						</span>
+						<span>{formatArea(estimate.requiredArea)}</span>
+					</div>
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">Упаковок</span>
+						<span>
+							{estimate.packs} ({formatArea(estimate.packsArea)})
+						</span>
+					</div>
+					<div className="flex justify-between font-medium text-base pt-1">
+						<span>Итого</span>
+						<span>{formatPrice(estimate.totalPrice)}</span>
+					</div>
+				</div>
+			) : (
+				<p className="text-sm text-muted-foreground">
+					Укажите размеры комнаты, чтобы рассчитать количество
+				</p>
+			)}
+
+			<Button
+				type="button"
+				className="w-full"
+				disabled={!estimate || !canAddToCart}
+				onClick={() => estimate && onAddToCart(estimate.packs)}
+			>
+				{estimate
+					? `Добавить ${formatQuantity(estimate.packs, "pack")} в корзину`
+					: "Добавить в корзину"}
+			</Button>
+			<Link
+				href={`/estimator?product=${encodeURIComponent(productSlug)}`}
+				className="block text-center text-sm text-accent"
+			>
+				Подобрать подложку, плинтус и пороги
+			</Link>
+		</div>
+	);
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Input } from "~/components/ui/shared/input";
+import {
+	formatArea,
+	getPacksArea,
+	getPacksForArea,
+	parseArea,
+} from "~/utils/units";
+
+interface PackAreaInputProps {
+	packs: number;
+	squareMetersPerPack: number;
+	onPacksChange: (packs: number) => void;
+}
+
+/**
+ * Area the customer needs, in m². Every change is rounded up to whole packs,
+ * the field shows the covered area again once it loses focus.
+ */
+export function PackAreaInput({
+	packs,
+	squareMetersPerPack,
+	onPacksChange,
+}: PackAreaInputProps) {
+	// What the customer is typing, null when showing the area of the packs
+	const [areaText, setAreaText] = useState<string | null>(null);
+
+	const packsArea = getPacksArea(packs, squareMetersPerPack);
+	const typedArea = areaText !== null ? parseArea(areaText) : null;
+	const isRounded =
+		typedArea !== null && Math.abs(packsArea - typedArea) >= 0.0005;
+
+	return (
+		<div className="flex flex-col items-center justify-center w-full gap-0">
+			<div className="flex items-baseline justify-center gap-1 text-lg sm:text-xl font-normal whitespace-nowrap text-foreground">
+				<Input
+					type="text"
+					inputMode="decimal"
+					aria-label="Площадь, м²"
+					value={areaText ?? String(Number(packsArea.toFixed(3)))}
+					onChange={(e) => {
+						setAreaText(e.target.value);
+						const area = parseArea(e.target.value);
+						if (area !== null) {
+							onPacksChange(getPacksForArea(area, squareMetersPerPack));
+						}
+					}}
+					onBlur={() => setAreaText(null)}
+					className="text-lg sm:text-xl font-normal text-center border-0 bg-transparent shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 p-0 m-0 h-auto w-auto min-w-[4ch] max-w-[9ch] field-sizing-content"
+				/>
+				м²
+			</div>
+			<div className="text-xs sm:text-sm font-normal whitespace-nowrap text-muted-foreground -mt-1">
+				{isRounded ? `Округлено до ${formatArea(packsArea)}` : "Площадь"}
+			</div>
+		</div>
+	);
+}
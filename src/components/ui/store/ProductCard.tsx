@@ -22,6 +22,7 @@ import type {
 	VariationAttribute,
 } from "~/types";
 import { parseImages, parseProductAttributes } from "~/utils/productParsing";
+import { getPackPrice } from "~/utils/units";
 import { sortVariationsForDisplay } from "~/utils/variationSort";
 import { FilterGroup } from "../shared/FilterGroup";
 import { Icon } from "../shared/Icon";
@@ -257,10 +258,15 @@ function ProductCard({
 					variationId: selectedVariation?.id,
 					productName: product.name,
 					productSlug: product.slug,
-					price: selectedVariation?.price ?? product.price,
+					price: getPackPrice(
+						selectedVariation?.price ?? product.price,
+						product.squareMetersPerPack,
+					),
 					images: product.images,
 					discount: selectedVariation?.discount ?? product.discount,
 					attributes: variationAttributes,
+					squareMetersPerPack: product.squareMetersPerPack,
+					unitOfMeasurement: product.unitOfMeasurement,
 				});
 			} catch (error) {
 				console.error("Error adding to cart:", error);
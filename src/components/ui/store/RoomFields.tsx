@@ -0,0 +1,177 @@
+import { Button } from "~/components/ui/shared/Button";
+import { Plus, Trash } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import {
+	getRoomArea,
+	type RoomInput,
+	type RoomShape,
+} from "~/utils/roomCalculator";
+import { formatArea } from "~/utils/units";
+
+/**
+ * Size fields of one room, shared by the flooring calculator
+ * and the project estimator. Sizes are kept as typed.
+ */
+export interface RoomDraft {
+	key: number;
+	shape: RoomShape;
+	length: string;
+	width: string;
+	cutoutLength: string;
+	cutoutWidth: string;
+}
+
+const parseSize = (value: string) =>
+	Number.parseFloat(value.replace(",", ".")) || 0;
+
+export const toRoomInput = (room: RoomDraft): RoomInput => ({
+	shape: room.shape,
+	length: parseSize(room.length),
+	width: parseSize(room.width),
+	cutoutLength: parseSize(room.cutoutLength),
+	cutoutWidth: parseSize(room.cutoutWidth),
+});
+
+export const createRoom = (key: number): RoomDraft => ({
+	key,
+	shape: "rectangle",
+	length: "",
+	width: "",
+	cutoutLength: "",
+	cutoutWidth: "",
+});
+
+const createNextRoom = (rooms: RoomDraft[]) =>
+	createRoom(Math.max(-1, ...rooms.map((room) => room.key)) + 1);
+
+interface RoomFieldsProps {
+	room: RoomDraft;
+	index: number;
+	canRemove: boolean;
+	onChange: (update: Partial<RoomDraft>) => void;
+	onRemove: () => void;
+}
+
+function RoomFields({
+	room,
+	index,
+	canRemove,
+	onChange,
+	onRemove,
+}: RoomFieldsProps) {
+	const area = getRoomArea(toRoomInput(room));
+	const sizeFields: Array<[keyof RoomDraft, string]> =
+		room.shape === "rectangle"
+			? [
+					["length", "Длина, м"],
+					["width", "Ширина, м"],
+				]
+			: [
+					["length", "Общая длина, м"],
+					["width", "Общая ширина, м"],
+					["cutoutLength", "Длина выреза, м"],
+					["cutoutWidth", "Ширина выреза, м"],
+				];
+
+	return (
+		<div className="space-y-3 border-b border-border pb-3">
+			<div className="flex items-center gap-3">
+				<p className="font-medium flex-1">Комната {index + 1}</p>
+				{area !== null && (
+					<span className="text-sm text-muted-foreground">
+						{formatArea(area)}
+					</span>
+				)}
+				{canRemove && (
+					<Button
+						type="button"
+						variant="outline"
+						size="icon"
+						onClick={onRemove}
+						aria-label="Удалить комнату"
+					>
+						<Trash size={16} />
+					</Button>
+				)}
+			</div>
+			<Select
+				value={room.shape}
+				onValueChange={(value) => onChange({ shape: value as RoomShape })}
+			>
+				<SelectTrigger label="Форма">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value="rectangle">Прямоугольная</SelectItem>
+					<SelectItem value="l-shape">Г-образная</SelectItem>
+				</SelectContent>
+			</Select>
+			<div className="grid grid-cols-2 gap-3">
+				{sizeFields.map(([field, label]) => (
+					<Input
+						key={field}
+						label={label}
+						type="text"
+						inputMode="decimal"
+						value={room[field]}
+						onChange={(e) => onChange({ [field]: e.target.value })}
+					/>
+				))}
+			</div>
+			{room.shape === "l-shape" && (
+				<p className="text-xs text-muted-foreground">
+					Измерьте комнату как прямоугольник и укажите размер угла, которого не
+					хватает до него
+				</p>
+			)}
+		</div>
+	);
+}
+
+interface RoomListProps {
+	rooms: RoomDraft[];
+	onRoomsChange: (update: (rooms: RoomDraft[]) => RoomDraft[]) => void;
+}
+
+/**
+ * Rooms with the "add room" button, at least one room is always kept
+ */
+export function RoomList({ rooms, onRoomsChange }: RoomListProps) {
+	return (
+		<>
+			{rooms.map((room, index) => (
+				<RoomFields
+					key={room.key}
+					room={room}
+					index={index}
+					canRemove={rooms.length > 1}
+					onChange={(update) =>
+						onRoomsChange((prev) =>
+							prev.map((r) => (r.key === room.key ? { ...r, ...update } : r)),
+						)
+					}
+					onRemove={() =>
+						onRoomsChange((prev) => prev.filter((r) => r.key !== room.key))
+					}
+				/>
+			))}
+
+			<Button
+				type="button"
+				variant="outline"
+				size="sm"
+				onClick={() => onRoomsChange((prev) => [...prev, createNextRoom(prev)])}
+			>
+				<Plus size={16} />
+				Добавить комнату
+			</Button>
+		</>
+	);
+}
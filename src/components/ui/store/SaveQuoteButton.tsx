@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/shared/Button";
+import { Input } from "~/components/ui/shared/input";
+import { useCart } from "~/lib/cartContext";
+import { createQuote } from "~/server_functions/store/createQuote";
+import { QUOTE_TITLE_MAX_LENGTH } from "~/utils/quotes";
+
+/**
+ * Save the cart as a quote and show its short link to send to a client
+ */
+export function SaveQuoteButton() {
+	const { cart } = useCart();
+	const [isOpen, setIsOpen] = useState(false);
+	const [title, setTitle] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+	const [quoteUrl, setQuoteUrl] = useState<string | null>(null);
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		try {
+			const { token, skippedCount } = await createQuote({
+				data: {
+					title,
+					items: cart.items.map((item) => ({
+						productId: item.productId,
+						variationId: item.variationId,
+						quantity: item.quantity,
+					})),
+				},
+			});
+			setQuoteUrl(`${window.location.origin}/quote/${token}`);
+			if (skippedCount > 0) {
+				toast.warning(
+					`Смета сохранена без недоступных товаров (${skippedCount})`,
+				);
+			}
+		} catch (error) {
+			console.error("Failed to save quote:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось сохранить смету",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleCopy = async () => {
+		if (!quoteUrl) return;
+		try {
+			await navigator.clipboard.writeText(quoteUrl);
+			toast.success("Ссылка скопирована");
+		} catch {
+			toast.error("Не удалось скопировать ссылку");
+		}
+	};
+
+	if (!isOpen) {
+		return (
+			<Button
+				variant="outline"
+				className="w-full"
+				onClick={() => setIsOpen(true)}
+				disabled={cart.items.length === 0}
+			>
+				Сохранить смету
+			</Button>
+		);
+	}
+
+	if (quoteUrl) {
+		return (
+			<div className="space-y-2">
+				<p className="text-sm text-muted-foreground">
+					Ссылка на смету, цены в ней зафиксированы:
+				</p>
+				<div className="flex gap-2">
+					<Input
+						value={quoteUrl}
+						readOnly
+						onFocus={(e) => e.target.select()}
+						aria-label="Ссылка на смету"
+					/>
+					<Button variant="outline" onClick={handleCopy}>
+						Копировать
+					</Button>
+				</div>
+				<Button
+					variant="link"
+					size="sm"
+					onClick={() => {
+						setQuoteUrl(null);
+						setTitle("");
+						setIsOpen(false);
+					}}
+				>
+					Готово
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<Input
+				label="Название сметы"
+				value={title}
+				onChange={(e) => setTitle(e.target.value)}
+				maxLength={QUOTE_TITLE_MAX_LENGTH}
+				placeholder="Например: кухня, ул. Ленина 5"
+			/>
+			<div className="flex gap-2">
+				<Button onClick={handleSave} disabled={isSaving}>
+					{isSaving ? "Сохранение..." : "Получить ссылку"}
+				</Button>
+				<Button variant="outline" onClick={() => setIsOpen(false)}>
+					Отмена
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -133,6 +133,17 @@ const ACTION_BUTTON_CONFIGS: ActionButtonRouteConfig[] = [
 			},
 		],
 	},
+	// Coupons page - Add coupon button
+	{
+		matcher: (pathname) => pathname === "/dashboard/coupons",
+		buttons: () => [
+			{
+				label: "Добавить промокод",
+				onClick: () => window.dispatchEvent(new CustomEvent("dashboardAction")),
+				variant: "default",
+			},
+		],
+	},
 ];
 
 /**
@@ -0,0 +1,53 @@
+// Публичные серверные функции, защищённые от спама
+export const PROTECTED_ACTIONS = ["create_order", "create_quote"] as const;
+
+export type ProtectedAction = (typeof PROTECTED_ACTIONS)[number];
+
+export const isProtectedAction = (value: unknown): value is ProtectedAction =>
+	PROTECTED_ACTIONS.includes(value as ProtectedAction);
+
+export const getProtectedActionName = (action: string) => {
+	switch (action) {
+		case "create_order":
+			return "Оформление заказа";
+		case "create_quote":
+			return "Сохранение сметы";
+		case "send_order_emails": // Старые записи, письма теперь отправляет createOrder
+			return "Письма о заказе";
+		default:
+			return action;
+	}
+};
+
+// Почему запрос был заблокирован
+export const BLOCKED_ATTEMPT_REASONS = [
+	"ip_rate_limit",
+	"phone_rate_limit",
+	"honeypot",
+	"too_fast",
+	"invalid_form_token",
+] as const;
+
+export type BlockedAttemptReason = (typeof BLOCKED_ATTEMPT_REASONS)[number];
+
+export const isBlockedAttemptReason = (
+	value: unknown,
+): value is BlockedAttemptReason =>
+	BLOCKED_ATTEMPT_REASONS.includes(value as BlockedAttemptReason);
+
+export const getBlockedAttemptReasonName = (reason: string) => {
+	switch (reason) {
+		case "ip_rate_limit":
+			return "Слишком много запросов с IP";
+		case "phone_rate_limit":
+			return "Слишком много запросов с телефона";
+		case "honeypot":
+			return "Заполнено скрытое поле";
+		case "too_fast":
+			return "Форма заполнена слишком быстро";
+		case "invalid_form_token":
+			return "Нет подписи формы";
+		default:
+			return reason;
+	}
+};
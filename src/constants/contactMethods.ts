@@ -0,0 +1,27 @@
+// Способы связи с клиентом, которые можно выбрать при оформлении заказа
+export const CONTACT_METHODS = [
+	"whatsapp",
+	"email",
+	"telegram",
+	"phone",
+] as const;
+
+export type ContactMethod = (typeof CONTACT_METHODS)[number];
+
+export const isContactMethod = (value: unknown): value is ContactMethod =>
+	CONTACT_METHODS.includes(value as ContactMethod);
+
+export const getContactMethodName = (method: string | null | undefined) => {
+	switch (method) {
+		case "whatsapp":
+			return "WhatsApp";
+		case "email":
+			return "Email";
+		case "telegram":
+			return "Telegram";
+		case "phone":
+			return "Телефон";
+		default:
+			return "Не указан";
+	}
+};
@@ -0,0 +1,20 @@
+// Типы скидки по промокоду: процент от суммы или фиксированная сумма в рублях
+export const COUPON_DISCOUNT_TYPES = ["percent", "fixed"] as const;
+
+export type CouponDiscountType = (typeof COUPON_DISCOUNT_TYPES)[number];
+
+export const isCouponDiscountType = (
+	value: unknown,
+): value is CouponDiscountType =>
+	COUPON_DISCOUNT_TYPES.includes(value as CouponDiscountType);
+
+export const getCouponDiscountTypeName = (type: string) => {
+	switch (type) {
+		case "percent":
+			return "Процент";
+		case "fixed":
+			return "Фиксированная сумма";
+		default:
+			return type;
+	}
+};
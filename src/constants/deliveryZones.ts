@@ -0,0 +1,51 @@
+// Зоны доставки и тарифы (условия описаны на странице /delivery)
+export interface DeliveryZone {
+	id: string;
+	name: string;
+	description: string;
+	baseAmount: number; // Fixed price in rubles
+	perKmAmount: number; // Added for every km outside the city, 0 = no distance charge
+	maxDistanceKm: number; // Farthest point of the zone by road, 0 = no distance charge
+}
+
+export const DELIVERY_ZONES = [
+	{
+		id: "vladivostok",
+		name: "По Владивостоку",
+		description: "Доставка до объекта в пределах города",
+		baseAmount: 400,
+		perKmAmount: 0,
+		maxDistanceKm: 0,
+	},
+	{
+		id: "primorsky",
+		name: "По Приморскому краю",
+		description: "400 ₽ плюс 20 ₽ за каждый км от Владивостока",
+		baseAmount: 400,
+		perKmAmount: 20,
+		// Road distance to the far north of the krai (Светлая, Терней)
+		maxDistanceKm: 850,
+	},
+	{
+		id: "transport_company",
+		name: "До транспортной компании",
+		description:
+			"Доставка в регионы РФ: довезём до терминала ТК во Владивостоке, дальше по тарифу ТК",
+		baseAmount: 400,
+		perKmAmount: 0,
+		maxDistanceKm: 0,
+	},
+] as const satisfies readonly DeliveryZone[];
+
+export type DeliveryZoneId = (typeof DELIVERY_ZONES)[number]["id"];
+
+export const isDeliveryZoneId = (value: unknown): value is DeliveryZoneId =>
+	DELIVERY_ZONES.some((zone) => zone.id === value);
+
+export const getDeliveryZone = (
+	zoneId: string | null | undefined,
+): DeliveryZone | undefined =>
+	DELIVERY_ZONES.find((zone) => zone.id === zoneId);
+
+export const getDeliveryZoneName = (zoneId: string | null | undefined) =>
+	getDeliveryZone(zoneId)?.name ?? "Не указана";
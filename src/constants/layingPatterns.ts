@@ -0,0 +1,30 @@
+// Способы укладки напольного покрытия и запас на подрезку
+export const LAYING_PATTERNS = ["straight", "diagonal", "herringbone"] as const;
+
+export type LayingPattern = (typeof LAYING_PATTERNS)[number];
+
+/**
+ * Waste percentage added to the room area. Diagonal and herringbone
+ * layouts cut more boards at the walls.
+ */
+export const LAYING_PATTERN_WASTE: Record<LayingPattern, number> = {
+	straight: 5,
+	diagonal: 10,
+	herringbone: 15,
+};
+
+export const isLayingPattern = (value: unknown): value is LayingPattern =>
+	LAYING_PATTERNS.includes(value as LayingPattern);
+
+export const getLayingPatternName = (pattern: string | null | undefined) => {
+	switch (pattern) {
+		case "straight":
+			return "Прямая";
+		case "diagonal":
+			return "Диагональная";
+		case "herringbone":
+			return "Ёлочка";
+		default:
+			return pattern ?? "";
+	}
+};
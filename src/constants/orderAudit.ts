@@ -0,0 +1,21 @@
+// Действия администратора, которые попадают в журнал изменений заказа
+export const ORDER_AUDIT_ACTIONS = [
+	"items_updated",
+	"payment_status_changed",
+] as const;
+
+export type OrderAuditAction = (typeof ORDER_AUDIT_ACTIONS)[number];
+
+export const isOrderAuditAction = (value: unknown): value is OrderAuditAction =>
+	ORDER_AUDIT_ACTIONS.includes(value as OrderAuditAction);
+
+export const getOrderAuditActionName = (action: string) => {
+	switch (action) {
+		case "items_updated":
+			return "Изменён состав заказа";
+		case "payment_status_changed":
+			return "Изменён статус оплаты";
+		default:
+			return action;
+	}
+};
@@ -0,0 +1,24 @@
+// Документы, которые можно скачать по заказу: счёт на оплату и коммерческое предложение
+export const ORDER_DOCUMENT_TYPES = ["invoice", "quote"] as const;
+
+export type OrderDocumentType = (typeof ORDER_DOCUMENT_TYPES)[number];
+
+// Prices are held for this many days after the document is generated
+export const ORDER_DOCUMENT_VALIDITY_DAYS: Record<OrderDocumentType, number> = {
+	invoice: 5,
+	quote: 14,
+};
+
+export const isOrderDocumentType = (
+	value: unknown,
+): value is OrderDocumentType =>
+	ORDER_DOCUMENT_TYPES.includes(value as OrderDocumentType);
+
+export const getOrderDocumentName = (type: OrderDocumentType) => {
+	switch (type) {
+		case "invoice":
+			return "Счёт на оплату";
+		case "quote":
+			return "Коммерческое предложение";
+	}
+};
@@ -0,0 +1,14 @@
+// Форматы выгрузки заказов для бухгалтерии
+export const ORDER_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+
+export type OrderExportFormat = (typeof ORDER_EXPORT_FORMATS)[number];
+
+export const isOrderExportFormat = (
+	value: unknown,
+): value is OrderExportFormat =>
+	ORDER_EXPORT_FORMATS.includes(value as OrderExportFormat);
+
+export const ORDER_EXPORT_MIME_TYPES: Record<OrderExportFormat, string> = {
+	csv: "text/csv;charset=utf-8",
+	xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
@@ -0,0 +1,29 @@
+// Сортировка и размер страницы списка заказов в админке
+export const ORDER_LIST_SORTS = [
+	"newest",
+	"oldest",
+	"total-desc",
+	"total-asc",
+] as const;
+
+export type OrderListSort = (typeof ORDER_LIST_SORTS)[number];
+
+export const ORDERS_PAGE_SIZE = 24;
+
+export const isOrderListSort = (value: unknown): value is OrderListSort =>
+	ORDER_LIST_SORTS.includes(value as OrderListSort);
+
+export const getOrderListSortName = (sort: OrderListSort): string => {
+	switch (sort) {
+		case "newest":
+			return "Сначала новые";
+		case "oldest":
+			return "Сначала старые";
+		case "total-desc":
+			return "Сумма по убыванию";
+		case "total-asc":
+			return "Сумма по возрастанию";
+		default:
+			return sort;
+	}
+};
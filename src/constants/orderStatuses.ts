@@ -0,0 +1,57 @@
+// Статусы заказа и допустимые переходы между ними
+export const ORDER_STATUSES = [
+	"pending",
+	"processed",
+	"shipped",
+	"delivered",
+	"cancelled",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+/**
+ * Allowed status transitions.
+ * "delivered" and "cancelled" are final: an order can't be shipped after it was cancelled.
+ * "processed" can go back to "pending" so a manager can undo an accidental toggle.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	pending: ["processed", "cancelled"],
+	processed: ["pending", "shipped", "delivered", "cancelled"],
+	shipped: ["delivered", "cancelled"],
+	delivered: [],
+	cancelled: [],
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+	ORDER_STATUSES.includes(value as OrderStatus);
+
+export const getAllowedOrderStatusTransitions = (
+	status: string,
+): OrderStatus[] =>
+	isOrderStatus(status) ? ORDER_STATUS_TRANSITIONS[status] : [];
+
+// Items can only be changed before the order leaves the store
+export const ORDER_EDITABLE_STATUSES: OrderStatus[] = ["pending", "processed"];
+
+export const isOrderEditable = (status: string) =>
+	isOrderStatus(status) && ORDER_EDITABLE_STATUSES.includes(status);
+
+export const canTransitionOrderStatus = (from: string, to: string) =>
+	isOrderStatus(to) && getAllowedOrderStatusTransitions(from).includes(to);
+
+export const getOrderStatusName = (status: string | null | undefined) => {
+	switch (status) {
+		case "pending":
+			return "Новый";
+		case "processed":
+			return "В обработке";
+		case "shipped":
+			return "Отправлен";
+		case "delivered":
+			return "Доставлен";
+		case "cancelled":
+			return "Отменён";
+		default:
+			return status ?? "";
+	}
+};
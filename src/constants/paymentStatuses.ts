@@ -0,0 +1,51 @@
+// Статусы онлайн-оплаты заказа и допустимые переходы между ними
+export const PAYMENT_STATUSES = [
+	"pending",
+	"paid",
+	"refunded",
+	"failed",
+] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+/**
+ * Allowed payment status transitions.
+ * A failed payment can be retried (back to "pending") or succeed on a later attempt.
+ * "refunded" is final.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+	PaymentStatus,
+	PaymentStatus[]
+> = {
+	pending: ["paid", "failed"],
+	paid: ["refunded"],
+	refunded: [],
+	failed: ["pending", "paid"],
+};
+
+export const isPaymentStatus = (value: unknown): value is PaymentStatus =>
+	PAYMENT_STATUSES.includes(value as PaymentStatus);
+
+export const canTransitionPaymentStatus = (from: string, to: string) =>
+	isPaymentStatus(from) &&
+	isPaymentStatus(to) &&
+	PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+
+// The customer can start (or retry) an online payment
+export const isPaymentPayable = (status: string) =>
+	status === "pending" || status === "failed";
+
+export const getPaymentStatusName = (status: string | null | undefined) => {
+	switch (status) {
+		case "pending":
+			return "Ожидает оплаты";
+		case "paid":
+			return "Оплачен";
+		case "refunded":
+			return "Возвращён";
+		case "failed":
+			return "Ошибка оплаты";
+		default:
+			return status ?? "";
+	}
+};
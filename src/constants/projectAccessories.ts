@@ -0,0 +1,35 @@
+// Комплектующие для ремонта пола, которые предлагает калькулятор проекта
+export const PROJECT_ACCESSORIES = [
+	"underlay",
+	"plinth",
+	"threshold",
+	"glue",
+] as const;
+
+export type ProjectAccessory = (typeof PROJECT_ACCESSORIES)[number];
+
+// Glue is only needed for glued-down floors, the rest is selected by default
+export const PROJECT_ACCESSORY_DEFAULTS: Record<ProjectAccessory, boolean> = {
+	underlay: true,
+	plinth: true,
+	threshold: true,
+	glue: false,
+};
+
+export const isProjectAccessory = (value: unknown): value is ProjectAccessory =>
+	PROJECT_ACCESSORIES.includes(value as ProjectAccessory);
+
+export const getProjectAccessoryName = (accessory: string) => {
+	switch (accessory) {
+		case "underlay":
+			return "Подложка";
+		case "plinth":
+			return "Плинтус";
+		case "threshold":
+			return "Пороги";
+		case "glue":
+			return "Клей";
+		default:
+			return accessory;
+	}
+};
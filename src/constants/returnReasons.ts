@@ -0,0 +1,33 @@
+// Причины возврата товара
+export const RETURN_REASONS = [
+	"unopened_surplus",
+	"wrong_item",
+	"defect",
+	"damaged_in_delivery",
+	"changed_mind",
+	"other",
+] as const;
+
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const isReturnReason = (value: unknown): value is ReturnReason =>
+	RETURN_REASONS.includes(value as ReturnReason);
+
+export const getReturnReasonName = (reason: string | null | undefined) => {
+	switch (reason) {
+		case "unopened_surplus":
+			return "Лишние нераспечатанные упаковки";
+		case "wrong_item":
+			return "Не тот товар";
+		case "defect":
+			return "Брак";
+		case "damaged_in_delivery":
+			return "Повреждено при доставке";
+		case "changed_mind":
+			return "Передумал";
+		case "other":
+			return "Другое";
+		default:
+			return reason ?? "";
+	}
+};
@@ -0,0 +1,54 @@
+// Статусы возврата товара и допустимые переходы между ними
+export const RETURN_STATUSES = [
+	"requested",
+	"approved",
+	"received",
+	"refunded",
+	"rejected",
+] as const;
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+/**
+ * Allowed return status transitions.
+ * Money is refunded only after the goods are back in the store.
+ * "refunded" and "rejected" are final.
+ */
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+	requested: ["approved", "rejected"],
+	approved: ["received", "rejected"],
+	received: ["refunded"],
+	refunded: [],
+	rejected: [],
+};
+
+export const isReturnStatus = (value: unknown): value is ReturnStatus =>
+	RETURN_STATUSES.includes(value as ReturnStatus);
+
+export const getAllowedReturnStatusTransitions = (
+	status: string,
+): ReturnStatus[] =>
+	isReturnStatus(status) ? RETURN_STATUS_TRANSITIONS[status] : [];
+
+export const canTransitionReturnStatus = (from: string, to: string) =>
+	isReturnStatus(to) && getAllowedReturnStatusTransitions(from).includes(to);
+
+// Quantities of rejected returns can be returned again
+export const isReturnActive = (status: string) => status !== "rejected";
+
+export const getReturnStatusName = (status: string | null | undefined) => {
+	switch (status) {
+		case "requested":
+			return "Запрошен";
+		case "approved":
+			return "Одобрен";
+		case "received":
+			return "Товар получен";
+		case "refunded":
+			return "Деньги возвращены";
+		case "rejected":
+			return "Отклонён";
+		default:
+			return status ?? "";
+	}
+};
@@ -0,0 +1,18 @@
+// Способы получения заказа
+export const SHIPPING_METHODS = ["delivery", "pickup"] as const;
+
+export type ShippingMethod = (typeof SHIPPING_METHODS)[number];
+
+export const isShippingMethod = (value: unknown): value is ShippingMethod =>
+	SHIPPING_METHODS.includes(value as ShippingMethod);
+
+export const getShippingMethodName = (method: string | null | undefined) => {
+	switch (method) {
+		case "delivery":
+			return "Доставка";
+		case "pickup":
+			return "Самовывоз";
+		default:
+			return method || "Не указан";
+	}
+};
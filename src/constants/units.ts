@@ -1,15 +1,80 @@
 // Hardcoded constants for the application
 
 // Единицы измерения для товаров
-export const UNITS_OF_MEASUREMENT = [
-	"погонный метр",
-	"квадратный метр",
-	"литр",
-	"штука",
-	"упаковка",
-] as const;
+export const UNIT_CODES = ["lm", "m2", "l", "pcs", "pack"] as const;
+
+export type UnitCode = (typeof UNIT_CODES)[number];
 
-export type UnitOfMeasurement = (typeof UNITS_OF_MEASUREMENT)[number];
+export interface UnitDefinition {
+	code: UnitCode;
+	name: string; // Value stored in products.unit_of_measurement
+	shortLabel: string;
+	longLabel: string;
+	forms: [string, string, string]; // 1 упаковка, 2 упаковки, 5 упаковок
+	precision: number; // Decimal places shown
+	step: number; // Smallest amount a customer orders: whole packs or 0.1 m
+}
+
+export const UNITS: Record<UnitCode, UnitDefinition> = {
+	lm: {
+		code: "lm",
+		name: "погонный метр",
+		shortLabel: "м.п.",
+		longLabel: "Погонный метр",
+		forms: ["погонный метр", "погонных метра", "погонных метров"],
+		precision: 2,
+		step: 0.1,
+	},
+	m2: {
+		code: "m2",
+		name: "квадратный метр",
+		shortLabel: "м²",
+		longLabel: "Квадратный метр",
+		forms: ["квадратный метр", "квадратных метра", "квадратных метров"],
+		precision: 3,
+		step: 0.1,
+	},
+	l: {
+		code: "l",
+		name: "литр",
+		shortLabel: "л",
+		longLabel: "Литр",
+		forms: ["литр", "литра", "литров"],
+		precision: 1,
+		step: 1,
+	},
+	pcs: {
+		code: "pcs",
+		name: "штука",
+		shortLabel: "шт.",
+		longLabel: "Штука",
+		forms: ["штука", "штуки", "штук"],
+		precision: 0,
+		step: 1,
+	},
+	pack: {
+		code: "pack",
+		name: "упаковка",
+		shortLabel: "уп.",
+		longLabel: "Упаковка",
+		forms: ["упаковка", "упаковки", "упаковок"],
+		precision: 0,
+		step: 1,
+	},
+};
+
+export const isUnitCode = (value: unknown): value is UnitCode =>
+	UNIT_CODES.includes(value as UnitCode);
+
+/**
+ * Unit of a stored unit_of_measurement value, null for unknown values
+ */
+export const getUnitCode = (
+	name: string | null | undefined,
+): UnitCode | null => {
+	const normalized = name?.trim().toLowerCase();
+	return UNIT_CODES.find((code) => UNITS[code].name === normalized) ?? null;
+};
 
 // Теги для товаров - категоризация по назначению
 // Только теги, которые реально используются в базе данных
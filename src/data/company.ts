@@ -0,0 +1,10 @@
+// Public company details used in documents (invoices, quotes)
+// Legal and bank requisites come from env, see COMPANY_* in ~/utils/env
+export const COMPANY = {
+	name: 'ООО "BeautyFloor"',
+	brand: "BeautyFloor",
+	city: "Владивосток",
+	phones: ["8 908 446 6740", "8 902 555 9405", "8 908 448 6785"],
+	email: "info@beautyfloor.ru",
+	website: "beautyfloor.ru",
+} as const;
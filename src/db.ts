@@ -45,6 +45,23 @@ export function DB(): SqliteRemoteDatabase<typeof schema> {
 					throw error;
 				}
 			},
+			// db.batch() runs in one write transaction: all statements or none
+			async (queries) => {
+				try {
+					const results = await client.batch(
+						queries.map(({ sql, params }) => ({ sql, args: params })),
+						"write",
+					);
+					return results.map((result, index) =>
+						queries[index].method === "run"
+							? { rows: [] }
+							: { rows: result.rows as unknown[] },
+					);
+				} catch (error) {
+					console.error("Database batch error:", error);
+					throw error;
+				}
+			},
 			{ schema },
 		);
 	}
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { useCart } from "~/lib/cartContext";
+import { cartRevalidationQueryOptions } from "~/lib/queryOptions";
+import {
+	applyCartLineStatuses,
+	getCartChanges,
+	getCartLineKey,
+} from "~/utils/cartRevalidation";
+
+/**
+ * Price and availability changes of the cart items since they were added.
+ * applyChanges() takes the catalog prices and removes unavailable items.
+ */
+export function useCartRevalidation() {
+	const { cart, replaceCartItems } = useCart();
+
+	const lines = cart.items.map((item) => ({
+		productId: item.productId,
+		variationId: item.variationId ?? null,
+	}));
+
+	const { data: statuses = [], isFetching } = useQuery({
+		...cartRevalidationQueryOptions(lines),
+		enabled: lines.length > 0,
+	});
+
+	const changes = getCartChanges(cart.items, statuses);
+
+	return {
+		changes,
+		getItemChange: (item: { productId: number; variationId?: number }) =>
+			changes.get(getCartLineKey(item)),
+		hasChanges: changes.size > 0,
+		applyChanges: () =>
+			replaceCartItems(applyCartLineStatuses(cart.items, statuses)),
+		isChecking: isFetching,
+	};
+}
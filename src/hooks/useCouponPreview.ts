@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEnrichedCart } from "~/hooks/useEnrichedCart";
+import { useCart } from "~/lib/cartContext";
+import { couponPreviewQueryOptions } from "~/lib/queryOptions";
+
+/**
+ * Discount of the promo code saved in the cart.
+ * Only a preview for the totals: createOrder validates the coupon again.
+ */
+export function useCouponPreview() {
+	const { cart } = useCart();
+	const enrichedItems = useEnrichedCart(cart.items);
+	const couponCode = cart.couponCode ?? "";
+
+	const items = enrichedItems.map((item) => ({
+		productId: item.productId,
+		variationId: item.variationId ?? null,
+		quantity: item.quantity,
+	}));
+
+	const { data, isFetching } = useQuery({
+		...couponPreviewQueryOptions(couponCode, items),
+		enabled: couponCode !== "" && items.length > 0,
+	});
+
+	const appliedCoupon = couponCode && data?.success ? data : null;
+
+	return {
+		couponCode,
+		appliedCoupon,
+		couponDiscount: appliedCoupon?.discountAmount ?? 0,
+		couponError: couponCode && data && !data.success ? data.message : null,
+		isChecking: isFetching,
+	};
+}
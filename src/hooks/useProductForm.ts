@@ -25,6 +25,7 @@ const defaultFormData: ProductFormData = {
 	tags: [],
 	price: "0",
 	squareMetersPerPack: "",
+	linearMetersPerPack: "",
 	unitOfMeasurement: "штука",
 	categorySlug: "",
 	brandSlug: "",
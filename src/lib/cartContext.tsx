@@ -2,12 +2,15 @@
  * Simplified Cart Context
  *
  * Manages shopping cart state with cookie persistence.
- * - Stores minimal data: productId, variationId, quantity
- * - Product details enriched from TanStack Query cache
+ * - Cookie stores minimal data: productId, variationId, quantity (see ~/lib/cartStorage.ts)
+ * - Display data kept in localStorage, missing data loaded from the catalog
  * - Simple validation: check variation requirement only
- * - Invalid items filtered silently in useEnrichedCart
+ * - Invalid items filtered silently in useEnrichedCart,
+ *   price and availability changes are shown by useCartRevalidation
+ * - Signed-in users: also saved on the server, see ~/utils/userCart.ts
  */
 
+import { useQuery } from "@tanstack/react-query";
 import type React from "react";
 import {
 	createContext,
@@ -18,11 +21,28 @@ import {
 	useState,
 } from "react";
 import { toast } from "sonner";
-import { getCookie, setCookie } from "~/lib/cookies";
+import {
+	clearCartDisplayData,
+	decodeCartCookie,
+	encodeCartCookie,
+	isLegacyCartCookie,
+	readCartDisplayData,
+	withCartDisplayData,
+	writeCartDisplayData,
+} from "~/lib/cartStorage";
+import { getCookie, removeCookie, setCookie } from "~/lib/cookies";
+import { userDataQueryOptions } from "~/lib/queryOptions";
+import { getUserCart } from "~/server_functions/store/getUserCart";
+import { revalidateCart } from "~/server_functions/store/revalidateCart";
+import { saveUserCart } from "~/server_functions/store/saveUserCart";
+import { applyCartLineStatuses } from "~/utils/cartRevalidation";
+import { normalizeSaleQuantity } from "~/utils/units";
+import { mergeCarts } from "~/utils/userCart";
 
 // Types
 /**
- * Enriched CartItem - stores display data in cookie for instant display
+ * Enriched CartItem - display data is kept in localStorage for instant display,
+ * only the identifiers and quantity go to the cookie (see ~/lib/cartStorage.ts)
  * Refreshes in background if data is older than 7 days
  */
 export interface CartItem {
@@ -32,13 +52,15 @@ export interface CartItem {
 	quantity: number;
 	addedAt: number;
 
-	// Display data (cached in cookie)
+	// Display data (cached in localStorage)
 	productName: string;
 	productSlug: string;
-	price: number;
+	price: number; // Per pack for flooring, see squareMetersPerPack
 	images?: string | string[] | null;
 	discount?: number | null;
 	attributes?: Record<string, string>;
+	squareMetersPerPack?: number | null; // Set for flooring: quantity is whole packs
+	unitOfMeasurement?: string | null; // See ~/utils/units
 
 	// Staleness tracking
 	cachedAt: number;
@@ -46,7 +68,9 @@ export interface CartItem {
 
 export interface Cart {
 	items: CartItem[];
+	couponCode?: string; // Validated on the server at checkout
 	lastUpdated: number;
+	ownerId?: string; // Signed-in user whose server cart this cart mirrors
 }
 
 /**
@@ -64,6 +88,8 @@ export interface AddToCartData {
 	images?: string | string[] | null;
 	discount?: number | null;
 	attributes?: Record<string, string>;
+	squareMetersPerPack?: number | null;
+	unitOfMeasurement?: string | null;
 }
 
 interface CartContextType {
@@ -71,6 +97,8 @@ interface CartContextType {
 	cartOpen: boolean;
 	setCartOpen: (open: boolean) => void;
 	addToCart: (data: AddToCartData) => void;
+	addItemsToCart: (items: AddToCartData[]) => void;
+	replaceCartItems: (items: CartItem[]) => void;
 	removeFromCart: (productId: number, variationId?: number) => void;
 	updateQuantity: (
 		productId: number,
@@ -78,6 +106,8 @@ interface CartContextType {
 		variationId?: number,
 	) => void;
 	clearCart: () => void;
+	applyCoupon: (code: string) => void;
+	removeCoupon: () => void;
 	itemCount: number;
 }
 
@@ -89,25 +119,97 @@ const COOKIE_OPTIONS = {
 	maxAge: 60 * 60 * 24 * 30, // 30 days
 	path: "/",
 } as const;
+const SERVER_SAVE_DELAY_MS = 1000; // Quantity clicks are saved in one request
 
-// Helper to get cart from cookie
+// Helper to get cart from cookie, display data from localStorage
 function getCartFromCookie(): Cart | null {
 	if (typeof window === "undefined") return null;
 
 	const stored = getCookie(CART_COOKIE_NAME);
 	if (!stored) return null;
 
-	try {
-		return JSON.parse(stored);
-	} catch {
-		return null;
+	const cart = decodeCartCookie(stored);
+	if (!cart) return null;
+
+	// Old JSON carts move to the compact cookie and their display data to localStorage
+	if (isLegacyCartCookie(stored)) {
+		saveCartToCookie(cart);
+		return cart;
 	}
+	return withCartDisplayData(cart, readCartDisplayData());
 }
 
-// Helper to save cart to cookie
+// Helper to save cart to cookie (IDs and quantities) and localStorage (display data)
 function saveCartToCookie(cart: Cart): void {
 	if (typeof window === "undefined") return;
-	setCookie(CART_COOKIE_NAME, JSON.stringify(cart), COOKIE_OPTIONS);
+	setCookie(CART_COOKIE_NAME, encodeCartCookie(cart), COOKIE_OPTIONS);
+	writeCartDisplayData(cart.items);
+}
+
+/**
+ * Forget the cart saved in this browser. Called on logout, so the next
+ * person signing in on a shared browser doesn't get this user's cart.
+ */
+export function clearSavedCart(): void {
+	if (typeof window === "undefined") return;
+	removeCookie(CART_COOKIE_NAME);
+	clearCartDisplayData();
+}
+
+// Add an item to the list, or add to the quantity of the same product and variation
+function mergeCartItem(
+	items: CartItem[],
+	data: AddToCartData,
+	now: number,
+): CartItem[] {
+	const existingIndex = items.findIndex(
+		(item) =>
+			item.productId === data.productId &&
+			item.variationId === data.variationId,
+	);
+
+	if (existingIndex >= 0) {
+		// Update existing item quantity (preserve cached data)
+		const newItems = [...items];
+		newItems[existingIndex] = {
+			...newItems[existingIndex],
+			quantity: normalizeSaleQuantity(
+				newItems[existingIndex].quantity + data.quantity,
+				data,
+			),
+			// Update display data in case price/name changed
+			productName: data.productName,
+			productSlug: data.productSlug,
+			price: data.price,
+			images: data.images,
+			discount: data.discount,
+			attributes: data.attributes,
+			squareMetersPerPack: data.squareMetersPerPack,
+			unitOfMeasurement: data.unitOfMeasurement,
+			cachedAt: now,
+		};
+		return newItems;
+	}
+
+	// Add new item with enriched data
+	return [
+		...items,
+		{
+			productId: data.productId,
+			variationId: data.variationId,
+			quantity: data.quantity,
+			addedAt: now,
+			productName: data.productName,
+			productSlug: data.productSlug,
+			price: data.price,
+			images: data.images,
+			discount: data.discount,
+			attributes: data.attributes,
+			squareMetersPerPack: data.squareMetersPerPack,
+			unitOfMeasurement: data.unitOfMeasurement,
+			cachedAt: now,
+		},
+	];
 }
 
 interface CartProviderProps {
@@ -130,15 +232,113 @@ export function CartProvider({ children }: CartProviderProps) {
 	const [cartOpen, setCartOpen] = useState(false);
 	const isInitialMount = useRef(true);
 
-	// Save to cookie whenever cart changes (skip initial mount)
+	// Signed-in user whose server cart has been merged into this one
+	const { data: userData } = useQuery(userDataQueryOptions());
+	const userId = userData?.userID || null;
+	const syncedUserId = useRef<string | null>(null);
+	const serverSaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+	const isSignedOut = userData === null; // Loaded, nobody signed in
+	const cartOwnerId = cart.ownerId;
+
+	// A signed-in user's cart left behind after logout (or an expired session)
+	// isn't shown to whoever uses the browser next
+	useEffect(() => {
+		if (isSignedOut && cartOwnerId) {
+			setCart({ items: [], lastUpdated: Date.now() });
+		}
+	}, [isSignedOut, cartOwnerId]);
+
+	// Merge with the server cart once the user is known (login, other device)
+	useEffect(() => {
+		if (!userId) {
+			syncedUserId.current = null;
+			return;
+		}
+		if (syncedUserId.current === userId) return;
+
+		let cancelled = false;
+		getUserCart()
+			.then((serverCart) => {
+				if (cancelled) return;
+				syncedUserId.current = userId;
+				// The merged cart is saved back by the effect below
+				setCart((prevCart) => mergeCarts(prevCart, serverCart, userId));
+			})
+			.catch((error) => {
+				console.error("Failed to load saved cart:", error);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [userId]);
+
+	// Items restored without display data get it from the catalog
+	const missingDisplayLines = cart.items
+		.filter((item) => !item.productName)
+		.map((item) => ({
+			productId: item.productId,
+			variationId: item.variationId ?? null,
+		}));
+	const missingDisplayKey = JSON.stringify(missingDisplayLines);
+
+	useEffect(() => {
+		const lines = JSON.parse(missingDisplayKey) as typeof missingDisplayLines;
+		if (lines.length === 0) return;
+
+		let cancelled = false;
+		revalidateCart({ data: { items: lines } })
+			.then((statuses) => {
+				if (cancelled) return;
+				if (statuses.some((status) => !status.available)) {
+					toast.warning("Некоторые товары из корзины больше не продаются");
+				}
+				setCart((prevCart) => ({
+					...prevCart,
+					items: applyCartLineStatuses(prevCart.items, statuses),
+				}));
+			})
+			.catch((error) => {
+				console.error("Failed to load cart items:", error);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [missingDisplayKey]);
+
+	// Save to cookie whenever cart changes (skip initial mount),
+	// and to the server for a signed-in user
 	useEffect(() => {
 		if (isInitialMount.current) {
 			isInitialMount.current = false;
 			return;
 		}
 		saveCartToCookie(cart);
+
+		if (!syncedUserId.current || cart.ownerId !== syncedUserId.current) return;
+		if (serverSaveTimer.current) clearTimeout(serverSaveTimer.current);
+		serverSaveTimer.current = setTimeout(() => {
+			saveUserCart({
+				data: {
+					items: cart.items,
+					couponCode: cart.couponCode,
+					lastUpdated: cart.lastUpdated,
+				},
+			}).catch((error) => {
+				console.error("Failed to save cart:", error);
+			});
+		}, SERVER_SAVE_DELAY_MS);
 	}, [cart]);
 
+	useEffect(
+		() => () => {
+			if (serverSaveTimer.current) clearTimeout(serverSaveTimer.current);
+		},
+		[],
+	);
+
 	// Calculate item count from raw cart items
 	// Note: This counts all items, even if products are inactive/deleted
 	// For accurate count of valid products, use useEnrichedCart in components
@@ -151,52 +351,10 @@ export function CartProvider({ children }: CartProviderProps) {
 	// Stores enriched data for instant display without fetching
 	const addToCart = (data: AddToCartData) => {
 		setCart((prevCart) => {
-			const existingIndex = prevCart.items.findIndex(
-				(item) =>
-					item.productId === data.productId &&
-					item.variationId === data.variationId,
-			);
-
-			let newItems: CartItem[];
 			const now = Date.now();
-
-			if (existingIndex >= 0) {
-				// Update existing item quantity (preserve cached data)
-				newItems = [...prevCart.items];
-				newItems[existingIndex] = {
-					...newItems[existingIndex],
-					quantity: newItems[existingIndex].quantity + data.quantity,
-					// Update display data in case price/name changed
-					productName: data.productName,
-					productSlug: data.productSlug,
-					price: data.price,
-					images: data.images,
-					discount: data.discount,
-					attributes: data.attributes,
-					cachedAt: now,
-				};
-			} else {
-				// Add new item with enriched data
-				newItems = [
-					...prevCart.items,
-					{
-						productId: data.productId,
-						variationId: data.variationId,
-						quantity: data.quantity,
-						addedAt: now,
-						productName: data.productName,
-						productSlug: data.productSlug,
-						price: data.price,
-						images: data.images,
-						discount: data.discount,
-						attributes: data.attributes,
-						cachedAt: now,
-					},
-				];
-			}
-
 			return {
-				items: newItems,
+				...prevCart,
+				items: mergeCartItem(prevCart.items, data, now),
 				lastUpdated: now,
 			};
 		});
@@ -206,9 +364,39 @@ export function CartProvider({ children }: CartProviderProps) {
 		toast.success("Товар добавлен в корзину");
 	};
 
+	// Add several items at once, e.g. from a saved quote
+	const addItemsToCart = (items: AddToCartData[]) => {
+		if (items.length === 0) return;
+
+		setCart((prevCart) => {
+			const now = Date.now();
+			return {
+				...prevCart,
+				items: items.reduce(
+					(cartItems, data) => mergeCartItem(cartItems, data, now),
+					prevCart.items,
+				),
+				lastUpdated: now,
+			};
+		});
+
+		setCartOpen(true);
+		toast.success("Товары добавлены в корзину");
+	};
+
+	// Replace all items, e.g. with prices refreshed from the catalog
+	const replaceCartItems = (items: CartItem[]) => {
+		setCart((prevCart) => ({
+			...prevCart,
+			items,
+			lastUpdated: Date.now(),
+		}));
+	};
+
 	// Remove item from cart
 	const removeFromCart = (productId: number, variationId?: number) => {
 		setCart((prevCart) => ({
+			...prevCart,
 			items: prevCart.items.filter(
 				(item) =>
 					!(item.productId === productId && item.variationId === variationId),
@@ -229,9 +417,10 @@ export function CartProvider({ children }: CartProviderProps) {
 		}
 
 		setCart((prevCart) => ({
+			...prevCart,
 			items: prevCart.items.map((item) =>
 				item.productId === productId && item.variationId === variationId
-					? { ...item, quantity: Math.max(1, quantity) }
+					? { ...item, quantity: normalizeSaleQuantity(quantity, item) }
 					: item,
 			),
 			lastUpdated: Date.now(),
@@ -240,10 +429,28 @@ export function CartProvider({ children }: CartProviderProps) {
 
 	// Clear cart
 	const clearCart = () => {
-		setCart({
+		setCart((prevCart) => ({
 			items: [],
 			lastUpdated: Date.now(),
-		});
+			ownerId: prevCart.ownerId, // Keep syncing, so the saved cart is emptied too
+		}));
+	};
+
+	// Remember the promo code, the discount is calculated by the server
+	const applyCoupon = (code: string) => {
+		setCart((prevCart) => ({
+			...prevCart,
+			couponCode: code.trim().toUpperCase(),
+			lastUpdated: Date.now(),
+		}));
+	};
+
+	const removeCoupon = () => {
+		setCart((prevCart) => ({
+			...prevCart,
+			couponCode: undefined,
+			lastUpdated: Date.now(),
+		}));
 	};
 
 	return (
@@ -253,9 +460,13 @@ export function CartProvider({ children }: CartProviderProps) {
 				cartOpen,
 				setCartOpen,
 				addToCart,
+				addItemsToCart,
+				replaceCartItems,
 				removeFromCart,
 				updateQuantity,
 				clearCart,
+				applyCoupon,
+				removeCoupon,
 				itemCount,
 			}}
 		>
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { Cart, CartItem } from "~/lib/cartContext";
+import {
+	decodeCartCookie,
+	encodeCartCookie,
+	isLegacyCartCookie,
+	withCartDisplayData,
+} from "~/lib/cartStorage";
+
+const COOKIE_LIMIT_BYTES = 4096;
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+// Large IDs and full display data, the worst case for the cookie
+function buildCart(lineCount: number): Cart {
+	const items: CartItem[] = Array.from({ length: lineCount }, (_, index) => ({
+		productId: 100_000 + index,
+		variationId: index % 2 === 0 ? 200_000 + index : undefined,
+		quantity: (index % 12) + 1,
+		addedAt: NOW - index * 60_000,
+		productName: `Ламинат Kronospan Super Natural Classic дуб ${index}`,
+		productSlug: `laminat-kronospan-super-natural-classic-dub-${index}`,
+		price: 1899.5 + index,
+		images: [`products/${index}/1.jpg`, `products/${index}/2.jpg`],
+		discount: index % 3 === 0 ? 10 : null,
+		attributes: { Цвет: "Дуб натуральный", "Класс износостойкости": "33" },
+		squareMetersPerPack: index % 2 === 0 ? 2.159 : null,
+		unitOfMeasurement: index % 2 === 0 ? "квадратный метр" : "штука",
+		cachedAt: NOW,
+	}));
+
+	return {
+		items,
+		couponCode: "SPRING-2026",
+		lastUpdated: NOW,
+		ownerId: "user_8f3kq2m9x7c4v1b6n5z0",
+	};
+}
+
+const displayDataOf = (cart: Cart) =>
+	Object.fromEntries(
+		cart.items.map(
+			({ productId, variationId, quantity, addedAt, ...display }) => [
+				`${productId}-${variationId ?? ""}`,
+				display,
+			],
+		),
+	);
+
+describe("cart cookie", () => {
+	const cart = buildCart(50);
+	const cookie = encodeCartCookie(cart);
+
+	it("keeps a 50-line cart under the browser cookie limit", () => {
+		const header = `bfloor-cart=${encodeURIComponent(cookie)}`;
+		expect(new TextEncoder().encode(header).length).toBeLessThan(
+			COOKIE_LIMIT_BYTES,
+		);
+	});
+
+	it("round-trips the lines and restores display data", () => {
+		const decoded = decodeCartCookie(cookie);
+		expect(decoded).not.toBeNull();
+		if (!decoded) return;
+
+		expect(withCartDisplayData(decoded, displayDataOf(cart))).toEqual(cart);
+	});
+
+	it("leaves display data empty when none is stored", () => {
+		const decoded = decodeCartCookie(cookie);
+		expect(decoded?.items).toHaveLength(50);
+		expect(decoded?.items[1]).toMatchObject({
+			productId: 100_001,
+			variationId: undefined,
+			quantity: 2,
+			productName: "",
+			price: 0,
+		});
+	});
+
+	it("keeps fractional quantities of linear metres", () => {
+		const metres: Cart = {
+			...buildCart(2),
+			items: buildCart(2).items.map((item, index) => ({
+				...item,
+				quantity: index === 0 ? 2.5 : 0.1,
+				squareMetersPerPack: null,
+				unitOfMeasurement: "погонный метр",
+			})),
+		};
+		const encoded = encodeCartCookie(metres);
+		expect(encoded).toContain(".2-5.");
+
+		const decoded = decodeCartCookie(encoded);
+		expect(decoded?.items.map((item) => item.quantity)).toEqual([2.5, 0.1]);
+	});
+});
+
+describe("legacy JSON cart cookie", () => {
+	// Before the compact format the whole cart was stored as JSON
+	const cart = buildCart(5);
+	const legacyCookie = JSON.stringify(cart);
+
+	it("migrates to the compact format without losing lines or display data", () => {
+		expect(isLegacyCartCookie(legacyCookie)).toBe(true);
+		const legacy = decodeCartCookie(legacyCookie);
+		expect(legacy).toEqual(cart);
+		if (!legacy) return;
+
+		const migrated = encodeCartCookie(legacy);
+		expect(isLegacyCartCookie(migrated)).toBe(false);
+		expect(migrated.startsWith("2~")).toBe(true);
+
+		const decoded = decodeCartCookie(migrated);
+		expect(decoded).not.toBeNull();
+		if (!decoded) return;
+		expect(withCartDisplayData(decoded, displayDataOf(legacy))).toEqual(cart);
+	});
+
+	it("rejects a malformed cookie and drops unreadable items", () => {
+		expect(decodeCartCookie('{"items":[{"productId":1')).toBeNull();
+		expect(decodeCartCookie('{"items":"none"}')).toBeNull();
+		expect(decodeCartCookie("{}")).toBeNull();
+
+		const partlyBroken = decodeCartCookie(
+			JSON.stringify({
+				items: [
+					{ productId: "1", quantity: 2, productName: "x", productSlug: "x" },
+					{ productId: 2, quantity: -1, productName: "x", productSlug: "x" },
+					null,
+					cart.items[0],
+				],
+				lastUpdated: "yesterday",
+			}),
+		);
+		expect(partlyBroken?.items).toEqual([cart.items[0]]);
+		expect(partlyBroken?.lastUpdated).toEqual(expect.any(Number));
+	});
+});
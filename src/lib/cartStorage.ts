@@ -0,0 +1,208 @@
+/**
+ * Cart persistence
+ *
+ * Browsers cap a cookie at about 4 KB, which a cart with full display data
+ * (names, image lists, attribute maps) outgrows after a few dozen lines.
+ * So the cookie only keeps what identifies the cart:
+ *
+ *   2~<lastUpdated>~<couponCode>~<ownerId>~<line>_<line>...
+ *   line = <productId>.<variationId or empty>.<quantity>.<addedAt>
+ *
+ * Timestamps are base 36, every character is cookie-safe, ~20 bytes per line.
+ * A fractional quantity (linear metres) is written with "-" as the decimal
+ * separator, 2.5 as 2-5, since "." separates the fields.
+ * Display data lives in localStorage. Lines without it (cleared storage,
+ * another browser of a signed-in user) are filled from the catalog by
+ * CartProvider. Carts in the old format (the whole Cart as JSON) are
+ * rewritten in the new one as soon as they are read.
+ */
+
+import type { Cart, CartItem } from "~/lib/cartContext";
+import { sanitizeCartItems } from "~/utils/userCart";
+
+const COOKIE_FORMAT_VERSION = "2";
+const DISPLAY_STORAGE_KEY = "bfloor-cart-display";
+const SAFE_VALUE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+type CartDisplayData = Pick<
+	CartItem,
+	| "productName"
+	| "productSlug"
+	| "price"
+	| "images"
+	| "discount"
+	| "attributes"
+	| "squareMetersPerPack"
+	| "unitOfMeasurement"
+	| "cachedAt"
+>;
+
+const lineKey = (item: Pick<CartItem, "productId" | "variationId">) =>
+	`${item.productId}-${item.variationId ?? ""}`;
+
+const parseInteger = (value: string, radix = 10) => {
+	const number = Number.parseInt(value, radix);
+	return Number.isSafeInteger(number) && number > 0 ? number : null;
+};
+
+const parseQuantity = (value: string) => {
+	const quantity = Number(value.replace("-", "."));
+	return Number.isFinite(quantity) && quantity > 0 ? quantity : null;
+};
+
+export function encodeCartCookie(cart: Cart): string {
+	// Codes and IDs that could break the format are dropped: an invalid
+	// promo code is rejected anyway, a cart without owner is merged as a guest cart
+	const safe = (value?: string) =>
+		value && SAFE_VALUE_PATTERN.test(value) ? value : "";
+
+	const lines = cart.items.map((item) =>
+		[
+			item.productId,
+			item.variationId ?? "",
+			String(item.quantity).replace(".", "-"),
+			item.addedAt.toString(36),
+		].join("."),
+	);
+
+	return [
+		COOKIE_FORMAT_VERSION,
+		cart.lastUpdated.toString(36),
+		safe(cart.couponCode),
+		safe(cart.ownerId),
+		lines.join("_"),
+	].join("~");
+}
+
+export const isLegacyCartCookie = (value: string) => value.startsWith("{");
+
+/**
+ * Old format: the whole cart as JSON, display data included.
+ * Items that can't be read are dropped.
+ */
+function decodeLegacyCartCookie(value: string): Cart | null {
+	try {
+		const cart = JSON.parse(value) as Partial<Cart> | null;
+		if (!cart || !Array.isArray(cart.items)) return null;
+
+		return {
+			items: sanitizeCartItems(cart.items),
+			couponCode:
+				typeof cart.couponCode === "string" ? cart.couponCode : undefined,
+			lastUpdated:
+				typeof cart.lastUpdated === "number" ? cart.lastUpdated : Date.now(),
+			ownerId: typeof cart.ownerId === "string" ? cart.ownerId : undefined,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Cart from the cookie, display data of the items left empty
+ * (except for old-format carts, which still carry it)
+ */
+export function decodeCartCookie(value: string): Cart | null {
+	if (isLegacyCartCookie(value)) {
+		return decodeLegacyCartCookie(value);
+	}
+
+	const [version, lastUpdated, couponCode, ownerId, lines = ""] =
+		value.split("~");
+	if (version !== COOKIE_FORMAT_VERSION) return null;
+
+	const items: CartItem[] = [];
+	for (const line of lines ? lines.split("_") : []) {
+		const [productId, variationId, quantity, addedAt] = line.split(".");
+		const item = {
+			productId: parseInteger(productId),
+			variationId: variationId ? parseInteger(variationId) : undefined,
+			quantity: parseQuantity(quantity),
+			addedAt: parseInteger(addedAt, 36) ?? 0,
+		};
+		if (!item.productId || !item.quantity || item.variationId === null) {
+			continue;
+		}
+
+		items.push({
+			productId: item.productId,
+			variationId: item.variationId,
+			quantity: item.quantity,
+			addedAt: item.addedAt,
+			productName: "",
+			productSlug: "",
+			price: 0,
+			cachedAt: 0,
+		});
+	}
+
+	return {
+		items,
+		couponCode: couponCode || undefined,
+		lastUpdated: parseInteger(lastUpdated, 36) ?? Date.now(),
+		ownerId: ownerId || undefined,
+	};
+}
+
+/**
+ * Add display data saved in localStorage to the items that have none
+ */
+export function withCartDisplayData(
+	cart: Cart,
+	displayData: Record<string, CartDisplayData>,
+): Cart {
+	return {
+		...cart,
+		items: cart.items.map((item) => {
+			const display = displayData[lineKey(item)];
+			return item.productName || !display ? item : { ...item, ...display };
+		}),
+	};
+}
+
+export function readCartDisplayData(): Record<string, CartDisplayData> {
+	try {
+		const stored = localStorage.getItem(DISPLAY_STORAGE_KEY);
+		return stored ? JSON.parse(stored) : {};
+	} catch {
+		return {};
+	}
+}
+
+export function clearCartDisplayData(): void {
+	try {
+		localStorage.removeItem(DISPLAY_STORAGE_KEY);
+	} catch {
+		// Storage disabled: nothing was saved
+	}
+}
+
+export function writeCartDisplayData(items: CartItem[]): void {
+	const previous = readCartDisplayData();
+	const displayData: Record<string, CartDisplayData> = {};
+	for (const item of items) {
+		const key = lineKey(item);
+		// Items still waiting for their data keep what was stored before
+		if (!item.productName) {
+			if (previous[key]) displayData[key] = previous[key];
+			continue;
+		}
+		displayData[key] = {
+			productName: item.productName,
+			productSlug: item.productSlug,
+			price: item.price,
+			images: item.images,
+			discount: item.discount,
+			attributes: item.attributes,
+			squareMetersPerPack: item.squareMetersPerPack,
+			unitOfMeasurement: item.unitOfMeasurement,
+			cachedAt: item.cachedAt,
+		};
+	}
+
+	try {
+		localStorage.setItem(DISPLAY_STORAGE_KEY, JSON.stringify(displayData));
+	} catch {
+		// Storage full or disabled: names are loaded from the catalog next time
+	}
+}
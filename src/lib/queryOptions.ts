@@ -11,20 +11,34 @@
  * - Consistent cache keys prevent duplicate fetches
  */
 
-import { infiniteQueryOptions, queryOptions } from "@tanstack/react-query";
+import {
+	infiniteQueryOptions,
+	keepPreviousData,
+	queryOptions,
+} from "@tanstack/react-query";
 import { notFound } from "@tanstack/react-router";
 import type { StoreLocation } from "~/data/storeLocations";
 import { getAllStoreLocations } from "~/data/storeLocations";
 import { getAllAttributeValuesByAttribute } from "~/server_functions/dashboard/attributes/getAllAttributeValuesByAttribute";
 import { getAllProductAttributes } from "~/server_functions/dashboard/attributes/getAllProductAttributes";
 import { getAttributeValues } from "~/server_functions/dashboard/attributes/getAttributeValues";
+import { getBlockedAttempts } from "~/server_functions/dashboard/blockedAttempts/getBlockedAttempts";
 import { getProductBrandCounts } from "~/server_functions/dashboard/brands/getProductBrandCounts";
 import { getAllProductCategories } from "~/server_functions/dashboard/categories/getAllProductCategories";
 import { getProductCategoryCounts } from "~/server_functions/dashboard/categories/getProductCategoryCounts";
 import { getAllCollections } from "~/server_functions/dashboard/collections/getAllCollections";
 import { getProductCollectionCounts } from "~/server_functions/dashboard/collections/getProductCollectionCounts";
+import { getAllCoupons } from "~/server_functions/dashboard/coupons/getAllCoupons";
 import { getAllBrands } from "~/server_functions/dashboard/getAllBrands";
-import { getAllOrders } from "~/server_functions/dashboard/orders/getAllOrders";
+import {
+	getAllOrders,
+	type OrderListRequest,
+} from "~/server_functions/dashboard/orders/getAllOrders";
+import { getOrderAuditLog } from "~/server_functions/dashboard/orders/getOrderAuditLog";
+import { getOrderComments } from "~/server_functions/dashboard/orders/getOrderComments";
+import { getOrderReturns } from "~/server_functions/dashboard/orders/getOrderReturns";
+import { getOrderStatusHistory } from "~/server_functions/dashboard/orders/getOrderStatusHistory";
+import { getAllQuotes } from "~/server_functions/dashboard/quotes/getAllQuotes";
 import { getAllProducts } from "~/server_functions/dashboard/store/getAllProducts";
 import { getFilteredBrandsDashboard } from "~/server_functions/dashboard/store/getFilteredBrands";
 import { getFilteredCollectionsDashboard } from "~/server_functions/dashboard/store/getFilteredCollections";
@@ -33,13 +47,21 @@ import { getStoreData } from "~/server_functions/store/getAllProducts";
 import { getAttributeValuesForFiltering } from "~/server_functions/store/getAttributeValuesForFiltering";
 import { getBrandBySlug } from "~/server_functions/store/getBrandBySlug";
 import { getCategoryBySlug } from "~/server_functions/store/getCategoryBySlug";
+import { getCheckoutFormToken } from "~/server_functions/store/getCheckoutFormToken";
 import { getFilteredBrands } from "~/server_functions/store/getFilteredBrands";
 import { getFilteredCollections } from "~/server_functions/store/getFilteredCollections";
+import { getPickupLocations } from "~/server_functions/store/getPickupLocations";
 import { getProductBySlug } from "~/server_functions/store/getProductBySlug";
 import { getProductDetailsBySlug } from "~/server_functions/store/getProductDetailsBySlug";
+import { getProjectAccessories } from "~/server_functions/store/getProjectAccessories";
+import { getQuote } from "~/server_functions/store/getQuote";
 import { getRecommendedProducts } from "~/server_functions/store/getRecommendedProducts";
+import { revalidateCart } from "~/server_functions/store/revalidateCart";
+import { validateCoupon } from "~/server_functions/store/validateCoupon";
 import type { ProductWithDetails } from "~/types";
 import { getUserData } from "~/utils/auth-server-func";
+import type { CartLineInput } from "~/utils/cartRevalidation";
+import type { OrderLineInput } from "~/utils/orderPricing";
 
 // Type for paginated response from getStoreData and getAllProducts
 type PaginatedResponse = {
@@ -479,18 +501,20 @@ export const dashboardProductQueryOptions = (productId: number) =>
 
 /**
  * Dashboard orders query options
- * Used for: /dashboard/orders route
+ * Used for: /dashboard/orders route, one page per filter combination
  *
  * Cache Strategy: Moderate caching for dynamic data
  * - Orders cached for 1 day (more dynamic than products but still cacheable)
  * - Kept in memory for 3 days
  * - Refetches on window focus to show latest orders
- * - Manual invalidation after order status updates
+ * - Manual invalidation after order status updates (["bfloorDashboardOrders"] prefix)
+ * - Previous page stays visible while the next one loads
  */
-export const dashboardOrdersQueryOptions = () =>
+export const dashboardOrdersQueryOptions = (request: OrderListRequest = {}) =>
 	queryOptions({
-		queryKey: ["bfloorDashboardOrders"],
-		queryFn: async () => getAllOrders(),
+		queryKey: ["bfloorDashboardOrders", request],
+		queryFn: async () => getAllOrders({ data: request }),
+		placeholderData: keepPreviousData,
 		staleTime: 1000 * 60 * 60 * 24, // 1 day - orders are dynamic but cacheable
 		gcTime: 1000 * 60 * 60 * 24 * 3, // 3 days - keep in memory
 		retry: 3,
@@ -499,6 +523,178 @@ export const dashboardOrdersQueryOptions = () =>
 		refetchOnReconnect: true,
 	});
 
+/**
+ * Order status history query options
+ * Used for: OrderDrawer status timeline in /dashboard/orders
+ *
+ * Cache Strategy: Short caching for audit data
+ * - History cached for 1 minute (changes with every status update)
+ * - Manual invalidation after order status updates
+ */
+export const orderStatusHistoryQueryOptions = (orderId: number) =>
+	queryOptions({
+		queryKey: ["bfloorOrderStatusHistory", orderId],
+		queryFn: async () => getOrderStatusHistory({ data: { orderId } }),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Order audit log query options
+ * Used for: OrderDrawer "История изменений" in /dashboard/orders
+ *
+ * Cache Strategy: Short caching for audit data
+ * - Log cached for 1 minute
+ * - Manual invalidation after order items are edited
+ */
+export const orderAuditLogQueryOptions = (orderId: number) =>
+	queryOptions({
+		queryKey: ["bfloorOrderAuditLog", orderId],
+		queryFn: async () => getOrderAuditLog({ data: { orderId } }),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Order comments query options
+ * Used for: OrderDrawer "Комментарии" in /dashboard/orders
+ *
+ * Cache Strategy: Short caching, several managers comment on the same orders
+ * - Comments cached for 30 seconds
+ * - Refetches on window focus to show colleagues' comments
+ * - Manual invalidation after adding or editing a comment
+ */
+export const orderCommentsQueryOptions = (orderId: number) =>
+	queryOptions({
+		queryKey: ["bfloorOrderComments", orderId],
+		queryFn: async () => getOrderComments({ data: { orderId } }),
+		staleTime: 1000 * 30, // 30 seconds
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: true,
+	});
+
+/**
+ * Order returns query options
+ * Used for: OrderDrawer "Возвраты" in /dashboard/orders
+ *
+ * Cache Strategy: Short caching for return data
+ * - Returns cached for 1 minute
+ * - Manual invalidation after a return is created or its status changes
+ */
+export const orderReturnsQueryOptions = (orderId: number) =>
+	queryOptions({
+		queryKey: ["bfloorOrderReturns", orderId],
+		queryFn: async () => getOrderReturns({ data: { orderId } }),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Dashboard coupons query options
+ * Used for: /dashboard/coupons route
+ *
+ * Cache Strategy: Short caching, usage counts change with every order
+ * - Coupons cached for 5 minutes
+ * - Manual invalidation after create/update/delete
+ */
+export const couponsQueryOptions = () =>
+	queryOptions({
+		queryKey: ["bfloorDashboardCoupons"],
+		queryFn: async () => getAllCoupons(),
+		staleTime: 1000 * 60 * 5, // 5 minutes
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: true,
+	});
+
+/**
+ * Dashboard quotes query options
+ * Used for: /dashboard/quotes route
+ *
+ * Cache Strategy: Short caching, customers save new quotes at any time
+ * - Quotes cached for 1 minute
+ * - Refetch on window focus
+ */
+export const dashboardQuotesQueryOptions = () =>
+	queryOptions({
+		queryKey: ["bfloorDashboardQuotes"],
+		queryFn: async () => getAllQuotes(),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: true,
+	});
+
+/**
+ * Dashboard blocked checkout attempts query options
+ * Used for: /dashboard/blocked-attempts route
+ *
+ * Cache Strategy: Short caching, attempts are blocked at any time
+ * - Attempts cached for 1 minute
+ * - Refetch on window focus
+ */
+export const dashboardBlockedAttemptsQueryOptions = () =>
+	queryOptions({
+		queryKey: ["bfloorDashboardBlockedAttempts"],
+		queryFn: async () => getBlockedAttempts(),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 60, // 1 hour
+		retry: 1,
+		refetchOnWindowFocus: true,
+	});
+
+/**
+ * Saved quote query options
+ * Used for: /quote/$token route
+ *
+ * Cache Strategy: Short caching, the current prices are compared on every load
+ * - Quote cached for 1 minute
+ * - Unknown tokens become notFound()
+ */
+export const quoteQueryOptions = (token: string) =>
+	queryOptions({
+		queryKey: ["bfloorQuote", token],
+		queryFn: async () => {
+			try {
+				return await getQuote({ data: { token } });
+			} catch (error) {
+				if (error instanceof Error && error.message === "Quote not found") {
+					throw notFound();
+				}
+				throw error;
+			}
+		},
+		retry: false,
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 10, // 10 minutes
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Project estimator products query options
+ * Used for: /estimator route
+ *
+ * Cache Strategy: Catalog data, changes rarely
+ * - Suggestions cached for 1 hour
+ * - No refetch on window focus
+ */
+export const projectAccessoriesQueryOptions = (productSlug?: string) =>
+	queryOptions({
+		queryKey: ["bfloorProjectAccessories", productSlug ?? null],
+		queryFn: async () => getProjectAccessories({ data: { productSlug } }),
+		staleTime: 1000 * 60 * 60, // 1 hour
+		gcTime: 1000 * 60 * 60 * 2, // 2 hours
+		retry: 1,
+		refetchOnWindowFocus: false,
+	});
+
 /**
  * Dashboard products infinite query options
  * Used for: /dashboard route with virtualized product grid
@@ -1145,3 +1341,75 @@ export const storeLocationsQueryOptions = () =>
 		refetchOnWindowFocus: false,
 		refetchOnMount: false,
 	});
+
+/**
+ * Pickup locations query options
+ * Used for: Checkout pickup option (stores that carry every product in the cart)
+ *
+ * Cache Strategy: Short caching, the cart changes often
+ * - Keyed by sorted product IDs so the same cart reuses the result
+ * - Fresh for 5 minutes
+ */
+export const pickupLocationsQueryOptions = (productIds: number[]) =>
+	queryOptions<StoreLocation[]>({
+		queryKey: ["bfloorPickupLocations", productIds],
+		queryFn: () => getPickupLocations({ data: { productIds } }),
+		staleTime: 1000 * 60 * 5, // 5 minutes
+		gcTime: 1000 * 60 * 30, // 30 minutes
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Checkout form token query options
+ * Used for: Checkout anti-spam, the server's signed time the form was opened
+ *
+ * Cache Strategy: No caching, every opened checkout gets a new token
+ * - Dropped as soon as the checkout page unmounts
+ */
+export const checkoutFormTokenQueryOptions = () =>
+	queryOptions({
+		queryKey: ["bfloorCheckoutFormToken"],
+		queryFn: () => getCheckoutFormToken(),
+		staleTime: Infinity,
+		gcTime: 0,
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Coupon preview query options
+ * Used for: Promo code field in the cart and at checkout
+ *
+ * Cache Strategy: Short caching, createOrder checks the coupon again anyway
+ * - Keyed by code and cart lines so quantity changes recalculate the discount
+ * - Fresh for 1 minute
+ */
+export const couponPreviewQueryOptions = (
+	code: string,
+	items: OrderLineInput[],
+) =>
+	queryOptions({
+		queryKey: ["bfloorCouponPreview", code, items],
+		queryFn: () => validateCoupon({ data: { code, items } }),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 10, // 10 minutes
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+/**
+ * Cart revalidation query options
+ * Used for: Cart drawer and checkout, to show price and availability changes
+ *
+ * Cache Strategy: Short caching, prices can change while the cart is open
+ * - Keyed by the cart lines, quantities don't matter
+ * - Fresh for 1 minute, checked again when the customer returns to the tab
+ */
+export const cartRevalidationQueryOptions = (items: CartLineInput[]) =>
+	queryOptions({
+		queryKey: ["bfloorCartRevalidation", items],
+		queryFn: () => revalidateCart({ data: { items } }),
+		staleTime: 1000 * 60, // 1 minute
+		gcTime: 1000 * 60 * 10, // 10 minutes
+		retry: false,
+		refetchOnWindowFocus: true,
+	});
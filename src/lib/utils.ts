@@ -34,3 +34,31 @@ export function formatDate(date: Date | string | number): string {
 		timeZone: "UTC",
 	});
 }
+
+/**
+ * Formats a date with time for timelines and logs
+ * Uses the store's timezone (Vladivostok) so server and client render the same
+ * @param date - Date object, string, or number (timestamp in seconds or milliseconds)
+ * @returns Formatted date string (e.g., "25.12.2023, 14:30")
+ */
+export function formatDateTime(date: Date | string | number): string {
+	let dateObj: Date;
+
+	if (typeof date === "number") {
+		const timestamp = date < 1e12 ? date * 1000 : date;
+		dateObj = new Date(timestamp);
+	} else if (typeof date === "string") {
+		dateObj = new Date(date);
+	} else {
+		dateObj = date;
+	}
+
+	return dateObj.toLocaleString("ru-RU", {
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		hour: "2-digit",
+		minute: "2-digit",
+		timeZone: "Asia/Vladivostok",
+	});
+}
@@ -11,6 +11,7 @@
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as RedirectRouteImport } from './routes/redirect'
 import { Route as LoginRouteImport } from './routes/login'
+import { Route as EstimatorRouteImport } from './routes/estimator'
 import { Route as DeliveryRouteImport } from './routes/delivery'
 import { Route as ContactRouteImport } from './routes/contact'
 import { Route as AboutRouteImport } from './routes/about'
@@ -22,17 +23,23 @@ import { Route as StoreIndexRouteImport } from './routes/store/index'
 import { Route as DashboardIndexRouteImport } from './routes/dashboard/index'
 import { Route as StoreCheckoutRouteImport } from './routes/store/checkout'
 import { Route as StoreCategorySlugRouteImport } from './routes/store/$categorySlug'
+import { Route as QuoteTokenRouteImport } from './routes/quote/$token'
 import { Route as ProductProductIdRouteImport } from './routes/product/$productId'
+import { Route as PaymentMockRouteImport } from './routes/payment/mock'
 import { Route as OrderOrderIdRouteImport } from './routes/order/$orderId'
+import { Route as DashboardQuotesRouteImport } from './routes/dashboard/quotes'
 import { Route as DashboardOrdersRouteImport } from './routes/dashboard/orders'
 import { Route as DashboardMiscRouteImport } from './routes/dashboard/misc'
+import { Route as DashboardCouponsRouteImport } from './routes/dashboard/coupons'
 import { Route as DashboardCollectionsRouteImport } from './routes/dashboard/collections'
 import { Route as DashboardCategoriesRouteImport } from './routes/dashboard/categories'
 import { Route as DashboardBrandsRouteImport } from './routes/dashboard/brands'
+import { Route as DashboardBlockedAttemptsRouteImport } from './routes/dashboard/blocked-attempts'
 import { Route as DashboardAttributesRouteImport } from './routes/dashboard/attributes'
 import { Route as DashboardProductsNewRouteImport } from './routes/dashboard/products.new'
 import { Route as ApiAuthSplatRouteImport } from './routes/api.auth.$'
 import { Route as DashboardProductsProductIdEditRouteImport } from './routes/dashboard/products.$productId.edit'
+import { Route as ApiPaymentsWebhookProviderRouteImport } from './routes/api.payments.webhook.$provider'
 
 const RedirectRoute = RedirectRouteImport.update({
   id: '/redirect',
@@ -44,6 +51,11 @@ const LoginRoute = LoginRouteImport.update({
   path: '/login',
   getParentRoute: () => rootRouteImport,
 } as any)
+const EstimatorRoute = EstimatorRouteImport.update({
+  id: '/estimator',
+  path: '/estimator',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DeliveryRoute = DeliveryRouteImport.update({
   id: '/delivery',
   path: '/delivery',
@@ -99,16 +111,31 @@ const StoreCategorySlugRoute = StoreCategorySlugRouteImport.update({
   path: '/$categorySlug',
   getParentRoute: () => StoreRouteRoute,
 } as any)
+const QuoteTokenRoute = QuoteTokenRouteImport.update({
+  id: '/quote/$token',
+  path: '/quote/$token',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ProductProductIdRoute = ProductProductIdRouteImport.update({
   id: '/$productId',
   path: '/$productId',
   getParentRoute: () => ProductRouteRoute,
 } as any)
+const PaymentMockRoute = PaymentMockRouteImport.update({
+  id: '/payment/mock',
+  path: '/payment/mock',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const OrderOrderIdRoute = OrderOrderIdRouteImport.update({
   id: '/order/$orderId',
   path: '/order/$orderId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const DashboardQuotesRoute = DashboardQuotesRouteImport.update({
+  id: '/quotes',
+  path: '/quotes',
+  getParentRoute: () => DashboardRouteRoute,
+} as any)
 const DashboardOrdersRoute = DashboardOrdersRouteImport.update({
   id: '/orders',
   path: '/orders',
@@ -119,6 +146,11 @@ const DashboardMiscRoute = DashboardMiscRouteImport.update({
   path: '/misc',
   getParentRoute: () => DashboardRouteRoute,
 } as any)
+const DashboardCouponsRoute = DashboardCouponsRouteImport.update({
+  id: '/coupons',
+  path: '/coupons',
+  getParentRoute: () => DashboardRouteRoute,
+} as any)
 const DashboardCollectionsRoute = DashboardCollectionsRouteImport.update({
   id: '/collections',
   path: '/collections',
@@ -134,6 +166,12 @@ const DashboardBrandsRoute = DashboardBrandsRouteImport.update({
   path: '/brands',
   getParentRoute: () => DashboardRouteRoute,
 } as any)
+const DashboardBlockedAttemptsRoute =
+  DashboardBlockedAttemptsRouteImport.update({
+    id: '/blocked-attempts',
+    path: '/blocked-attempts',
+    getParentRoute: () => DashboardRouteRoute,
+  } as any)
 const DashboardAttributesRoute = DashboardAttributesRouteImport.update({
   id: '/attributes',
   path: '/attributes',
@@ -155,6 +193,12 @@ const DashboardProductsProductIdEditRoute =
     path: '/products/$productId/edit',
     getParentRoute: () => DashboardRouteRoute,
   } as any)
+const ApiPaymentsWebhookProviderRoute =
+  ApiPaymentsWebhookProviderRouteImport.update({
+    id: '/api/payments/webhook/$provider',
+    path: '/api/payments/webhook/$provider',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -164,22 +208,29 @@ export interface FileRoutesByFullPath {
   '/about': typeof AboutRoute
   '/contact': typeof ContactRoute
   '/delivery': typeof DeliveryRoute
+  '/estimator': typeof EstimatorRoute
   '/login': typeof LoginRoute
   '/redirect': typeof RedirectRoute
   '/dashboard/attributes': typeof DashboardAttributesRoute
+  '/dashboard/blocked-attempts': typeof DashboardBlockedAttemptsRoute
   '/dashboard/brands': typeof DashboardBrandsRoute
   '/dashboard/categories': typeof DashboardCategoriesRoute
   '/dashboard/collections': typeof DashboardCollectionsRoute
+  '/dashboard/coupons': typeof DashboardCouponsRoute
   '/dashboard/misc': typeof DashboardMiscRoute
   '/dashboard/orders': typeof DashboardOrdersRoute
+  '/dashboard/quotes': typeof DashboardQuotesRoute
   '/order/$orderId': typeof OrderOrderIdRoute
+  '/payment/mock': typeof PaymentMockRoute
   '/product/$productId': typeof ProductProductIdRoute
+  '/quote/$token': typeof QuoteTokenRoute
   '/store/$categorySlug': typeof StoreCategorySlugRoute
   '/store/checkout': typeof StoreCheckoutRoute
   '/dashboard/': typeof DashboardIndexRoute
   '/store/': typeof StoreIndexRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
   '/dashboard/products/new': typeof DashboardProductsNewRoute
+  '/api/payments/webhook/$provider': typeof ApiPaymentsWebhookProviderRoute
   '/dashboard/products/$productId/edit': typeof DashboardProductsProductIdEditRoute
 }
 export interface FileRoutesByTo {
@@ -188,22 +239,29 @@ export interface FileRoutesByTo {
   '/about': typeof AboutRoute
   '/contact': typeof ContactRoute
   '/delivery': typeof DeliveryRoute
+  '/estimator': typeof EstimatorRoute
   '/login': typeof LoginRoute
   '/redirect': typeof RedirectRoute
   '/dashboard/attributes': typeof DashboardAttributesRoute
+  '/dashboard/blocked-attempts': typeof DashboardBlockedAttemptsRoute
   '/dashboard/brands': typeof DashboardBrandsRoute
   '/dashboard/categories': typeof DashboardCategoriesRoute
   '/dashboard/collections': typeof DashboardCollectionsRoute
+  '/dashboard/coupons': typeof DashboardCouponsRoute
   '/dashboard/misc': typeof DashboardMiscRoute
   '/dashboard/orders': typeof DashboardOrdersRoute
+  '/dashboard/quotes': typeof DashboardQuotesRoute
   '/order/$orderId': typeof OrderOrderIdRoute
+  '/payment/mock': typeof PaymentMockRoute
   '/product/$productId': typeof ProductProductIdRoute
+  '/quote/$token': typeof QuoteTokenRoute
   '/store/$categorySlug': typeof StoreCategorySlugRoute
   '/store/checkout': typeof StoreCheckoutRoute
   '/dashboard': typeof DashboardIndexRoute
   '/store': typeof StoreIndexRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
   '/dashboard/products/new': typeof DashboardProductsNewRoute
+  '/api/payments/webhook/$provider': typeof ApiPaymentsWebhookProviderRoute
   '/dashboard/products/$productId/edit': typeof DashboardProductsProductIdEditRoute
 }
 export interface FileRoutesById {
@@ -215,22 +273,29 @@ export interface FileRoutesById {
   '/about': typeof AboutRoute
   '/contact': typeof ContactRoute
   '/delivery': typeof DeliveryRoute
+  '/estimator': typeof EstimatorRoute
   '/login': typeof LoginRoute
   '/redirect': typeof RedirectRoute
   '/dashboard/attributes': typeof DashboardAttributesRoute
+  '/dashboard/blocked-attempts': typeof DashboardBlockedAttemptsRoute
   '/dashboard/brands': typeof DashboardBrandsRoute
   '/dashboard/categories': typeof DashboardCategoriesRoute
   '/dashboard/collections': typeof DashboardCollectionsRoute
+  '/dashboard/coupons': typeof DashboardCouponsRoute
   '/dashboard/misc': typeof DashboardMiscRoute
   '/dashboard/orders': typeof DashboardOrdersRoute
+  '/dashboard/quotes': typeof DashboardQuotesRoute
   '/order/$orderId': typeof OrderOrderIdRoute
+  '/payment/mock': typeof PaymentMockRoute
   '/product/$productId': typeof ProductProductIdRoute
+  '/quote/$token': typeof QuoteTokenRoute
   '/store/$categorySlug': typeof StoreCategorySlugRoute
   '/store/checkout': typeof StoreCheckoutRoute
   '/dashboard/': typeof DashboardIndexRoute
   '/store/': typeof StoreIndexRoute
   '/api/auth/$': typeof ApiAuthSplatRoute
   '/dashboard/products/new': typeof DashboardProductsNewRoute
+  '/api/payments/webhook/$provider': typeof ApiPaymentsWebhookProviderRoute
   '/dashboard/products/$productId/edit': typeof DashboardProductsProductIdEditRoute
 }
 export interface FileRouteTypes {
@@ -243,22 +308,29 @@ export interface FileRouteTypes {
     | '/about'
     | '/contact'
     | '/delivery'
+    | '/estimator'
     | '/login'
     | '/redirect'
     | '/dashboard/attributes'
+    | '/dashboard/blocked-attempts'
     | '/dashboard/brands'
     | '/dashboard/categories'
     | '/dashboard/collections'
+    | '/dashboard/coupons'
     | '/dashboard/misc'
     | '/dashboard/orders'
+    | '/dashboard/quotes'
     | '/order/$orderId'
+    | '/payment/mock'
     | '/product/$productId'
+    | '/quote/$token'
     | '/store/$categorySlug'
     | '/store/checkout'
     | '/dashboard/'
     | '/store/'
     | '/api/auth/$'
     | '/dashboard/products/new'
+    | '/api/payments/webhook/$provider'
     | '/dashboard/products/$productId/edit'
   fileRoutesByTo: FileRoutesByTo
   to:
@@ -267,22 +339,29 @@ export interface FileRouteTypes {
     | '/about'
     | '/contact'
     | '/delivery'
+    | '/estimator'
     | '/login'
     | '/redirect'
     | '/dashboard/attributes'
+    | '/dashboard/blocked-attempts'
     | '/dashboard/brands'
     | '/dashboard/categories'
     | '/dashboard/collections'
+    | '/dashboard/coupons'
     | '/dashboard/misc'
     | '/dashboard/orders'
+    | '/dashboard/quotes'
     | '/order/$orderId'
+    | '/payment/mock'
     | '/product/$productId'
+    | '/quote/$token'
     | '/store/$categorySlug'
     | '/store/checkout'
     | '/dashboard'
     | '/store'
     | '/api/auth/$'
     | '/dashboard/products/new'
+    | '/api/payments/webhook/$provider'
     | '/dashboard/products/$productId/edit'
   id:
     | '__root__'
@@ -293,22 +372,29 @@ export interface FileRouteTypes {
     | '/about'
     | '/contact'
     | '/delivery'
+    | '/estimator'
     | '/login'
     | '/redirect'
     | '/dashboard/attributes'
+    | '/dashboard/blocked-attempts'
     | '/dashboard/brands'
     | '/dashboard/categories'
     | '/dashboard/collections'
+    | '/dashboard/coupons'
     | '/dashboard/misc'
     | '/dashboard/orders'
+    | '/dashboard/quotes'
     | '/order/$orderId'
+    | '/payment/mock'
     | '/product/$productId'
+    | '/quote/$token'
     | '/store/$categorySlug'
     | '/store/checkout'
     | '/dashboard/'
     | '/store/'
     | '/api/auth/$'
     | '/dashboard/products/new'
+    | '/api/payments/webhook/$provider'
     | '/dashboard/products/$productId/edit'
   fileRoutesById: FileRoutesById
 }
@@ -320,10 +406,14 @@ export interface RootRouteChildren {
   AboutRoute: typeof AboutRoute
   ContactRoute: typeof ContactRoute
   DeliveryRoute: typeof DeliveryRoute
+  EstimatorRoute: typeof EstimatorRoute
   LoginRoute: typeof LoginRoute
   RedirectRoute: typeof RedirectRoute
   OrderOrderIdRoute: typeof OrderOrderIdRoute
+  PaymentMockRoute: typeof PaymentMockRoute
+  QuoteTokenRoute: typeof QuoteTokenRoute
   ApiAuthSplatRoute: typeof ApiAuthSplatRoute
+  ApiPaymentsWebhookProviderRoute: typeof ApiPaymentsWebhookProviderRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -342,6 +432,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LoginRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/estimator': {
+      id: '/estimator'
+      path: '/estimator'
+      fullPath: '/estimator'
+      preLoaderRoute: typeof EstimatorRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/delivery': {
       id: '/delivery'
       path: '/delivery'
@@ -419,6 +516,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof StoreCategorySlugRouteImport
       parentRoute: typeof StoreRouteRoute
     }
+    '/quote/$token': {
+      id: '/quote/$token'
+      path: '/quote/$token'
+      fullPath: '/quote/$token'
+      preLoaderRoute: typeof QuoteTokenRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/product/$productId': {
       id: '/product/$productId'
       path: '/$productId'
@@ -426,6 +530,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProductProductIdRouteImport
       parentRoute: typeof ProductRouteRoute
     }
+    '/payment/mock': {
+      id: '/payment/mock'
+      path: '/payment/mock'
+      fullPath: '/payment/mock'
+      preLoaderRoute: typeof PaymentMockRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/order/$orderId': {
       id: '/order/$orderId'
       path: '/order/$orderId'
@@ -433,6 +544,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof OrderOrderIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/dashboard/quotes': {
+      id: '/dashboard/quotes'
+      path: '/quotes'
+      fullPath: '/dashboard/quotes'
+      preLoaderRoute: typeof DashboardQuotesRouteImport
+      parentRoute: typeof DashboardRouteRoute
+    }
     '/dashboard/orders': {
       id: '/dashboard/orders'
       path: '/orders'
@@ -447,6 +565,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardMiscRouteImport
       parentRoute: typeof DashboardRouteRoute
     }
+    '/dashboard/coupons': {
+      id: '/dashboard/coupons'
+      path: '/coupons'
+      fullPath: '/dashboard/coupons'
+      preLoaderRoute: typeof DashboardCouponsRouteImport
+      parentRoute: typeof DashboardRouteRoute
+    }
     '/dashboard/collections': {
       id: '/dashboard/collections'
       path: '/collections'
@@ -468,6 +593,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardBrandsRouteImport
       parentRoute: typeof DashboardRouteRoute
     }
+    '/dashboard/blocked-attempts': {
+      id: '/dashboard/blocked-attempts'
+      path: '/blocked-attempts'
+      fullPath: '/dashboard/blocked-attempts'
+      preLoaderRoute: typeof DashboardBlockedAttemptsRouteImport
+      parentRoute: typeof DashboardRouteRoute
+    }
     '/dashboard/attributes': {
       id: '/dashboard/attributes'
       path: '/attributes'
@@ -496,16 +628,26 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardProductsProductIdEditRouteImport
       parentRoute: typeof DashboardRouteRoute
     }
+    '/api/payments/webhook/$provider': {
+      id: '/api/payments/webhook/$provider'
+      path: '/api/payments/webhook/$provider'
+      fullPath: '/api/payments/webhook/$provider'
+      preLoaderRoute: typeof ApiPaymentsWebhookProviderRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
 interface DashboardRouteRouteChildren {
   DashboardAttributesRoute: typeof DashboardAttributesRoute
+  DashboardBlockedAttemptsRoute: typeof DashboardBlockedAttemptsRoute
   DashboardBrandsRoute: typeof DashboardBrandsRoute
   DashboardCategoriesRoute: typeof DashboardCategoriesRoute
   DashboardCollectionsRoute: typeof DashboardCollectionsRoute
+  DashboardCouponsRoute: typeof DashboardCouponsRoute
   DashboardMiscRoute: typeof DashboardMiscRoute
   DashboardOrdersRoute: typeof DashboardOrdersRoute
+  DashboardQuotesRoute: typeof DashboardQuotesRoute
   DashboardIndexRoute: typeof DashboardIndexRoute
   DashboardProductsNewRoute: typeof DashboardProductsNewRoute
   DashboardProductsProductIdEditRoute: typeof DashboardProductsProductIdEditRoute
@@ -513,11 +655,14 @@ interface DashboardRouteRouteChildren {
 
 const DashboardRouteRouteChildren: DashboardRouteRouteChildren = {
   DashboardAttributesRoute: DashboardAttributesRoute,
+  DashboardBlockedAttemptsRoute: DashboardBlockedAttemptsRoute,
   DashboardBrandsRoute: DashboardBrandsRoute,
   DashboardCategoriesRoute: DashboardCategoriesRoute,
   DashboardCollectionsRoute: DashboardCollectionsRoute,
+  DashboardCouponsRoute: DashboardCouponsRoute,
   DashboardMiscRoute: DashboardMiscRoute,
   DashboardOrdersRoute: DashboardOrdersRoute,
+  DashboardQuotesRoute: DashboardQuotesRoute,
   DashboardIndexRoute: DashboardIndexRoute,
   DashboardProductsNewRoute: DashboardProductsNewRoute,
   DashboardProductsProductIdEditRoute: DashboardProductsProductIdEditRoute,
@@ -563,10 +708,14 @@ const rootRouteChildren: RootRouteChildren = {
   AboutRoute: AboutRoute,
   ContactRoute: ContactRoute,
   DeliveryRoute: DeliveryRoute,
+  EstimatorRoute: EstimatorRoute,
   LoginRoute: LoginRoute,
   RedirectRoute: RedirectRoute,
   OrderOrderIdRoute: OrderOrderIdRoute,
+  PaymentMockRoute: PaymentMockRoute,
+  QuoteTokenRoute: QuoteTokenRoute,
   ApiAuthSplatRoute: ApiAuthSplatRoute,
+  ApiPaymentsWebhookProviderRoute: ApiPaymentsWebhookProviderRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
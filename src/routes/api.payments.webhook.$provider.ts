@@ -0,0 +1,13 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { handlePaymentWebhook } from "~/utils/orderPayments";
+
+// Payment provider notifications, e.g. /api/payments/webhook/mock
+export const Route = createFileRoute("/api/payments/webhook/$provider")({
+	server: {
+		handlers: {
+			POST: async ({ request, params }) => {
+				return handlePaymentWebhook(params.provider, request);
+			},
+		},
+	},
+});
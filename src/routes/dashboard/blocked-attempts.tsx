@@ -0,0 +1,105 @@
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { EmptyState } from "~/components/ui/shared/EmptyState";
+import {
+	BLOCKED_ATTEMPT_REASONS,
+	getBlockedAttemptReasonName,
+	getProtectedActionName,
+} from "~/constants/blockedAttempts";
+import { dashboardBlockedAttemptsQueryOptions } from "~/lib/queryOptions";
+import { formatDateTime } from "~/lib/utils";
+import { formatPhone } from "~/utils/phone";
+import { simpleSearchSchema } from "~/utils/searchSchemas";
+import { DAY_MS } from "~/utils/storeDate";
+
+export const Route = createFileRoute("/dashboard/blocked-attempts")({
+	component: RouteComponent,
+	validateSearch: zodValidator(simpleSearchSchema),
+	loader: async ({ context: { queryClient } }) => {
+		await queryClient.ensureQueryData(dashboardBlockedAttemptsQueryOptions());
+	},
+});
+
+function RouteComponent() {
+	const searchParams = Route.useSearch();
+	const searchTerm = searchParams.search ?? "";
+
+	const { data: attempts } = useSuspenseQuery(
+		dashboardBlockedAttemptsQueryOptions(),
+	);
+
+	// Search by IP or phone
+	const filteredAttempts =
+		searchTerm.trim().length >= 2
+			? attempts.filter((attempt) => {
+					const searchLower = searchTerm.toLowerCase();
+					const searchDigits = searchTerm.replace(/\D/g, "");
+					return (
+						(attempt.ip?.includes(searchLower) ?? false) ||
+						(searchDigits.length >= 2 &&
+							(attempt.phone?.includes(searchDigits) ?? false))
+					);
+				})
+			: attempts;
+
+	const dayAgo = Date.now() - DAY_MS;
+	const lastDay = attempts.filter(
+		(attempt) => new Date(attempt.createdAt).getTime() >= dayAgo,
+	);
+
+	return (
+		<div className="h-full overflow-auto">
+			<div className="space-y-6 px-6 py-6">
+				<div>
+					<h2 className="text-lg font-semibold mb-1">
+						Заблокированные попытки
+					</h2>
+					<p className="text-sm text-muted-foreground mb-4">
+						За сутки: {lastDay.length}
+						{BLOCKED_ATTEMPT_REASONS.map((reason) => {
+							const reasonCount = lastDay.filter(
+								(attempt) => attempt.reason === reason,
+							).length;
+							return reasonCount > 0
+								? ` · ${getBlockedAttemptReasonName(reason)}: ${reasonCount}`
+								: null;
+						})}
+					</p>
+					{filteredAttempts.length === 0 ? (
+						<EmptyState
+							entityType="blocked-attempts"
+							isSearchResult={searchTerm.trim().length >= 2}
+						/>
+					) : (
+						<div className="border border-border rounded-lg divide-y">
+							{filteredAttempts.map((attempt) => (
+								<div
+									key={attempt.id}
+									className="flex items-center gap-4 p-3 text-sm"
+								>
+									<div className="flex flex-col flex-1 min-w-0 gap-0.5">
+										<span className="font-medium truncate">
+											{getBlockedAttemptReasonName(attempt.reason)}
+										</span>
+										<span className="text-xs text-muted-foreground truncate">
+											{formatDateTime(attempt.createdAt)} ·{" "}
+											{getProtectedActionName(attempt.action)}
+											{attempt.userAgent ? ` · ${attempt.userAgent}` : ""}
+										</span>
+									</div>
+									<span className="text-muted-foreground shrink-0">
+										{attempt.phone ? formatPhone(attempt.phone) : "—"}
+									</span>
+									<span className="font-mono text-xs shrink-0">
+										{attempt.ip ?? "IP неизвестен"}
+									</span>
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -19,6 +19,10 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "~/components/ui/shared/Select";
+import {
+	getProjectAccessoryName,
+	PROJECT_ACCESSORIES,
+} from "~/constants/projectAccessories";
 import {
 	categoriesQueryOptions,
 	productCategoryCountsQueryOptions,
@@ -44,6 +48,7 @@ const CategoryFormFields = ({
 	editingEntity,
 }: EntityFormFieldsProps<Category, CategoryFormData>) => {
 	const parentCategoryId = `${idPrefix}-parent-category`;
+	const projectAccessoryId = `${idPrefix}-project-accessory`;
 
 	return (
 		<>
@@ -81,6 +86,34 @@ const CategoryFormFields = ({
 				</Select>
 			</div>
 
+			{/* Estimator suggestions */}
+			<div>
+				<label
+					htmlFor={projectAccessoryId}
+					className="block text-sm font-medium mb-1"
+				>
+					Комплектующие в калькуляторе проекта
+				</label>
+				<Select
+					value={(formData as CategoryFormData).projectAccessory || "none"}
+					onValueChange={(value: string) => {
+						onFieldChange("projectAccessory", value === "none" ? null : value);
+					}}
+				>
+					<SelectTrigger id={projectAccessoryId}>
+						<SelectValue placeholder="Не предлагать" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="none">Не предлагать</SelectItem>
+						{PROJECT_ACCESSORIES.map((accessory) => (
+							<SelectItem key={accessory} value={accessory}>
+								{getProjectAccessoryName(accessory)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
 			{/* Image Upload */}
 			<ImageUpload
 				currentImages={(formData as CategoryFormData).image || ""}
@@ -199,6 +232,7 @@ function RouteComponent() {
 				name: "",
 				slug: "",
 				parentSlug: null,
+				projectAccessory: null,
 				image: "",
 				isActive: true,
 			} as CategoryFormData,
@@ -0,0 +1,514 @@
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import DeleteConfirmationDialog from "~/components/ui/dashboard/ConfirmationDialog";
+import { DashboardFormDrawer } from "~/components/ui/dashboard/DashboardFormDrawer";
+import { DrawerSection } from "~/components/ui/dashboard/DrawerSection";
+import { EntityCardContent } from "~/components/ui/dashboard/EntityCardContent";
+import { EntityCardGrid } from "~/components/ui/dashboard/EntityCardGrid";
+import { Button } from "~/components/ui/shared/Button";
+import { CheckboxList } from "~/components/ui/shared/CheckboxList";
+import { EmptyState } from "~/components/ui/shared/EmptyState";
+import { Trash } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import { Switch } from "~/components/ui/shared/Switch";
+import {
+	COUPON_DISCOUNT_TYPES,
+	getCouponDiscountTypeName,
+} from "~/constants/couponTypes";
+import { useDashboardForm } from "~/hooks/useDashboardForm";
+import {
+	brandsQueryOptions,
+	categoriesQueryOptions,
+	couponsQueryOptions,
+} from "~/lib/queryOptions";
+import { createCoupon } from "~/server_functions/dashboard/coupons/createCoupon";
+import { deleteCoupon } from "~/server_functions/dashboard/coupons/deleteCoupon";
+import { updateCoupon } from "~/server_functions/dashboard/coupons/updateCoupon";
+import type { Coupon, CouponFormData } from "~/types";
+import { parseCouponScope } from "~/utils/coupons";
+import { simpleSearchSchema } from "~/utils/searchSchemas";
+import { DAY_MS, toStoreDate } from "~/utils/storeDate";
+
+const defaultFormData: CouponFormData = {
+	code: "",
+	description: "",
+	discountType: "percent",
+	discountValue: "",
+	minOrderAmount: "",
+	brandSlugs: [],
+	categorySlugs: [],
+	usageLimit: "",
+	startsAt: "",
+	expiresAt: "",
+	isActive: true,
+};
+
+const couponToFormData = (coupon: Coupon): CouponFormData => ({
+	code: coupon.code,
+	description: coupon.description ?? "",
+	discountType: coupon.discountType,
+	discountValue: String(coupon.discountValue),
+	minOrderAmount: coupon.minOrderAmount?.toString() ?? "",
+	brandSlugs: parseCouponScope(coupon.brandSlugs),
+	categorySlugs: parseCouponScope(coupon.categorySlugs),
+	usageLimit: coupon.usageLimit?.toString() ?? "",
+	startsAt: coupon.startsAt ? toStoreDate(coupon.startsAt) : "",
+	// Stored as the start of the next day, shown as the last valid day
+	expiresAt: coupon.expiresAt
+		? toStoreDate(new Date(new Date(coupon.expiresAt).getTime() - DAY_MS))
+		: "",
+	isActive: coupon.isActive,
+});
+
+const formatDiscount = (coupon: Coupon) =>
+	coupon.discountType === "percent"
+		? `${coupon.discountValue}%`
+		: `${coupon.discountValue} р`;
+
+const formatUsage = (coupon: Coupon) =>
+	coupon.usageLimit !== null
+		? `${coupon.usageCount} из ${coupon.usageLimit}`
+		: `${coupon.usageCount}`;
+
+interface CouponFormFieldsProps {
+	formData: CouponFormData;
+	onChange: (
+		e: React.ChangeEvent<
+			HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+		>,
+	) => void;
+	onFieldChange: <K extends keyof CouponFormData>(
+		field: K,
+		value: CouponFormData[K],
+	) => void;
+	idPrefix: string;
+}
+
+function CouponFormFields({
+	formData,
+	onChange,
+	onFieldChange,
+	idPrefix,
+}: CouponFormFieldsProps) {
+	const { data: brands } = useSuspenseQuery(brandsQueryOptions());
+	const { data: categories } = useSuspenseQuery(categoriesQueryOptions());
+
+	const toggleSlug = (
+		field: "brandSlugs" | "categorySlugs",
+		slug: string,
+		checked: boolean,
+	) => {
+		const current = formData[field];
+		onFieldChange(
+			field,
+			checked ? [...current, slug] : current.filter((s) => s !== slug),
+		);
+	};
+
+	return (
+		<>
+			<DrawerSection maxWidth>
+				<div className="space-y-4">
+					<Input
+						label="Код"
+						name="code"
+						value={formData.code}
+						onChange={onChange}
+						className="uppercase"
+						required
+					/>
+
+					<Input
+						label="Описание"
+						name="description"
+						value={formData.description}
+						onChange={onChange}
+					/>
+
+					<div className="grid grid-cols-2 gap-4">
+						<Select
+							value={formData.discountType}
+							onValueChange={(value) => onFieldChange("discountType", value)}
+						>
+							<SelectTrigger label="Тип скидки" required>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{COUPON_DISCOUNT_TYPES.map((type) => (
+									<SelectItem key={type} value={type}>
+										{getCouponDiscountTypeName(type)}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+
+						<Input
+							label={
+								formData.discountType === "percent" ? "Скидка, %" : "Скидка, р"
+							}
+							name="discountValue"
+							type="number"
+							min={0}
+							step="0.01"
+							value={formData.discountValue}
+							onChange={onChange}
+							required
+						/>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4">
+						<Input
+							label="Мин. сумма заказа, р"
+							name="minOrderAmount"
+							type="number"
+							min={0}
+							step="0.01"
+							value={formData.minOrderAmount}
+							onChange={onChange}
+						/>
+
+						<Input
+							label="Лимит использований"
+							name="usageLimit"
+							type="number"
+							min={1}
+							step={1}
+							value={formData.usageLimit}
+							onChange={onChange}
+						/>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-1">
+							<label
+								htmlFor={`${idPrefix}-startsAt`}
+								className="text-sm font-medium"
+							>
+								Действует с
+							</label>
+							<Input
+								id={`${idPrefix}-startsAt`}
+								name="startsAt"
+								type="date"
+								value={formData.startsAt}
+								onChange={onChange}
+							/>
+						</div>
+						<div className="space-y-1">
+							<label
+								htmlFor={`${idPrefix}-expiresAt`}
+								className="text-sm font-medium"
+							>
+								Действует по
+							</label>
+							<Input
+								id={`${idPrefix}-expiresAt`}
+								name="expiresAt"
+								type="date"
+								value={formData.expiresAt}
+								onChange={onChange}
+							/>
+						</div>
+					</div>
+
+					<div className="flex items-center gap-2">
+						<Switch
+							name="isActive"
+							checked={formData.isActive}
+							onChange={onChange}
+						/>
+						<span className="text-sm">Активен</span>
+					</div>
+				</div>
+			</DrawerSection>
+
+			<DrawerSection maxWidth>
+				<div className="space-y-4">
+					<div>
+						<p className="text-sm font-medium mb-1">Бренды</p>
+						<p className="text-xs text-muted-foreground mb-2">
+							Если ничего не выбрано — все бренды
+						</p>
+						<CheckboxList
+							items={brands.map((brand) => ({
+								id: brand.slug,
+								label: brand.name,
+								isActive: brand.isActive,
+							}))}
+							selectedIds={formData.brandSlugs}
+							onItemChange={(slug, checked) =>
+								toggleSlug("brandSlugs", String(slug), checked)
+							}
+							idPrefix={`${idPrefix}-brand`}
+							scrollable
+						/>
+					</div>
+
+					<div>
+						<p className="text-sm font-medium mb-1">Категории</p>
+						<p className="text-xs text-muted-foreground mb-2">
+							Подкатегории включаются автоматически. Если ничего не выбрано —
+							все категории
+						</p>
+						<CheckboxList
+							items={categories.map((category) => ({
+								id: category.slug,
+								label: category.name,
+								isActive: category.isActive,
+							}))}
+							selectedIds={formData.categorySlugs}
+							onItemChange={(slug, checked) =>
+								toggleSlug("categorySlugs", String(slug), checked)
+							}
+							idPrefix={`${idPrefix}-category`}
+							scrollable
+						/>
+					</div>
+				</div>
+			</DrawerSection>
+		</>
+	);
+}
+
+export const Route = createFileRoute("/dashboard/coupons")({
+	component: RouteComponent,
+	validateSearch: zodValidator(simpleSearchSchema),
+	loader: async ({ context: { queryClient } }) => {
+		await Promise.all([
+			queryClient.ensureQueryData(couponsQueryOptions()),
+			queryClient.ensureQueryData(brandsQueryOptions()),
+			queryClient.ensureQueryData(categoriesQueryOptions()),
+		]);
+	},
+});
+
+function RouteComponent() {
+	const queryClient = useQueryClient();
+	const createFormId = useId();
+	const editFormId = useId();
+
+	const searchParams = Route.useSearch();
+	const searchTerm = searchParams.search ?? "";
+
+	const { data: coupons } = useSuspenseQuery(couponsQueryOptions());
+
+	const form = useDashboardForm<CouponFormData>(defaultFormData, {
+		listenToActionButton: true,
+	});
+	const [editingCouponId, setEditingCouponId] = useState<number | null>(null);
+
+	const invalidateCoupons = () =>
+		queryClient.invalidateQueries({ queryKey: ["bfloorDashboardCoupons"] });
+
+	const handleError = (err: unknown) => {
+		const errorMsg = err instanceof Error ? err.message : "An error occurred";
+		form.crud.setError(errorMsg);
+		toast.error(errorMsg);
+	};
+
+	const closeCreateDrawer = () => {
+		form.crud.closeCreateDrawer();
+		form.createForm.resetForm();
+	};
+
+	const closeEditDrawer = () => {
+		form.crud.closeEditDrawer();
+		setEditingCouponId(null);
+		form.editForm.resetForm();
+	};
+
+	const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		form.crud.startSubmitting();
+		try {
+			await createCoupon({ data: form.createForm.formData });
+			toast.success("Промокод добавлен успешно!");
+			invalidateCoupons();
+			closeCreateDrawer();
+		} catch (err) {
+			handleError(err);
+		} finally {
+			form.crud.stopSubmitting();
+		}
+	};
+
+	const handleEdit = (coupon: Coupon) => {
+		setEditingCouponId(coupon.id);
+		form.editForm.setFormData(couponToFormData(coupon));
+		form.crud.openEditDrawer();
+	};
+
+	const handleUpdate = async (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		if (!editingCouponId) return;
+
+		form.crud.startSubmitting();
+		try {
+			await updateCoupon({
+				data: { id: editingCouponId, data: form.editForm.formData },
+			});
+			toast.success("Промокод обновлен успешно!");
+			invalidateCoupons();
+			closeEditDrawer();
+		} catch (err) {
+			handleError(err);
+		} finally {
+			form.crud.stopSubmitting();
+		}
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!editingCouponId) return;
+
+		form.crud.startDeleting();
+		try {
+			await deleteCoupon({ data: { id: editingCouponId } });
+			toast.success("Промокод удален успешно!");
+			invalidateCoupons();
+			form.crud.closeDeleteDialog();
+			closeEditDrawer();
+		} catch (err) {
+			handleError(err);
+		} finally {
+			form.crud.stopDeleting();
+		}
+	};
+
+	// Client-side filtering based on search term
+	const filteredCoupons =
+		searchTerm.trim().length >= 2
+			? coupons.filter((coupon) => {
+					const searchLower = searchTerm.toLowerCase();
+					return (
+						coupon.code.toLowerCase().includes(searchLower) ||
+						(coupon.description?.toLowerCase().includes(searchLower) ?? false)
+					);
+				})
+			: coupons;
+
+	return (
+		<div className="h-full overflow-auto">
+			<div className="space-y-6 px-6 py-6">
+				<div>
+					<h2 className="text-lg font-semibold mb-4">Промокоды</h2>
+					{filteredCoupons.length === 0 ? (
+						<EmptyState
+							entityType="coupons"
+							isSearchResult={searchTerm.trim().length >= 2}
+						/>
+					) : (
+						<EntityCardGrid
+							entities={filteredCoupons}
+							onEdit={handleEdit}
+							renderEntity={(coupon) => (
+								<EntityCardContent
+									name={`${coupon.code} · ${formatDiscount(coupon)}`}
+									isActive={coupon.isActive}
+									inactiveLabel="Неактивен"
+									secondaryInfo={[
+										coupon.description,
+										`Использован: ${formatUsage(coupon)}`,
+										coupon.expiresAt
+											? `до ${toStoreDate(new Date(new Date(coupon.expiresAt).getTime() - DAY_MS))}`
+											: null,
+									]
+										.filter(Boolean)
+										.join(" · ")}
+								/>
+							)}
+						/>
+					)}
+				</div>
+
+				{/* Create Coupon Drawer */}
+				<DashboardFormDrawer
+					isOpen={form.crud.showCreateDrawer}
+					onOpenChange={form.crud.setShowCreateDrawer}
+					title="Добавить новый промокод"
+					formId={createFormId}
+					isSubmitting={form.crud.isSubmitting}
+					submitButtonText="Создать промокод"
+					submittingText="Создание..."
+					onCancel={closeCreateDrawer}
+					error={
+						form.crud.error && !form.crud.showEditDrawer
+							? form.crud.error
+							: undefined
+					}
+					layout="single-column"
+				>
+					<form onSubmit={handleCreate} id={createFormId} className="contents">
+						<CouponFormFields
+							formData={form.createForm.formData}
+							onChange={form.createForm.handleChange}
+							onFieldChange={form.createForm.updateField}
+							idPrefix="create"
+						/>
+					</form>
+				</DashboardFormDrawer>
+
+				{/* Edit Coupon Drawer */}
+				<DashboardFormDrawer
+					isOpen={form.crud.showEditDrawer}
+					onOpenChange={form.crud.setShowEditDrawer}
+					title="Редактировать промокод"
+					formId={editFormId}
+					isSubmitting={form.crud.isSubmitting}
+					submitButtonText="Обновить промокод"
+					submittingText="Обновление..."
+					onCancel={closeEditDrawer}
+					error={
+						form.crud.error && form.crud.showEditDrawer
+							? form.crud.error
+							: undefined
+					}
+					layout="single-column"
+				>
+					<form onSubmit={handleUpdate} id={editFormId} className="contents">
+						<CouponFormFields
+							formData={form.editForm.formData}
+							onChange={form.editForm.handleChange}
+							onFieldChange={form.editForm.updateField}
+							idPrefix="edit"
+						/>
+
+						<DrawerSection maxWidth>
+							<div className="pt-4 border-t border-border">
+								<Button
+									type="button"
+									variant="destructive"
+									onClick={form.crud.openDeleteDialog}
+									className="w-full"
+								>
+									<Trash size={16} className="mr-2" />
+									Удалить промокод
+								</Button>
+							</div>
+						</DrawerSection>
+					</form>
+				</DashboardFormDrawer>
+
+				{form.crud.showDeleteDialog && (
+					<DeleteConfirmationDialog
+						isOpen={form.crud.showDeleteDialog}
+						onClose={form.crud.closeDeleteDialog}
+						onConfirm={handleDeleteConfirm}
+						title="Удалить промокод"
+						description="Вы уверены, что хотите удалить этот промокод? Заказы, оформленные с ним, сохранят код и сумму скидки. Это действие нельзя отменить."
+						isDeleting={form.crud.isDeleting}
+					/>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,34 +1,54 @@
-import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
-import { createFileRoute } from "@tanstack/react-router";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, stripSearchParams } from "@tanstack/react-router";
 import { zodValidator } from "@tanstack/zod-adapter";
 import { useState } from "react";
 import { toast } from "sonner";
+import { z } from "zod";
 import DeleteConfirmationDialog from "~/components/ui/dashboard/ConfirmationDialog";
 import { OrderCard } from "~/components/ui/dashboard/OrderCard";
 import { OrderDrawer } from "~/components/ui/dashboard/OrderDrawer";
+import { OrdersExportPopover } from "~/components/ui/dashboard/OrdersExportPopover";
+import {
+	OrdersFilters,
+	type OrdersFiltersValue,
+} from "~/components/ui/dashboard/OrdersFilters";
 import { OrdersPageSkeleton } from "~/components/ui/dashboard/skeletons/OrdersPageSkeleton";
 import { Button } from "~/components/ui/shared/Button";
 import { EmptyState } from "~/components/ui/shared/EmptyState";
-import { CheckSquare, Square, Trash } from "~/components/ui/shared/Icon";
+import {
+	CheckSquare,
+	ChevronLeft,
+	ChevronRight,
+	Square,
+	Trash,
+} from "~/components/ui/shared/Icon";
+import { ORDER_LIST_SORTS, ORDERS_PAGE_SIZE } from "~/constants/orderList";
+import { ORDER_STATUSES } from "~/constants/orderStatuses";
+import { PAYMENT_STATUSES } from "~/constants/paymentStatuses";
 import { dashboardOrdersQueryOptions } from "~/lib/queryOptions";
 import {
 	deleteOrder,
 	deleteOrders,
 } from "~/server_functions/dashboard/orders/deleteOrder";
 import { updateOrderStatus } from "~/server_functions/dashboard/orders/updateOrderStatus";
+import type { OrderCommentSummary } from "~/utils/orderComments";
 import { simpleSearchSchema } from "~/utils/searchSchemas";
+import type { SaleUnit } from "~/utils/units";
 
 export interface OrderItem {
 	id: number;
 	orderId: number;
 	productId: number;
 	quantity: number;
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null;
 	unitAmount: number;
 	finalAmount: number;
 	discountPercentage: number | null;
 	product: {
 		name: string;
 		images: string | null;
+		unitOfMeasurement: string | null;
 	};
 	variation?: {
 		id: number;
@@ -44,23 +64,66 @@ export interface Order {
 	discountAmount: number;
 	shippingAmount: number;
 	totalAmount: number;
+	refundedAmount: number;
 	currency: string;
 	paymentMethod: string | null;
 	paymentStatus: string;
+	paymentId: string | null;
 	shippingMethod: string | null;
+	shippingBreakdown: string | null;
+	deliveryAddress: string | null;
+	deliveryNeedsReview: boolean;
+	deliveryReviewedBy: string | null;
+	deliveryReviewedAt: Date | null;
+	pickupLocationId: number | null;
+	couponCode: string | null;
+	couponDiscountAmount: number;
 	notes: string | null;
+	customerName: string | null;
+	customerPhone: string | null;
+	customerEmail: string | null;
+	contactMethod: string | null;
+	notifyStatusChanges: boolean;
+	publicToken: string | null;
 	createdAt: Date;
 	completedAt: Date | null;
 	items: OrderItem[];
+	comments?: OrderCommentSummary | null;
 }
 
+// Filters, sorting and page live in the URL, like the products list in /dashboard/
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+const ordersSearchSchema = simpleSearchSchema.extend({
+	status: z.enum(ORDER_STATUSES).optional(),
+	paymentStatus: z.enum(PAYMENT_STATUSES).optional(),
+	dateFrom: z.string().regex(datePattern).optional(),
+	dateTo: z.string().regex(datePattern).optional(),
+	minTotal: z.number().nonnegative().optional(),
+	maxTotal: z.number().nonnegative().optional(),
+	deliveryNeedsReview: z.boolean().optional(),
+	sort: z.enum(ORDER_LIST_SORTS).optional(),
+	page: z.number().int().positive().optional(),
+});
+
+// Default values for search params (used for stripping defaults from URL)
+const defaultSearchValues = {
+	sort: "newest" as const,
+	page: 1,
+};
+
 export const Route = createFileRoute("/dashboard/orders")({
 	component: OrderList,
 	pendingComponent: OrdersPageSkeleton,
-	validateSearch: zodValidator(simpleSearchSchema),
-	// Prefetch orders data before component renders
-	loader: async ({ context: { queryClient } }) => {
-		await queryClient.ensureQueryData(dashboardOrdersQueryOptions());
+	validateSearch: zodValidator(ordersSearchSchema),
+	// Strip default values from URL to keep it clean
+	search: {
+		middlewares: [stripSearchParams(defaultSearchValues)],
+	},
+	loaderDeps: ({ search }) => search,
+	// Prefetch the current page before component renders
+	loader: async ({ context: { queryClient }, deps }) => {
+		await queryClient.ensureQueryData(dashboardOrdersQueryOptions(deps));
 	},
 	errorComponent: ({ error }) => {
 		return (
@@ -80,8 +143,8 @@ export const Route = createFileRoute("/dashboard/orders")({
 function OrderList() {
 	const queryClient = useQueryClient();
 	// Get search params from URL using TanStack Router (consistent with other dashboard pages)
-	// Get search params from URL (Zod ensures search is string | undefined)
 	const searchParams = Route.useSearch();
+	const navigate = Route.useNavigate();
 	const searchTerm = searchParams.search ?? "";
 	const [isSelectionMode, setIsSelectionMode] = useState(false);
 	const [selectedOrders, setSelectedOrders] = useState<Set<number>>(new Set());
@@ -98,9 +161,31 @@ function OrderList() {
 	const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
 	const [showOrderDrawer, setShowOrderDrawer] = useState(false);
 
-	// Fetch orders (already grouped and sorted by server)
-	// Data is guaranteed to be loaded by the loader
-	const { data } = useSuspenseQuery(dashboardOrdersQueryOptions());
+	// Filtered, sorted and paginated by the server
+	// The first page is loaded by the loader, the previous page stays visible while the next one loads
+	const { data, isPlaceholderData } = useQuery(
+		dashboardOrdersQueryOptions(searchParams),
+	);
+
+	const updateFilters = (update: Partial<OrdersFiltersValue>) => {
+		// Any filter change starts from the first page
+		navigate({
+			search: (prev) => ({ ...prev, ...update, page: undefined }),
+			replace: true,
+		});
+	};
+
+	const resetFilters = () => {
+		navigate({
+			search: (prev) => ({ search: prev.search, sort: prev.sort }),
+			replace: true,
+		});
+	};
+
+	const goToPage = (page: number) => {
+		setSelectedOrders(new Set());
+		navigate({ search: (prev) => ({ ...prev, page }) });
+	};
 
 	const refetch = () => {
 		queryClient.invalidateQueries({
@@ -114,20 +199,55 @@ function OrderList() {
 			const newStatus = currentStatus === "processed" ? "pending" : "processed";
 
 			// Call server function to update status
-			await updateOrderStatus({
+			const result = await updateOrderStatus({
 				data: { id: orderId, status: newStatus },
 			});
 
 			toast.success(`Order #${orderId} marked as ${newStatus}`);
+			if (result.notification.warning) {
+				toast.warning(result.notification.warning);
+			}
 
 			// Refresh the orders list
 			refetch();
+			queryClient.invalidateQueries({
+				queryKey: ["bfloorOrderStatusHistory", orderId],
+			});
 		} catch (error) {
 			console.error("Failed to update order status:", error);
-			toast.error("Failed to update order status");
+			toast.error(
+				error instanceof Error
+					? error.message
+					: "Failed to update order status",
+			);
 		}
 	};
 
+	const handleDrawerOrderChange = (
+		orderId: number,
+		update: Partial<
+			Pick<
+				Order,
+				| "status"
+				| "completedAt"
+				| "notifyStatusChanges"
+				| "subtotalAmount"
+				| "discountAmount"
+				| "totalAmount"
+				| "items"
+				| "paymentStatus"
+				| "refundedAmount"
+				| "deliveryNeedsReview"
+				| "deliveryReviewedBy"
+				| "deliveryReviewedAt"
+			>
+		>,
+	) => {
+		setSelectedOrder((prev) =>
+			prev && prev.id === orderId ? { ...prev, ...update } : prev,
+		);
+	};
+
 	const handleDeleteOrder = async (orderId: number) => {
 		setDeletingOrderId(orderId);
 		setShowSingleDeleteDialog(true);
@@ -232,50 +352,33 @@ function OrderList() {
 		setSelectedOrder(null);
 	};
 
-	const groupedOrders = data.groupedOrders || [];
-
-	// Flatten all orders for total count
-	const allOrders = groupedOrders.flatMap(
-		(group: { title: string; orders: Order[] }) => group.orders,
-	);
-
-	if (allOrders.length === 0) {
-		return (
-			<div className="h-full w-full flex justify-center items-center">
-				<EmptyState entityType="orders" isSearchResult={!!searchTerm} />
-			</div>
+	const allOrders: Order[] = data?.orders ?? [];
+	const total = data?.total ?? 0;
+	const page = data?.page ?? 1;
+	const pageCount = data?.pageCount ?? 1;
+	const hasFilters =
+		!!searchTerm ||
+		Object.entries(searchParams).some(
+			([key, value]) => key !== "sort" && key !== "page" && value !== undefined,
 		);
-	}
-
-	// Filter orders within each group based on search
-	const filteredGroupedOrders = groupedOrders
-		.map((group: { title: string; orders: Order[] }) => ({
-			...group,
-			orders: group.orders.filter((order: Order) => {
-				if (!searchTerm) return true;
-
-				const searchLower = searchTerm.toLowerCase();
-
-				return (
-					order.id.toString().includes(searchLower) ||
-					order.status.toLowerCase().includes(searchLower) ||
-					order.items?.some((item: OrderItem) =>
-						item.product.name.toLowerCase().includes(searchLower),
-					)
-				);
-			}),
-		}))
-		.filter(
-			(group: { title: string; orders: Order[] }) => group.orders.length > 0,
-		); // Only show groups with orders
 
 	return (
 		<div className="space-y-6">
-			{/* Orders Stats */}
-			<div className="px-4"></div>
+			{/* Filters */}
+			<div className="px-4">
+				<OrdersFilters
+					value={searchParams}
+					onChange={updateFilters}
+					onReset={resetFilters}
+				/>
+			</div>
 
 			{/* Selection Controls */}
 			<div className="flex items-center gap-2 px-4">
+				<h2 className="text-2xl font-semibold text-foreground flex items-baseline gap-1 mr-2">
+					Заказы
+					<span className="text-sm text-muted-foreground">{total}</span>
+				</h2>
 				{isSelectionMode && selectedOrders.size > 0 && (
 					<Button
 						variant="destructive"
@@ -313,47 +416,63 @@ function OrderList() {
 							: "Выбрать все"}
 					</Button>
 				)}
+				<div className="ml-auto">
+					<OrdersExportPopover />
+				</div>
 			</div>
 
-			{/* Orders Groups */}
-			{filteredGroupedOrders.length === 0 ? (
-				<EmptyState entityType="orders" isSearchResult={!!searchTerm} />
+			{/* Orders Grid */}
+			{allOrders.length === 0 ? (
+				<div className="flex justify-center py-16">
+					<EmptyState entityType="orders" isSearchResult={hasFilters} />
+				</div>
 			) : (
-				<div className="space-y-8">
-					{/* Render each group from server */}
-					{filteredGroupedOrders.map(
-						(group: { title: string; orders: Order[] }) => (
-							<div key={group.title} className="space-y-4">
-								{/* Group Title */}
-								<div className="px-4">
-									<h2 className="text-2xl font-semibold text-foreground flex items-baseline gap-1">
-										{group.title}
-										<span className="text-sm text-muted-foreground">
-											{group.orders.length}{" "}
-											{group.orders.length === 1 ? "заказ" : "заказов"}
-										</span>
-									</h2>
-								</div>
-
-								{/* Orders Grid */}
-								<div className="grid grid-cols-1 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-2 md:gap-3 px-4">
-									{group.orders.map((order: Order) => (
-										<OrderCard
-											key={order.id}
-											// biome-ignore lint/suspicious/noExplicitAny: OrderCard expects a different Order type
-											order={order as any}
-											onStatusToggle={handleToggleStatus}
-											onDelete={handleDeleteOrder}
-											onClick={handleOrderClick}
-											isSelectionMode={isSelectionMode}
-											isSelected={selectedOrders.has(order.id)}
-											onSelectionChange={handleSelectionChange}
-										/>
-									))}
-								</div>
-							</div>
-						),
-					)}
+				<div
+					className={`grid grid-cols-1 sm:grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-2 md:gap-3 px-4 transition-opacity ${
+						isPlaceholderData ? "opacity-60" : ""
+					}`}
+				>
+					{allOrders.map((order: Order) => (
+						<OrderCard
+							key={order.id}
+							// biome-ignore lint/suspicious/noExplicitAny: OrderCard expects a different Order type
+							order={order as any}
+							onStatusToggle={handleToggleStatus}
+							onDelete={handleDeleteOrder}
+							onClick={handleOrderClick}
+							isSelectionMode={isSelectionMode}
+							isSelected={selectedOrders.has(order.id)}
+							onSelectionChange={handleSelectionChange}
+						/>
+					))}
+				</div>
+			)}
+
+			{/* Pagination */}
+			{pageCount > 1 && (
+				<div className="flex items-center justify-center gap-3 px-4">
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => goToPage(page - 1)}
+						disabled={page <= 1 || isPlaceholderData}
+						aria-label="Предыдущая страница"
+					>
+						<ChevronLeft size={16} />
+					</Button>
+					<span className="text-sm text-muted-foreground">
+						Страница {page} из {pageCount} · {(page - 1) * ORDERS_PAGE_SIZE + 1}
+						–{Math.min(page * ORDERS_PAGE_SIZE, total)} из {total}
+					</span>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => goToPage(page + 1)}
+						disabled={page >= pageCount || isPlaceholderData}
+						aria-label="Следующая страница"
+					>
+						<ChevronRight size={16} />
+					</Button>
 				</div>
 			)}
 
@@ -386,6 +505,7 @@ function OrderList() {
 				order={selectedOrder}
 				isOpen={showOrderDrawer}
 				onClose={handleCloseOrderDrawer}
+				onOrderChange={handleDrawerOrderChange}
 			/>
 		</div>
 	);
@@ -0,0 +1,82 @@
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { EmptyState } from "~/components/ui/shared/EmptyState";
+import { ExternalLink } from "~/components/ui/shared/Icon";
+import { dashboardQuotesQueryOptions } from "~/lib/queryOptions";
+import { formatDateTime } from "~/lib/utils";
+import { simpleSearchSchema } from "~/utils/searchSchemas";
+
+export const Route = createFileRoute("/dashboard/quotes")({
+	component: RouteComponent,
+	validateSearch: zodValidator(simpleSearchSchema),
+	loader: async ({ context: { queryClient } }) => {
+		await queryClient.ensureQueryData(dashboardQuotesQueryOptions());
+	},
+});
+
+function RouteComponent() {
+	const searchParams = Route.useSearch();
+	const searchTerm = searchParams.search ?? "";
+
+	const { data: quotes } = useSuspenseQuery(dashboardQuotesQueryOptions());
+
+	// Client-side filtering based on search term
+	const filteredQuotes =
+		searchTerm.trim().length >= 2
+			? quotes.filter((quote) => {
+					const searchLower = searchTerm.toLowerCase();
+					return (
+						quote.token.includes(searchLower) ||
+						(quote.title?.toLowerCase().includes(searchLower) ?? false) ||
+						(quote.createdBy?.includes(searchLower) ?? false)
+					);
+				})
+			: quotes;
+
+	return (
+		<div className="h-full overflow-auto">
+			<div className="space-y-6 px-6 py-6">
+				<div>
+					<h2 className="text-lg font-semibold mb-4">Сметы</h2>
+					{filteredQuotes.length === 0 ? (
+						<EmptyState
+							entityType="quotes"
+							isSearchResult={searchTerm.trim().length >= 2}
+						/>
+					) : (
+						<div className="border border-border rounded-lg divide-y">
+							{filteredQuotes.map((quote) => (
+								<a
+									key={quote.id}
+									href={`/quote/${quote.token}`}
+									target="_blank"
+									rel="noopener noreferrer"
+									className="flex items-center gap-4 p-3 hover:bg-muted text-sm"
+									style={{ transition: "var(--transition-standard)" }}
+								>
+									<div className="flex flex-col flex-1 min-w-0 gap-0.5">
+										<span className="font-medium truncate">
+											{quote.title || `Смета ${quote.token}`}
+										</span>
+										<span className="text-xs text-muted-foreground truncate">
+											{formatDateTime(quote.createdAt)} ·{" "}
+											{quote.createdBy ?? "гость"} · /quote/{quote.token}
+										</span>
+									</div>
+									<span className="text-muted-foreground shrink-0">
+										{quote.lineCount} поз., {quote.unitCount ?? 0} шт.
+									</span>
+									<span className="font-medium shrink-0">
+										{quote.totalAmount.toFixed(2)} р
+									</span>
+									<ExternalLink className="w-4 h-4 text-muted-foreground shrink-0" />
+								</a>
+							))}
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,437 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useId, useState } from "react";
+import { Button } from "~/components/ui/shared/Button";
+import { Checkbox } from "~/components/ui/shared/Checkbox";
+import { Plus, Trash } from "~/components/ui/shared/Icon";
+import { Input } from "~/components/ui/shared/input";
+import { Link } from "~/components/ui/shared/Link";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
+import {
+	createRoom,
+	type RoomDraft,
+	RoomList,
+	toRoomInput,
+} from "~/components/ui/store/RoomFields";
+import {
+	getLayingPatternName,
+	isLayingPattern,
+	LAYING_PATTERN_WASTE,
+	LAYING_PATTERNS,
+	type LayingPattern,
+} from "~/constants/layingPatterns";
+import {
+	getProjectAccessoryName,
+	PROJECT_ACCESSORIES,
+	PROJECT_ACCESSORY_DEFAULTS,
+	type ProjectAccessory,
+} from "~/constants/projectAccessories";
+import { UNITS } from "~/constants/units";
+import { type AddToCartData, useCart } from "~/lib/cartContext";
+import { projectAccessoriesQueryOptions } from "~/lib/queryOptions";
+import type { getProjectAccessories } from "~/server_functions/store/getProjectAccessories";
+import {
+	getAccessoryQuantity,
+	getProjectMeasurements,
+} from "~/utils/projectEstimate";
+import { estimateFlooring } from "~/utils/roomCalculator";
+import { seo } from "~/utils/seo";
+import {
+	formatArea,
+	formatQuantity,
+	getPackPrice,
+	getSaleUnitCode,
+	isPackProduct,
+} from "~/utils/units";
+
+type EstimatorData = Awaited<ReturnType<typeof getProjectAccessories>>;
+type EstimatorProduct = EstimatorData["accessories"][ProjectAccessory][number];
+
+interface BundleLine {
+	key: string;
+	title: string;
+	product: EstimatorProduct;
+	quantity: number;
+	unitLabel: string;
+	total: number;
+}
+
+export const Route = createFileRoute("/estimator")({
+	component: EstimatorPage,
+	validateSearch: (search: Record<string, unknown>) => ({
+		product: typeof search.product === "string" ? search.product : undefined,
+	}),
+	head: () => ({
+		meta: [
+			...seo({
+				title: "Расчёт материалов для ремонта пола - BeautyFloor",
+				description:
+					"Рассчитайте подложку, плинтус, пороги и клей по размерам комнат",
+			}),
+		],
+	}),
+});
+
+const parseWidth = (value: string) =>
+	Number.parseFloat(value.replace(",", ".")) || 0;
+
+const getUnitPrice = (product: EstimatorProduct) => {
+	const price = getPackPrice(product.price, product.squareMetersPerPack);
+	return product.discount ? price * (1 - product.discount / 100) : price;
+};
+
+const getUnitLabel = (product: EstimatorProduct) =>
+	UNITS[getSaleUnitCode(product)].shortLabel;
+
+const formatPrice = (amount: number) =>
+	`${Math.round(amount).toLocaleString("ru-RU")} р`;
+
+const toCartData = (line: BundleLine): AddToCartData => ({
+	productId: line.product.id,
+	quantity: line.quantity,
+	productName: line.product.name,
+	productSlug: line.product.slug,
+	price: getPackPrice(line.product.price, line.product.squareMetersPerPack),
+	images: line.product.images,
+	discount: line.product.discount,
+	squareMetersPerPack: isPackProduct(line.product.squareMetersPerPack)
+		? line.product.squareMetersPerPack
+		: null,
+	unitOfMeasurement: line.product.unitOfMeasurement,
+});
+
+function EstimatorPage() {
+	const { product: productSlug } = Route.useSearch();
+	const { addItemsToCart } = useCart();
+	const idPrefix = useId();
+	const { data, isPending, isError } = useQuery(
+		projectAccessoriesQueryOptions(productSlug),
+	);
+
+	const [rooms, setRooms] = useState<RoomDraft[]>([createRoom(0)]);
+	const [doorWidths, setDoorWidths] = useState<string[]>(["0,8"]);
+	const [pattern, setPattern] = useState<LayingPattern>("straight");
+	const [includeFlooring, setIncludeFlooring] = useState(true);
+	const [included, setIncluded] = useState(PROJECT_ACCESSORY_DEFAULTS);
+	const [selectedIds, setSelectedIds] = useState<
+		Partial<Record<ProjectAccessory, number>>
+	>({});
+
+	const roomInputs = rooms.map(toRoomInput);
+	const measurements = getProjectMeasurements(
+		roomInputs,
+		doorWidths.map(parseWidth),
+	);
+
+	if (isPending) {
+		return (
+			<div className="min-h-screen flex items-center justify-center">
+				<div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+			</div>
+		);
+	}
+
+	if (isError || !data) {
+		return (
+			<div className="min-h-screen flex items-center justify-center">
+				<p className="text-muted-foreground">
+					Не удалось загрузить товары. Попробуйте обновить страницу.
+				</p>
+			</div>
+		);
+	}
+
+	const { flooring, accessories } = data;
+	// A floor covering with variations is chosen on its own page
+	const canAddFlooring =
+		flooring !== null &&
+		!flooring.hasVariations &&
+		isPackProduct(flooring.squareMetersPerPack);
+
+	const getSelectedProduct = (accessory: ProjectAccessory) =>
+		accessories[accessory].find(
+			(product) => product.id === selectedIds[accessory],
+		) ?? accessories[accessory][0];
+
+	const lines: BundleLine[] = [];
+
+	if (canAddFlooring && includeFlooring && flooring.squareMetersPerPack) {
+		const estimate = estimateFlooring(
+			roomInputs,
+			pattern,
+			flooring.squareMetersPerPack,
+			getUnitPrice(flooring),
+		);
+		if (estimate) {
+			lines.push({
+				key: "flooring",
+				title: "Покрытие",
+				product: flooring,
+				quantity: estimate.packs,
+				unitLabel: UNITS.pack.shortLabel,
+				total: estimate.totalPrice,
+			});
+		}
+	}
+
+	for (const accessory of PROJECT_ACCESSORIES) {
+		const product = getSelectedProduct(accessory);
+		if (!product || !included[accessory]) continue;
+		const quantity = getAccessoryQuantity(accessory, measurements, product);
+		if (quantity === null) continue;
+		lines.push({
+			key: accessory,
+			title: getProjectAccessoryName(accessory),
+			product,
+			quantity,
+			unitLabel: getUnitLabel(product),
+			total: getUnitPrice(product) * quantity,
+		});
+	}
+
+	const bundleTotal = lines.reduce((sum, line) => sum + line.total, 0);
+
+	return (
+		<section className="max-w-3xl mx-auto space-y-6">
+			<div>
+				<h1>Расчёт материалов</h1>
+				<p className="text-muted-foreground">
+					Укажите размеры комнат и дверных проёмов, мы подберём подложку,
+					плинтус, пороги и клей.
+				</p>
+			</div>
+
+			{flooring && (
+				<div className="border border-border rounded-lg p-4 space-y-3">
+					<p>
+						Покрытие:{" "}
+						<Link href={`/product/${flooring.slug}`} className="text-accent">
+							{flooring.name}
+						</Link>
+					</p>
+					{canAddFlooring ? (
+						<>
+							<label
+								htmlFor={`${idPrefix}-flooring`}
+								className="flex items-center gap-2 cursor-pointer"
+							>
+								<Checkbox
+									id={`${idPrefix}-flooring`}
+									checked={includeFlooring}
+									onCheckedChange={(checked) => setIncludeFlooring(!!checked)}
+								/>
+								<span className="text-sm">Добавить покрытие в комплект</span>
+							</label>
+							<Select
+								value={pattern}
+								onValueChange={(value) => {
+									if (isLayingPattern(value)) setPattern(value);
+								}}
+							>
+								<SelectTrigger label="Способ укладки">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{LAYING_PATTERNS.map((option) => (
+										<SelectItem key={option} value={option}>
+											{getLayingPatternName(option)} (запас{" "}
+											{LAYING_PATTERN_WASTE[option]}%)
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Выберите вариант покрытия на странице товара, здесь рассчитаются
+							только комплектующие.
+						</p>
+					)}
+				</div>
+			)}
+
+			<div className="border border-border rounded-lg p-4 space-y-4">
+				<h6>Комнаты</h6>
+				<RoomList rooms={rooms} onRoomsChange={setRooms} />
+			</div>
+
+			<div className="border border-border rounded-lg p-4 space-y-4">
+				<h6>Дверные проёмы</h6>
+				{doorWidths.map((width, index) => (
+					<div
+						// Doors have no identity besides their position
+						// biome-ignore lint/suspicious/noArrayIndexKey: see above
+						key={index}
+						className="flex items-end gap-3"
+					>
+						<div className="flex-1">
+							<Input
+								label={`Ширина проёма ${index + 1}, м`}
+								type="text"
+								inputMode="decimal"
+								value={width}
+								onChange={(e) =>
+									setDoorWidths((prev) =>
+										prev.map((w, i) => (i === index ? e.target.value : w)),
+									)
+								}
+							/>
+						</div>
+						<Button
+							type="button"
+							variant="outline"
+							size="icon"
+							onClick={() =>
+								setDoorWidths((prev) => prev.filter((_, i) => i !== index))
+							}
+							aria-label="Удалить проём"
+						>
+							<Trash size={16} />
+						</Button>
+					</div>
+				))}
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={() => setDoorWidths((prev) => [...prev, "0,8"])}
+				>
+					<Plus size={16} />
+					Добавить проём
+				</Button>
+			</div>
+
+			<div className="border border-border rounded-lg p-4 space-y-1 text-sm">
+				<div className="flex justify-between">
+					<span className="text-muted-foreground">Площадь</span>
+					<span>{formatArea(measurements.area)}</span>
+				</div>
+				<div className="flex justify-between">
+					<span className="text-muted-foreground">Периметр</span>
+					<span>{formatQuantity(measurements.perimeter, "lm")}</span>
+				</div>
+				<div className="flex justify-between">
+					<span className="text-muted-foreground">Плинтус (без проёмов)</span>
+					<span>{formatQuantity(measurements.plinthLength, "lm")}</span>
+				</div>
+			</div>
+
+			{PROJECT_ACCESSORIES.map((accessory) => {
+				const suggestions = accessories[accessory];
+				if (suggestions.length === 0) {
+					return (
+						<div
+							key={accessory}
+							className="border border-dashed border-border rounded-lg p-4 text-sm"
+						>
+							<span className="font-medium">
+								{getProjectAccessoryName(accessory)}
+							</span>
+							<p className="text-muted-foreground">
+								Подходящих товаров пока нет в каталоге, уточните у менеджера
+							</p>
+						</div>
+					);
+				}
+				const product = getSelectedProduct(accessory);
+				const line = lines.find((l) => l.key === accessory);
+
+				return (
+					<div
+						key={accessory}
+						className="border border-border rounded-lg p-4 space-y-3"
+					>
+						<label
+							htmlFor={`${idPrefix}-${accessory}`}
+							className="flex items-center gap-2 cursor-pointer"
+						>
+							<Checkbox
+								id={`${idPrefix}-${accessory}`}
+								checked={included[accessory]}
+								onCheckedChange={(checked) =>
+									setIncluded((prev) => ({ ...prev, [accessory]: !!checked }))
+								}
+							/>
+							<span className="font-medium">
+								{getProjectAccessoryName(accessory)}
+							</span>
+						</label>
+						{included[accessory] && (
+							<>
+								<Select
+									value={String(product.id)}
+									onValueChange={(value) =>
+										setSelectedIds((prev) => ({
+											...prev,
+											[accessory]: Number(value),
+										}))
+									}
+								>
+									<SelectTrigger label="Товар">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{suggestions.map((suggestion) => (
+											<SelectItem
+												key={suggestion.id}
+												value={String(suggestion.id)}
+											>
+												{suggestion.name} —{" "}
+												{formatPrice(getUnitPrice(suggestion))} /{" "}
+												{getUnitLabel(suggestion)}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<p className="text-sm text-muted-foreground">
+									{line
+										? `${line.quantity} ${line.unitLabel} — ${formatPrice(line.total)}`
+										: `Не рассчитать по размерам: товар продаётся в единицах «${product.unitOfMeasurement}»`}
+								</p>
+							</>
+						)}
+					</div>
+				);
+			})}
+
+			<div className="border border-border rounded-lg p-4 space-y-3">
+				<h6>Комплект</h6>
+				{lines.length > 0 ? (
+					<ul className="space-y-1 text-sm">
+						{lines.map((line) => (
+							<li key={line.key} className="flex justify-between gap-3">
+								<span>
+									{line.title}: {line.product.name}, {line.quantity}{" "}
+									{line.unitLabel}
+								</span>
+								<span className="shrink-0">{formatPrice(line.total)}</span>
+							</li>
+						))}
+					</ul>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						Укажите размеры комнаты, чтобы рассчитать комплект
+					</p>
+				)}
+				<div className="flex justify-between font-medium">
+					<span>Итого</span>
+					<span>{formatPrice(bundleTotal)}</span>
+				</div>
+				<Button
+					type="button"
+					className="w-full"
+					disabled={lines.length === 0}
+					onClick={() => addItemsToCart(lines.map(toCartData))}
+				>
+					Добавить комплект в корзину
+				</Button>
+			</div>
+		</section>
+	);
+}
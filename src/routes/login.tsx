@@ -3,6 +3,7 @@ import { AnimatedGroup } from "~/components/motion_primitives/AnimatedGroup";
 import { TextEffect } from "~/components/motion_primitives/AnimatedText";
 import { Button } from "~/components/ui/shared/Button";
 import { ASSETS_BASE_URL } from "~/constants/urls";
+import { clearSavedCart } from "~/lib/cartContext";
 import { signIn, signOut, useSession } from "~/utils/auth-client";
 import { getAuthStatus } from "~/utils/auth-server-func";
 
@@ -58,7 +59,10 @@ function RouteComponent() {
 								аккаунт не имеет доступа к панели управления.
 							</p>
 							<Button
-								onClick={() => signOut()}
+								onClick={async () => {
+									await signOut();
+									clearSavedCart();
+								}}
 								variant="outline"
 								size="lg"
 								className="w-full"
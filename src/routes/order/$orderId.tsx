@@ -1,15 +1,26 @@
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link, notFound } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
 import { Badge } from "~/components/ui/shared/Badge";
 import { Button } from "~/components/ui/shared/Button";
 import { CheckCircle, Clock } from "~/components/ui/shared/Icon";
 import { Image } from "~/components/ui/shared/Image";
+import { OrderDocumentButtons } from "~/components/ui/shared/OrderDocumentButtons";
+import { OrderStatusTimeline } from "~/components/ui/shared/OrderStatusTimeline";
+import { getOrderStatusName } from "~/constants/orderStatuses";
+import {
+	getPaymentStatusName,
+	isPaymentPayable,
+} from "~/constants/paymentStatuses";
 import {
 	getAttributeDisplayName,
 	useProductAttributes,
 } from "~/hooks/useProductAttributes";
 import { formatDate } from "~/lib/utils";
 import { getOrderBySlug } from "~/server_functions/dashboard/orders/getOrderBySlug";
+import { createOrderPayment } from "~/server_functions/store/createOrderPayment";
+import { formatSaleQuantity } from "~/utils/units";
 
 // Helper function to get first image from comma-separated string
 function getFirstImage(images: string | null): string | null {
@@ -21,6 +32,34 @@ function getFirstImage(images: string | null): string | null {
 	return imageArray.length > 0 ? imageArray[0] : null;
 }
 
+function OnlinePaymentButton({ orderId }: { orderId: string }) {
+	const [isRedirecting, setIsRedirecting] = useState(false);
+
+	const handlePay = async () => {
+		setIsRedirecting(true);
+		try {
+			const { confirmationUrl } = await createOrderPayment({
+				data: { orderId },
+			});
+			window.location.href = confirmationUrl;
+		} catch (error) {
+			console.error("Failed to start payment:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось начать оплату",
+			);
+			setIsRedirecting(false);
+		}
+	};
+
+	return (
+		<div className="mt-6">
+			<Button onClick={handlePay} disabled={isRedirecting}>
+				{isRedirecting ? "Переход к оплате..." : "Оплатить онлайн"}
+			</Button>
+		</div>
+	);
+}
+
 export const Route = createFileRoute("/order/$orderId")({
 	component: OrderPage,
 	validateSearch: (search: Record<string, unknown>) => ({
@@ -115,11 +154,31 @@ function OrderPage() {
 										: "outline"
 							}
 						>
-							{order.status}
+							{getOrderStatusName(order.status)}
+						</Badge>
+						<Badge
+							variant={order.paymentStatus === "paid" ? "default" : "outline"}
+							className="ml-2"
+						>
+							{getPaymentStatusName(order.paymentStatus)}
 						</Badge>
 					</div>
+
+					{order.onlinePaymentAvailable &&
+						order.status !== "cancelled" &&
+						isPaymentPayable(order.paymentStatus) && (
+							<OnlinePaymentButton orderId={orderId} />
+						)}
 				</div>
 
+				{/* Status Timeline */}
+				{order.statusHistory.length > 0 && (
+					<div className="space-y-3">
+						<h5 className="text-muted-foreground">История заказа</h5>
+						<OrderStatusTimeline entries={order.statusHistory} />
+					</div>
+				)}
+
 				{/* What Happens Next Section - Only shown for new orders */}
 				{isNewOrder && (
 					<>
@@ -169,7 +228,11 @@ function OrderPage() {
 									<div className="grid grid-cols-[1fr_auto] gap-4">
 										<div className="space-y-1 -mt-1">
 											<p className="text-sm text-muted-foreground">
-												Quantity: {item.quantity}
+												Quantity:{" "}
+												{formatSaleQuantity(item.quantity, {
+													squareMetersPerPack: item.squareMetersPerPack,
+													unitOfMeasurement: item.product?.unitOfMeasurement,
+												})}
 											</p>
 											{item.attributes &&
 												Object.keys(item.attributes).length > 0 && (
@@ -239,6 +302,9 @@ function OrderPage() {
 					</div>
 				</div>
 
+				{/* Documents */}
+				<OrderDocumentButtons orderId={orderId} className="justify-center" />
+
 				{/* Actions Section */}
 				<div className="flex justify-center gap-4">
 					<Button asChild variant="outline">
@@ -0,0 +1,104 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "~/components/ui/shared/Button";
+import { getOrderBySlug } from "~/server_functions/dashboard/orders/getOrderBySlug";
+import { completeMockPayment } from "~/server_functions/store/completeMockPayment";
+
+/**
+ * Payment page of the mock provider, stands in for the acquirer's page
+ * in development. The result is sent as a signed webhook.
+ */
+export const Route = createFileRoute("/payment/mock")({
+	component: MockPaymentPage,
+	validateSearch: (search: Record<string, unknown>) => ({
+		paymentId: typeof search.paymentId === "string" ? search.paymentId : "",
+		order: typeof search.order === "string" ? search.order : "",
+	}),
+});
+
+function MockPaymentPage() {
+	const { paymentId, order: orderId } = Route.useSearch();
+	const navigate = useNavigate();
+	const queryClient = useQueryClient();
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const { data: order, isPending } = useQuery({
+		queryKey: ["bfloorOrder", orderId],
+		queryFn: () => getOrderBySlug({ data: { orderId } }),
+		enabled: orderId !== "",
+	});
+
+	const handleOutcome = async (outcome: "paid" | "failed") => {
+		setIsSubmitting(true);
+		try {
+			const { applied } = await completeMockPayment({
+				data: { orderId, paymentId, outcome },
+			});
+			if (!applied) {
+				toast.warning("Статус оплаты не изменился");
+			}
+			await queryClient.invalidateQueries({
+				queryKey: ["bfloorOrder", orderId],
+			});
+			navigate({
+				to: "/order/$orderId",
+				params: { orderId },
+				search: { new: false },
+			});
+		} catch (error) {
+			console.error("Failed to complete mock payment:", error);
+			toast.error(
+				error instanceof Error ? error.message : "Не удалось провести платёж",
+			);
+			setIsSubmitting(false);
+		}
+	};
+
+	if (!paymentId || !orderId) {
+		return (
+			<section className="py-16 text-center">
+				<p className="text-muted-foreground">Платёж не найден</p>
+			</section>
+		);
+	}
+
+	return (
+		<section className="py-16">
+			<div className="max-w-md mx-auto space-y-6 text-center">
+				<h3>Тестовая оплата</h3>
+				<p className="text-sm text-muted-foreground">
+					Платёж {paymentId} не списывает деньги, он нужен для проверки
+					оформления заказа.
+				</p>
+
+				{isPending ? (
+					<p className="text-muted-foreground">Загрузка заказа...</p>
+				) : order ? (
+					<p className="text-lg font-semibold">
+						Заказ #{order.id}: {order.totalAmount.toFixed(2)} {order.currency}
+					</p>
+				) : (
+					<p className="text-muted-foreground">Заказ не найден</p>
+				)}
+
+				<div className="flex justify-center gap-3">
+					<Button
+						onClick={() => handleOutcome("paid")}
+						disabled={isSubmitting || !order}
+					>
+						Оплатить
+					</Button>
+					<Button
+						variant="outline"
+						onClick={() => handleOutcome("failed")}
+						disabled={isSubmitting || !order}
+					>
+						Отклонить платёж
+					</Button>
+				</div>
+			</div>
+		</section>
+	);
+}
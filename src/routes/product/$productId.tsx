@@ -23,8 +23,11 @@ import {
 	rehypePlugins,
 } from "~/components/ui/shared/MarkdownComponents";
 import ProductSlider from "~/components/ui/shared/ProductSlider";
+import { FlooringCalculator } from "~/components/ui/store/FlooringCalculator";
+import { PackAreaInput } from "~/components/ui/store/PackAreaInput";
 import { ProductPageSkeleton } from "~/components/ui/store/skeletons/ProductPageSkeleton";
 import { VariationSelector } from "~/components/ui/store/VariationSelector";
+import { UNITS } from "~/constants/units";
 import { ASSETS_BASE_URL } from "~/constants/urls";
 import { useProductAttributes } from "~/hooks/useProductAttributes";
 import { useRecentlyVisitedProducts } from "~/hooks/useRecentlyVisitedProducts";
@@ -42,6 +45,13 @@ import type {
 import { formatContentForDisplay } from "~/utils/contentUtils";
 import { seo } from "~/utils/seo";
 import { getStoreProductsFromInfiniteCache } from "~/utils/storeCache";
+import {
+	getPackPrice,
+	getSaleStep,
+	getSaleUnitCode,
+	getUnitShortLabel,
+	normalizeSaleQuantity,
+} from "~/utils/units";
 
 /** Plain-text first chunk of description for meta tags (~155 chars, trimmed at word) */
 const getDescriptionChunk = (raw: string, maxLen = 155): string => {
@@ -338,25 +348,12 @@ function ProductPage() {
 	// Determine if product is flooring (sold in packs with area in m²)
 	const isFlooringProduct = Boolean(productWithDetails?.squareMetersPerPack);
 
-	// Map full unit names to short labels for UI display
-	const getUnitShortLabel = (unit: string | undefined): string => {
-		if (!unit) return "шт";
-		const normalized = unit.trim().toLowerCase();
-		switch (normalized) {
-			case "квадратный метр":
-				return "м²";
-			case "погонный метр":
-				return "м.п.";
-			case "литр":
-				return "л";
-			case "штука":
-				return "шт";
-			case "упаковка":
-				return "упак";
-			default:
-				return unit; // fallback to raw value if unknown
-		}
-	};
+	// Flooring is priced per m² and put in the cart in packs
+	const priceUnitLabel = isFlooringProduct
+		? UNITS.m2.shortLabel
+		: getUnitShortLabel(productWithDetails?.unitOfMeasurement);
+	const saleUnitLabel =
+		UNITS[getSaleUnitCode(productWithDetails ?? {})].shortLabel;
 
 	// Auto-select first variation if no search params and product has variations
 	// This runs once when product loads and no search params exist
@@ -448,31 +445,38 @@ function ProductPage() {
 		return true;
 	}, [productWithDetails, selectedVariation]);
 
+	// Whole packs and pieces, 0.1 for products sold by the linear metre
+	const saleStep = productWithDetails ? getSaleStep(productWithDetails) : 1;
+
 	// Define all callbacks before any conditional returns
 	const incrementQuantity = useCallback(() => {
-		setQuantity((prev) => prev + 1);
-	}, []);
+		setQuantity((prev) =>
+			normalizeSaleQuantity(prev + saleStep, productWithDetails ?? {}),
+		);
+	}, [saleStep, productWithDetails]);
 
 	const decrementQuantity = useCallback(() => {
-		if (quantity > 1) {
-			setQuantity((prev) => prev - 1);
+		if (quantity > saleStep) {
+			setQuantity((prev) =>
+				normalizeSaleQuantity(prev - saleStep, productWithDetails ?? {}),
+			);
 		}
-	}, [quantity]);
+	}, [quantity, saleStep, productWithDetails]);
 
 	const handleQuantityChange = useCallback(
 		(e: React.ChangeEvent<HTMLInputElement>) => {
 			const value = e.target.value;
 			// Allow empty input while typing
 			if (value === "") {
-				setQuantity(1);
+				setQuantity(saleStep);
 				return;
 			}
-			const numValue = parseInt(value, 10);
+			const numValue = Number.parseFloat(value);
 			if (!Number.isNaN(numValue) && numValue > 0) {
-				setQuantity(numValue);
+				setQuantity(normalizeSaleQuantity(numValue, productWithDetails ?? {}));
 			}
 		},
-		[],
+		[saleStep, productWithDetails],
 	);
 
 	// Handle add to cart
@@ -502,44 +506,59 @@ function ProductPage() {
 		[search, navigate, attributes],
 	);
 
-	const handleAddToCart = useCallback(async () => {
-		if (!productWithDetails || !canAddToCart) return;
+	// The quantity comes from the selector or from the flooring calculator
+	const addProductToCart = useCallback(
+		(packs: number) => {
+			if (!productWithDetails || !canAddToCart) return;
 
-		// Validate variation requirement
-		if (productWithDetails.hasVariations && !selectedVariation) {
-			toast.error("Пожалуйста, выберите вариант");
-			return;
-		}
+			// Validate variation requirement
+			if (productWithDetails.hasVariations && !selectedVariation) {
+				toast.error("Пожалуйста, выберите вариант");
+				return;
+			}
 
-		try {
-			// Get variation attributes for cart display
-			const variationAttributes = selectedVariation?.attributes?.length
-				? Object.fromEntries(
-						selectedVariation.attributes.map((attr) => [
-							attr.attributeId,
-							attr.value,
-						]),
-					)
-				: undefined;
-
-			// Add to cart with enriched data for instant display
-			addToCart({
-				productId: productWithDetails.id,
-				quantity,
-				variationId: selectedVariation?.id,
-				productName: productWithDetails.name,
-				productSlug: productWithDetails.slug,
-				price: selectedVariation?.price ?? productWithDetails.price,
-				images: productWithDetails.images,
-				discount: selectedVariation?.discount ?? productWithDetails.discount,
-				attributes: variationAttributes,
-			});
-			setQuantity(1); // Reset quantity after successful add
-		} catch (error) {
-			console.error("Error adding to cart:", error);
-			toast.error("Не удалось добавить товар в корзину");
-		}
-	}, [productWithDetails, quantity, selectedVariation, canAddToCart, addToCart]);
+			try {
+				// Get variation attributes for cart display
+				const variationAttributes = selectedVariation?.attributes?.length
+					? Object.fromEntries(
+							selectedVariation.attributes.map((attr) => [
+								attr.attributeId,
+								attr.value,
+							]),
+						)
+					: undefined;
+
+				// Add to cart with enriched data for instant display
+				addToCart({
+					productId: productWithDetails.id,
+					quantity: packs,
+					variationId: selectedVariation?.id,
+					productName: productWithDetails.name,
+					productSlug: productWithDetails.slug,
+					// Flooring goes into the cart in packs, priced per pack
+					price: getPackPrice(
+						selectedVariation?.price ?? productWithDetails.price,
+						productWithDetails.squareMetersPerPack,
+					),
+					images: productWithDetails.images,
+					discount: selectedVariation?.discount ?? productWithDetails.discount,
+					attributes: variationAttributes,
+					squareMetersPerPack: productWithDetails.squareMetersPerPack,
+					unitOfMeasurement: productWithDetails.unitOfMeasurement,
+				});
+				setQuantity(1); // Reset quantity after successful add
+			} catch (error) {
+				console.error("Error adding to cart:", error);
+				toast.error("Не удалось добавить товар в корзину");
+			}
+		},
+		[productWithDetails, selectedVariation, canAddToCart, addToCart],
+	);
+
+	const handleAddToCart = useCallback(
+		() => addProductToCart(quantity),
+		[addProductToCart, quantity],
+	);
 
 	// Calculate total price for display
 	// For flooring products: price per m² × square meters per pack × quantity
@@ -750,11 +769,7 @@ function ProductPage() {
 													<div className="text-sm text-gray-500 mb-1">
 														Цена за{" "}
 														<span className="whitespace-nowrap">
-															{isFlooringProduct
-																? "м²"
-																: getUnitShortLabel(
-																		productWithDetails?.unitOfMeasurement,
-																	)}
+															{priceUnitLabel}
 														</span>
 													</div>
 													{currentDiscount && currentDiscount > 0 && (
@@ -791,7 +806,7 @@ function ProductPage() {
 														<Button
 															type="button"
 															onClick={decrementQuantity}
-															disabled={quantity <= 1}
+															disabled={quantity <= saleStep}
 															className="flex-1 min-w-10 h-full self-stretch flex items-center justify-center text-primary bg-muted hover:bg-secondary hover:[&_svg]:text-[var(--muted)] active:bg-muted-hover rounded-[15px] disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
 														>
 															<Icon name="minus" size={20} />
@@ -799,23 +814,19 @@ function ProductPage() {
 														<div className="text-center bg-muted rounded-lg py-1 px-0.5 flex items-center justify-center flex-1">
 															<div className="flex flex-col items-center gap-1 w-full justify-center">
 																{productWithDetails?.squareMetersPerPack && (
-																	<div className="flex flex-col items-center justify-center w-full gap-0">
-																		<div className="text-lg sm:text-xl font-normal whitespace-nowrap text-foreground">
-																			{(
-																				quantity *
-																				productWithDetails.squareMetersPerPack
-																			).toFixed(2)}{" "}
-																			м²
-																		</div>
-																		<div className="text-xs sm:text-sm font-normal whitespace-nowrap text-muted-foreground -mt-1">
-																			Площадь
-																		</div>
-																	</div>
+																	<PackAreaInput
+																		packs={quantity}
+																		squareMetersPerPack={
+																			productWithDetails.squareMetersPerPack
+																		}
+																		onPacksChange={setQuantity}
+																	/>
 																)}
 																<div className="flex flex-col items-center justify-center w-full gap-0 pb-0.5">
 																	<Input
 																		type="number"
-																		min={1}
+																		min={saleStep}
+																		step={saleStep}
 																		value={quantity}
 																		onChange={handleQuantityChange}
 																		className="text-lg sm:text-xl font-normal text-center border-0 bg-transparent shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 p-0 m-0 h-auto w-auto min-w-[4ch] max-w-[8ch] field-sizing-content [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
@@ -942,6 +953,21 @@ function ProductPage() {
 												)}
 										</div>
 
+										{/* Flooring calculator */}
+										{productWithDetails?.squareMetersPerPack && (
+											<FlooringCalculator
+												productSlug={productWithDetails.slug}
+												squareMetersPerPack={
+													productWithDetails.squareMetersPerPack
+												}
+												packPrice={
+													displayPrice * productWithDetails.squareMetersPerPack
+												}
+												canAddToCart={canAddToCart}
+												onAddToCart={addProductToCart}
+											/>
+										)}
+
 										{/* Important Note */}
 										{productWithDetails?.importantNote && (
 											<div className="prose max-w-none">
@@ -1276,11 +1302,7 @@ function ProductPage() {
 												<div className="text-sm text-gray-500 mb-1">
 													Цена за{" "}
 													<span className="whitespace-nowrap">
-														{isFlooringProduct
-															? "м²"
-															: getUnitShortLabel(
-																	productWithDetails?.unitOfMeasurement,
-																)}
+														{priceUnitLabel}
 													</span>
 												</div>
 												{currentDiscount && currentDiscount > 0 && (
@@ -1317,7 +1339,7 @@ function ProductPage() {
 													<Button
 														type="button"
 														onClick={decrementQuantity}
-														disabled={quantity <= 1}
+														disabled={quantity <= saleStep}
 														className="flex-1 min-w-10 h-full self-stretch flex items-center justify-center text-primary bg-muted hover:bg-secondary hover:[&_svg]:text-[var(--muted)] active:bg-muted-hover rounded-[15px] disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
 													>
 														<Icon name="minus" size={20} />
@@ -1325,23 +1347,19 @@ function ProductPage() {
 													<div className="text-center bg-muted rounded-lg py-1 px-0.5 flex items-center justify-center flex-1">
 														<div className="flex flex-col items-center gap-1 w-full justify-center">
 															{productWithDetails?.squareMetersPerPack && (
-																<div className="flex flex-col items-center justify-center w-full gap-0">
-																	<div className="text-lg sm:text-xl font-normal whitespace-nowrap text-foreground">
-																		{(
-																			quantity *
-																			productWithDetails.squareMetersPerPack
-																		).toFixed(2)}{" "}
-																		м²
-																	</div>
-																	<div className="text-xs sm:text-sm font-normal whitespace-nowrap text-muted-foreground -mt-1">
-																		Площадь
-																	</div>
-																</div>
+																<PackAreaInput
+																	packs={quantity}
+																	squareMetersPerPack={
+																		productWithDetails.squareMetersPerPack
+																	}
+																	onPacksChange={setQuantity}
+																/>
 															)}
 															<div className="flex flex-col items-center justify-center w-full gap-0 pb-0.5">
 																<Input
 																	type="number"
-																	min={1}
+																	min={saleStep}
+																	step={saleStep}
 																	value={quantity}
 																	onChange={handleQuantityChange}
 																	className="text-lg sm:text-xl font-normal text-center border-0 bg-transparent shadow-none focus-visible:ring-0 focus-visible:ring-offset-0 p-0 m-0 h-auto w-auto min-w-[4ch] max-w-[8ch] field-sizing-content [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
@@ -1468,6 +1486,19 @@ function ProductPage() {
 										)}
 								</div>
 
+								{/* Flooring calculator */}
+								{productWithDetails?.squareMetersPerPack && (
+									<FlooringCalculator
+										productSlug={productWithDetails.slug}
+										squareMetersPerPack={productWithDetails.squareMetersPerPack}
+										packPrice={
+											displayPrice * productWithDetails.squareMetersPerPack
+										}
+										canAddToCart={canAddToCart}
+										onAddToCart={addProductToCart}
+									/>
+								)}
+
 								{/* Important Note */}
 								{productWithDetails?.importantNote && (
 									<div className="prose max-w-none">
@@ -1708,13 +1739,7 @@ function ProductPage() {
 								</div>
 								<div className="flex items-baseline gap-1 text-xs text-muted-foreground whitespace-nowrap shrink-0">
 									<span>{quantity}</span>
-									<span>
-										{isFlooringProduct
-											? "упак"
-											: getUnitShortLabel(
-													productWithDetails?.unitOfMeasurement,
-												)}
-									</span>
+									<span>{saleUnitLabel}</span>
 								</div>
 							</div>
 						</div>
@@ -1742,13 +1767,7 @@ function ProductPage() {
 								</div>
 								<div className="flex items-baseline gap-1 text-xs text-muted-foreground whitespace-nowrap shrink-0">
 									<span>{quantity}</span>
-									<span>
-										{isFlooringProduct
-											? "упак"
-											: getUnitShortLabel(
-													productWithDetails?.unitOfMeasurement,
-												)}
-									</span>
+									<span>{saleUnitLabel}</span>
 								</div>
 							</div>
 							<div className="flex items-baseline">
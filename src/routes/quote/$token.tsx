@@ -0,0 +1,215 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { Badge } from "~/components/ui/shared/Badge";
+import { Button } from "~/components/ui/shared/Button";
+import { Link } from "~/components/ui/shared/Link";
+import {
+	getAttributeDisplayName,
+	useProductAttributes,
+} from "~/hooks/useProductAttributes";
+import { useCart } from "~/lib/cartContext";
+import { quoteQueryOptions } from "~/lib/queryOptions";
+import { formatDate } from "~/lib/utils";
+import { formatSaleQuantity } from "~/utils/units";
+
+/**
+ * Public page of a saved quote. Prices are the ones from the moment
+ * the quote was saved, lines that changed since are marked.
+ */
+export const Route = createFileRoute("/quote/$token")({
+	component: QuotePage,
+});
+
+function QuotePage() {
+	const { token } = Route.useParams();
+	const { addItemsToCart } = useCart();
+	const { data: attributes } = useProductAttributes();
+	const {
+		data: quote,
+		isPending,
+		isError,
+	} = useQuery(quoteQueryOptions(token));
+
+	if (isPending) {
+		return (
+			<div className="min-h-screen flex items-center justify-center">
+				<div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+			</div>
+		);
+	}
+
+	if (isError || !quote) {
+		return (
+			<div className="min-h-screen flex items-center justify-center">
+				<div className="text-center">
+					<h1 className="text-2xl font-bold mb-2">Смета не найдена</h1>
+					<p className="text-muted-foreground">
+						Проверьте ссылку или попросите прислать её ещё раз.
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	const availableItems = quote.items.filter((item) => item.current !== null);
+	const changedCount = quote.items.filter(
+		(item) => item.change !== "unchanged",
+	).length;
+	const currentTotal = availableItems.reduce(
+		(sum, item) => sum + (item.current?.finalAmount ?? 0),
+		0,
+	);
+
+	const handleLoadIntoCart = () => {
+		// Cart items are priced again at checkout, so the current data goes in
+		addItemsToCart(
+			availableItems.flatMap((item) =>
+				item.current
+					? [
+							{
+								productId: item.productId,
+								variationId: item.variationId ?? undefined,
+								quantity: item.quantity,
+								productName: item.current.productName,
+								productSlug: item.current.productSlug,
+								price: item.current.unitAmount,
+								images: item.current.image,
+								discount: item.current.discountPercentage,
+								attributes: item.current.attributes,
+								squareMetersPerPack: item.current.squareMetersPerPack,
+								unitOfMeasurement: item.current.unitOfMeasurement,
+							},
+						]
+					: [],
+			),
+		);
+	};
+
+	return (
+		<section className="py-16 px-4">
+			<div className="max-w-3xl mx-auto space-y-8">
+				<div className="text-center space-y-2">
+					<h3 className="text-muted-foreground">
+						{quote.title ? `Смета: ${quote.title}` : "Смета"}
+					</h3>
+					<p className="text-muted-foreground">
+						Цены на {formatDate(quote.createdAt)}
+					</p>
+					{changedCount > 0 && (
+						<p className="text-sm">
+							С тех пор изменились цены или наличие у {changedCount}{" "}
+							{changedCount === 1 ? "позиции" : "позиций"}, они отмечены ниже.
+						</p>
+					)}
+				</div>
+
+				<ul className="space-y-4">
+					{quote.items.map((item) => (
+						<li
+							key={item.id}
+							className="grid grid-cols-[1fr_auto] gap-4 border-b pb-4"
+						>
+							<div className="space-y-1">
+								<h6 className="font-medium break-words">
+									{item.current ? (
+										<Link
+											href={`/product/${item.current.productSlug}`}
+											className="hover:underline"
+										>
+											{item.productName}
+										</Link>
+									) : (
+										item.productName
+									)}
+								</h6>
+								{Object.keys(item.attributes).length > 0 && (
+									<div className="flex flex-wrap gap-x-6">
+										{Object.entries(item.attributes).map(([key, value]) => (
+											<span key={key} className="text-sm text-muted-foreground">
+												{getAttributeDisplayName(key, attributes || [])}:{" "}
+												{value}
+											</span>
+										))}
+									</div>
+								)}
+								<p className="text-sm text-muted-foreground">
+									Количество:{" "}
+									{formatSaleQuantity(item.quantity, item.current ?? {})}
+								</p>
+								{item.change === "price_changed" && item.current && (
+									<Badge variant="outline">
+										Сейчас {item.current.finalAmount.toFixed(2)} р
+										{item.current.discountPercentage
+											? ` (скидка ${item.current.discountPercentage}%)`
+											: ""}
+									</Badge>
+								)}
+								{item.change === "unavailable" && (
+									<Badge variant="secondary">Больше не продаётся</Badge>
+								)}
+							</div>
+							<div className="text-right self-end">
+								{item.discountPercentage ? (
+									<>
+										<Badge variant="green" className="mb-1 -mr-1">
+											-{item.discountPercentage}%
+										</Badge>
+										<p className="line-through text-muted-foreground">
+											{(item.unitAmount * item.quantity).toFixed(2)} р
+										</p>
+									</>
+								) : null}
+								<h6
+									className={
+										item.change === "unchanged"
+											? undefined
+											: "text-muted-foreground"
+									}
+								>
+									{item.finalAmount.toFixed(2)} р
+								</h6>
+							</div>
+						</li>
+					))}
+				</ul>
+
+				<div className="space-y-2">
+					<div className="flex justify-between">
+						<p>Промежуточный итог</p>
+						<p>{quote.subtotalAmount.toFixed(2)} р</p>
+					</div>
+					{quote.discountAmount > 0 && (
+						<div className="flex justify-between">
+							<p>Скидка</p>
+							<Badge variant="green" className="self-end">
+								-{quote.discountAmount.toFixed(2)} р
+							</Badge>
+						</div>
+					)}
+					<div className="flex justify-between items-baseline text-lg pt-2 border-t">
+						<h5>Итого по смете</h5>
+						<h3>{quote.totalAmount.toFixed(2)} р</h3>
+					</div>
+					{changedCount > 0 && (
+						<div className="flex justify-between text-muted-foreground">
+							<p>По текущим ценам</p>
+							<p>{currentTotal.toFixed(2)} р</p>
+						</div>
+					)}
+					<p className="text-xs text-muted-foreground text-center pt-2">
+						Доставка рассчитывается при оформлении заказа
+					</p>
+				</div>
+
+				<div className="flex justify-center">
+					<Button
+						onClick={handleLoadIntoCart}
+						disabled={availableItems.length === 0}
+					>
+						Загрузить в мою корзину
+					</Button>
+				</div>
+			</div>
+		</section>
+	);
+}
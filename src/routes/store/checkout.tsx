@@ -1,8 +1,9 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import React, { useId, useState } from "react";
 import { toast } from "sonner";
 import { Button } from "~/components/ui/shared/Button";
+import { Checkbox } from "~/components/ui/shared/Checkbox";
 import {
 	Check,
 	ChevronLeft,
@@ -16,16 +17,50 @@ import {
 import { Input } from "~/components/ui/shared/input";
 import { Link } from "~/components/ui/shared/Link";
 import { QuantitySelector } from "~/components/ui/shared/QuantitySelector";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "~/components/ui/shared/Select";
 import { Textarea } from "~/components/ui/shared/TextArea";
+import { CartChangesNotice } from "~/components/ui/store/CartChangesNotice";
+import { CouponCodeField } from "~/components/ui/store/CouponCodeField";
+import type { ContactMethod } from "~/constants/contactMethods";
+import {
+	DELIVERY_ZONES,
+	type DeliveryZoneId,
+	getDeliveryZone,
+} from "~/constants/deliveryZones";
+import {
+	getShippingMethodName,
+	SHIPPING_METHODS,
+	type ShippingMethod,
+} from "~/constants/shippingMethods";
+import { UNITS } from "~/constants/units";
 import { ASSETS_BASE_URL } from "~/constants/urls";
-import type { EnrichedCartItem } from "~/hooks/useEnrichedCart";
+import { useCartRevalidation } from "~/hooks/useCartRevalidation";
+import { useCouponPreview } from "~/hooks/useCouponPreview";
 import { useEnrichedCart } from "~/hooks/useEnrichedCart";
 import { useCart } from "~/lib/cartContext";
+import {
+	checkoutFormTokenQueryOptions,
+	pickupLocationsQueryOptions,
+} from "~/lib/queryOptions";
 import { createOrder } from "~/server_functions/dashboard/orders/orderCreation";
-import { sendOrderEmails } from "~/server_functions/sendOrderEmails";
-import type { ProductWithVariations } from "~/types";
+import { calculateDelivery } from "~/utils/deliveryPricing";
+import type { OrderLineError, OrderLineInput } from "~/utils/orderPricing";
 import { parseImages } from "~/utils/productParsing";
-import { getStoreProductsFromInfiniteCache } from "~/utils/storeCache";
+import type { CheckoutFormGuard } from "~/utils/rateLimitMiddleware";
+import {
+	formatArea,
+	getPacksArea,
+	getSaleStep,
+	getSaleUnitCode,
+	isPackProduct,
+	normalizeSaleQuantity,
+} from "~/utils/units";
 
 // Email icon component - defined as const to ensure it's accessible
 const EmailIcon = ({
@@ -61,8 +96,14 @@ interface CustomerInfo {
 	phone: string;
 	email: string;
 	notes?: string;
-	contactMethod?: "whatsapp" | "email" | "telegram" | "phone";
-	shippingMethod?: string;
+	contactMethod?: ContactMethod;
+	notifyStatusChanges: boolean;
+}
+
+interface DeliveryInfo {
+	zoneId: DeliveryZoneId;
+	distanceKm: string;
+	address: string;
 }
 
 export const Route = createFileRoute("/store/checkout")({
@@ -77,12 +118,17 @@ function CheckoutScreen() {
 	const navigate = useNavigate();
 	const { cart, clearCart, updateQuantity, removeFromCart } = useCart();
 	const enrichedItems = useEnrichedCart(cart.items);
-	const queryClient = useQueryClient();
+	// Changed prices are confirmed in CartChangesNotice before submitting
+	const { hasChanges: hasCartChanges } = useCartRevalidation();
+	const { appliedCoupon, couponDiscount, couponError } = useCouponPreview();
 	const formRef = React.useRef<HTMLFormElement>(null);
 	const notesId = useId();
 	const fullNameId = useId();
 	const phoneId = useId();
 	const emailId = useId();
+	const notifyStatusChangesId = useId();
+	const distanceId = useId();
+	const addressId = useId();
 
 	const [customerInfo, setCustomerInfo] = useState<CustomerInfo>({
 		fullName: "Иван Иванович Иванов",
@@ -90,51 +136,96 @@ function CheckoutScreen() {
 		email: "ivanov@yandex.com",
 		notes: "",
 		contactMethod: "whatsapp",
-		shippingMethod: "standard",
+		notifyStatusChanges: true,
+	});
+
+	const [delivery, setDelivery] = useState<DeliveryInfo>({
+		zoneId: "vladivostok",
+		distanceKm: "",
+		address: "",
+	});
+	const deliveryZone = getDeliveryZone(delivery.zoneId);
+	const deliveryEstimate = calculateDelivery({
+		zoneId: delivery.zoneId,
+		distanceKm: delivery.distanceKm ? Number(delivery.distanceKm) : null,
 	});
 
+	const [shippingMethod, setShippingMethod] =
+		useState<ShippingMethod>("delivery");
+	const [pickupLocationId, setPickupLocationId] = useState<number | null>(null);
+
+	// Pickup is only offered at stores that carry every product in the cart
+	const cartProductIds = [
+		...new Set(cart.items.map((item) => item.productId)),
+	].sort((a, b) => a - b);
+	const { data: pickupLocations = [], isPending: isPickupLocationsPending } =
+		useQuery({
+			...pickupLocationsQueryOptions(cartProductIds),
+			enabled: cartProductIds.length > 0,
+		});
+	const pickupLocation = pickupLocations.find(
+		(location) => location.id === pickupLocationId,
+	);
+
+	const shippingAmount =
+		shippingMethod === "pickup"
+			? 0
+			: deliveryEstimate.success
+				? deliveryEstimate.breakdown.totalAmount
+				: null;
+
+	// Per-item problems reported by the server (price changed, item unavailable...)
+	const [itemErrors, setItemErrors] = useState<OrderLineError[]>([]);
+
+	// Anti-spam: honeypot value and the server's signed time the form was opened.
+	// The token is also the idempotency key: every submit of this checkout
+	// (double click, retry after a network error) returns the same order
+	const [honeypot, setHoneypot] = useState("");
+	const { data: formToken } = useQuery(checkoutFormTokenQueryOptions());
+
+	const getItemError = (productId: number, variationId?: number) =>
+		itemErrors.find(
+			(error) =>
+				error.productId === productId &&
+				error.variationId === (variationId ?? null),
+		);
+
 	// Order creation mutation
 	const orderMutation = useMutation({
 		mutationFn: async (orderData: {
 			customerInfo: CustomerInfo;
-			cartItems: EnrichedCartItem[];
-			products: ProductWithVariations[];
+			cartItems: OrderLineInput[];
+			fulfillment:
+				| {
+						method: "delivery";
+						zoneId: DeliveryZoneId;
+						distanceKm: number | null;
+						address: string;
+				  }
+				| { method: "pickup"; storeLocationId: number };
+			couponCode?: string;
+			formGuard: CheckoutFormGuard;
 		}) => {
 			const orderResult = await createOrder({ data: orderData });
 			if (!orderResult.success) {
-				throw new Error("Failed to create order");
+				const errors = orderResult.itemErrors ?? [];
+				setItemErrors(errors);
+				throw new Error(
+					`Некоторые товары нельзя заказать: ${errors
+						.map((error) => error.message)
+						.join("; ")}`,
+				);
 			}
 
 			if (!orderResult.orderId) {
 				throw new Error("Order was created but no order ID was returned");
 			}
 
-			try {
-				const emailResult = await sendOrderEmails({
-					data: {
-						orderId: orderResult.orderId,
-						customerInfo: orderData.customerInfo,
-						cartItems: orderData.cartItems,
-						orderAmounts: {
-							subtotalAmount: subtotal,
-							discountAmount: totalDiscount,
-						},
-						totalAmount: total,
-					},
-				});
-
-				return {
-					orderId: orderResult.orderId,
-					emailWarnings: emailResult.emailWarnings,
-				};
-			} catch (_emailError) {
-				return {
-					orderId: orderResult.orderId,
-					emailWarnings: ["Не удалось отправить письма с подтверждением"],
-				};
-			}
+			// Confirmation emails are sent by createOrder from the saved order
+			return { orderResult, emailWarnings: orderResult.emailWarnings };
 		},
-		onSuccess: ({ orderId, emailWarnings }) => {
+		onSuccess: ({ orderResult, emailWarnings }) => {
+			const { orderId, publicToken } = orderResult;
 			if (emailWarnings && emailWarnings.length > 0) {
 				toast.warning(
 					`Заказ успешно размещён! ${emailWarnings.join(", ")}. Наша команда свяжется с вами в ближайшее время.`,
@@ -152,22 +243,20 @@ function CheckoutScreen() {
 			const orderData = {
 				orderId,
 				customerInfo,
-				items: enrichedItems.map((item, index) => ({
+				items: orderResult.items.map((item, index) => ({
 					id: index,
 					productName: item.productName,
 					quantity: item.quantity,
-					unitAmount: item.price,
-					finalAmount: item.discount
-						? item.price * (1 - item.discount / 100) * item.quantity
-						: item.price * item.quantity,
-					discountPercentage: item.discount,
-					attributes: item.attributes || {},
-					image: item.images,
+					unitAmount: item.unitAmount,
+					finalAmount: item.finalAmount,
+					discountPercentage: item.discountPercentage,
+					attributes: item.attributes,
+					image: item.image,
 				})),
-				subtotalAmount: subtotal,
-				discountAmount: totalDiscount,
-				totalAmount: total,
-				shippingAmount: 0,
+				subtotalAmount: orderResult.orderAmounts.subtotalAmount,
+				discountAmount: orderResult.orderAmounts.discountAmount,
+				totalAmount: orderResult.totalAmount,
+				shippingAmount: orderResult.shippingAmount,
 				timestamp: Date.now(),
 			};
 
@@ -175,7 +264,7 @@ function CheckoutScreen() {
 
 			setTimeout(() => {
 				clearCart();
-				window.location.href = `/order/${orderId}?new=true`;
+				window.location.href = `/order/${publicToken}?new=true`;
 			}, 1000);
 		},
 		onError: (error: Error) => {
@@ -216,18 +305,49 @@ function CheckoutScreen() {
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
+		if (orderMutation.isPending) return;
 
 		if (cart.items.length === 0) {
 			toast.error("Ваша корзина пуста");
 			return;
 		}
 
-		const products = getStoreProductsFromInfiniteCache(queryClient);
+		let fulfillment: Parameters<typeof orderMutation.mutate>[0]["fulfillment"];
+		if (shippingMethod === "pickup") {
+			if (!pickupLocation) {
+				toast.error("Выберите магазин для самовывоза");
+				return;
+			}
+			fulfillment = { method: "pickup", storeLocationId: pickupLocation.id };
+		} else {
+			if (!deliveryEstimate.success) {
+				toast.error(deliveryEstimate.error);
+				return;
+			}
+			fulfillment = {
+				method: "delivery",
+				zoneId: delivery.zoneId,
+				distanceKm: deliveryEstimate.breakdown.distanceKm,
+				address: delivery.address,
+			};
+		}
 
+		if (couponError) {
+			toast.error(couponError);
+			return;
+		}
+
+		setItemErrors([]);
 		orderMutation.mutate({
 			customerInfo,
-			cartItems: enrichedItems,
-			products: products as unknown as ProductWithVariations[],
+			fulfillment,
+			couponCode: appliedCoupon?.code,
+			formGuard: { website: honeypot, token: formToken?.token ?? "" },
+			cartItems: enrichedItems.map((item) => ({
+				productId: item.productId,
+				variationId: item.variationId,
+				quantity: item.quantity,
+			})),
 		});
 	};
 
@@ -245,7 +365,8 @@ function CheckoutScreen() {
 		return total;
 	}, 0);
 
-	const total = subtotal - totalDiscount;
+	const itemsTotal = subtotal - totalDiscount;
+	const total = itemsTotal - couponDiscount + (shippingAmount ?? 0);
 
 	const handleSaveToPDF = () => {
 		toast.info("Функция сохранения в PDF будет добавлена в ближайшее время");
@@ -297,6 +418,8 @@ function CheckoutScreen() {
 							</div>
 						) : (
 							<>
+								<CartChangesNotice className="mb-6" />
+
 								{/* Cart Items */}
 								<div className="space-y-6 mb-6">
 									{enrichedItems.map((item) => {
@@ -304,12 +427,22 @@ function CheckoutScreen() {
 										const itemTotal = item.discount
 											? item.price * (1 - item.discount / 100) * item.quantity
 											: item.price * item.quantity;
-										const itemArea = item.quantity * 2.159; // Placeholder - adjust based on your data
+										const squareMetersPerPack = isPackProduct(
+											item.squareMetersPerPack,
+										)
+											? item.squareMetersPerPack
+											: null;
+										const itemError = getItemError(
+											item.productId,
+											item.variationId,
+										);
 
 										return (
 											<div
 												key={`${item.productId}-${item.variationId || "default"}`}
-												className="flex items-start gap-4 bg-background p-4 rounded-lg border border-border"
+												className={`flex items-start gap-4 bg-background p-4 rounded-lg border ${
+													itemError ? "border-destructive" : "border-border"
+												}`}
 											>
 												{/* Product Image */}
 												<div className="shrink-0 w-24 h-24 bg-muted rounded overflow-hidden">
@@ -330,7 +463,9 @@ function CheckoutScreen() {
 												<div className="flex-1 flex flex-col gap-2">
 													<div>
 														<p className="text-sm text-muted-foreground">
-															{item.price.toFixed(0)} | м²
+															{squareMetersPerPack
+																? `${(item.price / squareMetersPerPack).toFixed(0)} р | м²`
+																: `${item.price.toFixed(0)} р`}
 														</p>
 														<Link
 															href={`/product/${item.productSlug}`}
@@ -338,6 +473,11 @@ function CheckoutScreen() {
 														>
 															{item.productName}
 														</Link>
+														{itemError && (
+															<p className="text-sm text-destructive">
+																{itemError.message}
+															</p>
+														)}
 													</div>
 
 													{/* Quantity Selector */}
@@ -347,15 +487,21 @@ function CheckoutScreen() {
 															onIncrement={() =>
 																updateQuantity(
 																	item.productId,
-																	item.quantity + 1,
+																	normalizeSaleQuantity(
+																		item.quantity + getSaleStep(item),
+																		item,
+																	),
 																	item.variationId,
 																)
 															}
 															onDecrement={() =>
-																item.quantity > 1
+																item.quantity > getSaleStep(item)
 																	? updateQuantity(
 																			item.productId,
-																			item.quantity - 1,
+																			normalizeSaleQuantity(
+																				item.quantity - getSaleStep(item),
+																				item,
+																			),
 																			item.variationId,
 																		)
 																	: removeFromCart(
@@ -363,10 +509,11 @@ function CheckoutScreen() {
 																			item.variationId,
 																		)
 															}
+															minQuantity={getSaleStep(item)}
 															size="compact"
 														/>
 														<span className="text-sm text-muted-foreground">
-															уп
+															{UNITS[getSaleUnitCode(item)].shortLabel}
 														</span>
 													</div>
 												</div>
@@ -376,9 +523,16 @@ function CheckoutScreen() {
 													<p className="text-xl font-bold">
 														{itemTotal.toFixed(0)} р
 													</p>
-													<p className="text-sm text-muted-foreground">
-														{itemArea.toFixed(3)} м²
-													</p>
+													{squareMetersPerPack && (
+														<p className="text-sm text-muted-foreground">
+															{formatArea(
+																getPacksArea(
+																	item.quantity,
+																	squareMetersPerPack,
+																),
+															)}
+														</p>
+													)}
 												</div>
 
 												{/* Remove Button */}
@@ -432,10 +586,60 @@ function CheckoutScreen() {
 								<span className="text-muted-foreground">Позиций</span>
 								<span className="font-medium">{enrichedItems.length}</span>
 							</div>
+							<div className="flex justify-between text-sm">
+								<span className="text-muted-foreground">Товары</span>
+								<span className="font-medium">{itemsTotal.toFixed(0)} р</span>
+							</div>
+							{couponDiscount > 0 && (
+								<div className="flex justify-between text-sm">
+									<span className="text-muted-foreground">
+										Промокод {appliedCoupon?.code}
+									</span>
+									<span className="font-medium">
+										-{couponDiscount.toFixed(0)} р
+									</span>
+								</div>
+							)}
+							<div className="flex justify-between text-sm">
+								<span className="text-muted-foreground">Доставка</span>
+								<span className="font-medium">
+									{shippingAmount !== null
+										? `${shippingAmount.toFixed(0)} р`
+										: "—"}
+								</span>
+							</div>
+							{shippingMethod === "delivery" &&
+								deliveryEstimate.success &&
+								deliveryEstimate.breakdown.distanceKm !== null && (
+									<p className="text-xs text-muted-foreground mt-1">
+										{deliveryEstimate.breakdown.baseAmount} р +{" "}
+										{deliveryEstimate.breakdown.distanceKm} км ×{" "}
+										{deliveryEstimate.breakdown.perKmAmount} р. Точный расчёт
+										уточнит менеджер.
+									</p>
+								)}
+							<div className="mt-4">
+								<CouponCodeField />
+							</div>
 						</div>
 
 						{/* Contact Form */}
 						<form ref={formRef} onSubmit={handleSubmit} className="space-y-4">
+							{/* Honeypot: off-screen for people, bots fill it in */}
+							<div
+								aria-hidden="true"
+								className="absolute -left-[9999px] h-px w-px overflow-hidden"
+							>
+								<input
+									type="text"
+									name="website"
+									tabIndex={-1}
+									autoComplete="off"
+									value={honeypot}
+									onChange={(e) => setHoneypot(e.target.value)}
+								/>
+							</div>
+
 							<Input
 								id={fullNameId}
 								name="fullName"
@@ -465,6 +669,124 @@ function CheckoutScreen() {
 								onChange={handleInputChange}
 							/>
 
+							{/* Delivery or pickup */}
+							<div className="flex gap-2">
+								{SHIPPING_METHODS.map((method) => (
+									<Button
+										key={method}
+										type="button"
+										size="sm"
+										variant={shippingMethod === method ? "default" : "outline"}
+										onClick={() => setShippingMethod(method)}
+										className="flex-1"
+									>
+										{getShippingMethodName(method)}
+									</Button>
+								))}
+							</div>
+
+							{shippingMethod === "pickup" ? (
+								<div className="space-y-2">
+									{isPickupLocationsPending ? (
+										<p className="text-sm text-muted-foreground">
+											Загрузка магазинов...
+										</p>
+									) : pickupLocations.length === 0 ? (
+										<p className="text-sm text-muted-foreground">
+											Самовывоз недоступен: товары из корзины нет в одном
+											магазине. Выберите доставку или уточните наличие у
+											менеджера.
+										</p>
+									) : (
+										pickupLocations.map((location) => (
+											<button
+												key={location.id}
+												type="button"
+												onClick={() => setPickupLocationId(location.id)}
+												className={`w-full text-left rounded-lg border-2 p-3 transition-colors ${
+													pickupLocationId === location.id
+														? "border-primary bg-primary/10"
+														: "border-border hover:border-primary/50"
+												}`}
+											>
+												<p className="font-medium">{location.address}</p>
+												{location.description && (
+													<p className="text-xs text-muted-foreground">
+														{location.description}
+													</p>
+												)}
+												<p className="text-xs text-muted-foreground whitespace-pre-line mt-1">
+													{location.openingHours}
+												</p>
+											</button>
+										))
+									)}
+								</div>
+							) : (
+								<div className="space-y-3">
+									<Select
+										value={delivery.zoneId}
+										onValueChange={(value) =>
+											setDelivery((prev) => ({
+												...prev,
+												zoneId: value as DeliveryZoneId,
+											}))
+										}
+									>
+										<SelectTrigger label="Доставка" required>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{DELIVERY_ZONES.map((zone) => (
+												<SelectItem key={zone.id} value={zone.id}>
+													{zone.name}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									{deliveryZone && (
+										<p className="text-xs text-muted-foreground">
+											{deliveryZone.description}
+										</p>
+									)}
+									{deliveryZone && deliveryZone.perKmAmount > 0 && (
+										<Input
+											id={distanceId}
+											name="distanceKm"
+											type="number"
+											min={1}
+											max={deliveryZone.maxDistanceKm}
+											label="Расстояние от Владивостока, км"
+											required
+											value={delivery.distanceKm}
+											onChange={(e) =>
+												setDelivery((prev) => ({
+													...prev,
+													distanceKm: e.target.value,
+												}))
+											}
+										/>
+									)}
+									<Input
+										id={addressId}
+										name="address"
+										label={
+											delivery.zoneId === "transport_company"
+												? "Транспортная компания и город получения"
+												: "Адрес доставки"
+										}
+										required
+										value={delivery.address}
+										onChange={(e) =>
+											setDelivery((prev) => ({
+												...prev,
+												address: e.target.value,
+											}))
+										}
+									/>
+								</div>
+							)}
+
 							<div>
 								<Textarea
 									id={notesId}
@@ -495,7 +817,7 @@ function CheckoutScreen() {
 											onClick={() =>
 												setCustomerInfo((prev) => ({
 													...prev,
-													contactMethod: value as CustomerInfo["contactMethod"],
+													contactMethod: value as ContactMethod,
 												}))
 											}
 											className={`w-12 h-12 rounded-full border-2 flex items-center justify-center transition-colors ${
@@ -518,11 +840,36 @@ function CheckoutScreen() {
 								</div>
 							</div>
 
+							{/* Status notifications opt-out */}
+							<div className="flex items-center gap-3">
+								<Checkbox
+									id={notifyStatusChangesId}
+									checked={customerInfo.notifyStatusChanges}
+									onCheckedChange={(checked) =>
+										setCustomerInfo((prev) => ({
+											...prev,
+											notifyStatusChanges: checked === true,
+										}))
+									}
+								/>
+								<label
+									htmlFor={notifyStatusChangesId}
+									className="text-sm text-muted-foreground cursor-pointer"
+								>
+									Сообщать об изменении статуса заказа на email
+								</label>
+							</div>
+
 							{/* Submit Button */}
 							<Button
 								type="submit"
 								onClick={handleButtonClick}
-								disabled={isLoading || cart.items.length === 0}
+								disabled={
+									isLoading ||
+									cart.items.length === 0 ||
+									hasCartChanges ||
+									!formToken
+								}
 								variant="default"
 								className="w-full h-12 text-base font-medium"
 							>
@@ -535,6 +882,11 @@ function CheckoutScreen() {
 									"Оформить заявку"
 								)}
 							</Button>
+							{hasCartChanges && (
+								<p className="text-sm text-destructive">
+									Цены или наличие товаров изменились, обновите корзину
+								</p>
+							)}
 
 							{/* Security Message */}
 							<div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
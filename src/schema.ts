@@ -1,4 +1,5 @@
 import {
+	type AnySQLiteColumn,
 	index,
 	integer,
 	real,
@@ -33,6 +34,7 @@ export const products = sqliteTable(
 		tags: text("tags"), // Теги для категоризации товаров (JSON массив) - опционально
 		price: real("price").notNull().default(0), // Make price non-nullable with default value (for flooring: price per m²)
 		squareMetersPerPack: real("square_meters_per_pack"), // For flooring products: area coverage per pack
+		linearMetersPerPack: real("linear_meters_per_pack"), // For plinths, thresholds: length of one piece or pack, see ~/utils/units
 		unitOfMeasurement: text("unit_of_measurement")
 			.notNull()
 			.default("упаковка"), // Единица количества: погонный метр, квадратный метр, литр, штука, упаковка
@@ -206,6 +208,7 @@ export const categories = sqliteTable("categories", {
 	image: text("image"),
 	isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
 	order: integer("order").notNull().default(0), // For sorting categories
+	projectAccessory: text("project_accessory"), // See PROJECT_ACCESSORIES in ~/constants/projectAccessories.ts, the estimator suggests products of this category and its subcategories
 });
 
 // Countries table removed - now hardcoded in ~/data/countries.ts
@@ -255,26 +258,70 @@ export const productStoreLocations = sqliteTable(
 	],
 );
 
+// Promo codes entered at checkout
+export const coupons = sqliteTable("coupons", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	code: text("code").notNull().unique(), // Stored uppercase, matched case-insensitively
+	description: text("description"),
+	discountType: text("discountType").notNull(), // 'percent' | 'fixed'
+	discountValue: real("discountValue").notNull(), // Percent (0-100] or amount in rubles
+	minOrderAmount: real("minOrderAmount"), // Items total after product discounts
+	brandSlugs: text("brandSlugs"), // JSON: string[], null = all brands
+	categorySlugs: text("categorySlugs"), // JSON: string[] incl. subcategories, null = all categories
+	usageLimit: integer("usageLimit"), // null = unlimited
+	usageCount: integer("usageCount").notNull().default(0),
+	startsAt: integer("startsAt", { mode: "timestamp" }),
+	expiresAt: integer("expiresAt", { mode: "timestamp" }),
+	isActive: integer("isActive", { mode: "boolean" }).notNull().default(true),
+	createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+});
+
 export const orders = sqliteTable(
 	"orders",
 	{
 		id: integer("id").primaryKey({ autoIncrement: true }),
+		publicToken: text("publicToken").unique(), // Random token for customer-facing order links
+		idempotencyKey: text("idempotencyKey").unique(), // Nonce of the checkout form token, repeated submissions return the same order
 		status: text("status").notNull().default("pending"),
 		subtotalAmount: real("subtotalAmount").notNull(), // Base price before discounts
 		discountAmount: real("discountAmount").notNull().default(0), // Total discounts applied
 		shippingAmount: real("shippingAmount").notNull().default(0),
 		totalAmount: real("totalAmount").notNull(), // Final total (subtotal - discount + shipping)
+		refundedAmount: real("refundedAmount").notNull().default(0), // Refunded by returns, net total = totalAmount - refundedAmount
+		couponId: integer("couponId").references(() => coupons.id, {
+			onDelete: "set null",
+		}),
+		couponCode: text("couponCode"), // Snapshot of the code, kept if the coupon is deleted
+		couponDiscountAmount: real("couponDiscountAmount").notNull().default(0), // Part of discountAmount
 		currency: text("currency").notNull().default("CAD"),
-		paymentMethod: text("paymentMethod"),
-		paymentStatus: text("paymentStatus").notNull().default("pending"),
+		paymentMethod: text("paymentMethod"), // Payment provider name, e.g. "mock"
+		paymentStatus: text("paymentStatus").notNull().default("pending"), // See ~/constants/paymentStatuses
+		paymentId: text("paymentId"), // Payment ID at the provider named in paymentMethod, the latest or the paid attempt
 		shippingMethod: text("shippingMethod"),
+		shippingBreakdown: text("shippingBreakdown"), // JSON: DeliveryBreakdown (zone, km, rates)
+		deliveryAddress: text("deliveryAddress"),
+		deliveryNeedsReview: integer("deliveryNeedsReview", { mode: "boolean" })
+			.notNull()
+			.default(false), // Distance typed in by the customer, a manager confirms it before shipping
+		deliveryReviewedBy: text("deliveryReviewedBy"), // Admin email
+		deliveryReviewedAt: integer("deliveryReviewedAt", { mode: "timestamp" }),
+		pickupLocationId: integer("pickupLocationId"), // Reference to hardcoded location ID from ~/data/storeLocations.ts
 		notes: text("notes"),
+		customerName: text("customerName"),
+		customerNameSearch: text("customerNameSearch"), // normalizeSearchText(customerName), SQLite lower()/LIKE only fold ASCII
+		customerPhone: text("customerPhone"), // Normalized to +7XXXXXXXXXX
+		customerEmail: text("customerEmail"),
+		contactMethod: text("contactMethod"), // 'whatsapp' | 'email' | 'telegram' | 'phone'
+		notifyStatusChanges: integer("notifyStatusChanges", { mode: "boolean" })
+			.notNull()
+			.default(true), // Customer opt-out for status change emails
 		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
 		completedAt: integer("completedAt", { mode: "timestamp" }),
 	},
 	(table) => [
 		index("idx_orders_created_at").on(table.createdAt),
 		index("idx_orders_status_created").on(table.status, table.createdAt),
+		index("idx_orders_customer_phone").on(table.customerPhone),
 	],
 );
 
@@ -292,8 +339,10 @@ export const orderItems = sqliteTable(
 			() => productVariations.id,
 			{ onDelete: "set null" },
 		),
-		quantity: integer("quantity").notNull(),
-		unitAmount: real("unitAmount").notNull(),
+		quantity: real("quantity").notNull(), // In saleUnit
+		saleUnit: text("saleUnit").notNull().default("unit"), // See SaleUnit in ~/utils/units, pack: quantity is whole packs
+		squareMetersPerPack: real("squareMetersPerPack"), // Snapshot for pack lines, area = quantity × squareMetersPerPack
+		unitAmount: real("unitAmount").notNull(), // Price per saleUnit
 		discountPercentage: integer("discountPercentage"),
 		finalAmount: real("finalAmount").notNull(), // Unit amount after discount × quantity
 		attributes: text("attributes"), // JSON stored as text
@@ -306,6 +355,215 @@ export const orderItems = sqliteTable(
 	],
 );
 
+export const orderStatusHistory = sqliteTable(
+	"order_status_history",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		orderId: integer("orderId")
+			.references(() => orders.id, { onDelete: "cascade" })
+			.notNull(),
+		fromStatus: text("fromStatus"), // null for the initial "pending" entry created with the order
+		toStatus: text("toStatus").notNull(),
+		changedBy: text("changedBy"), // Admin email, null when changed by the system
+		comment: text("comment"),
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		index("idx_order_status_history_order_created").on(
+			table.orderId,
+			table.createdAt,
+		),
+	],
+);
+
+export const orderAuditLog = sqliteTable(
+	"order_audit_log",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		orderId: integer("orderId")
+			.references(() => orders.id, { onDelete: "cascade" })
+			.notNull(),
+		action: text("action").notNull(), // See ORDER_AUDIT_ACTIONS in ~/constants/orderAudit.ts
+		changedBy: text("changedBy"), // Admin email
+		changes: text("changes").notNull(), // JSON: OrderItemsAuditChanges
+		comment: text("comment"),
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		index("idx_order_audit_log_order_created").on(
+			table.orderId,
+			table.createdAt,
+		),
+	],
+);
+
+// Every online payment started for an order, so a webhook for an older attempt
+// (the customer paid in a tab opened before retrying) still finds its order
+export const paymentAttempts = sqliteTable(
+	"payment_attempts",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		orderId: integer("orderId")
+			.references(() => orders.id, { onDelete: "cascade" })
+			.notNull(),
+		provider: text("provider").notNull(), // Payment provider name, e.g. "mock"
+		paymentId: text("paymentId").notNull(), // Payment ID at the provider
+		amount: real("amount").notNull(), // Order total when the attempt was started
+		status: text("status").notNull().default("pending"), // See ~/constants/paymentStatuses
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+		updatedAt: integer("updatedAt", { mode: "timestamp" }),
+	},
+	(table) => [
+		index("idx_payment_attempts_order_id").on(table.orderId),
+		unique().on(table.provider, table.paymentId),
+	],
+);
+
+// Internal comments of managers on an order, never shown to the customer
+export const orderComments = sqliteTable(
+	"order_comments",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		orderId: integer("orderId")
+			.references(() => orders.id, { onDelete: "cascade" })
+			.notNull(),
+		parentId: integer("parentId").references(
+			(): AnySQLiteColumn => orderComments.id,
+			{ onDelete: "cascade" },
+		), // Reply to a top-level comment, threads are one level deep
+		authorEmail: text("authorEmail").notNull(),
+		body: text("body").notNull(),
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+		updatedAt: integer("updatedAt", { mode: "timestamp" }), // Set when the author edits the comment
+	},
+	(table) => [
+		index("idx_order_comments_order_created").on(
+			table.orderId,
+			table.createdAt,
+		),
+	],
+);
+
+// Returns (RMA): goods from an order coming back to the store
+export const orderReturns = sqliteTable(
+	"order_returns",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		orderId: integer("orderId")
+			.references(() => orders.id, { onDelete: "cascade" })
+			.notNull(),
+		status: text("status").notNull().default("requested"), // See ~/constants/returnStatuses
+		reason: text("reason").notNull(), // See ~/constants/returnReasons
+		notes: text("notes"), // Details from the customer
+		restockingNotes: text("restockingNotes"), // Condition of the goods, where they were put
+		itemsAmount: real("itemsAmount").notNull(), // Returned lines at the price paid
+		couponAmount: real("couponAmount").notNull().default(0), // Share of the promo code discount
+		restockingFeePercent: real("restockingFeePercent").notNull().default(0),
+		restockingFee: real("restockingFee").notNull().default(0),
+		refundAmount: real("refundAmount").notNull(), // itemsAmount - couponAmount - restockingFee
+		createdBy: text("createdBy"), // Admin email
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+		updatedAt: integer("updatedAt", { mode: "timestamp" }),
+		refundedAt: integer("refundedAt", { mode: "timestamp" }),
+	},
+	(table) => [
+		index("idx_order_returns_order_id").on(table.orderId),
+		index("idx_order_returns_status").on(table.status),
+	],
+);
+
+export const orderReturnItems = sqliteTable(
+	"order_return_items",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		returnId: integer("returnId")
+			.references(() => orderReturns.id, { onDelete: "cascade" })
+			.notNull(),
+		orderItemId: integer("orderItemId")
+			.references(() => orderItems.id, { onDelete: "cascade" })
+			.notNull(),
+		quantity: real("quantity").notNull(),
+		amount: real("amount").notNull(), // Line refund before the coupon share and the fee
+	},
+	(table) => [
+		index("idx_order_return_items_return_id").on(table.returnId),
+		index("idx_order_return_items_order_item_id").on(table.orderItemId),
+	],
+);
+
+// Saved carts with a short public link (/quote/<token>), prices are a snapshot
+export const quotes = sqliteTable(
+	"quotes",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		token: text("token").notNull().unique(), // See ~/utils/quotes.ts
+		title: text("title"), // E.g. "Кухня, ул. Ленина 5"
+		subtotalAmount: real("subtotalAmount").notNull(),
+		discountAmount: real("discountAmount").notNull().default(0),
+		totalAmount: real("totalAmount").notNull(),
+		createdBy: text("createdBy"), // Email if saved by a signed-in user
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [index("idx_quotes_created_at").on(table.createdAt)],
+);
+
+export const quoteItems = sqliteTable(
+	"quote_items",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		quoteId: integer("quoteId")
+			.references(() => quotes.id, { onDelete: "cascade" })
+			.notNull(),
+		productId: integer("productId")
+			.references(() => products.id, { onDelete: "cascade" })
+			.notNull(),
+		productVariationId: integer("productVariationId").references(
+			() => productVariations.id,
+			{ onDelete: "set null" },
+		),
+		quantity: real("quantity").notNull(),
+		productName: text("productName").notNull(), // Snapshot for the quote page
+		unitAmount: real("unitAmount").notNull(),
+		discountPercentage: integer("discountPercentage"),
+		finalAmount: real("finalAmount").notNull(), // Unit amount after discount × quantity
+		attributes: text("attributes"), // JSON stored as text
+	},
+	(table) => [index("idx_quote_items_quote_id").on(table.quoteId)],
+);
+
+// Cart of a signed-in user, merged with the cookie cart at login (see ~/utils/userCart.ts)
+export const userCarts = sqliteTable("user_carts", {
+	userId: text("userId")
+		.primaryKey()
+		.references(() => user.id, { onDelete: "cascade" }),
+	items: text("items").notNull(), // JSON: CartItem[] from ~/lib/cartContext
+	couponCode: text("couponCode"),
+	lastUpdated: integer("lastUpdated").notNull(), // Cart.lastUpdated in ms, set by the device that made the change
+	updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Request counters of the database rate limit store (see ~/utils/rateLimit.ts)
+export const rateLimitBuckets = sqliteTable("rate_limit_buckets", {
+	key: text("key").primaryKey(), // E.g. "create_order:ip:203.0.113.5"
+	count: integer("count").notNull(),
+	resetAt: integer("resetAt").notNull(), // End of the window in ms
+});
+
+// Checkout requests stopped by the anti-spam checks, shown in the dashboard
+export const blockedAttempts = sqliteTable(
+	"blocked_attempts",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		action: text("action").notNull(), // See PROTECTED_ACTIONS in ~/constants/blockedAttempts.ts
+		reason: text("reason").notNull(), // See BLOCKED_ATTEMPT_REASONS
+		ip: text("ip"),
+		phone: text("phone"), // Normalized, when the request had one
+		userAgent: text("userAgent"),
+		createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [index("idx_blocked_attempts_created_at").on(table.createdAt)],
+);
+
 // Inquiries
 // export const inquiries = sqliteTable('inquiries', {
 //   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -392,8 +650,21 @@ export const schema = {
 	// storeLocations removed - now hardcoded in ~/data/storeLocations.ts
 	productStoreLocations,
 	// Order tables
+	coupons,
 	orders,
 	orderItems,
+	orderStatusHistory,
+	orderAuditLog,
+	paymentAttempts,
+	orderComments,
+	orderReturns,
+	orderReturnItems,
+	quotes,
+	quoteItems,
+	userCarts,
+	// Anti-spam
+	rateLimitBuckets,
+	blockedAttempts,
 	// NOTE: FTS5 tables (products_fts, brands_fts, etc.) are NOT included here
 	// They are managed by raw SQL and excluded via drizzle.config.ts
 };
@@ -0,0 +1,29 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { desc } from "drizzle-orm";
+import { DB } from "~/db";
+import { blockedAttempts } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+
+// Older attempts stay in the table, the dashboard only needs the recent ones
+const BLOCKED_ATTEMPTS_LIMIT = 500;
+
+/**
+ * Checkout requests stopped by the anti-spam checks, newest first
+ */
+export const getBlockedAttempts = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.handler(async () => {
+		try {
+			const db = DB();
+			return await db
+				.select()
+				.from(blockedAttempts)
+				.orderBy(desc(blockedAttempts.createdAt), desc(blockedAttempts.id))
+				.limit(BLOCKED_ATTEMPTS_LIMIT);
+		} catch (error) {
+			console.error("Error fetching blocked attempts:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch blocked attempts");
+		}
+	});
@@ -1,6 +1,7 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
 import { eq } from "drizzle-orm";
+import { isProjectAccessory } from "~/constants/projectAccessories";
 import { DB } from "~/db";
 import { categories } from "~/schema";
 import type { CategoryFormData } from "~/types";
@@ -46,6 +47,9 @@ export const createProductCategory = createServerFn({ method: "POST" })
 					image: finalImage || null,
 					isActive: categoryData.isActive ?? true,
 					order: categoryData.order ?? 0,
+					projectAccessory: isProjectAccessory(categoryData.projectAccessory)
+						? categoryData.projectAccessory
+						: null,
 				})
 				.returning();
 
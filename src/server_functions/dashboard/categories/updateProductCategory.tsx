@@ -1,6 +1,7 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
 import { eq } from "drizzle-orm";
+import { isProjectAccessory } from "~/constants/projectAccessories";
 import { DB } from "~/db";
 import { categories } from "~/schema";
 import type { CategoryFormData } from "~/types";
@@ -66,6 +67,9 @@ export const updateProductCategory = createServerFn({ method: "POST" })
 					image: finalImage || null,
 					isActive: categoryData.isActive ?? true,
 					order: categoryData.order ?? 0,
+					projectAccessory: isProjectAccessory(categoryData.projectAccessory)
+						? categoryData.projectAccessory
+						: null,
 				})
 				.where(eq(categories.id, id))
 				.returning();
@@ -0,0 +1,55 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { coupons } from "~/schema";
+import type { CouponFormData } from "~/types";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { parseCouponFormData } from "~/utils/coupons";
+import { HttpError, httpError } from "~/utils/httpError";
+
+export const createCoupon = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: CouponFormData) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+
+			const parsed = parseCouponFormData(data);
+			if (!parsed.success) {
+				throw httpError(400, parsed.error);
+			}
+
+			// Check for duplicate code
+			const existingCoupon = await db
+				.select({ id: coupons.id })
+				.from(coupons)
+				.where(eq(coupons.code, parsed.values.code))
+				.limit(1);
+
+			if (existingCoupon.length > 0) {
+				throw httpError(409, "Промокод с таким кодом уже существует");
+			}
+
+			const [coupon] = await db
+				.insert(coupons)
+				.values({
+					...parsed.values,
+					usageCount: 0,
+					createdAt: new Date(),
+				})
+				.returning();
+
+			return {
+				message: "Coupon created successfully",
+				coupon,
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error creating coupon:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to create coupon",
+			);
+		}
+	});
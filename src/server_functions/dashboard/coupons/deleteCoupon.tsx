@@ -0,0 +1,39 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { coupons } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+
+/**
+ * Delete a coupon. Orders placed with it keep the code and discount snapshot.
+ */
+export const deleteCoupon = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { id: number }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+
+			const deleteResult = await db
+				.delete(coupons)
+				.where(eq(coupons.id, data.id))
+				.returning();
+
+			if (deleteResult.length === 0) {
+				throw httpError(404, "Coupon not found");
+			}
+
+			return {
+				message: "Coupon deleted successfully",
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error deleting coupon:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to delete coupon",
+			);
+		}
+	});
@@ -0,0 +1,19 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { desc } from "drizzle-orm";
+import { DB } from "~/db";
+import { coupons } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+
+export const getAllCoupons = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.handler(async () => {
+		try {
+			const db = DB();
+			return await db.select().from(coupons).orderBy(desc(coupons.createdAt));
+		} catch (error) {
+			console.error("Error fetching coupons:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch coupons");
+		}
+	});
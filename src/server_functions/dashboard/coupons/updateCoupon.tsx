@@ -0,0 +1,58 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, eq, ne } from "drizzle-orm";
+import { DB } from "~/db";
+import { coupons } from "~/schema";
+import type { CouponFormData } from "~/types";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { parseCouponFormData } from "~/utils/coupons";
+import { HttpError, httpError } from "~/utils/httpError";
+
+export const updateCoupon = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { id: number; data: CouponFormData }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+			const { id } = data;
+
+			const parsed = parseCouponFormData(data.data);
+			if (!parsed.success) {
+				throw httpError(400, parsed.error);
+			}
+
+			// Check for duplicate code on another coupon
+			const duplicateCoupon = await db
+				.select({ id: coupons.id })
+				.from(coupons)
+				.where(and(eq(coupons.code, parsed.values.code), ne(coupons.id, id)))
+				.limit(1);
+
+			if (duplicateCoupon.length > 0) {
+				throw httpError(409, "Промокод с таким кодом уже существует");
+			}
+
+			// Usage count is kept: orders already placed with the coupon still count
+			const [coupon] = await db
+				.update(coupons)
+				.set(parsed.values)
+				.where(eq(coupons.id, id))
+				.returning();
+
+			if (!coupon) {
+				throw httpError(404, "Coupon not found");
+			}
+
+			return {
+				message: "Coupon updated successfully",
+				coupon,
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error updating coupon:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to update coupon",
+			);
+		}
+	});
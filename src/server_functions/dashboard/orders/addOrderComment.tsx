@@ -0,0 +1,77 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderComments, orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import { validateCommentBody } from "~/utils/orderComments";
+
+/**
+ * Add an internal comment to an order, or a reply when parentId is set
+ */
+export const addOrderComment = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: { orderId: number; parentId?: number | null; body: string }) => data,
+	)
+	.handler(async ({ data, context }) => {
+		const validation = validateCommentBody(data.body);
+		if (!validation.success) {
+			throw httpError(400, validation.error);
+		}
+
+		try {
+			const db = DB();
+
+			const [order] = await db
+				.select({ id: orders.id })
+				.from(orders)
+				.where(eq(orders.id, data.orderId))
+				.limit(1);
+
+			if (!order) {
+				throw httpError(404, "Order not found");
+			}
+
+			let parentId: number | null = null;
+			if (data.parentId) {
+				const [parent] = await db
+					.select({
+						id: orderComments.id,
+						orderId: orderComments.orderId,
+						parentId: orderComments.parentId,
+					})
+					.from(orderComments)
+					.where(eq(orderComments.id, data.parentId))
+					.limit(1);
+
+				if (!parent || parent.orderId !== order.id) {
+					throw httpError(404, "Comment not found");
+				}
+				// Replies to a reply go to the same thread
+				parentId = parent.parentId ?? parent.id;
+			}
+
+			const [comment] = await db
+				.insert(orderComments)
+				.values({
+					orderId: order.id,
+					parentId,
+					authorEmail: context.adminEmail,
+					body: validation.body,
+					createdAt: new Date(),
+					updatedAt: null,
+				})
+				.returning();
+
+			return { comment };
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error adding order comment:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to add comment",
+			);
+		}
+	});
@@ -0,0 +1,51 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+
+/**
+ * Confirm the delivery distance the customer entered at checkout,
+ * after which the order can be shipped (see isBlockedByDeliveryReview)
+ */
+export const confirmOrderDelivery = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { id: number }) => data)
+	.handler(async ({ data, context }) => {
+		try {
+			const db = DB();
+
+			if (Number.isNaN(data.id)) {
+				throw httpError(400, "Invalid order ID");
+			}
+
+			const [updatedOrder] = await db
+				.update(orders)
+				.set({
+					deliveryNeedsReview: false,
+					deliveryReviewedBy: context.adminEmail,
+					deliveryReviewedAt: new Date(),
+				})
+				.where(
+					and(eq(orders.id, data.id), eq(orders.deliveryNeedsReview, true)),
+				)
+				.returning();
+
+			if (!updatedOrder) {
+				throw httpError(409, "Доставка этого заказа не требует подтверждения");
+			}
+
+			return {
+				deliveryNeedsReview: updatedOrder.deliveryNeedsReview,
+				deliveryReviewedBy: updatedOrder.deliveryReviewedBy,
+				deliveryReviewedAt: updatedOrder.deliveryReviewedAt,
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error confirming order delivery:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to confirm order delivery");
+		}
+	});
@@ -0,0 +1,158 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, eq, inArray, ne } from "drizzle-orm";
+import { isReturnReason } from "~/constants/returnReasons";
+import { DB } from "~/db";
+import {
+	orderItems,
+	orderReturnItems,
+	orderReturns,
+	orders,
+	products,
+} from "~/schema";
+import type { OrderReturnItem } from "~/types";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import {
+	calculateReturnRefund,
+	getReturnableQuantities,
+	type ReturnLineInput,
+} from "~/utils/orderReturns";
+
+/**
+ * Register a return of some order items. The refund is calculated here
+ * from the order, the amount previewed in the drawer isn't trusted.
+ */
+export const createOrderReturn = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: {
+			orderId: number;
+			reason: string;
+			notes?: string;
+			restockingFeePercent?: number;
+			items: ReturnLineInput[];
+		}) => data,
+	)
+	.handler(async ({ data, context }) => {
+		if (!isReturnReason(data.reason)) {
+			throw httpError(400, "Укажите причину возврата");
+		}
+		if (!Array.isArray(data.items)) {
+			throw httpError(400, "Invalid return items");
+		}
+
+		try {
+			const db = DB();
+
+			const [order] = await db
+				.select()
+				.from(orders)
+				.where(eq(orders.id, data.orderId))
+				.limit(1);
+
+			if (!order) {
+				throw httpError(404, "Order not found");
+			}
+			if (order.status === "pending" || order.status === "cancelled") {
+				throw httpError(
+					409,
+					"Возврат можно оформить только по принятому заказу",
+				);
+			}
+
+			const orderLines = await db
+				.select({
+					id: orderItems.id,
+					quantity: orderItems.quantity,
+					finalAmount: orderItems.finalAmount,
+					squareMetersPerPack: orderItems.squareMetersPerPack,
+					unitOfMeasurement: products.unitOfMeasurement,
+				})
+				.from(orderItems)
+				.leftJoin(products, eq(orderItems.productId, products.id))
+				.where(eq(orderItems.orderId, order.id));
+
+			// Units already in other returns of this order, except rejected ones
+			const returnedLines = await db
+				.select({
+					orderItemId: orderReturnItems.orderItemId,
+					quantity: orderReturnItems.quantity,
+				})
+				.from(orderReturnItems)
+				.innerJoin(orderReturns, eq(orderReturnItems.returnId, orderReturns.id))
+				.where(
+					and(
+						eq(orderReturns.orderId, order.id),
+						ne(orderReturns.status, "rejected"),
+						inArray(
+							orderReturnItems.orderItemId,
+							orderLines.map((line) => line.id),
+						),
+					),
+				);
+
+			const result = calculateReturnRefund(
+				orderLines,
+				order.couponDiscountAmount,
+				data.items,
+				getReturnableQuantities(orderLines, returnedLines),
+				data.restockingFeePercent ?? 0,
+			);
+			if (!result.success) {
+				throw httpError(400, result.error);
+			}
+			const { calculation } = result;
+
+			const now = new Date();
+			const [orderReturn] = await db
+				.insert(orderReturns)
+				.values({
+					orderId: order.id,
+					status: "requested",
+					reason: data.reason,
+					notes: data.notes?.trim() || null,
+					restockingNotes: null,
+					itemsAmount: calculation.itemsAmount,
+					couponAmount: calculation.couponAmount,
+					restockingFeePercent: data.restockingFeePercent ?? 0,
+					restockingFee: calculation.restockingFee,
+					refundAmount: calculation.refundAmount,
+					createdBy: context.adminEmail,
+					createdAt: now,
+					updatedAt: null,
+					refundedAt: null,
+				})
+				.returning();
+
+			let items: OrderReturnItem[];
+			try {
+				items = await db
+					.insert(orderReturnItems)
+					.values(
+						calculation.lines.map((line) => ({
+							returnId: orderReturn.id,
+							orderItemId: line.orderItemId,
+							quantity: line.quantity,
+							amount: line.amount,
+						})),
+					)
+					.returning();
+			} catch (itemsError) {
+				// Don't leave a return without lines
+				await db
+					.delete(orderReturns)
+					.where(eq(orderReturns.id, orderReturn.id));
+				throw itemsError;
+			}
+
+			return { orderReturn: { ...orderReturn, items } };
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error creating order return:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to create return",
+			);
+		}
+	});
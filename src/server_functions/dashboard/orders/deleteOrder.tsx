@@ -3,8 +3,11 @@ import { setResponseStatus } from "@tanstack/react-start/server";
 import { eq, inArray } from "drizzle-orm";
 import { DB } from "~/db";
 import { orderItems, orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
 
 export const deleteOrder = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
 	.inputValidator((data: { id: number }) => data)
 	.handler(async ({ data }) => {
 		try {
@@ -12,8 +15,7 @@ export const deleteOrder = createServerFn({ method: "POST" })
 			const orderId = data.id;
 
 			if (Number.isNaN(orderId)) {
-				setResponseStatus(400);
-				throw new Error("Invalid order ID");
+				throw httpError(400, "Invalid order ID");
 			}
 
 			// Check if order exists
@@ -24,8 +26,7 @@ export const deleteOrder = createServerFn({ method: "POST" })
 				.limit(1);
 
 			if (!existingOrder[0]) {
-				setResponseStatus(404);
-				throw new Error("Order not found");
+				throw httpError(404, "Order not found");
 			}
 
 			// Delete related data first (foreign key constraints)
@@ -39,6 +40,7 @@ export const deleteOrder = createServerFn({ method: "POST" })
 				message: "Order deleted successfully",
 			};
 		} catch (error) {
+			if (error instanceof HttpError) throw error;
 			console.error("Error deleting order:", error);
 			setResponseStatus(500);
 			throw new Error("Failed to delete order");
@@ -46,6 +48,7 @@ export const deleteOrder = createServerFn({ method: "POST" })
 	});
 
 export const deleteOrders = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
 	.inputValidator((data: { ids: number[] }) => data)
 	.handler(async ({ data }) => {
 		try {
@@ -53,15 +56,13 @@ export const deleteOrders = createServerFn({ method: "POST" })
 			const orderIds = data.ids;
 
 			if (!Array.isArray(orderIds) || orderIds.length === 0) {
-				setResponseStatus(400);
-				throw new Error("Invalid order IDs");
+				throw httpError(400, "Invalid order IDs");
 			}
 
 			// Validate all IDs are numbers
 			const validIds = orderIds.filter((id) => !Number.isNaN(id));
 			if (validIds.length !== orderIds.length) {
-				setResponseStatus(400);
-				throw new Error("Some order IDs are invalid");
+				throw httpError(400, "Some order IDs are invalid");
 			}
 
 			// Check if all orders exist
@@ -71,8 +72,7 @@ export const deleteOrders = createServerFn({ method: "POST" })
 				.where(inArray(orders.id, orderIds));
 
 			if (existingOrders.length !== orderIds.length) {
-				setResponseStatus(404);
-				throw new Error("Some orders not found");
+				throw httpError(404, "Some orders not found");
 			}
 
 			// Delete related data first (foreign key constraints)
@@ -87,6 +87,7 @@ export const deleteOrders = createServerFn({ method: "POST" })
 				deletedCount: orderIds.length,
 			};
 		} catch (error) {
+			if (error instanceof HttpError) throw error;
 			console.error("Error deleting orders:", error);
 			setResponseStatus(500);
 			throw new Error("Failed to delete orders");
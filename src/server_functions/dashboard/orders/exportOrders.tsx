@@ -0,0 +1,222 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import {
+	isOrderExportFormat,
+	type OrderExportFormat,
+} from "~/constants/orderExport";
+import { getOrderStatusName, isOrderStatus } from "~/constants/orderStatuses";
+import { getShippingMethodName } from "~/constants/shippingMethods";
+import { UNITS } from "~/constants/units";
+import {
+	getStoreLocationsByIds,
+	type StoreLocation,
+} from "~/data/storeLocations";
+import { DB } from "~/db";
+import { orderItems, orders, products, productVariations } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { parseDeliveryBreakdown } from "~/utils/deliveryPricing";
+import { httpError } from "~/utils/httpError";
+import {
+	buildOrderItemsCsv,
+	buildOrdersXlsx,
+	type OrderExportItemRow,
+	type OrderExportSummaryRow,
+} from "~/utils/orderExport";
+import {
+	getOrderDateConditions,
+	ORDER_DATE_PATTERN,
+} from "~/utils/orderFilters";
+import { formatPhone } from "~/utils/phone";
+import { getPacksArea, getUnitShortLabel } from "~/utils/units";
+
+const formatExportDate = (date: Date) =>
+	date.toLocaleString("ru-RU", {
+		day: "2-digit",
+		month: "2-digit",
+		year: "numeric",
+		hour: "2-digit",
+		minute: "2-digit",
+		timeZone: "Asia/Vladivostok",
+	});
+
+const formatAttributes = (attributes: string | null) => {
+	if (!attributes) return "";
+	const parsed: Record<string, string> = JSON.parse(attributes);
+	return Object.entries(parsed)
+		.map(([key, value]) => `${key}: ${value}`)
+		.join(", ");
+};
+
+/**
+ * Export orders for accounting as CSV (item rows) or XLSX (item rows + order summary sheet).
+ * Filters: statuses (empty = all) and an inclusive date range (YYYY-MM-DD) on the order date.
+ * Admin only. Returns base64 so the file can go through a regular server function response.
+ */
+export const exportOrders = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: {
+			format: OrderExportFormat;
+			statuses?: string[];
+			dateFrom?: string;
+			dateTo?: string;
+		}) => data,
+	)
+	.handler(async ({ data }) => {
+		if (!isOrderExportFormat(data.format)) {
+			throw httpError(400, "Invalid export format");
+		}
+
+		const statuses = data.statuses ?? [];
+		if (!statuses.every(isOrderStatus)) {
+			throw httpError(400, "Invalid order status");
+		}
+
+		for (const date of [data.dateFrom, data.dateTo]) {
+			if (date && !ORDER_DATE_PATTERN.test(date)) {
+				throw httpError(400, "Dates must be in YYYY-MM-DD format");
+			}
+		}
+
+		try {
+			const db = DB();
+
+			const conditions = getOrderDateConditions(data.dateFrom, data.dateTo);
+			if (statuses.length > 0) {
+				conditions.push(inArray(orders.status, statuses));
+			}
+
+			const ordersResult = await db
+				.select()
+				.from(orders)
+				.where(conditions.length > 0 ? and(...conditions) : undefined)
+				.orderBy(asc(orders.createdAt));
+
+			const orderIds = ordersResult.map((order) => order.id);
+			const itemsResult =
+				orderIds.length > 0
+					? await db
+							.select({
+								orderId: orderItems.orderId,
+								quantity: orderItems.quantity,
+								saleUnit: orderItems.saleUnit,
+								squareMetersPerPack: orderItems.squareMetersPerPack,
+								unitAmount: orderItems.unitAmount,
+								discountPercentage: orderItems.discountPercentage,
+								finalAmount: orderItems.finalAmount,
+								attributes: orderItems.attributes,
+								productName: products.name,
+								productSku: products.sku,
+								unitOfMeasurement: products.unitOfMeasurement,
+								variationSku: productVariations.sku,
+							})
+							.from(orderItems)
+							.leftJoin(products, eq(orderItems.productId, products.id))
+							.leftJoin(
+								productVariations,
+								eq(orderItems.productVariationId, productVariations.id),
+							)
+							.where(inArray(orderItems.orderId, orderIds))
+							.orderBy(asc(orderItems.orderId), asc(orderItems.id))
+					: [];
+
+			const ordersById = new Map(
+				ordersResult.map((order) => [order.id, order]),
+			);
+			const itemCounts = new Map<number, number>();
+
+			const itemRows: OrderExportItemRow[] = itemsResult.map((item) => {
+				// biome-ignore lint/style/noNonNullAssertion: items are loaded by these order IDs
+				const order = ordersById.get(item.orderId)!;
+				itemCounts.set(item.orderId, (itemCounts.get(item.orderId) ?? 0) + 1);
+				return {
+					orderId: order.id,
+					orderDate: formatExportDate(order.createdAt),
+					status: getOrderStatusName(order.status),
+					customerName: order.customerName ?? "",
+					customerPhone: order.customerPhone
+						? formatPhone(order.customerPhone)
+						: "",
+					productName: item.productName ?? "Товар удалён",
+					sku: item.variationSku ?? item.productSku ?? "",
+					attributes: formatAttributes(item.attributes),
+					quantity: item.quantity,
+					unit:
+						item.saleUnit === "pack"
+							? UNITS.pack.shortLabel
+							: getUnitShortLabel(item.unitOfMeasurement),
+					area:
+						item.saleUnit === "pack" && item.squareMetersPerPack
+							? Number(
+									getPacksArea(item.quantity, item.squareMetersPerPack).toFixed(
+										3,
+									),
+								)
+							: "",
+					unitAmount: item.unitAmount,
+					discountPercentage: item.discountPercentage ?? 0,
+					finalAmount: item.finalAmount,
+				};
+			});
+
+			const pickupLocations = new Map<number, StoreLocation>(
+				getStoreLocationsByIds(
+					ordersResult
+						.map((order) => order.pickupLocationId)
+						.filter((id): id is number => id !== null),
+				).map((location) => [location.id, location]),
+			);
+
+			const getFulfillment = (order: (typeof ordersResult)[number]) => {
+				if (order.pickupLocationId !== null) {
+					const location = pickupLocations.get(order.pickupLocationId);
+					return `Самовывоз: ${location?.address ?? order.pickupLocationId}`;
+				}
+				const breakdown = parseDeliveryBreakdown(order.shippingBreakdown);
+				return [
+					breakdown?.zoneName ?? getShippingMethodName(order.shippingMethod),
+					order.deliveryAddress,
+				]
+					.filter(Boolean)
+					.join(": ");
+			};
+
+			const summaryRows: OrderExportSummaryRow[] = ordersResult.map(
+				(order) => ({
+					orderId: order.id,
+					orderDate: formatExportDate(order.createdAt),
+					status: getOrderStatusName(order.status),
+					customerName: order.customerName ?? "",
+					customerPhone: order.customerPhone
+						? formatPhone(order.customerPhone)
+						: "",
+					customerEmail: order.customerEmail ?? "",
+					itemCount: itemCounts.get(order.id) ?? 0,
+					subtotalAmount: order.subtotalAmount,
+					discountAmount: order.discountAmount,
+					shippingAmount: order.shippingAmount,
+					totalAmount: order.totalAmount,
+					paymentMethod: order.paymentMethod ?? "",
+					paymentStatus: order.paymentStatus,
+					fulfillment: getFulfillment(order),
+				}),
+			);
+
+			const period = [data.dateFrom, data.dateTo].filter(Boolean).join("_");
+			const fileName = `orders${period ? `-${period}` : ""}.${data.format}`;
+
+			const base64 =
+				data.format === "csv"
+					? Buffer.from(buildOrderItemsCsv(itemRows), "utf-8").toString(
+							"base64",
+						)
+					: (await buildOrdersXlsx(itemRows, summaryRows)).toString("base64");
+
+			return { fileName, base64, orderCount: ordersResult.length };
+		} catch (error) {
+			console.error("Error exporting orders:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to export orders");
+		}
+	});
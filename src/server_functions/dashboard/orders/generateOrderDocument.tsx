@@ -0,0 +1,155 @@
+import { renderToBuffer } from "@react-pdf/renderer";
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import {
+	type OrderDocumentData,
+	OrderDocumentPdf,
+	registerPdfFonts,
+} from "~/components/pdf/OrderDocumentPdf";
+import {
+	isOrderDocumentType,
+	ORDER_DOCUMENT_VALIDITY_DAYS,
+	type OrderDocumentType,
+} from "~/constants/orderDocuments";
+import { getShippingMethodName } from "~/constants/shippingMethods";
+import { UNITS } from "~/constants/units";
+import { COMPANY } from "~/data/company";
+import { getAllStoreLocations } from "~/data/storeLocations";
+import { DB } from "~/db";
+import { orderItems, orders, products, productVariations } from "~/schema";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { parseDeliveryBreakdown } from "~/utils/deliveryPricing";
+import { env } from "~/utils/env";
+import { getOrderLookupCondition } from "~/utils/orderAccess";
+import { formatPhone } from "~/utils/phone";
+import { DAY_MS } from "~/utils/storeDate";
+import { formatArea, getPacksArea, getUnitShortLabel } from "~/utils/units";
+
+/**
+ * Render an invoice (счёт) or quote (КП) for an order as PDF.
+ * Access rules are the same as for the order page: public token, or numeric ID for admins.
+ * Returns base64 so the file can go through a regular server function response.
+ */
+export const generateOrderDocument = createServerFn({ method: "GET" })
+	.middleware([authMiddleware])
+	.inputValidator((data: { orderId: string; type: OrderDocumentType }) => data)
+	.handler(async ({ data, context }) => {
+		try {
+			if (!isOrderDocumentType(data.type)) {
+				setResponseStatus(400);
+				throw new Error("Invalid document type");
+			}
+
+			const orderCondition = getOrderLookupCondition(
+				data.orderId,
+				context?.user?.email,
+			);
+			if (!orderCondition) {
+				throw new Error("Order not found");
+			}
+
+			const db = DB();
+			const [order] = await db
+				.select()
+				.from(orders)
+				.where(orderCondition)
+				.limit(1);
+
+			if (!order) {
+				throw new Error("Order not found");
+			}
+
+			const items = await db
+				.select({
+					quantity: orderItems.quantity,
+					saleUnit: orderItems.saleUnit,
+					squareMetersPerPack: orderItems.squareMetersPerPack,
+					unitAmount: orderItems.unitAmount,
+					discountPercentage: orderItems.discountPercentage,
+					finalAmount: orderItems.finalAmount,
+					productName: products.name,
+					productSku: products.sku,
+					unitOfMeasurement: products.unitOfMeasurement,
+					variationSku: productVariations.sku,
+				})
+				.from(orderItems)
+				.leftJoin(products, eq(orderItems.productId, products.id))
+				.leftJoin(
+					productVariations,
+					eq(orderItems.productVariationId, productVariations.id),
+				)
+				.where(eq(orderItems.orderId, order.id));
+
+			const issuedAt = new Date();
+			const breakdown = parseDeliveryBreakdown(order.shippingBreakdown);
+
+			const documentData: OrderDocumentData = {
+				type: data.type,
+				orderId: order.id,
+				issuedAt,
+				validUntil: new Date(
+					issuedAt.getTime() + ORDER_DOCUMENT_VALIDITY_DAYS[data.type] * DAY_MS,
+				),
+				customerName: order.customerName,
+				customerPhone: order.customerPhone
+					? formatPhone(order.customerPhone)
+					: null,
+				customerEmail: order.customerEmail,
+				lines: items.map((item) => ({
+					name: item.productName ?? "Товар удалён",
+					sku: item.variationSku ?? item.productSku ?? null,
+					// Pack lines show the covered area next to the pack count
+					unit:
+						item.saleUnit === "pack" && item.squareMetersPerPack
+							? `${UNITS.pack.shortLabel} (${formatArea(getPacksArea(item.quantity, item.squareMetersPerPack))})`
+							: getUnitShortLabel(item.unitOfMeasurement),
+					quantity: item.quantity,
+					unitAmount: item.unitAmount,
+					discountPercentage: item.discountPercentage,
+					finalAmount: item.finalAmount,
+				})),
+				subtotalAmount: order.subtotalAmount,
+				discountAmount: order.discountAmount,
+				shippingAmount: order.shippingAmount,
+				shippingLabel: breakdown
+					? `Доставка (${breakdown.zoneName.toLowerCase()})`
+					: getShippingMethodName(order.shippingMethod),
+				totalAmount: order.totalAmount,
+				requisites: {
+					companyName: COMPANY.name,
+					addresses: getAllStoreLocations().map(
+						(location) => `${COMPANY.city}, ${location.address}`,
+					),
+					phones: COMPANY.phones,
+					email: COMPANY.email,
+					website: COMPANY.website,
+					inn: env.COMPANY_INN,
+					kpp: env.COMPANY_KPP,
+					ogrn: env.COMPANY_OGRN,
+					bankName: env.COMPANY_BANK_NAME,
+					bankBik: env.COMPANY_BANK_BIK,
+					bankAccount: env.COMPANY_BANK_ACCOUNT,
+					bankCorrAccount: env.COMPANY_BANK_CORR_ACCOUNT,
+				},
+			};
+
+			registerPdfFonts(env.BETTER_AUTH_URL);
+			const buffer = await renderToBuffer(
+				<OrderDocumentPdf data={documentData} />,
+			);
+
+			return {
+				fileName: `${data.type === "invoice" ? "schet" : "kp"}-${order.id}.pdf`,
+				base64: buffer.toString("base64"),
+			};
+		} catch (error) {
+			// Keep the message so the page can tell a missing order from a failure
+			if (error instanceof Error && error.message === "Order not found") {
+				throw error;
+			}
+			console.error("Error generating order document:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to generate document");
+		}
+	});
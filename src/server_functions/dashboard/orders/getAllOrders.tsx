@@ -1,147 +1,137 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
-import { eq, inArray } from "drizzle-orm";
+import { asc, count, inArray } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import {
+	isOrderListSort,
+	ORDERS_PAGE_SIZE,
+	type OrderListSort,
+} from "~/constants/orderList";
+import { isOrderStatus } from "~/constants/orderStatuses";
+import { isPaymentStatus } from "~/constants/paymentStatuses";
 import { DB } from "~/db";
-import { orderItems, orders, products, productVariations } from "~/schema";
-
-export const getAllOrders = createServerFn({ method: "GET" }).handler(
-	async () => {
-		try {
-			const db = DB();
-
-			// Fetch all orders
-			const ordersResult = await db.select().from(orders).all();
-
-			if (!ordersResult || ordersResult.length === 0) {
-				return { groupedOrders: [] };
-			}
-
-			const orderIds = ordersResult.map((o) => o.id);
-			const allItemsResult = await db
-				.select({
-					// Order item fields
-					id: orderItems.id,
-					orderId: orderItems.orderId,
-					productId: orderItems.productId,
-					productVariationId: orderItems.productVariationId,
-					quantity: orderItems.quantity,
-					unitAmount: orderItems.unitAmount,
-					discountPercentage: orderItems.discountPercentage,
-					finalAmount: orderItems.finalAmount,
-					attributes: orderItems.attributes,
-					createdAt: orderItems.createdAt,
-
-					// Product fields
-					productName: products.name,
-					productImages: products.images,
-
-					// Variation fields
-					variationId: productVariations.id,
-					variationSku: productVariations.sku,
-				})
-				.from(orderItems)
-				.leftJoin(products, eq(orderItems.productId, products.id))
-				.leftJoin(
-					productVariations,
-					eq(orderItems.productVariationId, productVariations.id),
-				)
-				.where(inArray(orderItems.orderId, orderIds));
-
-			// Group items by order ID in memory (fast)
-			const itemsByOrderId = new Map<
-				number,
-				Array<{
-					id: number;
-					orderId: number;
-					productId: number;
-					quantity: number;
-					unitAmount: number;
-					discountPercentage: number | null;
-					finalAmount: number;
-					attributes: Record<string, any>;
-					product: { name: string; images: string | null };
-					variation?: { id: number; sku: string };
-				}>
-			>();
-
-			for (const item of allItemsResult) {
-				if (!itemsByOrderId.has(item.orderId)) {
-					itemsByOrderId.set(item.orderId, []);
-				}
-				itemsByOrderId.get(item.orderId)?.push({
-					id: item.id,
-					orderId: item.orderId,
-					productId: item.productId,
-					quantity: item.quantity,
-					unitAmount: item.unitAmount,
-					discountPercentage: item.discountPercentage,
-					finalAmount: item.finalAmount,
-					attributes: item.attributes ? JSON.parse(item.attributes) : {},
-					product: {
-						name: item.productName || "Unknown Product",
-						images: item.productImages,
-					},
-					variation: item.variationId
-						? {
-								id: item.variationId,
-								sku: item.variationSku || "",
-							}
-						: undefined,
-				});
+import type * as schema from "~/schema";
+import { orderComments, orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { httpError } from "~/utils/httpError";
+import type { OrderCommentSummary } from "~/utils/orderComments";
+import {
+	getOrderListConditions,
+	getOrderListOrderBy,
+	ORDER_DATE_PATTERN,
+	type OrderListFilters,
+} from "~/utils/orderFilters";
+import { getDashboardOrderItems } from "~/utils/orderItems";
+
+export interface OrderListRequest extends OrderListFilters {
+	sort?: OrderListSort;
+	page?: number; // 1-based
+}
+
+/**
+ * One page of dashboard orders with filters and sorting done in SQL.
+ * Admin only.
+ */
+export const getAllOrders = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: OrderListRequest) => data)
+	.handler(async ({ data }) => {
+		if (data.status && !isOrderStatus(data.status)) {
+			throw httpError(400, "Invalid order status");
+		}
+		if (data.paymentStatus && !isPaymentStatus(data.paymentStatus)) {
+			throw httpError(400, "Invalid payment status");
+		}
+		for (const date of [data.dateFrom, data.dateTo]) {
+			if (date && !ORDER_DATE_PATTERN.test(date)) {
+				throw httpError(400, "Dates must be in YYYY-MM-DD format");
 			}
-
-			// Attach items to orders
-			const ordersWithRelations = ordersResult.map((order) => ({
-				...order,
-				items: itemsByOrderId.get(order.id) || [],
-			}));
-
-			// Group orders by status
-			interface OrderGroup {
-				title: string;
-				orders: typeof ordersWithRelations;
+		}
+		for (const amount of [data.minTotal, data.maxTotal]) {
+			if (amount !== undefined && !Number.isFinite(amount)) {
+				throw httpError(400, "Invalid amount");
 			}
+		}
 
-			const groupedOrders: OrderGroup[] = [];
+		const sort = isOrderListSort(data.sort) ? data.sort : "newest";
+		const page =
+			Number.isInteger(data.page) && (data.page ?? 0) > 0
+				? (data.page as number)
+				: 1;
 
-			// Separate orders by status
-			const newOrders = ordersWithRelations.filter(
-				(order) => order.status === "pending",
-			);
-			const processedOrders = ordersWithRelations.filter(
-				(order) => order.status === "processed",
-			);
+		try {
+			const db = DB();
+			const where = getOrderListConditions(data);
+
+			const [{ total }] = await db
+				.select({ total: count() })
+				.from(orders)
+				.where(where);
+
+			const ordersResult =
+				total > 0
+					? await db
+							.select()
+							.from(orders)
+							.where(where)
+							.orderBy(...getOrderListOrderBy(sort))
+							.limit(ORDERS_PAGE_SIZE)
+							.offset((page - 1) * ORDERS_PAGE_SIZE)
+					: [];
 
-			// Sort by date (newest first) within each group
-			const sortByDate = (
-				a: (typeof ordersWithRelations)[0],
-				b: (typeof ordersWithRelations)[0],
-			) => {
-				return (
-					new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-				);
+			const orderIds = ordersResult.map((o) => o.id);
+			const [itemsByOrderId, commentsByOrderId] = await Promise.all([
+				getDashboardOrderItems(db, orderIds),
+				getOrderCommentSummaries(db, orderIds),
+			]);
+
+			return {
+				orders: ordersResult.map((order) => ({
+					...order,
+					items: itemsByOrderId.get(order.id) || [],
+					comments: commentsByOrderId.get(order.id) ?? null,
+				})),
+				total,
+				page,
+				pageCount: Math.max(1, Math.ceil(total / ORDERS_PAGE_SIZE)),
 			};
-
-			// Add groups with sorted orders
-			if (newOrders.length > 0) {
-				groupedOrders.push({
-					title: "New",
-					orders: newOrders.sort(sortByDate),
-				});
-			}
-
-			if (processedOrders.length > 0) {
-				groupedOrders.push({
-					title: "Processed",
-					orders: processedOrders.sort(sortByDate),
-				});
-			}
-
-			return { groupedOrders };
 		} catch (error) {
 			console.error("Error fetching dashboard orders data:", error);
 			setResponseStatus(500);
 			throw new Error("Failed to fetch dashboard orders data");
 		}
-	},
-);
+	});
+
+/**
+ * Comment count and the latest comment of each order, for the orders list
+ */
+async function getOrderCommentSummaries(
+	db: SqliteRemoteDatabase<typeof schema>,
+	orderIds: number[],
+): Promise<Map<number, OrderCommentSummary>> {
+	const summaries = new Map<number, OrderCommentSummary>();
+	if (orderIds.length === 0) {
+		return summaries;
+	}
+
+	const comments = await db
+		.select({
+			orderId: orderComments.orderId,
+			authorEmail: orderComments.authorEmail,
+			body: orderComments.body,
+			createdAt: orderComments.createdAt,
+		})
+		.from(orderComments)
+		.where(inArray(orderComments.orderId, orderIds))
+		.orderBy(asc(orderComments.createdAt), asc(orderComments.id));
+
+	for (const { orderId, ...comment } of comments) {
+		const summary = summaries.get(orderId);
+		summaries.set(orderId, {
+			count: (summary?.count ?? 0) + 1,
+			latest: comment,
+		});
+	}
+
+	return summaries;
+}
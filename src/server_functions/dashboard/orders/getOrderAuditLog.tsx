@@ -0,0 +1,33 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { desc, eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderAuditLog } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { httpError } from "~/utils/httpError";
+
+/**
+ * Admin changes of an order (edited items, recalculated totals), newest first
+ */
+export const getOrderAuditLog = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { orderId: number }) => data)
+	.handler(async ({ data }) => {
+		if (Number.isNaN(data.orderId)) {
+			throw httpError(400, "Invalid order ID");
+		}
+
+		try {
+			const db = DB();
+
+			return await db
+				.select()
+				.from(orderAuditLog)
+				.where(eq(orderAuditLog.orderId, data.orderId))
+				.orderBy(desc(orderAuditLog.createdAt), desc(orderAuditLog.id));
+		} catch (error) {
+			console.error("Error fetching order audit log:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch order audit log");
+		}
+	});
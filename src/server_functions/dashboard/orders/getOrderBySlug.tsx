@@ -1,31 +1,49 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
 import { DB } from "~/db";
-import { orderItems, orders, products } from "~/schema";
+import { orderItems, orderStatusHistory, orders, products } from "~/schema";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { getOrderLookupCondition } from "~/utils/orderAccess";
+import { getPaymentProvider } from "~/utils/paymentProvider";
 
+/**
+ * Order page lookup by public token (numeric IDs for admins only, see getOrderLookupCondition)
+ */
 export const getOrderBySlug = createServerFn({ method: "GET" })
+	.middleware([authMiddleware])
 	.inputValidator((data: { orderId: string }) => data)
-	.handler(async ({ data }) => {
+	.handler(async ({ data, context }) => {
 		try {
 			const db = DB();
 			const { orderId } = data;
-			const orderIdNum = parseInt(orderId, 10);
 
-			if (Number.isNaN(orderIdNum)) {
-				setResponseStatus(400);
-				throw new Error("Invalid order ID");
+			const orderCondition = getOrderLookupCondition(
+				orderId,
+				context?.user?.email,
+			);
+
+			// Unknown tokens and numeric IDs for non-admins look exactly the same
+			if (!orderCondition) {
+				throw new Error("Order not found");
 			}
 
-			// Fetch order with all related data
-			const [orderResult, itemsResult] = await Promise.all([
-				// Get the order
-				db
-					.select()
-					.from(orders)
-					.where(eq(orders.id, orderIdNum))
-					.limit(1),
+			const orderResult = await db
+				.select()
+				.from(orders)
+				.where(orderCondition)
+				.limit(1);
+
+			if (!orderResult[0]) {
+				// Don't set response status - let TanStack Router handle 404s via notFound()
+				// Setting status here causes Vercel to return platform-level NOT_FOUND error
+				throw new Error("Order not found");
+			}
 
+			const order = orderResult[0];
+
+			// Fetch related data
+			const [itemsResult, historyResult] = await Promise.all([
 				// Get order items with product data
 				db
 					.select({
@@ -35,6 +53,8 @@ export const getOrderBySlug = createServerFn({ method: "GET" })
 						productId: orderItems.productId,
 						productVariationId: orderItems.productVariationId,
 						quantity: orderItems.quantity,
+						saleUnit: orderItems.saleUnit,
+						squareMetersPerPack: orderItems.squareMetersPerPack,
 						unitAmount: orderItems.unitAmount,
 						discountPercentage: orderItems.discountPercentage,
 						finalAmount: orderItems.finalAmount,
@@ -49,26 +69,37 @@ export const getOrderBySlug = createServerFn({ method: "GET" })
 							images: products.images,
 							description: products.description,
 							price: products.price,
+							unitOfMeasurement: products.unitOfMeasurement,
 						},
 					})
 					.from(orderItems)
 					.leftJoin(products, eq(orderItems.productId, products.id))
-					.where(eq(orderItems.orderId, orderIdNum)),
-			]);
+					.where(eq(orderItems.orderId, order.id)),
 
-			if (!orderResult[0]) {
-				// Don't set response status - let TanStack Router handle 404s via notFound()
-				// Setting status here causes Vercel to return platform-level NOT_FOUND error
-				throw new Error("Order not found");
-			}
+				// Get status timeline (without admin identities - this page is public)
+				db
+					.select({
+						id: orderStatusHistory.id,
+						toStatus: orderStatusHistory.toStatus,
+						comment: orderStatusHistory.comment,
+						createdAt: orderStatusHistory.createdAt,
+					})
+					.from(orderStatusHistory)
+					.where(eq(orderStatusHistory.orderId, order.id))
+					.orderBy(
+						asc(orderStatusHistory.createdAt),
+						asc(orderStatusHistory.id),
+					),
+			]);
 
-			const order = orderResult[0];
 			const items = itemsResult.map((item) => ({
 				id: item.id,
 				orderId: item.orderId,
 				productId: item.productId,
 				productVariationId: item.productVariationId,
 				quantity: item.quantity,
+				saleUnit: item.saleUnit,
+				squareMetersPerPack: item.squareMetersPerPack,
 				unitAmount: item.unitAmount,
 				discountPercentage: item.discountPercentage,
 				finalAmount: item.finalAmount,
@@ -80,10 +111,16 @@ export const getOrderBySlug = createServerFn({ method: "GET" })
 			const orderWithRelations = {
 				...order,
 				items,
+				statusHistory: historyResult,
+				onlinePaymentAvailable: getPaymentProvider() !== null,
 			};
 
 			return orderWithRelations;
 		} catch (error) {
+			// Keep the message so the order page can show its not found state
+			if (error instanceof Error && error.message === "Order not found") {
+				throw error;
+			}
 			console.error("Error fetching order:", error);
 			setResponseStatus(500);
 			throw new Error("Failed to fetch order");
@@ -0,0 +1,37 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { asc, eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderComments } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import { buildCommentThreads } from "~/utils/orderComments";
+
+/**
+ * Internal comments of an order as threads, oldest first. Admin only.
+ */
+export const getOrderComments = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { orderId: number }) => data)
+	.handler(async ({ data, context }) => {
+		try {
+			const db = DB();
+
+			if (Number.isNaN(data.orderId)) {
+				throw httpError(400, "Invalid order ID");
+			}
+
+			const comments = await db
+				.select()
+				.from(orderComments)
+				.where(eq(orderComments.orderId, data.orderId))
+				.orderBy(asc(orderComments.createdAt), asc(orderComments.id));
+
+			return buildCommentThreads(comments, context.adminEmail);
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error fetching order comments:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch order comments");
+		}
+	});
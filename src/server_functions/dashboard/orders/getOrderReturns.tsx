@@ -0,0 +1,52 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { asc, eq, inArray } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderReturnItems, orderReturns } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+
+/**
+ * Returns of an order with their lines, oldest first. Admin only.
+ */
+export const getOrderReturns = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { orderId: number }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+
+			if (Number.isNaN(data.orderId)) {
+				throw httpError(400, "Invalid order ID");
+			}
+
+			const returns = await db
+				.select()
+				.from(orderReturns)
+				.where(eq(orderReturns.orderId, data.orderId))
+				.orderBy(asc(orderReturns.createdAt), asc(orderReturns.id));
+
+			const items =
+				returns.length > 0
+					? await db
+							.select()
+							.from(orderReturnItems)
+							.where(
+								inArray(
+									orderReturnItems.returnId,
+									returns.map((orderReturn) => orderReturn.id),
+								),
+							)
+					: [];
+
+			return returns.map((orderReturn) => ({
+				...orderReturn,
+				items: items.filter((item) => item.returnId === orderReturn.id),
+			}));
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error fetching order returns:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch order returns");
+		}
+	});
@@ -0,0 +1,34 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { asc, eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderStatusHistory } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { httpError } from "~/utils/httpError";
+
+/**
+ * Full status history for the dashboard, including who made each change
+ * Public order page gets a reduced version through getOrderBySlug
+ */
+export const getOrderStatusHistory = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { orderId: number }) => data)
+	.handler(async ({ data }) => {
+		if (Number.isNaN(data.orderId)) {
+			throw httpError(400, "Invalid order ID");
+		}
+
+		try {
+			const db = DB();
+
+			return await db
+				.select()
+				.from(orderStatusHistory)
+				.where(eq(orderStatusHistory.orderId, data.orderId))
+				.orderBy(asc(orderStatusHistory.createdAt), asc(orderStatusHistory.id));
+		} catch (error) {
+			console.error("Error fetching order status history:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch order status history");
+		}
+	});
@@ -1,39 +1,98 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq, sql } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import {
+	type ContactMethod,
+	isContactMethod,
+} from "~/constants/contactMethods";
+import type { ShippingMethod } from "~/constants/shippingMethods";
 import { DB } from "~/db";
-import { orderItems, orders } from "~/schema";
-import type { ProductWithVariations } from "~/types";
+import type * as schema from "~/schema";
+import { orderItems, orderStatusHistory, orders } from "~/schema";
+import { sendOrderEmails } from "~/server_functions/sendOrderEmails";
+import type { Order } from "~/types";
+import {
+	applyCoupon,
+	releaseCouponUse,
+	reserveCouponUse,
+} from "~/utils/coupons";
+import {
+	calculateDelivery,
+	type DeliveryBreakdown,
+	type DeliveryRequest,
+	needsDeliveryReview,
+	parseDeliveryBreakdown,
+} from "~/utils/deliveryPricing";
+import { normalizeSearchText } from "~/utils/orderFilters";
+import { getDashboardOrderItems } from "~/utils/orderItems";
+import {
+	type OrderLineInput,
+	type PricedOrderLine,
+	priceOrderLines,
+} from "~/utils/orderPricing";
+import { generateOrderToken } from "~/utils/orderToken";
+import { normalizePhone } from "~/utils/phone";
+import { getPickupLocationsForProducts } from "~/utils/pickupLocations";
+import { parseImages } from "~/utils/productParsing";
+import {
+	type CheckoutFormGuard,
+	checkoutFormMiddleware,
+	createRateLimitMiddleware,
+} from "~/utils/rateLimitMiddleware";
 
 // TypeScript interfaces
-interface CartItem {
-	productId: number;
-	productName: string;
-	productSlug: string;
-	variationId?: number;
-	quantity: number;
-	addedAt: number; // From minimal CartItem
-	price: number;
-	discount?: number | null;
-	image?: string;
-	attributes?: Record<string, string>;
-}
+// Only identifiers and quantities are trusted from the client,
+// everything else is loaded from the database (see priceOrderLines)
+type CartItem = OrderLineInput;
 
 interface CustomerInfo {
+	fullName: string;
+	phone: string;
+	email: string;
+	contactMethod?: ContactMethod;
+	notifyStatusChanges?: boolean;
 	notes?: string;
-	shippingMethod?: string;
 }
 
 interface OrderCreationRequest {
 	customerInfo: CustomerInfo;
 	cartItems: CartItem[];
-	products: ProductWithVariations[];
+	fulfillment: OrderFulfillmentInput;
+	couponCode?: string;
+	// Checked by checkoutFormMiddleware, its nonce is the idempotency key
+	// (see createOrderInternal)
+	formGuard: CheckoutFormGuard;
+}
+
+type OrderFulfillmentInput =
+	| ({ method: "delivery"; address?: string } & DeliveryRequest)
+	| { method: "pickup"; storeLocationId: number };
+
+// How the order reaches the customer, validated and priced on the server
+interface OrderFulfillment {
+	shippingMethod: ShippingMethod;
+	shippingAmount: number;
+	shippingBreakdown: DeliveryBreakdown | null;
+	deliveryAddress: string | null;
+	pickupLocationId: number | null;
 }
 
 export const createOrder = createServerFn({ method: "POST" })
+	.middleware([
+		createRateLimitMiddleware({
+			action: "create_order",
+			ipLimit: { limit: 10, windowMs: 10 * 60 * 1000 },
+			phoneLimit: { limit: 5, windowMs: 60 * 60 * 1000 },
+			getPhone: (data) =>
+				(data as OrderCreationRequest | undefined)?.customerInfo?.phone,
+		}),
+		checkoutFormMiddleware,
+	])
 	.inputValidator((data: OrderCreationRequest) => data)
-	.handler(async ({ data }) => {
+	.handler(async ({ data, context }) => {
 		try {
-			const { customerInfo, cartItems, products } = data;
+			const { customerInfo, cartItems, fulfillment, couponCode } = data;
 
 			// Validate required fields
 			if (!cartItems || cartItems.length === 0) {
@@ -41,37 +100,80 @@ export const createOrder = createServerFn({ method: "POST" })
 				throw new Error("Cart is empty");
 			}
 
-			if (!products || products.length === 0) {
+			if (!customerInfo?.fullName?.trim()) {
+				setResponseStatus(400);
+				throw new Error("Customer name is required");
+			}
+
+			if (!normalizePhone(customerInfo.phone)) {
+				setResponseStatus(400);
+				throw new Error("Invalid phone number");
+			}
+
+			if (customerInfo.email && !customerInfo.email.includes("@")) {
 				setResponseStatus(400);
-				throw new Error("Product data is required");
+				throw new Error("Invalid email address");
 			}
 
+			const resolvedFulfillment = await resolveFulfillment(
+				fulfillment,
+				cartItems,
+			);
+
 			// Create the order using the existing createOrder function
-			const { order } = await createOrderInternal(
+			const result = await createOrderInternal(
 				customerInfo,
 				cartItems,
-				products,
+				resolvedFulfillment,
+				couponCode,
+				context.checkoutFormNonce,
 			);
 
-			// Small delay to ensure database transaction is fully committed
-			await new Promise((resolve) => setTimeout(resolve, 2000));
+			if ("itemErrors" in result) {
+				return {
+					success: false as const,
+					message: "Some items in your cart can't be ordered",
+					itemErrors: result.itemErrors,
+				};
+			}
+
+			const {
+				order,
+				publicToken,
+				orderAmounts,
+				shippingAmount,
+				shippingBreakdown,
+				totalAmount,
+				items,
+				coupon,
+				replayed,
+			} = result;
+
+			// The first request already sent the emails
+			const { emailWarnings } = replayed
+				? { emailWarnings: undefined }
+				: await sendOrderEmails(order);
 
 			return {
-				success: true,
+				success: true as const,
 				message: "Order created successfully",
 				orderId: order.id,
+				publicToken,
+				orderAmounts,
+				shippingAmount,
+				shippingBreakdown,
+				totalAmount,
+				items,
+				coupon,
+				replayed,
+				emailWarnings,
 			};
 		} catch (error) {
 			console.error("Order creation error:", error);
 
 			let errorMessage = "Unknown error occurred";
 			if (error instanceof Error) {
-				if (error.message.includes("Variation not found")) {
-					errorMessage =
-						"Some items in your cart are no longer available with the selected options. Please refresh the page and update your cart.";
-				} else if (
-					error.message.includes("Email service configuration error")
-				) {
+				if (error.message.includes("Email service configuration error")) {
 					errorMessage =
 						"Order was created but email notifications failed. Our team will contact you shortly.";
 				} else {
@@ -84,85 +186,119 @@ export const createOrder = createServerFn({ method: "POST" })
 		}
 	});
 
-// Internal order creation function (renamed from createOrder)
-async function createOrderInternal(
-	customerInfo: CustomerInfo,
+/**
+ * Validate the chosen delivery or pickup option.
+ * Delivery price is always recalculated here, the checkout estimate is only a preview.
+ */
+async function resolveFulfillment(
+	fulfillment: OrderFulfillmentInput | undefined,
 	cartItems: CartItem[],
-	products: ProductWithVariations[],
-) {
-	const db = DB();
-	// Create a map for O(1) lookups
-	const productMap = new Map(products.map((p) => [p.id, p]));
-
-	// Validate all items in one pass
-	const orderAmounts = cartItems.reduce(
-		(acc, item) => {
-			// 1. Validate product exists
-			const product = productMap.get(item.productId);
-			if (!product) {
-				throw new Error(`Product not found: ${item.productName}`);
-			}
-
-			// 1.5. Validate product is active
-			if (!product.isActive) {
-				throw new Error(`Product is no longer available: ${item.productName}`);
-			}
+): Promise<OrderFulfillment> {
+	if (fulfillment?.method === "pickup") {
+		const pickupLocations = await getPickupLocationsForProducts(
+			DB(),
+			cartItems.map((item) => item.productId),
+		);
+		const location = pickupLocations.find(
+			(loc) => loc.id === fulfillment.storeLocationId,
+		);
+		if (!location) {
+			setResponseStatus(400);
+			throw new Error(
+				"Самовывоз из выбранного магазина недоступен для товаров в корзине",
+			);
+		}
 
-			// 2. Validate variation and price
-			if (product.hasVariations && !item.variationId) {
-				throw new Error(`Variation required for product: ${item.productName}`);
-			}
+		return {
+			shippingMethod: "pickup",
+			shippingAmount: 0,
+			shippingBreakdown: null,
+			deliveryAddress: null,
+			pickupLocationId: location.id,
+		};
+	}
 
-			if (!product.hasVariations && item.variationId) {
-				throw new Error(
-					`Product does not support variations: ${item.productName}`,
-				);
-			}
+	if (fulfillment?.method !== "delivery") {
+		setResponseStatus(400);
+		throw new Error("Выберите способ получения заказа");
+	}
 
-			// If variation is required, validate it exists
-			if (item.variationId) {
-				const variation = product.variations?.find(
-					(v) => v.id === item.variationId,
-				);
-				if (!variation) {
-					throw new Error(
-						`Variation not found for product: ${item.productName}`,
-					);
-				}
-			}
+	const deliveryResult = calculateDelivery(fulfillment);
+	if (!deliveryResult.success) {
+		setResponseStatus(400);
+		throw new Error(deliveryResult.error);
+	}
 
-			// 3. Validate price
-			const expectedPrice =
-				product.hasVariations && item.variationId
-					? product.variations?.find((v) => v.id === item.variationId)?.price
-					: product.price;
+	const address = fulfillment.address?.trim();
+	if (!address) {
+		setResponseStatus(400);
+		throw new Error("Укажите адрес доставки");
+	}
 
-			if (expectedPrice !== item.price) {
-				throw new Error(
-					`Price mismatch for ${item.productName}: Expected ${expectedPrice}, got ${item.price}`,
-				);
-			}
+	return {
+		shippingMethod: "delivery",
+		shippingAmount: deliveryResult.breakdown.totalAmount,
+		shippingBreakdown: deliveryResult.breakdown,
+		deliveryAddress: address,
+		pickupLocationId: null,
+	};
+}
 
-			// 4. Calculate amounts
-			if (item.price < 0 || item.quantity <= 0) {
-				throw new Error(`Invalid price or quantity for ${item.productName}`);
-			}
+/**
+ * Internal order creation function (renamed from createOrder)
+ *
+ * The order, its items and the first status history entry are written in one
+ * batch, so a failed request never leaves a half-created order. A repeated
+ * request with the same idempotency key (double click, network retry, a bot
+ * replaying the checkout form token) returns the order created by the first
+ * one instead of a duplicate.
+ */
+async function createOrderInternal(
+	customerInfo: CustomerInfo,
+	cartItems: CartItem[],
+	fulfillment: OrderFulfillment,
+	couponCode?: string,
+	idempotencyKey?: string,
+) {
+	const db = DB();
 
-			const itemSubtotal = item.price * item.quantity;
-			const itemDiscount =
-				item.discount && item.discount > 0 && item.discount <= 100
-					? itemSubtotal * (item.discount / 100)
-					: 0;
+	if (idempotencyKey) {
+		const existingOrder = await findOrderByIdempotencyKey(db, idempotencyKey);
+		if (existingOrder) {
+			return getCreatedOrderResult(db, existingOrder);
+		}
+	}
 
-			return {
-				subtotalAmount: acc.subtotalAmount + itemSubtotal,
-				discountAmount: acc.discountAmount + itemDiscount,
-			};
-		},
-		{ subtotalAmount: 0, discountAmount: 0 },
+	// Load products/variations by ID and price every line on the server
+	const priced = await priceOrderLines(
+		db,
+		cartItems.map((item) => ({
+			productId: item.productId,
+			variationId: item.variationId ?? null,
+			quantity: item.quantity,
+		})),
 	);
 
-	const shippingAmount = 0; // Will be determined later
+	if (priced.errors.length > 0) {
+		return { itemErrors: priced.errors };
+	}
+
+	// Promo code discount is added on top of product discounts
+	const appliedCoupon = couponCode?.trim()
+		? await applyCoupon(db, couponCode, priced.items)
+		: null;
+	if (appliedCoupon && !appliedCoupon.success) {
+		setResponseStatus(400);
+		throw new Error(appliedCoupon.message);
+	}
+	const couponDiscountAmount = appliedCoupon?.discountAmount ?? 0;
+
+	const orderAmounts = {
+		subtotalAmount: priced.subtotalAmount,
+		discountAmount: priced.discountAmount + couponDiscountAmount,
+	};
+
+	const { shippingAmount } = fulfillment;
 	const totalAmount =
 		orderAmounts.subtotalAmount - orderAmounts.discountAmount + shippingAmount;
 
@@ -170,46 +306,179 @@ async function createOrderInternal(
 		throw new Error(`Invalid total amount: ${totalAmount}`);
 	}
 
+	if (appliedCoupon && !(await reserveCouponUse(db, appliedCoupon.coupon.id))) {
+		setResponseStatus(400);
+		throw new Error("Промокод уже использован максимальное количество раз");
+	}
+
 	const now = new Date();
+	const publicToken = generateOrderToken();
+	// Items and history are linked to the new order inside the same batch
+	const orderIdByToken = sql<number>`(select ${orders.id} from ${orders} where ${orders.publicToken} = ${publicToken})`;
 
-	// Create order
-	const [order] = await db
-		.insert(orders)
-		.values({
-			subtotalAmount: orderAmounts.subtotalAmount,
-			discountAmount: orderAmounts.discountAmount,
-			shippingAmount,
-			totalAmount,
-			currency: "р",
-			paymentStatus: "pending",
-			paymentMethod: null,
-			shippingMethod: customerInfo.shippingMethod ?? null,
-			notes: customerInfo.notes ?? null,
-			createdAt: now,
-			completedAt: null,
-		})
-		.returning();
-
-	// Create order items
-	await db.insert(orderItems).values(
-		cartItems.map((item) => ({
-			orderId: order.id,
-			productId: item.productId,
-			productVariationId: item.variationId ?? null,
-			quantity: item.quantity,
-			unitAmount: item.price,
-			discountPercentage: item.discount ?? null,
-			finalAmount: item.discount
-				? item.price * (1 - item.discount / 100) * item.quantity
-				: item.price * item.quantity,
-			attributes: JSON.stringify(
-				item.attributes && typeof item.attributes === "object"
-					? item.attributes
-					: {},
+	let order: Order;
+	try {
+		const [insertedOrders] = await db.batch([
+			db
+				.insert(orders)
+				.values({
+					publicToken,
+					idempotencyKey: idempotencyKey ?? null,
+					subtotalAmount: orderAmounts.subtotalAmount,
+					discountAmount: orderAmounts.discountAmount,
+					shippingAmount,
+					totalAmount,
+					currency: "р",
+					paymentStatus: "pending",
+					paymentMethod: null,
+					shippingMethod: fulfillment.shippingMethod,
+					shippingBreakdown: fulfillment.shippingBreakdown
+						? JSON.stringify(fulfillment.shippingBreakdown)
+						: null,
+					deliveryAddress: fulfillment.deliveryAddress,
+					deliveryNeedsReview: needsDeliveryReview(
+						fulfillment.shippingBreakdown,
+					),
+					pickupLocationId: fulfillment.pickupLocationId,
+					couponId: appliedCoupon?.coupon.id ?? null,
+					couponCode: appliedCoupon?.coupon.code ?? null,
+					couponDiscountAmount,
+					notes: customerInfo.notes ?? null,
+					customerName: customerInfo.fullName.trim(),
+					customerNameSearch: normalizeSearchText(customerInfo.fullName.trim()),
+					customerPhone: normalizePhone(customerInfo.phone),
+					customerEmail: customerInfo.email?.trim().toLowerCase() || null,
+					contactMethod: isContactMethod(customerInfo.contactMethod)
+						? customerInfo.contactMethod
+						: null,
+					notifyStatusChanges: customerInfo.notifyStatusChanges ?? true,
+					createdAt: now,
+					completedAt: null,
+				})
+				.returning(),
+			db.insert(orderItems).values(
+				priced.items.map((item) => ({
+					orderId: orderIdByToken,
+					productId: item.productId,
+					productVariationId: item.variationId,
+					quantity: item.quantity,
+					saleUnit: item.saleUnit,
+					squareMetersPerPack: item.squareMetersPerPack,
+					unitAmount: item.unitAmount,
+					discountPercentage: item.discountPercentage,
+					finalAmount: item.finalAmount,
+					attributes: JSON.stringify(item.attributes),
+					createdAt: now,
+				})),
 			),
-			createdAt: now,
-		})),
+			// Initial entry of the status timeline
+			db
+				.insert(orderStatusHistory)
+				.values({
+					orderId: orderIdByToken,
+					fromStatus: null,
+					toStatus: "pending",
+					changedBy: null,
+					comment: null,
+					createdAt: now,
+				}),
+		]);
+		order = insertedOrders[0];
+	} catch (error) {
+		if (appliedCoupon) {
+			await releaseCouponUse(db, appliedCoupon.coupon.id);
+		}
+
+		// A concurrent request with the same key won the unique constraint
+		const existingOrder = idempotencyKey
+			? await findOrderByIdempotencyKey(db, idempotencyKey)
+			: undefined;
+		if (existingOrder) {
+			return getCreatedOrderResult(db, existingOrder);
+		}
+		throw error;
+	}
+
+	return {
+		order,
+		publicToken,
+		orderAmounts,
+		shippingAmount,
+		shippingBreakdown: fulfillment.shippingBreakdown,
+		totalAmount,
+		items: priced.items,
+		coupon: appliedCoupon
+			? {
+					code: appliedCoupon.coupon.code,
+					discountAmount: couponDiscountAmount,
+				}
+			: null,
+		replayed: false,
+	};
+}
+
+async function findOrderByIdempotencyKey(
+	db: SqliteRemoteDatabase<typeof schema>,
+	idempotencyKey: string,
+): Promise<Order | undefined> {
+	const [order] = await db
+		.select()
+		.from(orders)
+		.where(eq(orders.idempotencyKey, idempotencyKey))
+		.limit(1);
+	return order;
+}
+
+/**
+ * Same response as for a new order, rebuilt from what was saved.
+ * replayed tells createOrder not to send the confirmation emails again.
+ */
+async function getCreatedOrderResult(
+	db: SqliteRemoteDatabase<typeof schema>,
+	order: Order,
+) {
+	const itemsByOrderId = await getDashboardOrderItems(db, [order.id]);
+	const items: PricedOrderLine[] = (itemsByOrderId.get(order.id) ?? []).map(
+		(item) => {
+			const subtotalAmount = item.unitAmount * item.quantity;
+			return {
+				productId: item.productId,
+				variationId: item.variation?.id ?? null,
+				quantity: item.quantity,
+				saleUnit: item.saleUnit,
+				squareMetersPerPack: item.squareMetersPerPack,
+				unitOfMeasurement: item.product.unitOfMeasurement,
+				productName: item.product.name,
+				productSlug: item.product.slug ?? "",
+				sku: item.variation?.sku ?? null,
+				image: parseImages(item.product.images)[0] ?? null,
+				unitAmount: item.unitAmount,
+				discountPercentage: item.discountPercentage,
+				subtotalAmount,
+				discountAmount: subtotalAmount - item.finalAmount,
+				finalAmount: item.finalAmount,
+				attributes: item.attributes,
+			};
+		},
 	);
 
-	return { order, orderAmounts, totalAmount };
+	return {
+		order,
+		publicToken: order.publicToken ?? "",
+		orderAmounts: {
+			subtotalAmount: order.subtotalAmount,
+			discountAmount: order.discountAmount,
+		},
+		shippingAmount: order.shippingAmount,
+		shippingBreakdown: parseDeliveryBreakdown(order.shippingBreakdown),
+		totalAmount: order.totalAmount,
+		items,
+		coupon: order.couponCode
+			? {
+					code: order.couponCode,
+					discountAmount: order.couponDiscountAmount,
+				}
+			: null,
+		replayed: true,
+	};
 }
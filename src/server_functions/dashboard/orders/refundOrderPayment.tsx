@@ -0,0 +1,84 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import { applyPaymentStatus } from "~/utils/orderPayments";
+import { getRefundableAmount } from "~/utils/orderReturns";
+import { getPaymentProviderByName } from "~/utils/paymentProvider";
+
+/**
+ * Refund a paid order through the provider that took the payment:
+ * whatever is left after the returns already refunded
+ */
+export const refundOrderPayment = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { orderId: number }) => data)
+	.handler(async ({ data, context }) => {
+		try {
+			const db = DB();
+			const [order] = await db
+				.select()
+				.from(orders)
+				.where(eq(orders.id, data.orderId))
+				.limit(1);
+
+			if (!order) {
+				throw httpError(404, "Order not found");
+			}
+
+			if (order.paymentStatus !== "paid" || !order.paymentId) {
+				throw httpError(409, "Заказ не оплачен онлайн");
+			}
+
+			const remainingAmount = getRefundableAmount(order);
+			if (remainingAmount <= 0) {
+				throw httpError(409, "Оплата по заказу уже полностью возвращена");
+			}
+
+			const provider = getPaymentProviderByName(order.paymentMethod);
+			if (!provider) {
+				throw httpError(
+					409,
+					`Unknown payment provider: ${order.paymentMethod}`,
+				);
+			}
+
+			const refund = await provider.refund({
+				paymentId: order.paymentId,
+				amount: remainingAmount,
+			});
+			if (refund.error) {
+				throw httpError(502, `Не удалось вернуть платёж: ${refund.error}`);
+			}
+
+			await db
+				.update(orders)
+				.set({ refundedAmount: order.totalAmount })
+				.where(eq(orders.id, order.id));
+
+			// The provider may also confirm the refund by webhook, that one is ignored
+			const result = await applyPaymentStatus(
+				db,
+				order,
+				"refunded",
+				context.adminEmail,
+			);
+
+			return {
+				paymentStatus: result.updated
+					? result.order.paymentStatus
+					: order.paymentStatus,
+				refundedAmount: order.totalAmount,
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error refunding order payment:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to refund payment",
+			);
+		}
+	});
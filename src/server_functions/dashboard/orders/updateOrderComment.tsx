@@ -0,0 +1,57 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orderComments } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import { validateCommentBody } from "~/utils/orderComments";
+
+/**
+ * Edit an internal order comment. Only its author can do it,
+ * updatedAt marks the comment as edited.
+ */
+export const updateOrderComment = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { id: number; body: string }) => data)
+	.handler(async ({ data, context }) => {
+		const validation = validateCommentBody(data.body);
+		if (!validation.success) {
+			throw httpError(400, validation.error);
+		}
+
+		try {
+			const db = DB();
+
+			const [existing] = await db
+				.select()
+				.from(orderComments)
+				.where(eq(orderComments.id, data.id))
+				.limit(1);
+
+			if (!existing) {
+				throw httpError(404, "Comment not found");
+			}
+			if (existing.authorEmail !== context.adminEmail) {
+				throw httpError(403, "Можно изменять только свои комментарии");
+			}
+			if (existing.body === validation.body) {
+				return { comment: existing };
+			}
+
+			const [comment] = await db
+				.update(orderComments)
+				.set({ body: validation.body, updatedAt: new Date() })
+				.where(eq(orderComments.id, existing.id))
+				.returning();
+
+			return { comment };
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error updating order comment:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to update comment",
+			);
+		}
+	});
@@ -0,0 +1,328 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { isOrderEditable } from "~/constants/orderStatuses";
+import { DB } from "~/db";
+import {
+	orderAuditLog,
+	orderItems,
+	orders,
+	products,
+	productVariations,
+} from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import {
+	calculateLineAmounts,
+	calculateOrderAmounts,
+	canEditOrderItems,
+	type OrderItemChange,
+	type OrderItemEditInput,
+	type OrderItemsAuditChanges,
+} from "~/utils/orderEditing";
+import { getDashboardOrderItems } from "~/utils/orderItems";
+import { priceOrderLines } from "~/utils/orderPricing";
+import { isValidSaleQuantity } from "~/utils/units";
+
+/**
+ * Replace the items of an order with the list edited in the dashboard
+ * and recalculate its totals. See ~/utils/orderEditing for the rules.
+ */
+export const updateOrderItems = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: {
+			orderId: number;
+			items: OrderItemEditInput[];
+			comment?: string;
+		}) => data,
+	)
+	.handler(async ({ data, context }) => {
+		try {
+			const db = DB();
+			const { orderId } = data;
+
+			if (Number.isNaN(orderId)) {
+				throw httpError(400, "Invalid order ID");
+			}
+
+			if (!data.items || data.items.length === 0) {
+				throw httpError(400, "В заказе должен остаться хотя бы один товар");
+			}
+
+			const [order] = await db
+				.select()
+				.from(orders)
+				.where(eq(orders.id, orderId))
+				.limit(1);
+
+			if (!order) {
+				throw httpError(404, "Order not found");
+			}
+
+			if (!isOrderEditable(order.status)) {
+				throw httpError(409, "Состав заказа нельзя изменить в текущем статусе");
+			}
+
+			if (!canEditOrderItems(order)) {
+				throw httpError(
+					409,
+					"Заказ уже оплачен: оформите возврат, прежде чем менять состав",
+				);
+			}
+
+			const existingItems = await db
+				.select({
+					id: orderItems.id,
+					productId: orderItems.productId,
+					productVariationId: orderItems.productVariationId,
+					quantity: orderItems.quantity,
+					squareMetersPerPack: orderItems.squareMetersPerPack,
+					unitAmount: orderItems.unitAmount,
+					discountPercentage: orderItems.discountPercentage,
+					productName: products.name,
+					productSku: products.sku,
+					unitOfMeasurement: products.unitOfMeasurement,
+					variationSku: productVariations.sku,
+				})
+				.from(orderItems)
+				.leftJoin(products, eq(orderItems.productId, products.id))
+				.leftJoin(
+					productVariations,
+					eq(orderItems.productVariationId, productVariations.id),
+				)
+				.where(eq(orderItems.orderId, orderId));
+
+			const existingById = new Map(
+				existingItems.map((item) => [item.id, item]),
+			);
+			const keptIds = new Set<number>();
+
+			// Lines that need catalogue prices: new ones and substituted variations
+			const linesToPrice: OrderItemEditInput[] = [];
+			const keptLines: Array<{
+				current: (typeof existingItems)[number];
+				quantity: number;
+			}> = [];
+
+			for (const line of data.items) {
+				if (!Number.isFinite(line.quantity) || line.quantity <= 0) {
+					throw httpError(400, "Некорректное количество");
+				}
+
+				if (line.id === undefined) {
+					linesToPrice.push(line);
+					continue;
+				}
+
+				const current = existingById.get(line.id);
+				if (!current || keptIds.has(line.id)) {
+					throw httpError(400, "Invalid order item");
+				}
+				if (current.productId !== line.productId) {
+					throw httpError(
+						400,
+						"Product of an existing order item can't be changed",
+					);
+				}
+				keptIds.add(line.id);
+
+				if ((line.variationId ?? null) !== current.productVariationId) {
+					linesToPrice.push(line);
+				} else {
+					// Priced lines are checked against the step by priceOrderLines
+					if (!isValidSaleQuantity(line.quantity, current)) {
+						throw httpError(400, "Некорректное количество");
+					}
+					keptLines.push({ current, quantity: line.quantity });
+				}
+			}
+
+			const priced = await priceOrderLines(db, linesToPrice);
+			if (priced.errors.length > 0) {
+				throw httpError(
+					400,
+					priced.errors.map((error) => error.message).join("; "),
+				);
+			}
+
+			// Describe the edit for the audit trail
+			const changes: OrderItemChange[] = [];
+			const getSku = (item: (typeof existingItems)[number]) =>
+				item.variationSku ?? item.productSku ?? null;
+			const getName = (item: (typeof existingItems)[number]) =>
+				item.productName ?? "Товар удалён";
+
+			for (const item of existingItems) {
+				if (!keptIds.has(item.id)) {
+					changes.push({
+						type: "removed",
+						productName: getName(item),
+						sku: getSku(item),
+						quantity: item.quantity,
+					});
+				}
+			}
+
+			for (const { current, quantity } of keptLines) {
+				if (current.quantity !== quantity) {
+					changes.push({
+						type: "quantity",
+						productName: getName(current),
+						sku: getSku(current),
+						from: current.quantity,
+						to: quantity,
+					});
+				}
+			}
+
+			priced.items.forEach((pricedLine, index) => {
+				const line = linesToPrice[index];
+				const current =
+					line.id !== undefined ? existingById.get(line.id) : undefined;
+				if (!current) {
+					changes.push({
+						type: "added",
+						productName: pricedLine.productName,
+						sku: pricedLine.sku,
+						quantity: pricedLine.quantity,
+					});
+					return;
+				}
+				changes.push({
+					type: "variation",
+					productName: pricedLine.productName,
+					fromSku: getSku(current),
+					toSku: pricedLine.sku,
+				});
+				if (current.quantity !== pricedLine.quantity) {
+					changes.push({
+						type: "quantity",
+						productName: pricedLine.productName,
+						sku: pricedLine.sku,
+						from: current.quantity,
+						to: pricedLine.quantity,
+					});
+				}
+			});
+
+			if (changes.length === 0) {
+				throw httpError(400, "Нет изменений");
+			}
+
+			const before = {
+				subtotalAmount: order.subtotalAmount,
+				discountAmount: order.discountAmount,
+				totalAmount: order.totalAmount,
+			};
+			const after = calculateOrderAmounts(
+				[
+					...keptLines.map(({ current, quantity }) => ({
+						unitAmount: current.unitAmount,
+						discountPercentage: current.discountPercentage,
+						quantity,
+					})),
+					...priced.items,
+				],
+				order.shippingAmount,
+				order.couponDiscountAmount,
+			);
+
+			if (after.totalAmount < 0) {
+				throw new Error(`Invalid total amount: ${after.totalAmount}`);
+			}
+
+			const now = new Date();
+
+			const removedIds = existingItems
+				.filter((item) => !keptIds.has(item.id))
+				.map((item) => item.id);
+
+			// Items, totals and the audit entry are saved together or not at all
+			const itemStatements: BatchItem<"sqlite">[] = [];
+			if (removedIds.length > 0) {
+				itemStatements.push(
+					db.delete(orderItems).where(inArray(orderItems.id, removedIds)),
+				);
+			}
+
+			for (const { current, quantity } of keptLines) {
+				if (current.quantity === quantity) continue;
+				itemStatements.push(
+					db
+						.update(orderItems)
+						.set({
+							quantity,
+							finalAmount: calculateLineAmounts({
+								unitAmount: current.unitAmount,
+								discountPercentage: current.discountPercentage,
+								quantity,
+							}).finalAmount,
+						})
+						.where(eq(orderItems.id, current.id)),
+				);
+			}
+
+			for (const [index, pricedLine] of priced.items.entries()) {
+				const line = linesToPrice[index];
+				const values = {
+					productVariationId: pricedLine.variationId,
+					quantity: pricedLine.quantity,
+					saleUnit: pricedLine.saleUnit,
+					squareMetersPerPack: pricedLine.squareMetersPerPack,
+					unitAmount: pricedLine.unitAmount,
+					discountPercentage: pricedLine.discountPercentage,
+					finalAmount: pricedLine.finalAmount,
+					attributes: JSON.stringify(pricedLine.attributes),
+				};
+
+				itemStatements.push(
+					line.id !== undefined
+						? db
+								.update(orderItems)
+								.set(values)
+								.where(eq(orderItems.id, line.id))
+						: db.insert(orderItems).values({
+								...values,
+								orderId,
+								productId: pricedLine.productId,
+								createdAt: now,
+							}),
+				);
+			}
+
+			const auditChanges: OrderItemsAuditChanges = {
+				items: changes,
+				before,
+				after,
+			};
+
+			const [[updatedOrder]] = await db.batch([
+				db.update(orders).set(after).where(eq(orders.id, orderId)).returning(),
+				...itemStatements,
+				db.insert(orderAuditLog).values({
+					orderId,
+					action: "items_updated",
+					changedBy: context.adminEmail,
+					changes: JSON.stringify(auditChanges),
+					comment: data.comment?.trim() || null,
+					createdAt: now,
+				}),
+			]);
+
+			const itemsByOrderId = await getDashboardOrderItems(db, [orderId]);
+
+			return {
+				order: updatedOrder,
+				items: itemsByOrderId.get(orderId) ?? [],
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error updating order items:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to update order items",
+			);
+		}
+	});
@@ -0,0 +1,48 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orders } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+
+/**
+ * Turn status change emails on or off for a single order
+ * (e.g. when the customer replies asking to stop notifications)
+ */
+export const updateOrderNotifications = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator((data: { id: number; notifyStatusChanges: boolean }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+
+			if (Number.isNaN(data.id)) {
+				throw httpError(400, "Invalid order ID");
+			}
+
+			const [updatedOrder] = await db
+				.update(orders)
+				.set({ notifyStatusChanges: data.notifyStatusChanges })
+				.where(eq(orders.id, data.id))
+				.returning();
+
+			if (!updatedOrder) {
+				throw httpError(404, "Order not found");
+			}
+
+			return {
+				success: true,
+				notifyStatusChanges: updatedOrder.notifyStatusChanges,
+			};
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error updating order notifications:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error
+					? error.message
+					: "Failed to update order notifications",
+			);
+		}
+	});
@@ -0,0 +1,161 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, eq, sql } from "drizzle-orm";
+import {
+	canTransitionReturnStatus,
+	getReturnStatusName,
+	isReturnStatus,
+} from "~/constants/returnStatuses";
+import { DB } from "~/db";
+import { orderReturns, orders } from "~/schema";
+import type { Order } from "~/types";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { HttpError, httpError } from "~/utils/httpError";
+import { applyPaymentStatus } from "~/utils/orderPayments";
+import { getRefundableAmount } from "~/utils/orderReturns";
+import { getPaymentProviderByName } from "~/utils/paymentProvider";
+
+/**
+ * Send the refund of a return to the provider when the order was paid online.
+ * Returns the error to show, null when it worked or there was nothing to send.
+ * Orders paid in cash or by invoice are refunded by the manager.
+ */
+async function refundReturnPayment(
+	order: Order,
+	amount: number,
+): Promise<string | null> {
+	if (amount > getRefundableAmount(order)) {
+		return "сумма больше невозвращённой части заказа";
+	}
+
+	if (order.paymentStatus !== "paid" || !order.paymentId) return null;
+
+	const provider = getPaymentProviderByName(order.paymentMethod);
+	if (!provider) {
+		return `неизвестный платёжный провайдер ${order.paymentMethod}`;
+	}
+
+	const refund = await provider.refund({ paymentId: order.paymentId, amount });
+	return refund.error ?? null;
+}
+
+/**
+ * Move a return to the next status. When the money is refunded, it goes
+ * back through the payment provider and is added to the order's refundedAmount.
+ */
+export const updateOrderReturnStatus = createServerFn({ method: "POST" })
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: { id: number; status: string; restockingNotes?: string }) => data,
+	)
+	.handler(async ({ data, context }) => {
+		if (!isReturnStatus(data.status)) {
+			throw httpError(400, "Invalid return status");
+		}
+
+		try {
+			const db = DB();
+
+			const [existing] = await db
+				.select()
+				.from(orderReturns)
+				.where(eq(orderReturns.id, data.id))
+				.limit(1);
+
+			if (!existing) {
+				throw httpError(404, "Return not found");
+			}
+
+			if (!canTransitionReturnStatus(existing.status, data.status)) {
+				throw httpError(
+					409,
+					`Нельзя перевести возврат из статуса «${getReturnStatusName(existing.status)}» в «${getReturnStatusName(data.status)}»`,
+				);
+			}
+
+			const now = new Date();
+			const restockingNotes =
+				data.restockingNotes !== undefined
+					? data.restockingNotes.trim() || null
+					: existing.restockingNotes;
+
+			// Conditional on the current status, so a double click can't refund twice
+			const [orderReturn] = await db
+				.update(orderReturns)
+				.set({
+					status: data.status,
+					restockingNotes,
+					updatedAt: now,
+					refundedAt: data.status === "refunded" ? now : existing.refundedAt,
+				})
+				.where(
+					and(
+						eq(orderReturns.id, existing.id),
+						eq(orderReturns.status, existing.status),
+					),
+				)
+				.returning();
+
+			if (!orderReturn) {
+				throw httpError(409, "Возврат уже изменён, обновите страницу");
+			}
+
+			let refundedAmount: number | null = null;
+			if (orderReturn.status === "refunded") {
+				const [order] = await db
+					.select()
+					.from(orders)
+					.where(eq(orders.id, orderReturn.orderId))
+					.limit(1);
+
+				const refundError = order
+					? await refundReturnPayment(order, orderReturn.refundAmount)
+					: "Order not found";
+				if (refundError) {
+					// The return goes back to its status so the refund can be retried
+					await db
+						.update(orderReturns)
+						.set({
+							status: existing.status,
+							updatedAt: existing.updatedAt,
+							refundedAt: existing.refundedAt,
+						})
+						.where(eq(orderReturns.id, existing.id));
+					throw httpError(502, `Не удалось вернуть деньги: ${refundError}`);
+				}
+
+				const [updatedOrder] = await db
+					.update(orders)
+					.set({
+						refundedAmount: sql`${orders.refundedAmount} + ${orderReturn.refundAmount}`,
+					})
+					.where(eq(orders.id, orderReturn.orderId))
+					.returning();
+				refundedAmount = updatedOrder?.refundedAmount ?? null;
+
+				// Everything paid online is back with the customer
+				if (
+					updatedOrder?.paymentStatus === "paid" &&
+					getRefundableAmount(updatedOrder) === 0
+				) {
+					await applyPaymentStatus(
+						db,
+						updatedOrder,
+						"refunded",
+						context.adminEmail,
+					);
+				}
+			}
+
+			return { orderReturn, refundedAmount };
+		} catch (error) {
+			if (error instanceof HttpError) throw error;
+			console.error("Error updating order return status:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error
+					? error.message
+					: "Failed to update return status",
+			);
+		}
+	});
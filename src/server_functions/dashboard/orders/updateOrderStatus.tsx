@@ -1,82 +1,153 @@
 import { createServerFn } from "@tanstack/react-start";
 import { setResponseStatus } from "@tanstack/react-start/server";
-import { eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
+import {
+	canTransitionOrderStatus,
+	getAllowedOrderStatusTransitions,
+	getOrderStatusName,
+	isOrderStatus,
+	ORDER_STATUSES,
+} from "~/constants/orderStatuses";
 import { DB } from "~/db";
-import { orders } from "~/schema";
+import { orderStatusHistory, orders } from "~/schema";
+import { sendOrderStatusEmail } from "~/server_functions/sendOrderStatusEmail";
+import type { Order } from "~/types";
+import { adminMiddleware } from "~/utils/admin-middleware";
+import { isBlockedByDeliveryReview } from "~/utils/deliveryPricing";
+import { httpError } from "~/utils/httpError";
 
 export const updateOrderStatus = createServerFn({ method: "POST" })
-	.inputValidator((data: { id: number; status: string }) => data)
-	.handler(async ({ data }) => {
+	.middleware([adminMiddleware])
+	.inputValidator(
+		(data: { id: number; status: string; comment?: string }) => data,
+	)
+	.handler(async ({ data, context }) => {
+		const { id: orderId, status } = data;
+
+		if (Number.isNaN(orderId)) {
+			throw httpError(400, "Invalid order ID");
+		}
+
+		if (!status) {
+			throw httpError(400, "Status is required");
+		}
+
+		// Validate status
+		if (!isOrderStatus(status)) {
+			throw httpError(
+				400,
+				`Invalid status. Must be one of: ${ORDER_STATUSES.join(", ")}`,
+			);
+		}
+
+		const db = DB();
+
+		// Check if order exists
+		let existingOrder: Order | undefined;
 		try {
-			const db = DB();
-			const { id: orderId, status } = data;
-
-			if (Number.isNaN(orderId)) {
-				setResponseStatus(400);
-				throw new Error("Invalid order ID");
-			}
-
-			if (!status) {
-				setResponseStatus(400);
-				throw new Error("Status is required");
-			}
-
-			// Validate status
-			const validStatuses = [
-				"pending",
-				"processed",
-				"shipped",
-				"delivered",
-				"cancelled",
-			];
-			if (!validStatuses.includes(status)) {
-				setResponseStatus(400);
-				throw new Error(
-					`Invalid status. Must be one of: ${validStatuses.join(", ")}`,
-				);
-			}
-
-			// Check if order exists
-			const existingOrder = await db
+			[existingOrder] = await db
 				.select()
 				.from(orders)
 				.where(eq(orders.id, orderId))
 				.limit(1);
+		} catch (error) {
+			console.error("Error updating order status:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to update order status");
+		}
 
-			if (!existingOrder[0]) {
-				setResponseStatus(404);
-				throw new Error("Order not found");
-			}
+		if (!existingOrder) {
+			throw httpError(404, "Order not found");
+		}
 
-			// Update order status
-			const updateData: { status: string; completedAt?: Date } = { status };
+		const currentStatus = existingOrder.status;
 
-			// If marking as processed and not already completed, set completedAt
-			if (status === "processed" && !existingOrder[0].completedAt) {
-				updateData.completedAt = new Date();
-			}
+		// Enforce the status state machine
+		if (!canTransitionOrderStatus(currentStatus, status)) {
+			const allowed = getAllowedOrderStatusTransitions(currentStatus);
+			throw httpError(
+				409,
+				allowed.length > 0
+					? `Нельзя сменить статус «${getOrderStatusName(currentStatus)}» на «${getOrderStatusName(status)}». Доступно: ${allowed.map(getOrderStatusName).join(", ")}`
+					: `Заказ в статусе «${getOrderStatusName(currentStatus)}» больше нельзя изменить`,
+			);
+		}
 
-			await db.update(orders).set(updateData).where(eq(orders.id, orderId));
+		if (isBlockedByDeliveryReview(existingOrder, status)) {
+			throw httpError(
+				409,
+				"Сначала подтвердите расстояние доставки, которое указал клиент",
+			);
+		}
 
-			// Fetch and return updated order
-			const updatedOrder = await db
-				.select()
-				.from(orders)
-				.where(eq(orders.id, orderId))
-				.limit(1);
+		const now = new Date();
+		const comment = data.comment?.trim() || null;
 
-			return {
-				success: true,
-				message: "Order status updated successfully",
-				order: updatedOrder[0],
-			};
+		// Update order status
+		const updateData: { status: string; completedAt?: Date | null } = {
+			status,
+		};
+
+		// Delivered orders are completed, reopening clears the completion date
+		if (status === "delivered") {
+			updateData.completedAt = now;
+		} else if (existingOrder.completedAt) {
+			updateData.completedAt = null;
+		}
+
+		// Both statements only match while the order still has the status that
+		// was checked above, so two managers can't change it at the same time
+		const unchangedOrder = and(
+			eq(orders.id, orderId),
+			eq(orders.status, currentStatus),
+		);
+
+		let updatedOrder: Order | undefined;
+		try {
+			[, [updatedOrder]] = await db.batch([
+				db.insert(orderStatusHistory).select(
+					db
+						.select({
+							id: sql<number>`null`.as("id"),
+							orderId: orders.id,
+							fromStatus: orders.status,
+							toStatus: sql<string>`${status}`.as("toStatus"),
+							changedBy: sql<string>`${context.adminEmail}`.as("changedBy"),
+							comment: sql<string | null>`${comment}`.as("comment"),
+							createdAt:
+								sql<Date>`${sql.param(now, orderStatusHistory.createdAt)}`.as(
+									"createdAt",
+								),
+						})
+						.from(orders)
+						.where(unchangedOrder),
+				),
+				db.update(orders).set(updateData).where(unchangedOrder).returning(),
+			]);
 		} catch (error) {
 			console.error("Error updating order status:", error);
 			setResponseStatus(500);
-			throw new Error(
-				error instanceof Error
-					? error.message
-					: "Failed to update order status",
+			throw new Error("Failed to update order status");
+		}
+
+		if (!updatedOrder) {
+			throw httpError(
+				409,
+				"Статус заказа уже изменён. Обновите страницу и попробуйте ещё раз",
 			);
 		}
+
+		// Status is already saved, email problems are only reported back
+		const notification = await sendOrderStatusEmail(
+			existingOrder,
+			status,
+			comment,
+		);
+
+		return {
+			success: true,
+			message: "Order status updated successfully",
+			order: updatedOrder,
+			notification,
+		};
 	});
@@ -0,0 +1,38 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { count, desc, eq, sum } from "drizzle-orm";
+import { DB } from "~/db";
+import { quoteItems, quotes } from "~/schema";
+import { adminMiddleware } from "~/utils/admin-middleware";
+
+/**
+ * Saved quotes for the dashboard, newest first
+ */
+export const getAllQuotes = createServerFn({ method: "GET" })
+	.middleware([adminMiddleware])
+	.handler(async () => {
+		try {
+			const db = DB();
+			const rows = await db
+				.select({
+					id: quotes.id,
+					token: quotes.token,
+					title: quotes.title,
+					totalAmount: quotes.totalAmount,
+					createdBy: quotes.createdBy,
+					createdAt: quotes.createdAt,
+					lineCount: count(quoteItems.id),
+					unitCount: sum(quoteItems.quantity).mapWith(Number),
+				})
+				.from(quotes)
+				.leftJoin(quoteItems, eq(quoteItems.quoteId, quotes.id))
+				.groupBy(quotes.id)
+				.orderBy(desc(quotes.createdAt));
+
+			return rows;
+		} catch (error) {
+			console.error("Error fetching quotes:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch quotes");
+		}
+	});
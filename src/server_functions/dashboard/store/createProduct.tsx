@@ -4,8 +4,8 @@ import { eq } from "drizzle-orm";
 import { DB } from "~/db";
 import {
 	productAttributeValues,
-	products,
 	productStoreLocations,
+	products,
 	productVariations,
 	variationAttributes,
 } from "~/schema";
@@ -156,6 +156,9 @@ export const createProduct = createServerFn({ method: "POST" })
 					squareMetersPerPack: productData.squareMetersPerPack
 						? parseFloat(productData.squareMetersPerPack)
 						: null,
+					linearMetersPerPack: productData.linearMetersPerPack
+						? parseFloat(productData.linearMetersPerPack)
+						: null,
 					unitOfMeasurement: productData.unitOfMeasurement,
 					categorySlug: productData.categorySlug || null,
 					brandSlug: productData.brandSlug || null,
@@ -4,8 +4,8 @@ import { eq, inArray } from "drizzle-orm";
 import { DB } from "~/db";
 import {
 	productAttributeValues,
-	products,
 	productStoreLocations,
+	products,
 	productVariations,
 	variationAttributes,
 } from "~/schema";
@@ -548,6 +548,9 @@ export const updateProduct = createServerFn({ method: "POST" })
 						squareMetersPerPack: productData.squareMetersPerPack
 							? parseFloat(productData.squareMetersPerPack)
 							: null,
+						linearMetersPerPack: productData.linearMetersPerPack
+							? parseFloat(productData.linearMetersPerPack)
+							: null,
 						categorySlug: preserveIfEmpty(
 							productData.categorySlug,
 							existingProductData.categorySlug,
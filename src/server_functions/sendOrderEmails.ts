@@ -1,75 +1,52 @@
-import { createServerFn } from "@tanstack/react-start";
-import { Resend } from "resend";
+import { getContactMethodName } from "~/constants/contactMethods";
+import { getShippingMethodName } from "~/constants/shippingMethods";
+import { getStoreLocationsByIds } from "~/data/storeLocations";
+import { DB } from "~/db";
+import type { Order } from "~/types";
+import { parseDeliveryBreakdown } from "~/utils/deliveryPricing";
+import { EMAIL_FROM, getEmailTransport } from "~/utils/emailTransport";
 import { env } from "~/utils/env";
+import { escapeHtml } from "~/utils/html";
+import { getDashboardOrderItems } from "~/utils/orderItems";
+import { formatPhone } from "~/utils/phone";
+import { parseImages } from "~/utils/productParsing";
+import { formatSaleQuantity } from "~/utils/units";
 
-interface CartItem {
-	productId: number;
-	productName: string;
-	productSlug: string;
-	variationId?: number;
-	quantity: number;
-	price: number;
-	discount?: number | null;
-	image?: string;
-	attributes?: Record<string, string>;
-}
-
-interface Address {
-	firstName: string;
-	lastName: string;
-	email: string;
-	phone: string;
-	streetAddress: string;
-	city: string;
-	state: string;
-	country: string;
-	zipCode: string;
-}
-
-interface CustomerInfo {
-	shippingAddress?: Address;
-	billingAddress?: Address;
-	notes?: string;
-	shippingMethod?: string;
-}
-
-interface EmailData {
-	orderId: number;
-	customerInfo: CustomerInfo;
-	cartItems: CartItem[];
-	orderAmounts: { subtotalAmount: number; discountAmount: number };
-	totalAmount: number;
+export interface OrderEmailsResult {
+	emailWarnings?: string[];
 }
 
 // HTML Email Templates (replacing React Email components for server function compatibility)
 function generateClientEmailHtml(data: {
-	Name?: string;
-	LastName?: string;
+	customerName?: string;
 	email?: string;
 	orderId: string;
+	orderUrl: string;
 	orderDate: string;
 	subtotal: string;
 	totalDiscount?: string;
+	shipping?: string;
 	orderTotal: string;
 	orderStatus: string;
 	orderItems: Array<{
 		name: string;
-		quantity: number;
+		quantity: string;
 		price: string;
 		originalPrice: string;
 		discount?: number;
 		image?: string;
 	}>;
 }): string {
+	const customerName = data.customerName && escapeHtml(data.customerName);
 	const orderItemsHtml = data.orderItems
 		.map(
 			(item) => `
     <tr style="border-bottom: 1px solid #e5e7eb;">
       <td style="padding: 12px 0; width: 80px;">
-        ${item.image ? `<img src="${item.image}" alt="${item.name}" style="width: 80px; height: 80px; object-fit: cover; border-radius: 8px;" />` : ""}
+        ${item.image ? `<img src="${item.image}" alt="${escapeHtml(item.name)}" style="width: 80px; height: 80px; object-fit: cover; border-radius: 8px;" />` : ""}
       </td>
       <td style="padding: 12px 16px; text-align: left;">
-        <p style="margin: 0; font-weight: 500;">${item.name}</p>
+        <p style="margin: 0; font-weight: 500;">${escapeHtml(item.name)}</p>
       </td>
       <td style="padding: 12px 0; text-align: right;">
         ${
@@ -120,7 +97,7 @@ function generateClientEmailHtml(data: {
           
           <!-- Greeting -->
           <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 8px 0;">
-            Greetings${data.Name && data.LastName ? `, ${data.Name} ${data.LastName}` : ""}!
+            Greetings${customerName ? `, ${customerName}` : ""}!
           </p>
           <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 24px 0;">
             You will be contacted shortly regarding delivery and payment.
@@ -136,12 +113,13 @@ function generateClientEmailHtml(data: {
             <div style="text-align: right; padding: 0 12px;">
               <p style="margin: 8px 0; color: #6b7280;">Subtotal: ${data.subtotal}</p>
               ${Number(data.totalDiscount || 0) > 0 ? `<p style="margin: 8px 0; color: #dc2626;">Discount: -${data.totalDiscount}</p>` : ""}
+              ${data.shipping ? `<p style="margin: 8px 0; color: #6b7280;">Delivery: ${data.shipping}</p>` : ""}
               <p style="margin: 16px 0 24px 0; font-weight: 600; font-size: 18px;">Total: ${data.orderTotal}</p>
             </div>
             
             <!-- View Order Button -->
             <div style="text-align: center;">
-              <a href="https://www.rublevsky.studio/order/${data.orderId}" 
+              <a href="${data.orderUrl}" 
                  style="display: inline-block; width: 100%; max-width: 200px; background-color: #000; color: #fff; text-decoration: none; padding: 12px; border-radius: 8px; font-weight: 500; text-align: center;">
                 View Order
               </a>
@@ -151,15 +129,15 @@ function generateClientEmailHtml(data: {
           <!-- Footer -->
           <p style="color: #9ca3af; font-size: 14px; line-height: 1.6; margin: 24px 0 0 0;">
             or copy and paste this URL into your browser: 
-            <a href="https://www.rublevsky.studio/order/${data.orderId}" style="color: #60a5fa; text-decoration: none;">
-              https://www.rublevsky.studio/order/${data.orderId}
+            <a href="${data.orderUrl}" style="color: #60a5fa; text-decoration: none;">
+              ${data.orderUrl}
             </a>
           </p>
           
           <hr style="border: none; border-top: 1px solid #eaeaea; margin: 26px 0;" />
           
           <p style="color: #6b7280; font-size: 12px; line-height: 1.8; margin: 0;">
-            ${data.Name ? `This order confirmation was intended for <strong>${data.Name}</strong>.` : "This order confirmation was sent to the provided email address."} 
+            ${customerName ? `This order confirmation was intended for <strong>${customerName}</strong>.` : "This order confirmation was sent to the provided email address."} 
             This email was sent from <strong>Rublevsky Studio</strong> located in <strong>Ontario, Canada</strong>. 
             If you were not expecting this order confirmation, you can ignore this email. 
             If you are concerned about your account's safety, please reply to this email to get in touch with us.
@@ -171,36 +149,40 @@ function generateClientEmailHtml(data: {
 }
 
 function generateAdminEmailHtml(data: {
-	Name?: string;
-	LastName?: string;
+	customerName?: string;
 	email?: string;
+	phone?: string;
+	contactMethod?: string;
+	notes?: string;
 	orderId: string;
 	orderDate: string;
 	subtotal: string;
 	totalDiscount?: string;
+	shipping?: string;
 	orderTotal: string;
 	orderStatus: string;
 	shippingMethod?: string;
-	shippingAddress?: Address;
-	billingAddress?: Address;
+	deliveryAddress?: string;
+	pickupLocation?: string;
 	orderItems: Array<{
 		name: string;
-		quantity: number;
+		quantity: string;
 		price: string;
 		originalPrice: string;
 		discount?: number;
 		image?: string;
 	}>;
 }): string {
+	const customerName = data.customerName && escapeHtml(data.customerName);
 	const orderItemsHtml = data.orderItems
 		.map(
 			(item) => `
     <tr style="border-bottom: 1px solid #e5e7eb;">
       <td style="padding: 12px 0; width: 80px;">
-        ${item.image ? `<img src="${item.image}" alt="${item.name}" style="width: 80px; height: 80px; object-fit: cover; border-radius: 8px;" />` : ""}
+        ${item.image ? `<img src="${item.image}" alt="${escapeHtml(item.name)}" style="width: 80px; height: 80px; object-fit: cover; border-radius: 8px;" />` : ""}
       </td>
       <td style="padding: 12px 16px; text-align: left;">
-        <p style="margin: 0; font-weight: 500;">${item.name}</p>
+        <p style="margin: 0; font-weight: 500;">${escapeHtml(item.name)}</p>
       </td>
       <td style="padding: 12px 0; text-align: right;">
         ${
@@ -251,51 +233,29 @@ function generateAdminEmailHtml(data: {
           
           <!-- Order Info -->
           <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 8px 0;">
-            Order #${data.orderId} has been placed${data.Name && data.LastName ? ` by ${data.Name} ${data.LastName}` : ""}.
+            Order #${data.orderId} has been placed${customerName ? ` by ${customerName}` : ""}.
           </p>
-          <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 16px 0;">
-            ${data.email ? `Customer Email: ${data.email}` : "Customer email not provided"}
+
+          <hr style="border: none; border-top: 1px solid #eaeaea; margin: 16px 0;" />
+
+          <!-- Contact Details -->
+          <h3 style="color: #000; font-size: 16px; font-weight: 600; margin: 16px 0 8px 0;">Contact Details</h3>
+          <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 8px 0;">
+            Name: ${customerName || "Not provided"}<br/>
+            Phone: ${data.phone ? `<a href="tel:${escapeHtml(data.phone)}" style="color: #60a5fa; text-decoration: none;">${escapeHtml(formatPhone(data.phone) || data.phone)}</a>` : "Not provided"}<br/>
+            Email: ${data.email ? `<a href="mailto:${escapeHtml(data.email)}" style="color: #60a5fa; text-decoration: none;">${escapeHtml(data.email)}</a>` : "Not provided"}<br/>
+            Preferred contact: ${escapeHtml(getContactMethodName(data.contactMethod))}
           </p>
+          ${data.notes ? `<p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 16px 0;">Notes: ${escapeHtml(data.notes)}</p>` : ""}
           
           <hr style="border: none; border-top: 1px solid #eaeaea; margin: 16px 0;" />
           
           <!-- Shipping Details -->
           <h3 style="color: #000; font-size: 16px; font-weight: 600; margin: 16px 0 8px 0;">Shipping Details</h3>
           <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0 0 8px 0;">
-            Method: ${data.shippingMethod || "Not specified"}
+            Method: ${data.shippingMethod ? escapeHtml(data.shippingMethod) : "Not specified"}<br/>
+            ${data.pickupLocation ? `Pickup store: ${escapeHtml(data.pickupLocation)}` : `Address: ${data.deliveryAddress ? escapeHtml(data.deliveryAddress) : "Not specified"}`}
           </p>
-          <div style="margin-bottom: 16px;">
-            <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0;">
-              ${
-								data.shippingAddress
-									? `${data.shippingAddress.firstName} ${data.shippingAddress.lastName}<br/>
-                ${data.shippingAddress.streetAddress}<br/>
-                ${data.shippingAddress.city}, ${data.shippingAddress.state} ${data.shippingAddress.zipCode}<br/>
-                ${data.shippingAddress.country}<br/>
-                Phone: ${data.shippingAddress.phone}`
-									: "Shipping address to be provided by customer"
-							}
-            </p>
-          </div>
-          
-          ${
-						data.billingAddress && data.billingAddress !== data.shippingAddress
-							? `
-          <!-- Billing Details -->
-          <h3 style="color: #000; font-size: 16px; font-weight: 600; margin: 16px 0 8px 0;">Billing Details</h3>
-          <div style="margin-bottom: 16px;">
-            <p style="color: #000; font-size: 14px; line-height: 1.4; margin: 0;">
-              ${data.billingAddress.firstName} ${data.billingAddress.lastName}<br/>
-              ${data.billingAddress.streetAddress}<br/>
-              ${data.billingAddress.city}, ${data.billingAddress.state} ${data.billingAddress.zipCode}<br/>
-              ${data.billingAddress.country}<br/>
-              Phone: ${data.billingAddress.phone}
-            </p>
-          </div>
-          `
-							: ""
-					}
-          
           <hr style="border: none; border-top: 1px solid #eaeaea; margin: 16px 0;" />
           
           <!-- Order Items -->
@@ -308,6 +268,7 @@ function generateAdminEmailHtml(data: {
             <div style="text-align: right; padding: 0 12px;">
               <p style="margin: 8px 0; color: #6b7280;">Subtotal: ${data.subtotal}</p>
               ${Number(data.totalDiscount || 0) > 0 ? `<p style="margin: 8px 0; color: #dc2626;">Discount: -${data.totalDiscount}</p>` : ""}
+              ${data.shipping ? `<p style="margin: 8px 0; color: #6b7280;">Delivery: ${data.shipping}</p>` : ""}
               <p style="margin: 16px 0 24px 0; font-weight: 600; font-size: 18px;">Total: ${data.orderTotal}</p>
             </div>
             
@@ -340,125 +301,120 @@ function generateAdminEmailHtml(data: {
   `;
 }
 
-export const sendOrderEmails = createServerFn({ method: "POST" })
-	.inputValidator((data: EmailData) => {
-		// Validate required fields
-		if (!data.orderId) {
-			throw new Error("Order ID is required");
-		}
-		if (!data.customerInfo?.shippingAddress?.email) {
-			throw new Error("Customer email is required");
-		}
-		if (!data.cartItems || data.cartItems.length === 0) {
-			throw new Error("Cart items are required");
-		}
-		return data;
-	})
-	.handler(async ({ data }) => {
-		try {
-			// Get the API key from environment variables
-			const resendApiKey = env.RESEND_API_KEY;
-
-			if (!resendApiKey) {
-				console.error("RESEND_API_KEY not found or empty");
-				throw new Error(
-					"Email service configuration error - API key not found",
-				);
-			}
+/**
+ * Order confirmation for the customer and notification for the admin.
+ * Called from createOrder once the order is saved and built only from what
+ * was saved, so nothing in the emails comes from the browser. Never throws:
+ * a failed email must not fail the order.
+ */
+export async function sendOrderEmails(
+	order: Order,
+): Promise<OrderEmailsResult> {
+	try {
+		// Resend in production, console logging in local development
+		const transport = getEmailTransport();
 
-			const resend = new Resend(resendApiKey);
+		const itemsByOrderId = await getDashboardOrderItems(DB(), [order.id]);
+		const items = itemsByOrderId.get(order.id) ?? [];
 
-			// Format order date
-			const orderDate = new Date().toLocaleDateString("en-US", {
-				year: "numeric",
-				month: "long",
-				day: "numeric",
-			});
+		// Format order date
+		const orderDate = order.createdAt.toLocaleDateString("en-US", {
+			year: "numeric",
+			month: "long",
+			day: "numeric",
+		});
 
-			// Prepare email data for templates
-			const emailTemplateData = {
-				Name: data.customerInfo.shippingAddress?.firstName,
-				LastName: data.customerInfo.shippingAddress?.lastName,
-				email: data.customerInfo.shippingAddress?.email,
-				orderId: data.orderId.toString(),
-				orderDate: orderDate,
-				subtotal: `CA$${data.orderAmounts.subtotalAmount.toFixed(2)}`,
-				totalDiscount:
-					data.orderAmounts.discountAmount > 0
-						? `CA$${data.orderAmounts.discountAmount.toFixed(2)}`
-						: undefined,
-				orderTotal: `CA$${data.totalAmount.toFixed(2)}`,
-				orderStatus: "Pending",
-				shippingMethod: data.customerInfo.shippingMethod || "Standard",
-				shippingAddress: data.customerInfo.shippingAddress,
-				billingAddress: data.customerInfo.billingAddress,
-				orderItems: data.cartItems.map((item) => ({
-					name: item.productName,
-					quantity: item.quantity,
-					price: item.discount
-						? `CA$${(item.price * (1 - item.discount / 100) * item.quantity).toFixed(2)}`
-						: `CA$${(item.price * item.quantity).toFixed(2)}`,
-					originalPrice: `CA$${(item.price * item.quantity).toFixed(2)}`,
-					discount: item.discount ?? undefined,
-					image:
-						item.image && typeof item.image === "string"
-							? `https://assets.rublevsky.studio/${item.image}`
-							: undefined,
-				})),
-			};
+		const pickupLocation =
+			order.pickupLocationId !== null
+				? getStoreLocationsByIds([order.pickupLocationId])[0]
+				: undefined;
 
-			// Generate and send client confirmation email
-			// Only send client email if we have a valid email address
-			let clientEmailResponse = null;
-			if (data.customerInfo.shippingAddress?.email) {
-				const clientEmailHtml = generateClientEmailHtml(emailTemplateData);
-				clientEmailResponse = await resend.emails.send({
-					from: "store@rublevsky.studio",
-					to: data.customerInfo.shippingAddress.email,
-					subject: `Order Confirmation #${data.orderId} - Rublevsky Studio`,
-					html: clientEmailHtml,
-				});
-			}
+		// Prepare email data for templates
+		const emailTemplateData = {
+			customerName: order.customerName ?? undefined,
+			email: order.customerEmail ?? undefined,
+			phone: order.customerPhone ?? undefined,
+			contactMethod: order.contactMethod ?? undefined,
+			notes: order.notes ?? undefined,
+			orderId: order.id.toString(),
+			orderUrl: `${env.BETTER_AUTH_URL}/order/${order.publicToken}`,
+			orderDate: orderDate,
+			subtotal: `CA$${order.subtotalAmount.toFixed(2)}`,
+			totalDiscount:
+				order.discountAmount > 0
+					? `CA$${order.discountAmount.toFixed(2)}`
+					: undefined,
+			orderTotal: `CA$${order.totalAmount.toFixed(2)}`,
+			orderStatus: "Pending",
+			shipping: `CA$${order.shippingAmount.toFixed(2)}`,
+			shippingMethod: pickupLocation
+				? getShippingMethodName("pickup")
+				: (parseDeliveryBreakdown(order.shippingBreakdown)?.zoneName ??
+					"Standard"),
+			deliveryAddress: order.deliveryAddress ?? undefined,
+			pickupLocation: pickupLocation?.address,
+			orderItems: items.map((item) => {
+				const image = parseImages(item.product.images)[0];
+				return {
+					name: item.product.name,
+					quantity: formatSaleQuantity(item.quantity, {
+						squareMetersPerPack: item.squareMetersPerPack,
+						unitOfMeasurement: item.product.unitOfMeasurement,
+					}),
+					price: `CA$${item.finalAmount.toFixed(2)}`,
+					originalPrice: `CA$${(item.unitAmount * item.quantity).toFixed(2)}`,
+					discount: item.discountPercentage ?? undefined,
+					image: image ? `https://assets.rublevsky.studio/${image}` : undefined,
+				};
+			}),
+		};
 
-			// Generate and send admin notification email
-			const adminEmailHtml = generateAdminEmailHtml(emailTemplateData);
-			const adminEmailResponse = await resend.emails.send({
-				from: "store@rublevsky.studio",
-				to: "alexander@rublevsky.studio",
-				subject: `New Order #${data.orderId} Received - Rublevsky Studio`,
-				html: adminEmailHtml,
+		// Generate and send client confirmation email
+		// Only send client email if we have a valid email address
+		let clientEmailResponse = null;
+		if (emailTemplateData.email) {
+			const clientEmailHtml = generateClientEmailHtml(emailTemplateData);
+			clientEmailResponse = await transport.send({
+				from: EMAIL_FROM,
+				to: emailTemplateData.email,
+				subject: `Order Confirmation #${order.id} - Rublevsky Studio`,
+				html: clientEmailHtml,
 			});
+		}
 
-			// Check results and prepare response
-			const emailWarnings: string[] = [];
-
-			if (clientEmailResponse?.error) {
-				console.error("Client email error:", clientEmailResponse.error);
-				emailWarnings.push("Failed to send customer confirmation email");
-			} else if (!data.customerInfo.shippingAddress?.email) {
-				emailWarnings.push(
-					"Customer email not provided - confirmation email not sent",
-				);
-			}
+		// Generate and send admin notification email
+		const adminEmailHtml = generateAdminEmailHtml(emailTemplateData);
+		const adminEmailResponse = await transport.send({
+			from: EMAIL_FROM,
+			to: "alexander@rublevsky.studio",
+			subject: `New Order #${order.id} Received - Rublevsky Studio`,
+			html: adminEmailHtml,
+		});
 
-			if (adminEmailResponse.error) {
-				console.error("Admin email error:", adminEmailResponse.error);
-				emailWarnings.push("Failed to send admin notification email");
-			}
+		// Check results and prepare response
+		const emailWarnings: string[] = [];
 
-			return {
-				success: true,
-				emailWarnings: emailWarnings.length > 0 ? emailWarnings : undefined,
-				clientEmailId: clientEmailResponse?.data?.id,
-				adminEmailId: adminEmailResponse.data?.id,
-			};
-		} catch (error) {
-			console.error("Email sending failed:", error);
+		if (clientEmailResponse?.error) {
+			console.error("Client email error:", clientEmailResponse.error);
+			emailWarnings.push("Failed to send customer confirmation email");
+		} else if (!emailTemplateData.email) {
+			emailWarnings.push(
+				"Customer email not provided - confirmation email not sent",
+			);
+		}
 
-			return {
-				success: false,
-				emailWarnings: ["Failed to send confirmation emails"],
-				error: error instanceof Error ? error.message : "Unknown email error",
-			};
+		if (adminEmailResponse.error) {
+			console.error("Admin email error:", adminEmailResponse.error);
+			emailWarnings.push("Failed to send admin notification email");
 		}
-	});
+
+		return {
+			emailWarnings: emailWarnings.length > 0 ? emailWarnings : undefined,
+		};
+	} catch (error) {
+		console.error("Email sending failed:", error);
+		return {
+			emailWarnings: ["Не удалось отправить письма с подтверждением"],
+		};
+	}
+}
@@ -0,0 +1,74 @@
+import {
+	generateOrderStatusUpdateHtml,
+	getOrderStatusUpdateSubject,
+	isNotifiableOrderStatus,
+} from "~/components/emails/orderStatusUpdateHtml";
+import type { Order } from "~/types";
+import { EMAIL_FROM, getEmailTransport } from "~/utils/emailTransport";
+import { env } from "~/utils/env";
+
+export interface OrderStatusEmailResult {
+	sent: boolean;
+	warning?: string;
+}
+
+/**
+ * Notify the customer that their order moved to a new status.
+ * Called from updateOrderStatus after the change is saved, so it never throws:
+ * a failed email must not roll back or block a status change.
+ */
+export async function sendOrderStatusEmail(
+	order: Pick<
+		Order,
+		| "id"
+		| "publicToken"
+		| "customerName"
+		| "customerEmail"
+		| "notifyStatusChanges"
+	>,
+	status: string,
+	comment?: string | null,
+): Promise<OrderStatusEmailResult> {
+	if (!isNotifiableOrderStatus(status)) {
+		return { sent: false };
+	}
+
+	if (!order.notifyStatusChanges) {
+		return { sent: false, warning: "Клиент отказался от уведомлений" };
+	}
+
+	if (!order.customerEmail) {
+		return { sent: false, warning: "У заказа нет email клиента" };
+	}
+
+	try {
+		const transport = getEmailTransport();
+		const orderId = order.id.toString();
+
+		const result = await transport.send({
+			from: EMAIL_FROM,
+			to: order.customerEmail,
+			subject: getOrderStatusUpdateSubject(orderId, status),
+			html: generateOrderStatusUpdateHtml({
+				customerName: order.customerName ?? undefined,
+				orderId,
+				status,
+				comment: comment ?? undefined,
+				// Orders created before public tokens get an email without the link
+				orderUrl: order.publicToken
+					? `${env.BETTER_AUTH_URL}/order/${order.publicToken}`
+					: undefined,
+			}),
+		});
+
+		if (result.error) {
+			console.error("Order status email error:", result.error);
+			return { sent: false, warning: "Не удалось отправить уведомление" };
+		}
+
+		return { sent: true };
+	} catch (error) {
+		console.error("Order status email failed:", error);
+		return { sent: false, warning: "Не удалось отправить уведомление" };
+	}
+}
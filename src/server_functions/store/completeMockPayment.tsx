@@ -0,0 +1,68 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { orders } from "~/schema";
+import { handlePaymentWebhook } from "~/utils/orderPayments";
+import { isOrderToken } from "~/utils/orderToken";
+import {
+	createMockWebhookRequest,
+	getPaymentProvider,
+} from "~/utils/paymentProvider";
+
+/**
+ * Result of the mock payment page. Sends a signed webhook through
+ * the same handler as real providers, so the whole flow works offline.
+ */
+export const completeMockPayment = createServerFn({ method: "POST" })
+	.inputValidator(
+		(data: {
+			orderId: string;
+			paymentId: string;
+			outcome: "paid" | "failed";
+		}) => data,
+	)
+	.handler(async ({ data }) => {
+		try {
+			if (getPaymentProvider()?.name !== "mock") {
+				setResponseStatus(404);
+				throw new Error("Mock payments are disabled");
+			}
+
+			if (!isOrderToken(data.orderId)) {
+				setResponseStatus(404);
+				throw new Error("Order not found");
+			}
+
+			const db = DB();
+			const [order] = await db
+				.select({ id: orders.id, totalAmount: orders.totalAmount })
+				.from(orders)
+				.where(eq(orders.publicToken, data.orderId))
+				.limit(1);
+
+			if (!order) {
+				setResponseStatus(404);
+				throw new Error("Order not found");
+			}
+
+			const response = await handlePaymentWebhook(
+				"mock",
+				createMockWebhookRequest({
+					paymentId: data.paymentId,
+					orderId: order.id,
+					status: data.outcome === "paid" ? "paid" : "failed",
+					amount: order.totalAmount,
+				}),
+			);
+			const result: { applied?: boolean } = await response.json();
+
+			return { applied: result.applied === true };
+		} catch (error) {
+			console.error("Error completing mock payment:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to complete payment",
+			);
+		}
+	});
@@ -0,0 +1,89 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { isPaymentPayable } from "~/constants/paymentStatuses";
+import { DB } from "~/db";
+import { orders, paymentAttempts } from "~/schema";
+import { applyPaymentStatus } from "~/utils/orderPayments";
+import { isOrderToken } from "~/utils/orderToken";
+import { getPaymentProvider } from "~/utils/paymentProvider";
+
+/**
+ * Start an online payment for the order page (by public token).
+ * Returns the provider URL the customer is redirected to.
+ */
+export const createOrderPayment = createServerFn({ method: "POST" })
+	.inputValidator((data: { orderId: string }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const provider = getPaymentProvider();
+			if (!provider) {
+				setResponseStatus(503);
+				throw new Error("Онлайн-оплата временно недоступна");
+			}
+
+			if (!isOrderToken(data.orderId)) {
+				setResponseStatus(404);
+				throw new Error("Order not found");
+			}
+
+			const db = DB();
+			const [order] = await db
+				.select()
+				.from(orders)
+				.where(eq(orders.publicToken, data.orderId))
+				.limit(1);
+
+			if (!order) {
+				setResponseStatus(404);
+				throw new Error("Order not found");
+			}
+
+			if (order.status === "cancelled") {
+				setResponseStatus(409);
+				throw new Error("Заказ отменён");
+			}
+
+			if (!isPaymentPayable(order.paymentStatus)) {
+				setResponseStatus(409);
+				throw new Error("Заказ уже оплачен");
+			}
+
+			const payment = await provider.createPayment({
+				orderId: order.id,
+				orderToken: data.orderId,
+				amount: order.totalAmount,
+				currency: order.currency,
+				description: `Заказ №${order.id}`,
+			});
+
+			// Earlier attempts stay valid: a webhook for any of them is accepted
+			await db.insert(paymentAttempts).values({
+				orderId: order.id,
+				provider: provider.name,
+				paymentId: payment.paymentId,
+				amount: order.totalAmount,
+				status: "pending",
+				createdAt: new Date(),
+			});
+
+			const paymentRef = {
+				paymentMethod: provider.name,
+				paymentId: payment.paymentId,
+			};
+			if (order.paymentStatus === "failed") {
+				// A retry goes back to pending, through the audited status change
+				await applyPaymentStatus(db, order, "pending", null, paymentRef);
+			} else {
+				await db.update(orders).set(paymentRef).where(eq(orders.id, order.id));
+			}
+
+			return { confirmationUrl: payment.confirmationUrl };
+		} catch (error) {
+			console.error("Error creating order payment:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to create payment",
+			);
+		}
+	});
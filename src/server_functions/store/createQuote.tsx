@@ -0,0 +1,98 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { sql } from "drizzle-orm";
+import { DB } from "~/db";
+import { quoteItems, quotes } from "~/schema";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { type OrderLineInput, priceOrderLines } from "~/utils/orderPricing";
+import {
+	generateQuoteToken,
+	QUOTE_MAX_ITEMS,
+	QUOTE_TITLE_MAX_LENGTH,
+} from "~/utils/quotes";
+import { createRateLimitMiddleware } from "~/utils/rateLimitMiddleware";
+
+interface CreateQuoteRequest {
+	items: OrderLineInput[];
+	title?: string;
+}
+
+/**
+ * Save the cart as a quote with a short public link.
+ * Prices are loaded from the database, lines that can't be ordered are skipped.
+ */
+export const createQuote = createServerFn({ method: "POST" })
+	.middleware([
+		createRateLimitMiddleware({
+			action: "create_quote",
+			ipLimit: { limit: 20, windowMs: 10 * 60 * 1000 },
+		}),
+		authMiddleware,
+	])
+	.inputValidator((data: CreateQuoteRequest) => data)
+	.handler(async ({ data, context }) => {
+		if (!Array.isArray(data.items) || data.items.length === 0) {
+			setResponseStatus(400);
+			throw new Error("Корзина пуста");
+		}
+		if (data.items.length > QUOTE_MAX_ITEMS) {
+			setResponseStatus(400);
+			throw new Error(
+				`В смете может быть не больше ${QUOTE_MAX_ITEMS} позиций`,
+			);
+		}
+
+		const title = data.title?.trim() || null;
+		if (title && title.length > QUOTE_TITLE_MAX_LENGTH) {
+			setResponseStatus(400);
+			throw new Error(
+				`Название сметы длиннее ${QUOTE_TITLE_MAX_LENGTH} символов`,
+			);
+		}
+
+		try {
+			const db = DB();
+			const priced = await priceOrderLines(db, data.items);
+
+			if (priced.items.length === 0) {
+				setResponseStatus(400);
+				throw new Error("В корзине нет товаров, доступных для заказа");
+			}
+
+			const token = generateQuoteToken();
+			const quoteIdByToken = sql<number>`(select ${quotes.id} from ${quotes} where ${quotes.token} = ${token})`;
+
+			await db.batch([
+				db.insert(quotes).values({
+					token,
+					title,
+					subtotalAmount: priced.subtotalAmount,
+					discountAmount: priced.discountAmount,
+					totalAmount: priced.subtotalAmount - priced.discountAmount,
+					createdBy: context?.user?.email?.trim().toLowerCase() || null,
+					createdAt: new Date(),
+				}),
+				db.insert(quoteItems).values(
+					priced.items.map((item) => ({
+						quoteId: quoteIdByToken,
+						productId: item.productId,
+						productVariationId: item.variationId,
+						quantity: item.quantity,
+						productName: item.productName,
+						unitAmount: item.unitAmount,
+						discountPercentage: item.discountPercentage,
+						finalAmount: item.finalAmount,
+						attributes: JSON.stringify(item.attributes),
+					})),
+				),
+			]);
+
+			return { token, skippedCount: priced.errors.length };
+		} catch (error) {
+			console.error("Error creating quote:", error);
+			setResponseStatus(500);
+			throw new Error(
+				error instanceof Error ? error.message : "Failed to create quote",
+			);
+		}
+	});
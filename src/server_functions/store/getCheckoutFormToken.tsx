@@ -0,0 +1,9 @@
+import { createServerFn } from "@tanstack/react-start";
+import { issueCheckoutFormToken } from "~/utils/rateLimitMiddleware";
+
+/**
+ * Signed start time and nonce of the checkout form, sent back with createOrder
+ */
+export const getCheckoutFormToken = createServerFn({ method: "GET" }).handler(
+	async () => ({ token: issueCheckoutFormToken() }),
+);
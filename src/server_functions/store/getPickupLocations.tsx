@@ -0,0 +1,20 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { DB } from "~/db";
+import { getPickupLocationsForProducts } from "~/utils/pickupLocations";
+
+/**
+ * Store locations available for pickup of the given cart products
+ */
+export const getPickupLocations = createServerFn({ method: "GET" })
+	.inputValidator((data: { productIds: number[] }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+			return await getPickupLocationsForProducts(db, data.productIds ?? []);
+		} catch (error) {
+			console.error("Error fetching pickup locations:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch pickup locations");
+		}
+	});
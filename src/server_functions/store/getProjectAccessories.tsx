@@ -0,0 +1,150 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { and, desc, eq, inArray, isNotNull } from "drizzle-orm";
+import {
+	isProjectAccessory,
+	PROJECT_ACCESSORIES,
+	type ProjectAccessory,
+} from "~/constants/projectAccessories";
+import { DB } from "~/db";
+import { categories, products } from "~/schema";
+
+const SUGGESTIONS_PER_ACCESSORY = 8;
+
+const estimatorProductColumns = {
+	id: products.id,
+	name: products.name,
+	slug: products.slug,
+	price: products.price,
+	discount: products.discount,
+	images: products.images,
+	unitOfMeasurement: products.unitOfMeasurement,
+	squareMetersPerPack: products.squareMetersPerPack,
+	linearMetersPerPack: products.linearMetersPerPack,
+	hasVariations: products.hasVariations,
+	brandSlug: products.brandSlug,
+	categorySlug: products.categorySlug,
+};
+
+/**
+ * Products for the project estimator: the floor covering it was opened from
+ * (if any) and suggestions for every accessory from the categories marked
+ * for it in the dashboard. Products of the same brand as the floor covering
+ * come first, then the most viewed ones.
+ * Products with variations are left out, a variation can only be picked
+ * on the product page.
+ */
+export const getProjectAccessories = createServerFn({ method: "GET" })
+	.inputValidator((data: { productSlug?: string } = {}) => data)
+	.handler(async ({ data = {} }) => {
+		try {
+			const db = DB();
+
+			const [flooring] = data.productSlug
+				? await db
+						.select(estimatorProductColumns)
+						.from(products)
+						.where(
+							and(
+								eq(products.slug, data.productSlug),
+								eq(products.isActive, true),
+							),
+						)
+						.limit(1)
+				: [];
+
+			// Categories marked in the dashboard and their subcategories
+			const configuredCategories = await db
+				.select({
+					slug: categories.slug,
+					projectAccessory: categories.projectAccessory,
+				})
+				.from(categories)
+				.where(
+					and(
+						eq(categories.isActive, true),
+						isNotNull(categories.projectAccessory),
+					),
+				);
+
+			const configuredAccessory = new Map<string, ProjectAccessory>();
+			for (const category of configuredCategories) {
+				if (isProjectAccessory(category.projectAccessory)) {
+					configuredAccessory.set(category.slug, category.projectAccessory);
+				}
+			}
+
+			const subcategories =
+				configuredAccessory.size > 0
+					? await db
+							.select({
+								slug: categories.slug,
+								parentSlug: categories.parentSlug,
+							})
+							.from(categories)
+							.where(
+								and(
+									eq(categories.isActive, true),
+									inArray(categories.parentSlug, [
+										...configuredAccessory.keys(),
+									]),
+								),
+							)
+					: [];
+
+			// A subcategory marked on its own keeps its own accessory
+			const accessoryByCategory = new Map(configuredAccessory);
+			for (const category of subcategories) {
+				const accessory =
+					category.parentSlug && configuredAccessory.get(category.parentSlug);
+				if (accessory && !accessoryByCategory.has(category.slug)) {
+					accessoryByCategory.set(category.slug, accessory);
+				}
+			}
+
+			const productRows =
+				accessoryByCategory.size > 0
+					? await db
+							.select(estimatorProductColumns)
+							.from(products)
+							.where(
+								and(
+									eq(products.isActive, true),
+									eq(products.hasVariations, false),
+									inArray(products.categorySlug, [
+										...accessoryByCategory.keys(),
+									]),
+								),
+							)
+							.orderBy(desc(products.viewCount), products.name)
+					: [];
+
+			const sameBrandFirst = [...productRows].sort(
+				(a, b) =>
+					Number(b.brandSlug === flooring?.brandSlug) -
+					Number(a.brandSlug === flooring?.brandSlug),
+			);
+
+			const accessories = Object.fromEntries(
+				PROJECT_ACCESSORIES.map((accessory) => [
+					accessory,
+					sameBrandFirst
+						.filter(
+							(product) =>
+								product.categorySlug &&
+								accessoryByCategory.get(product.categorySlug) === accessory,
+						)
+						.slice(0, SUGGESTIONS_PER_ACCESSORY),
+				]),
+			) as Record<ProjectAccessory, typeof productRows>;
+
+			return {
+				flooring: flooring ?? null,
+				accessories,
+			};
+		} catch (error) {
+			console.error("Error fetching project accessories:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch project accessories");
+		}
+	});
@@ -0,0 +1,94 @@
+import { createServerFn } from "@tanstack/react-start";
+import { asc, eq } from "drizzle-orm";
+import { DB } from "~/db";
+import { quoteItems, quotes } from "~/schema";
+import { priceOrderLines } from "~/utils/orderPricing";
+import { getQuoteLineChange, isQuoteToken } from "~/utils/quotes";
+
+/**
+ * Quote page: saved lines next to the current price and availability of each
+ */
+export const getQuote = createServerFn({ method: "GET" })
+	.inputValidator((data: { token: string }) => data)
+	.handler(async ({ data }) => {
+		// Don't set response status - the route turns this into notFound()
+		if (!isQuoteToken(data.token)) {
+			throw new Error("Quote not found");
+		}
+
+		const db = DB();
+
+		const [quote] = await db
+			.select()
+			.from(quotes)
+			.where(eq(quotes.token, data.token))
+			.limit(1);
+
+		if (!quote) {
+			throw new Error("Quote not found");
+		}
+
+		const savedItems = await db
+			.select()
+			.from(quoteItems)
+			.where(eq(quoteItems.quoteId, quote.id))
+			.orderBy(asc(quoteItems.id));
+
+		const lines = savedItems.map((item) => ({
+			productId: item.productId,
+			variationId: item.productVariationId,
+			quantity: item.quantity,
+		}));
+		const priced = await priceOrderLines(db, lines);
+
+		// priceOrderLines keeps the order of the input, but skips invalid lines
+		const currentByKey = new Map(
+			priced.items.map((item) => [
+				`${item.productId}-${item.variationId ?? ""}`,
+				item,
+			]),
+		);
+
+		const items = savedItems.map((item) => {
+			const current =
+				currentByKey.get(
+					`${item.productId}-${item.productVariationId ?? ""}`,
+				) ?? null;
+
+			return {
+				id: item.id,
+				productId: item.productId,
+				variationId: item.productVariationId,
+				quantity: item.quantity,
+				productName: item.productName,
+				unitAmount: item.unitAmount,
+				discountPercentage: item.discountPercentage,
+				finalAmount: item.finalAmount,
+				attributes: (item.attributes
+					? JSON.parse(item.attributes)
+					: {}) as Record<string, string>,
+				change: getQuoteLineChange(item, current),
+				current: current && {
+					productName: current.productName,
+					productSlug: current.productSlug,
+					image: current.image,
+					unitAmount: current.unitAmount,
+					discountPercentage: current.discountPercentage,
+					finalAmount: current.finalAmount,
+					attributes: current.attributes,
+					squareMetersPerPack: current.squareMetersPerPack,
+					unitOfMeasurement: current.unitOfMeasurement,
+				},
+			};
+		});
+
+		return {
+			token: quote.token,
+			title: quote.title,
+			subtotalAmount: quote.subtotalAmount,
+			discountAmount: quote.discountAmount,
+			totalAmount: quote.totalAmount,
+			createdAt: quote.createdAt,
+			items,
+		};
+	});
@@ -0,0 +1,51 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { eq } from "drizzle-orm";
+import { DB } from "~/db";
+import type { Cart } from "~/lib/cartContext";
+import { userCarts } from "~/schema";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { sanitizeCartItems } from "~/utils/userCart";
+
+/**
+ * Saved cart of the signed-in user, null if nothing was saved yet
+ */
+export const getUserCart = createServerFn({ method: "GET" })
+	.middleware([authMiddleware])
+	.handler(async ({ context }): Promise<Cart | null> => {
+		const userId = context?.user?.id;
+		if (!userId) {
+			setResponseStatus(401);
+			throw new Error("Unauthorized");
+		}
+
+		try {
+			const db = DB();
+			const [row] = await db
+				.select()
+				.from(userCarts)
+				.where(eq(userCarts.userId, userId))
+				.limit(1);
+
+			if (!row) {
+				return null;
+			}
+
+			let items: unknown = [];
+			try {
+				items = JSON.parse(row.items);
+			} catch {
+				// A broken row is treated as an empty cart and overwritten on the next save
+			}
+
+			return {
+				items: sanitizeCartItems(items),
+				couponCode: row.couponCode ?? undefined,
+				lastUpdated: row.lastUpdated,
+			};
+		} catch (error) {
+			console.error("Error fetching user cart:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to fetch cart");
+		}
+	});
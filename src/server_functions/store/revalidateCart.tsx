@@ -0,0 +1,75 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { DB } from "~/db";
+import type { CartLineInput, CartLineStatus } from "~/utils/cartRevalidation";
+import {
+	getOrderLineErrorMessage,
+	priceOrderLines,
+} from "~/utils/orderPricing";
+import { USER_CART_MAX_ITEMS } from "~/utils/userCart";
+
+/**
+ * Current price, discount and availability of every cart line,
+ * in the order of the request
+ */
+export const revalidateCart = createServerFn({ method: "POST" })
+	.inputValidator((data: { items: CartLineInput[] }) => data)
+	.handler(async ({ data }): Promise<CartLineStatus[]> => {
+		if (!Array.isArray(data.items) || data.items.length > USER_CART_MAX_ITEMS) {
+			setResponseStatus(400);
+			throw new Error("Invalid cart");
+		}
+
+		try {
+			const db = DB();
+
+			// Quantity doesn't change the unit price, every line is checked as one unit
+			const lines = data.items.map((item) => ({
+				productId: item.productId,
+				variationId: item.variationId ?? null,
+				quantity: 1,
+			}));
+			const priced = await priceOrderLines(db, lines);
+
+			return lines.map((line): CartLineStatus => {
+				const error = priced.errors.find(
+					(e) =>
+						e.productId === line.productId &&
+						e.variationId === line.variationId,
+				);
+				const item = priced.items.find(
+					(i) =>
+						i.productId === line.productId &&
+						i.variationId === line.variationId,
+				);
+
+				if (error || !item) {
+					return {
+						productId: line.productId,
+						variationId: line.variationId,
+						available: false,
+						message: getOrderLineErrorMessage(
+							error?.code ?? "product_inactive",
+						),
+					};
+				}
+
+				return {
+					productId: line.productId,
+					variationId: line.variationId,
+					available: true,
+					productName: item.productName,
+					productSlug: item.productSlug,
+					price: item.unitAmount,
+					discount: item.discountPercentage,
+					image: item.image,
+					squareMetersPerPack: item.squareMetersPerPack,
+					unitOfMeasurement: item.unitOfMeasurement,
+				};
+			});
+		} catch (error) {
+			console.error("Error revalidating cart:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to check cart");
+		}
+	});
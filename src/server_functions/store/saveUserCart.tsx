@@ -0,0 +1,56 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { DB } from "~/db";
+import type { Cart } from "~/lib/cartContext";
+import { userCarts } from "~/schema";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { sanitizeCartItems, USER_CART_MAX_ITEMS } from "~/utils/userCart";
+
+/**
+ * Replace the signed-in user's saved cart with the cart from the browser
+ */
+export const saveUserCart = createServerFn({ method: "POST" })
+	.middleware([authMiddleware])
+	.inputValidator(
+		(data: Pick<Cart, "items" | "couponCode" | "lastUpdated">) => data,
+	)
+	.handler(async ({ data, context }) => {
+		const userId = context?.user?.id;
+		if (!userId) {
+			setResponseStatus(401);
+			throw new Error("Unauthorized");
+		}
+
+		if (!Array.isArray(data.items) || data.items.length > USER_CART_MAX_ITEMS) {
+			setResponseStatus(400);
+			throw new Error("Invalid cart");
+		}
+		if (!Number.isFinite(data.lastUpdated)) {
+			setResponseStatus(400);
+			throw new Error("Invalid cart timestamp");
+		}
+
+		try {
+			const db = DB();
+			const values = {
+				items: JSON.stringify(sanitizeCartItems(data.items)),
+				couponCode:
+					typeof data.couponCode === "string" && data.couponCode.trim()
+						? data.couponCode.trim().toUpperCase()
+						: null,
+				lastUpdated: data.lastUpdated,
+				updatedAt: new Date(),
+			};
+
+			await db
+				.insert(userCarts)
+				.values({ userId, ...values })
+				.onConflictDoUpdate({ target: userCarts.userId, set: values });
+
+			return { success: true };
+		} catch (error) {
+			console.error("Error saving user cart:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to save cart");
+		}
+	});
@@ -0,0 +1,40 @@
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { DB } from "~/db";
+import { applyCoupon } from "~/utils/coupons";
+import { type OrderLineInput, priceOrderLines } from "~/utils/orderPricing";
+
+/**
+ * Preview a promo code for the cart.
+ * The discount is calculated again by createOrder when the order is placed.
+ */
+export const validateCoupon = createServerFn({ method: "POST" })
+	.inputValidator((data: { code: string; items: OrderLineInput[] }) => data)
+	.handler(async ({ data }) => {
+		try {
+			const db = DB();
+
+			if (!data.code?.trim()) {
+				return { success: false as const, message: "Введите промокод" };
+			}
+
+			// Invalid lines are reported by createOrder, here they just don't count
+			const priced = await priceOrderLines(db, data.items ?? []);
+			const result = await applyCoupon(db, data.code, priced.items);
+
+			if (!result.success) {
+				return { success: false as const, message: result.message };
+			}
+
+			return {
+				success: true as const,
+				code: result.coupon.code,
+				description: result.coupon.description,
+				discountAmount: result.discountAmount,
+			};
+		} catch (error) {
+			console.error("Error validating coupon:", error);
+			setResponseStatus(500);
+			throw new Error("Failed to validate coupon");
+		}
+	});
@@ -3,12 +3,19 @@ import type {
 	brands,
 	categories,
 	collections,
+	coupons,
+	orderComments,
 	orderItems,
+	orderReturnItems,
+	orderReturns,
+	orderStatusHistory,
 	orders,
 	productAttributes,
-	products,
 	productStoreLocations,
+	products,
 	productVariations,
+	quoteItems,
+	quotes,
 } from "~/schema";
 
 // Products
@@ -93,6 +100,10 @@ export interface NewVariationAttribute {
 	value: string;
 }
 
+// Coupons
+export type Coupon = InferSelectModel<typeof coupons>;
+export type NewCoupon = InferInsertModel<typeof coupons>;
+
 // Orders
 export type Order = InferSelectModel<typeof orders>;
 export type NewOrder = InferInsertModel<typeof orders>;
@@ -101,6 +112,25 @@ export type NewOrder = InferInsertModel<typeof orders>;
 export type OrderItem = InferSelectModel<typeof orderItems>;
 export type NewOrderItem = InferInsertModel<typeof orderItems>;
 
+// Order Status History
+export type OrderStatusHistoryEntry = InferSelectModel<
+	typeof orderStatusHistory
+>;
+export type NewOrderStatusHistoryEntry = InferInsertModel<
+	typeof orderStatusHistory
+>;
+
+// Order Comments
+export type OrderComment = InferSelectModel<typeof orderComments>;
+
+// Order Returns
+export type OrderReturn = InferSelectModel<typeof orderReturns>;
+export type OrderReturnItem = InferSelectModel<typeof orderReturnItems>;
+
+// Saved Quotes
+export type Quote = InferSelectModel<typeof quotes>;
+export type QuoteItem = InferSelectModel<typeof quoteItems>;
+
 // Form data types for frontend components
 export interface ProductFormData {
 	name: string;
@@ -111,6 +141,7 @@ export interface ProductFormData {
 	tags?: string[]; // Теги для категоризации товаров - опционально
 	price: string;
 	squareMetersPerPack?: string; // For flooring products: area coverage per pack
+	linearMetersPerPack?: string; // For plinths, thresholds: length of one piece or pack
 	unitOfMeasurement: string; // Единица количества: погонный метр, квадратный метр, литр, штука, упаковка
 	categorySlug: string;
 	brandSlug: string | null;
@@ -153,6 +184,7 @@ export interface CategoryFormData {
 	image: string;
 	isActive: boolean;
 	order?: number;
+	projectAccessory?: string | null; // See ~/constants/projectAccessories
 	[key: string]: unknown; // Allow additional fields for EntityFormData compatibility
 }
 
@@ -175,6 +207,21 @@ export interface CollectionFormData {
 	[key: string]: unknown; // Allow additional fields for EntityFormData compatibility
 }
 
+// Numbers and dates are kept as strings while editing, empty string = not set
+export interface CouponFormData {
+	code: string;
+	description: string;
+	discountType: string;
+	discountValue: string;
+	minOrderAmount: string;
+	brandSlugs: string[];
+	categorySlugs: string[];
+	usageLimit: string;
+	startsAt: string; // YYYY-MM-DD
+	expiresAt: string; // YYYY-MM-DD
+	isActive: boolean;
+}
+
 export interface StoreLocationFormData {
 	address: string;
 	description: string;
@@ -0,0 +1,22 @@
+import { createMiddleware } from "@tanstack/react-start";
+import { authMiddleware } from "~/utils/auth-middleware";
+import { isAdminEmail } from "~/utils/auth-server-func";
+import { httpError } from "~/utils/httpError";
+
+/**
+ * Dashboard server functions: rejects anonymous (401) and non-admin (403)
+ * requests and passes the normalized admin email on for audit fields
+ */
+export const adminMiddleware = createMiddleware()
+	.middleware([authMiddleware])
+	.server(async ({ next, context }) => {
+		const adminEmail = context?.user?.email?.trim().toLowerCase() ?? null;
+		if (!context?.user?.id || !adminEmail) {
+			throw httpError(401, "Unauthorized");
+		}
+		if (!isAdminEmail(adminEmail)) {
+			throw httpError(403, "Forbidden");
+		}
+
+		return next({ context: { adminEmail } });
+	});
@@ -20,7 +20,7 @@ type AuthContext = {
  * @param userEmail - The user's email address (normalized)
  * @returns true if the email matches any admin email, false otherwise
  */
-function isAdminEmail(userEmail: string | null): boolean {
+export function isAdminEmail(userEmail: string | null): boolean {
 	if (!userEmail) {
 		return false;
 	}
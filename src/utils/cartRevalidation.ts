@@ -0,0 +1,109 @@
+import type { CartItem } from "~/lib/cartContext";
+
+/**
+ * Cart revalidation
+ *
+ * Cart items keep the price, discount, name and images from the moment they
+ * were added (cookie and server cart). Before checkout the lines are checked
+ * against the catalog (revalidateCart) and the differences are shown to the
+ * customer instead of silently changing the total.
+ */
+
+export interface CartLineInput {
+	productId: number;
+	variationId?: number | null;
+}
+
+export type CartLineStatus = {
+	productId: number;
+	variationId: number | null;
+} & (
+	| {
+			available: true;
+			productName: string;
+			productSlug: string;
+			price: number; // Base price per unit (pack for flooring) before discount
+			discount: number | null;
+			image: string | null;
+			squareMetersPerPack: number | null;
+			unitOfMeasurement: string | null;
+	  }
+	| { available: false; message: string }
+);
+
+export type CartItemChange =
+	| { type: "price_changed"; from: number; to: number } // Unit price after discount
+	| { type: "unavailable"; message: string };
+
+export const getCartLineKey = (line: CartLineInput) =>
+	`${line.productId}-${line.variationId ?? ""}`;
+
+const getUnitPrice = (price: number, discount?: number | null) =>
+	discount ? price * (1 - discount / 100) : price;
+
+/**
+ * Differences between the cart and the catalog, by getCartLineKey.
+ * Lines without a status (not checked yet) have no changes.
+ */
+export function getCartChanges(
+	items: CartItem[],
+	statuses: CartLineStatus[],
+): Map<string, CartItemChange> {
+	const statusByKey = new Map(
+		statuses.map((status) => [getCartLineKey(status), status]),
+	);
+	const changes = new Map<string, CartItemChange>();
+
+	for (const item of items) {
+		const key = getCartLineKey(item);
+		const status = statusByKey.get(key);
+		// Items restored without display data are filled in by CartProvider
+		if (!status || !item.productName) continue;
+
+		if (!status.available) {
+			changes.set(key, { type: "unavailable", message: status.message });
+			continue;
+		}
+
+		const from = getUnitPrice(item.price, item.discount);
+		const to = getUnitPrice(status.price, status.discount);
+		if (Math.abs(from - to) >= 0.005) {
+			changes.set(key, { type: "price_changed", from, to });
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Cart items with the catalog data, unavailable items removed
+ */
+export function applyCartLineStatuses(
+	items: CartItem[],
+	statuses: CartLineStatus[],
+	now = Date.now(),
+): CartItem[] {
+	const statusByKey = new Map(
+		statuses.map((status) => [getCartLineKey(status), status]),
+	);
+
+	return items.flatMap((item) => {
+		const status = statusByKey.get(getCartLineKey(item));
+		if (!status) return [item];
+		if (!status.available) return [];
+
+		return [
+			{
+				...item,
+				productName: status.productName,
+				productSlug: status.productSlug,
+				price: status.price,
+				discount: status.discount,
+				images: status.image ?? item.images,
+				squareMetersPerPack: status.squareMetersPerPack,
+				unitOfMeasurement: status.unitOfMeasurement,
+				cachedAt: now,
+			},
+		];
+	});
+}
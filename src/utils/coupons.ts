@@ -0,0 +1,327 @@
+import { and, eq, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import { isCouponDiscountType } from "~/constants/couponTypes";
+import { getDescendantSlugs } from "~/lib/categoryTree";
+import type * as schema from "~/schema";
+import { categories, coupons, products } from "~/schema";
+import type { Coupon, CouponFormData, NewCoupon } from "~/types";
+import type { PricedOrderLine } from "~/utils/orderPricing";
+import { getStoreDayEnd, parseStoreDate } from "~/utils/storeDate";
+
+/**
+ * Promo codes
+ *
+ * A coupon gives a percent or fixed discount on top of product discounts.
+ * It can be limited to brands and categories (subcategories included),
+ * require a minimum items total, run between two dates and be used a limited
+ * number of times. The checkout only previews the discount; createOrder
+ * evaluates the coupon again and reserves a use when the order is placed.
+ */
+
+export type CouponErrorCode =
+	| "not_found"
+	| "inactive"
+	| "not_started"
+	| "expired"
+	| "usage_limit"
+	| "min_order"
+	| "not_applicable";
+
+export interface CouponFailure {
+	success: false;
+	code: CouponErrorCode;
+	message: string;
+}
+
+export type CouponEvaluation =
+	| {
+			success: true;
+			discountAmount: number;
+			eligibleAmount: number; // Items total the coupon applies to
+	  }
+	| CouponFailure;
+
+export type AppliedCoupon =
+	| {
+			success: true;
+			coupon: Coupon;
+			discountAmount: number;
+			eligibleAmount: number;
+	  }
+	| CouponFailure;
+
+export interface CouponLine {
+	brandSlug: string | null;
+	categorySlug: string | null;
+	finalAmount: number; // Line total after product discount
+}
+
+export interface CouponScope {
+	brandSlugs: string[]; // Empty = all brands
+	categorySlugs: string[]; // Empty = all categories, already expanded with subcategories
+}
+
+const ERROR_MESSAGES: Record<CouponErrorCode, string> = {
+	not_found: "Промокод не найден",
+	inactive: "Промокод больше не действует",
+	not_started: "Промокод ещё не действует",
+	expired: "Срок действия промокода истёк",
+	usage_limit: "Промокод уже использован максимальное количество раз",
+	min_order: "Сумма заказа меньше минимальной для промокода",
+	not_applicable: "Промокод не распространяется на товары в корзине",
+};
+
+const couponError = (code: CouponErrorCode): CouponFailure => ({
+	success: false,
+	code,
+	message: ERROR_MESSAGES[code],
+});
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type CouponValues = Omit<NewCoupon, "id" | "usageCount" | "createdAt">;
+
+/**
+ * Validate the dashboard form and convert it to column values.
+ * The expiry date is inclusive: the coupon works until the end of that day.
+ */
+export function parseCouponFormData(
+	data: CouponFormData,
+): { success: true; values: CouponValues } | { success: false; error: string } {
+	const code = normalizeCouponCode(data.code ?? "");
+	if (!COUPON_CODE_PATTERN.test(code)) {
+		return {
+			success: false,
+			error:
+				"Код: 3–32 символа, латинские буквы, цифры, дефис или подчёркивание",
+		};
+	}
+
+	if (!isCouponDiscountType(data.discountType)) {
+		return { success: false, error: "Неверный тип скидки" };
+	}
+
+	const discountValue = Number(data.discountValue);
+	if (!Number.isFinite(discountValue) || discountValue <= 0) {
+		return { success: false, error: "Размер скидки должен быть больше нуля" };
+	}
+	if (data.discountType === "percent" && discountValue > 100) {
+		return { success: false, error: "Скидка не может быть больше 100%" };
+	}
+
+	const minOrderAmount = data.minOrderAmount
+		? Number(data.minOrderAmount)
+		: null;
+	if (
+		minOrderAmount !== null &&
+		(!Number.isFinite(minOrderAmount) || minOrderAmount < 0)
+	) {
+		return { success: false, error: "Некорректная минимальная сумма заказа" };
+	}
+
+	const usageLimit = data.usageLimit ? Number(data.usageLimit) : null;
+	if (
+		usageLimit !== null &&
+		(!Number.isInteger(usageLimit) || usageLimit <= 0)
+	) {
+		return { success: false, error: "Некорректный лимит использований" };
+	}
+
+	for (const date of [data.startsAt, data.expiresAt]) {
+		if (date && !DATE_PATTERN.test(date)) {
+			return { success: false, error: "Неверный формат даты" };
+		}
+	}
+	const startsAt = data.startsAt ? parseStoreDate(data.startsAt) : null;
+	const expiresAt = data.expiresAt ? getStoreDayEnd(data.expiresAt) : null;
+	if (startsAt && expiresAt && startsAt >= expiresAt) {
+		return { success: false, error: "Дата начала позже даты окончания" };
+	}
+
+	return {
+		success: true,
+		values: {
+			code,
+			description: data.description?.trim() || null,
+			discountType: data.discountType,
+			discountValue,
+			minOrderAmount,
+			brandSlugs: data.brandSlugs?.length
+				? JSON.stringify(data.brandSlugs)
+				: null,
+			categorySlugs: data.categorySlugs?.length
+				? JSON.stringify(data.categorySlugs)
+				: null,
+			usageLimit,
+			startsAt,
+			expiresAt,
+			isActive: data.isActive ?? true,
+		},
+	};
+}
+
+export function parseCouponScope(value: string | null): string[] {
+	if (!value) return [];
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed)
+			? parsed.filter((slug): slug is string => typeof slug === "string")
+			: [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Check the coupon against the order lines and calculate its discount.
+ * Pure function so the same rules apply to the checkout preview and to createOrder.
+ */
+export function evaluateCoupon(
+	coupon: Coupon,
+	lines: CouponLine[],
+	scope: CouponScope,
+	now: Date = new Date(),
+): CouponEvaluation {
+	if (!coupon.isActive) return couponError("inactive");
+	if (coupon.startsAt && coupon.startsAt > now) {
+		return couponError("not_started");
+	}
+	if (coupon.expiresAt && coupon.expiresAt <= now) {
+		return couponError("expired");
+	}
+	if (coupon.usageLimit !== null && coupon.usageCount >= coupon.usageLimit) {
+		return couponError("usage_limit");
+	}
+
+	const itemsTotal = lines.reduce((sum, line) => sum + line.finalAmount, 0);
+	if (coupon.minOrderAmount !== null && itemsTotal < coupon.minOrderAmount) {
+		return {
+			...couponError("min_order"),
+			message: `${ERROR_MESSAGES.min_order}: ${coupon.minOrderAmount} р`,
+		};
+	}
+
+	const eligibleAmount = lines
+		.filter(
+			(line) =>
+				(scope.brandSlugs.length === 0 ||
+					(line.brandSlug !== null &&
+						scope.brandSlugs.includes(line.brandSlug))) &&
+				(scope.categorySlugs.length === 0 ||
+					(line.categorySlug !== null &&
+						scope.categorySlugs.includes(line.categorySlug))),
+		)
+		.reduce((sum, line) => sum + line.finalAmount, 0);
+
+	if (eligibleAmount <= 0) return couponError("not_applicable");
+
+	const discountAmount =
+		coupon.discountType === "percent"
+			? eligibleAmount * (Math.min(coupon.discountValue, 100) / 100)
+			: Math.min(coupon.discountValue, eligibleAmount);
+
+	return {
+		success: true,
+		discountAmount: roundMoney(discountAmount),
+		eligibleAmount: roundMoney(eligibleAmount),
+	};
+}
+
+/**
+ * Load the coupon by code and evaluate it for lines priced by priceOrderLines
+ */
+export async function applyCoupon(
+	db: SqliteRemoteDatabase<typeof schema>,
+	code: string,
+	items: PricedOrderLine[],
+): Promise<AppliedCoupon> {
+	const [coupon] = await db
+		.select()
+		.from(coupons)
+		.where(eq(coupons.code, normalizeCouponCode(code)))
+		.limit(1);
+
+	if (!coupon) return couponError("not_found");
+
+	const brandSlugs = parseCouponScope(coupon.brandSlugs);
+	const scopedCategorySlugs = parseCouponScope(coupon.categorySlugs);
+
+	const productIds = [...new Set(items.map((item) => item.productId))];
+	const [productRows, categoryRows] = await Promise.all([
+		productIds.length > 0
+			? db
+					.select({
+						id: products.id,
+						brandSlug: products.brandSlug,
+						categorySlug: products.categorySlug,
+					})
+					.from(products)
+					.where(inArray(products.id, productIds))
+			: Promise.resolve([]),
+		scopedCategorySlugs.length > 0
+			? db.select().from(categories)
+			: Promise.resolve([]),
+	]);
+	const productMap = new Map(productRows.map((row) => [row.id, row]));
+
+	const categorySlugs = scopedCategorySlugs.flatMap((slug) => [
+		slug,
+		...getDescendantSlugs(slug, categoryRows),
+	]);
+
+	const evaluation = evaluateCoupon(
+		coupon,
+		items.map((item) => ({
+			brandSlug: productMap.get(item.productId)?.brandSlug ?? null,
+			categorySlug: productMap.get(item.productId)?.categorySlug ?? null,
+			finalAmount: item.finalAmount,
+		})),
+		{ brandSlugs, categorySlugs },
+	);
+
+	return evaluation.success ? { ...evaluation, coupon } : evaluation;
+}
+
+/**
+ * Count one use of the coupon. The limit is checked in the same UPDATE,
+ * so two orders placed at once can't both take the last use.
+ * Returns false when the limit has been reached.
+ */
+export async function reserveCouponUse(
+	db: SqliteRemoteDatabase<typeof schema>,
+	couponId: number,
+): Promise<boolean> {
+	const updated = await db
+		.update(coupons)
+		.set({ usageCount: sql`${coupons.usageCount} + 1` })
+		.where(
+			and(
+				eq(coupons.id, couponId),
+				or(
+					isNull(coupons.usageLimit),
+					lt(coupons.usageCount, coupons.usageLimit),
+				),
+			),
+		)
+		.returning({ id: coupons.id });
+
+	return updated.length > 0;
+}
+
+/**
+ * Give back a use reserved for an order that wasn't created
+ */
+export async function releaseCouponUse(
+	db: SqliteRemoteDatabase<typeof schema>,
+	couponId: number,
+): Promise<void> {
+	await db
+		.update(coupons)
+		.set({ usageCount: sql`max(${coupons.usageCount} - 1, 0)` })
+		.where(eq(coupons.id, couponId));
+}
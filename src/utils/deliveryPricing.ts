@@ -0,0 +1,107 @@
+import {
+	type DeliveryZoneId,
+	getDeliveryZone,
+} from "~/constants/deliveryZones";
+
+/**
+ * Delivery pricing
+ *
+ * Used by checkout for the estimate and by order creation for the stored amount,
+ * so both always agree. The server never trusts a price sent by the browser,
+ * but the distance for per-km zones is typed in by the customer: it is only
+ * checked against the zone's limit here. Such orders are saved with
+ * deliveryNeedsReview, and a manager has to confirm the distance against the
+ * delivery address before the order can be shipped.
+ */
+
+export interface DeliveryRequest {
+	zoneId: DeliveryZoneId | string;
+	distanceKm?: number | null; // Only for zones with a per-km rate, entered by the customer
+}
+
+export interface DeliveryBreakdown {
+	zoneId: DeliveryZoneId;
+	zoneName: string;
+	baseAmount: number;
+	distanceKm: number | null;
+	perKmAmount: number;
+	distanceAmount: number;
+	totalAmount: number;
+}
+
+export type DeliveryCalculation =
+	| { success: true; breakdown: DeliveryBreakdown }
+	| { success: false; error: string };
+
+export function calculateDelivery(
+	request: DeliveryRequest,
+): DeliveryCalculation {
+	const zone = getDeliveryZone(request.zoneId);
+	if (!zone) {
+		return { success: false, error: "Выберите зону доставки" };
+	}
+
+	let distanceKm: number | null = null;
+	if (zone.perKmAmount > 0) {
+		const distance = Number(request.distanceKm);
+		if (!Number.isFinite(distance) || distance <= 0) {
+			return {
+				success: false,
+				error: "Укажите расстояние от Владивостока в километрах",
+			};
+		}
+		if (distance > zone.maxDistanceKm) {
+			return {
+				success: false,
+				error: `Зона «${zone.name}» — до ${zone.maxDistanceKm} км от Владивостока, уточните стоимость у менеджера`,
+			};
+		}
+		// Every started kilometre is charged
+		distanceKm = Math.ceil(distance);
+	}
+
+	const distanceAmount = distanceKm ? distanceKm * zone.perKmAmount : 0;
+
+	return {
+		success: true,
+		breakdown: {
+			zoneId: zone.id as DeliveryZoneId,
+			zoneName: zone.name,
+			baseAmount: zone.baseAmount,
+			distanceKm,
+			perKmAmount: zone.perKmAmount,
+			distanceAmount,
+			totalAmount: zone.baseAmount + distanceAmount,
+		},
+	};
+}
+
+/**
+ * Parse the breakdown stored on an order (JSON in orders.shippingBreakdown)
+ */
+export function parseDeliveryBreakdown(
+	value: string | null | undefined,
+): DeliveryBreakdown | null {
+	if (!value) return null;
+	try {
+		return JSON.parse(value) as DeliveryBreakdown;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * A customer-entered distance has to be confirmed by a manager
+ */
+export const needsDeliveryReview = (breakdown: DeliveryBreakdown | null) =>
+	breakdown?.distanceKm != null;
+
+// Statuses an order can't reach while its delivery distance is unconfirmed
+const DELIVERY_REVIEW_BLOCKED_STATUSES = ["shipped", "delivered"];
+
+export const isBlockedByDeliveryReview = (
+	order: { deliveryNeedsReview: boolean },
+	status: string,
+) =>
+	order.deliveryNeedsReview &&
+	DELIVERY_REVIEW_BLOCKED_STATUSES.includes(status);
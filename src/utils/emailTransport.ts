@@ -0,0 +1,75 @@
+import { Resend } from "resend";
+import { env } from "~/utils/env";
+
+/**
+ * Email Transport
+ *
+ * Thin wrapper around the email provider so server functions don't talk to Resend directly.
+ * Set EMAIL_TRANSPORT=noop to log emails to the console instead of sending them
+ * (used automatically in development when RESEND_API_KEY is missing).
+ */
+
+export interface EmailMessage {
+	from: string;
+	to: string;
+	subject: string;
+	html: string;
+}
+
+export interface EmailSendResult {
+	id?: string;
+	error?: string;
+}
+
+export interface EmailTransport {
+	name: string;
+	send: (message: EmailMessage) => Promise<EmailSendResult>;
+}
+
+export const EMAIL_FROM = "store@rublevsky.studio";
+
+function createResendTransport(apiKey: string): EmailTransport {
+	const resend = new Resend(apiKey);
+
+	return {
+		name: "resend",
+		send: async (message) => {
+			const response = await resend.emails.send(message);
+			if (response.error) {
+				return { error: response.error.message };
+			}
+			return { id: response.data?.id };
+		},
+	};
+}
+
+const noopTransport: EmailTransport = {
+	name: "noop",
+	send: async (message) => {
+		console.log(
+			`[email:noop] to=${message.to} subject="${message.subject}" (${message.html.length} chars)`,
+		);
+		return { id: `noop-${Date.now()}` };
+	},
+};
+
+/**
+ * Pick the transport for the current environment.
+ * Production without an API key is a configuration error and throws.
+ */
+export function getEmailTransport(): EmailTransport {
+	if (env.EMAIL_TRANSPORT === "noop") {
+		return noopTransport;
+	}
+
+	if (env.RESEND_API_KEY) {
+		return createResendTransport(env.RESEND_API_KEY);
+	}
+
+	if (process.env.NODE_ENV !== "production") {
+		return noopTransport;
+	}
+
+	console.error("RESEND_API_KEY not found or empty");
+	throw new Error("Email service configuration error - API key not found");
+}
@@ -57,6 +57,24 @@ export const env = {
 
 	// Email
 	RESEND_API_KEY: getEnvOptional("RESEND_API_KEY"),
+	EMAIL_TRANSPORT: getEnvOptional("EMAIL_TRANSPORT"), // "noop" logs emails instead of sending
+
+	// Online payments
+	PAYMENT_PROVIDER: getEnvOptional("PAYMENT_PROVIDER"), // "mock" works offline, default outside production
+	MOCK_PAYMENT_SECRET: getEnvOptional("MOCK_PAYMENT_SECRET"), // Signs mock webhooks
+
+	// Checkout anti-spam
+	RATE_LIMIT_STORE: getEnvOptional("RATE_LIMIT_STORE"), // "memory" or "database", memory by default outside production
+	TRUST_PROXY: getEnvOptional("TRUST_PROXY"), // "true" behind a proxy that sets X-Forwarded-For, always trusted on Vercel
+
+	// Company requisites for invoices (ИНН, КПП, банк) - not stored in the repo
+	COMPANY_INN: getEnvOptional("COMPANY_INN"),
+	COMPANY_KPP: getEnvOptional("COMPANY_KPP"),
+	COMPANY_OGRN: getEnvOptional("COMPANY_OGRN"),
+	COMPANY_BANK_NAME: getEnvOptional("COMPANY_BANK_NAME"),
+	COMPANY_BANK_BIK: getEnvOptional("COMPANY_BANK_BIK"),
+	COMPANY_BANK_ACCOUNT: getEnvOptional("COMPANY_BANK_ACCOUNT"),
+	COMPANY_BANK_CORR_ACCOUNT: getEnvOptional("COMPANY_BANK_CORR_ACCOUNT"),
 
 	// Turso Database
 	TURSO_DATABASE_URL: getEnvOptional("TURSO_DATABASE_URL"),
@@ -0,0 +1,16 @@
+/**
+ * Save a base64 payload returned by a server function as a file in the browser
+ */
+export function downloadBase64File(
+	base64: string,
+	fileName: string,
+	mimeType: string,
+) {
+	const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+	const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
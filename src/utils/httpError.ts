@@ -0,0 +1,20 @@
+import { setResponseStatus } from "@tanstack/react-start/server";
+
+/**
+ * Error whose response status is already set. Catch-all blocks rethrow it
+ * as is, so a 404 thrown inside a try doesn't turn into a 500.
+ */
+export class HttpError extends Error {
+	constructor(
+		readonly status: number,
+		message: string,
+	) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
+export function httpError(status: number, message: string): HttpError {
+	setResponseStatus(status);
+	return new HttpError(status, message);
+}
@@ -0,0 +1,28 @@
+import { eq, type SQL } from "drizzle-orm";
+import { orders } from "~/schema";
+import { isAdminEmail } from "~/utils/auth-server-func";
+import { isNumericOrderId, isOrderToken } from "~/utils/orderToken";
+
+/**
+ * Build the WHERE condition for a customer-facing order lookup.
+ * Public tokens work for everyone, numeric IDs only for admins
+ * (IDs are sequential and would let anyone walk through other customers' orders).
+ * Returns undefined when the caller isn't allowed to look the order up.
+ */
+export function getOrderLookupCondition(
+	orderId: string,
+	userEmail: string | null | undefined,
+): SQL | undefined {
+	if (isOrderToken(orderId)) {
+		return eq(orders.publicToken, orderId);
+	}
+
+	if (isNumericOrderId(orderId)) {
+		const normalizedEmail = userEmail?.trim().toLowerCase() ?? null;
+		if (isAdminEmail(normalizedEmail)) {
+			return eq(orders.id, parseInt(orderId, 10));
+		}
+	}
+
+	return undefined;
+}
@@ -0,0 +1,67 @@
+import type { OrderComment } from "~/types";
+
+/**
+ * Internal order comments
+ *
+ * Managers' notes on an order ("called the customer, delivery on Friday").
+ * Only dashboard server functions read them, the public order page never does.
+ * Threads are one level deep: a reply to a reply is attached to the top comment.
+ */
+
+export const ORDER_COMMENT_MAX_LENGTH = 2000;
+
+export interface OrderCommentView extends OrderComment {
+	canEdit: boolean; // Only the author can edit a comment
+}
+
+export interface OrderCommentThread extends OrderCommentView {
+	replies: OrderCommentView[];
+}
+
+export interface OrderCommentSummary {
+	count: number;
+	latest: Pick<OrderComment, "authorEmail" | "body" | "createdAt">;
+}
+
+export function validateCommentBody(
+	body: unknown,
+): { success: true; body: string } | { success: false; error: string } {
+	const trimmed = typeof body === "string" ? body.trim() : "";
+	if (!trimmed) {
+		return { success: false, error: "Комментарий не может быть пустым" };
+	}
+	if (trimmed.length > ORDER_COMMENT_MAX_LENGTH) {
+		return {
+			success: false,
+			error: `Комментарий длиннее ${ORDER_COMMENT_MAX_LENGTH} символов`,
+		};
+	}
+	return { success: true, body: trimmed };
+}
+
+/**
+ * Group comments (oldest first) into threads
+ */
+export function buildCommentThreads(
+	comments: OrderComment[],
+	userEmail: string | null,
+): OrderCommentThread[] {
+	const threads = new Map<number, OrderCommentThread>();
+	const replies: OrderCommentView[] = [];
+
+	for (const comment of comments) {
+		const view = { ...comment, canEdit: comment.authorEmail === userEmail };
+		if (comment.parentId === null) {
+			threads.set(comment.id, { ...view, replies: [] });
+		} else {
+			replies.push(view);
+		}
+	}
+
+	for (const reply of replies) {
+		// The parent is deleted together with its replies, so it's always there
+		threads.get(reply.parentId as number)?.replies.push(reply);
+	}
+
+	return Array.from(threads.values());
+}
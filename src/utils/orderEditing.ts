@@ -0,0 +1,131 @@
+import { isOrderEditable } from "~/constants/orderStatuses";
+
+/**
+ * Admin order editing
+ *
+ * The drawer sends the full list of items the order should contain.
+ * Existing lines are referenced by `id` and keep the price they were ordered at
+ * unless the variation changes; new and substituted lines are priced from the
+ * catalogue by priceOrderLines. Every saved edit is written to order_audit_log.
+ * A promo code discount stays the amount fixed when the order was placed.
+ * Items of a paid order stay as they are: the customer paid for that total.
+ */
+
+export interface OrderItemEditInput {
+	id?: number; // Existing order item, omitted for new lines
+	productId: number;
+	variationId?: number | null;
+	quantity: number;
+}
+
+export type OrderItemChange =
+	| {
+			type: "added" | "removed";
+			productName: string;
+			sku: string | null;
+			quantity: number;
+	  }
+	| {
+			type: "quantity";
+			productName: string;
+			sku: string | null;
+			from: number;
+			to: number;
+	  }
+	| {
+			type: "variation";
+			productName: string;
+			fromSku: string | null;
+			toSku: string | null;
+	  };
+
+export interface OrderAmounts {
+	subtotalAmount: number;
+	discountAmount: number;
+	totalAmount: number;
+}
+
+// Stored in order_audit_log.changes for "items_updated"
+export interface OrderItemsAuditChanges {
+	items: OrderItemChange[];
+	before: OrderAmounts;
+	after: OrderAmounts;
+}
+
+interface PricedLine {
+	unitAmount: number;
+	discountPercentage: number | null;
+	quantity: number;
+}
+
+export function calculateLineAmounts(line: PricedLine) {
+	const subtotalAmount = line.unitAmount * line.quantity;
+	const discountAmount = line.discountPercentage
+		? subtotalAmount * (line.discountPercentage / 100)
+		: 0;
+	return {
+		subtotalAmount,
+		discountAmount,
+		finalAmount: subtotalAmount - discountAmount,
+	};
+}
+
+/**
+ * Order totals from its lines. Shipping is kept as is: it depends on the
+ * delivery zone and distance, not on the items.
+ */
+export function calculateOrderAmounts(
+	lines: PricedLine[],
+	shippingAmount: number,
+	couponDiscountAmount = 0,
+): OrderAmounts {
+	let subtotalAmount = 0;
+	let discountAmount = 0;
+	for (const line of lines) {
+		const amounts = calculateLineAmounts(line);
+		subtotalAmount += amounts.subtotalAmount;
+		discountAmount += amounts.discountAmount;
+	}
+	// The coupon can't make the items cost less than zero
+	discountAmount += Math.min(
+		couponDiscountAmount,
+		subtotalAmount - discountAmount,
+	);
+	return {
+		subtotalAmount,
+		discountAmount,
+		totalAmount: subtotalAmount - discountAmount + shippingAmount,
+	};
+}
+
+export function parseOrderItemsAuditChanges(
+	changes: string | null,
+): OrderItemsAuditChanges | null {
+	if (!changes) return null;
+	try {
+		return JSON.parse(changes) as OrderItemsAuditChanges;
+	} catch {
+		return null;
+	}
+}
+
+const withSku = (productName: string, sku: string | null) =>
+	sku ? `${productName} (${sku})` : productName;
+
+export function describeOrderItemChange(change: OrderItemChange): string {
+	switch (change.type) {
+		case "added":
+			return `Добавлен: ${withSku(change.productName, change.sku)} × ${change.quantity}`;
+		case "removed":
+			return `Удалён: ${withSku(change.productName, change.sku)} × ${change.quantity}`;
+		case "quantity":
+			return `${withSku(change.productName, change.sku)}: количество ${change.from} → ${change.to}`;
+		case "variation":
+			return `${change.productName}: вариант ${change.fromSku ?? "—"} → ${change.toSku ?? "—"}`;
+	}
+}
+
+export const canEditOrderItems = (order: {
+	status: string;
+	paymentStatus: string;
+}) => isOrderEditable(order.status) && order.paymentStatus !== "paid";
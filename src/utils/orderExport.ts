@@ -0,0 +1,141 @@
+import ExcelJS from "exceljs";
+
+export interface OrderExportItemRow {
+	orderId: number;
+	orderDate: string;
+	status: string;
+	customerName: string;
+	customerPhone: string;
+	productName: string;
+	sku: string;
+	attributes: string;
+	quantity: number;
+	unit: string;
+	area: number | string; // m² of pack lines, empty otherwise
+	unitAmount: number;
+	discountPercentage: number;
+	finalAmount: number;
+}
+
+export interface OrderExportSummaryRow {
+	orderId: number;
+	orderDate: string;
+	status: string;
+	customerName: string;
+	customerPhone: string;
+	customerEmail: string;
+	itemCount: number;
+	subtotalAmount: number;
+	discountAmount: number;
+	shippingAmount: number;
+	totalAmount: number;
+	paymentMethod: string;
+	paymentStatus: string;
+	fulfillment: string;
+}
+
+interface ExportColumn<Row> {
+	key: keyof Row & string;
+	header: string;
+	width: number;
+	money?: boolean;
+}
+
+const ITEM_COLUMNS: ExportColumn<OrderExportItemRow>[] = [
+	{ key: "orderId", header: "Заказ", width: 10 },
+	{ key: "orderDate", header: "Дата", width: 18 },
+	{ key: "status", header: "Статус", width: 14 },
+	{ key: "customerName", header: "Клиент", width: 24 },
+	{ key: "customerPhone", header: "Телефон", width: 18 },
+	{ key: "productName", header: "Товар", width: 40 },
+	{ key: "sku", header: "Артикул", width: 16 },
+	{ key: "attributes", header: "Атрибуты", width: 30 },
+	{ key: "quantity", header: "Кол-во", width: 10 },
+	{ key: "unit", header: "Ед.", width: 8 },
+	{ key: "area", header: "Площадь, м²", width: 12 },
+	{ key: "unitAmount", header: "Цена", width: 12, money: true },
+	{ key: "discountPercentage", header: "Скидка, %", width: 10 },
+	{ key: "finalAmount", header: "Сумма", width: 14, money: true },
+];
+
+const SUMMARY_COLUMNS: ExportColumn<OrderExportSummaryRow>[] = [
+	{ key: "orderId", header: "Заказ", width: 10 },
+	{ key: "orderDate", header: "Дата", width: 18 },
+	{ key: "status", header: "Статус", width: 14 },
+	{ key: "customerName", header: "Клиент", width: 24 },
+	{ key: "customerPhone", header: "Телефон", width: 18 },
+	{ key: "customerEmail", header: "Email", width: 26 },
+	{ key: "itemCount", header: "Позиций", width: 10 },
+	{ key: "subtotalAmount", header: "Товары", width: 14, money: true },
+	{ key: "discountAmount", header: "Скидка", width: 12, money: true },
+	{ key: "shippingAmount", header: "Доставка", width: 12, money: true },
+	{ key: "totalAmount", header: "Итого", width: 14, money: true },
+	{ key: "paymentMethod", header: "Способ оплаты", width: 16 },
+	{ key: "paymentStatus", header: "Статус оплаты", width: 14 },
+	{ key: "fulfillment", header: "Получение", width: 40 },
+];
+
+// Russian Excel opens CSV with ";" as the separator and needs a BOM to detect UTF-8
+const CSV_SEPARATOR = ";";
+const CSV_BOM = "\uFEFF";
+
+function escapeCsvValue(value: string | number) {
+	const text =
+		typeof value === "number" ? String(value).replace(".", ",") : value;
+	return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV has a single sheet, so it holds the item rows (one per order item).
+ * The per-order summary is only available in XLSX.
+ */
+export function buildOrderItemsCsv(rows: OrderExportItemRow[]): string {
+	const lines = [
+		ITEM_COLUMNS.map((column) => escapeCsvValue(column.header)),
+		...rows.map((row) =>
+			ITEM_COLUMNS.map((column) => escapeCsvValue(row[column.key])),
+		),
+	];
+	return CSV_BOM + lines.map((line) => line.join(CSV_SEPARATOR)).join("\r\n");
+}
+
+function addSheet<Row>(
+	workbook: ExcelJS.Workbook,
+	name: string,
+	columns: ExportColumn<Row>[],
+	rows: Row[],
+) {
+	const sheet = workbook.addWorksheet(name, {
+		views: [{ state: "frozen", ySplit: 1 }],
+	});
+	sheet.columns = columns.map((column) => ({
+		key: column.key,
+		header: column.header,
+		width: column.width,
+		style: column.money ? { numFmt: "#,##0.00" } : undefined,
+	}));
+	sheet.getRow(1).font = { bold: true };
+	sheet.addRows(rows);
+	sheet.autoFilter = {
+		from: { row: 1, column: 1 },
+		to: { row: 1, column: columns.length },
+	};
+}
+
+/**
+ * XLSX workbook with two sheets: order items and one summary row per order
+ */
+export async function buildOrdersXlsx(
+	itemRows: OrderExportItemRow[],
+	summaryRows: OrderExportSummaryRow[],
+): Promise<Buffer> {
+	const workbook = new ExcelJS.Workbook();
+	workbook.creator = "BeautyFloor";
+	workbook.created = new Date();
+
+	addSheet(workbook, "Позиции", ITEM_COLUMNS, itemRows);
+	addSheet(workbook, "Заказы", SUMMARY_COLUMNS, summaryRows);
+
+	const buffer = await workbook.xlsx.writeBuffer();
+	return Buffer.from(buffer);
+}
@@ -0,0 +1,62 @@
+import { createClient } from "@libsql/client";
+import { asc } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/libsql";
+import { beforeAll, describe, expect, it } from "vitest";
+import { orders } from "~/schema";
+import {
+	getOrderListConditions,
+	normalizeSearchText,
+} from "~/utils/orderFilters";
+
+// Only the columns the search touches, selects below ask for the ID alone
+const client = createClient({ url: ":memory:" });
+const db = drizzle(client);
+
+const customers = [
+	{ id: 1, name: "Иван Петров", search: "иван петров" },
+	{ id: 2, name: "Алёна Смирнова", search: "алена смирнова" },
+	{ id: 3, name: "John Smith", search: "john smith" },
+	{ id: 4, name: "Иванна Old", search: null }, // Saved before customerNameSearch
+];
+
+beforeAll(async () => {
+	await client.execute(
+		`create table orders (id integer primary key, customerName text, customerNameSearch text, customerEmail text, customerPhone text)`,
+	);
+	for (const customer of customers) {
+		await client.execute({
+			sql: "insert into orders (id, customerName, customerNameSearch) values (?, ?, ?)",
+			args: [customer.id, customer.name, customer.search],
+		});
+	}
+});
+
+const searchOrderIds = async (search: string) =>
+	(
+		await db
+			.select({ id: orders.id })
+			.from(orders)
+			.where(getOrderListConditions({ search }))
+			.orderBy(asc(orders.id))
+	).map((order) => order.id);
+
+describe("order list search", () => {
+	it("normalizes Cyrillic case and ё", () => {
+		expect(normalizeSearchText("Алёна СМИРНОВА")).toBe("алена смирнова");
+	});
+
+	it("finds Cyrillic names regardless of case", async () => {
+		expect(await searchOrderIds("иван")).toEqual([1]);
+		expect(await searchOrderIds("ПЕТРОВ")).toEqual([1]);
+		expect(await searchOrderIds("алёна")).toEqual([2]);
+		expect(await searchOrderIds("SMITH")).toEqual([3]);
+	});
+
+	it("matches orders without customerNameSearch as typed", async () => {
+		expect(await searchOrderIds("Иванна")).toEqual([4]);
+	});
+
+	it("treats LIKE wildcards literally", async () => {
+		expect(await searchOrderIds("%")).toEqual([]);
+	});
+});
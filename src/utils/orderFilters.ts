@@ -0,0 +1,129 @@
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	gte,
+	isNull,
+	lt,
+	lte,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type { AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { OrderListSort } from "~/constants/orderList";
+import { orders } from "~/schema";
+import { getStoreDayEnd, parseStoreDate } from "~/utils/storeDate";
+
+/**
+ * Dashboard orders list filters
+ *
+ * Shared by the paginated orders list and the export, so both select
+ * the same orders for the same filter values.
+ */
+
+export interface OrderListFilters {
+	search?: string; // Order number, customer name, email or phone
+	status?: string;
+	paymentStatus?: string;
+	dateFrom?: string; // YYYY-MM-DD, inclusive
+	dateTo?: string; // YYYY-MM-DD, inclusive
+	minTotal?: number;
+	maxTotal?: number;
+	deliveryNeedsReview?: boolean; // Only orders with an unconfirmed delivery distance
+}
+
+export const ORDER_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lowercase with Unicode rules and ё as е, for customerNameSearch and the
+ * search text matched against it. SQLite LIKE ignores case only for ASCII
+ * letters, so "иван" wouldn't find "Иван" in customerName.
+ */
+export const normalizeSearchText = (value: string) =>
+	value.toLocaleLowerCase("ru-RU").replace(/ё/g, "е");
+
+// % and _ typed in the search are matched literally, not as LIKE wildcards
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+const containsText = (column: AnySQLiteColumn, value: string) =>
+	sql`${column} like ${`%${escapeLike(value)}%`} escape '\\'`;
+
+/**
+ * Conditions for an inclusive date range on the order date
+ */
+export function getOrderDateConditions(
+	dateFrom?: string,
+	dateTo?: string,
+): SQL[] {
+	const conditions: SQL[] = [];
+	if (dateFrom) {
+		conditions.push(gte(orders.createdAt, parseStoreDate(dateFrom)));
+	}
+	if (dateTo) {
+		// dateTo is inclusive: everything before the start of the next day
+		conditions.push(lt(orders.createdAt, getStoreDayEnd(dateTo)));
+	}
+	return conditions;
+}
+
+export function getOrderListConditions(
+	filters: OrderListFilters,
+): SQL | undefined {
+	const conditions = getOrderDateConditions(filters.dateFrom, filters.dateTo);
+
+	if (filters.status) {
+		conditions.push(eq(orders.status, filters.status));
+	}
+	if (filters.paymentStatus) {
+		conditions.push(eq(orders.paymentStatus, filters.paymentStatus));
+	}
+	if (filters.deliveryNeedsReview) {
+		conditions.push(eq(orders.deliveryNeedsReview, true));
+	}
+	if (filters.minTotal !== undefined) {
+		conditions.push(gte(orders.totalAmount, filters.minTotal));
+	}
+	if (filters.maxTotal !== undefined) {
+		conditions.push(lte(orders.totalAmount, filters.maxTotal));
+	}
+
+	const search = filters.search?.trim();
+	if (search) {
+		const searchConditions: (SQL | undefined)[] = [
+			containsText(orders.customerNameSearch, normalizeSearchText(search)),
+			// Orders saved before customerNameSearch, until backfill-order-search.ts is run
+			and(
+				isNull(orders.customerNameSearch),
+				containsText(orders.customerName, search),
+			),
+			containsText(orders.customerEmail, search.toLowerCase()),
+		];
+
+		// Phones are stored as +7XXXXXXXXXX, so match on digits only
+		const digits = search.replace(/\D/g, "");
+		if (digits.length >= 3) {
+			searchConditions.push(containsText(orders.customerPhone, digits));
+		}
+		if (/^#?\d+$/.test(search)) {
+			searchConditions.push(eq(orders.id, Number(search.replace("#", ""))));
+		}
+		conditions.push(or(...searchConditions) as SQL);
+	}
+
+	return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export function getOrderListOrderBy(sort: OrderListSort): SQL[] {
+	switch (sort) {
+		case "oldest":
+			return [asc(orders.createdAt), asc(orders.id)];
+		case "total-desc":
+			return [desc(orders.totalAmount), desc(orders.createdAt)];
+		case "total-asc":
+			return [asc(orders.totalAmount), desc(orders.createdAt)];
+		default:
+			return [desc(orders.createdAt), desc(orders.id)];
+	}
+}
@@ -0,0 +1,106 @@
+import { eq, inArray } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import type * as schema from "~/schema";
+import { orderItems, products, productVariations } from "~/schema";
+import type { SaleUnit } from "~/utils/units";
+
+export interface DashboardOrderItem {
+	id: number;
+	orderId: number;
+	productId: number;
+	quantity: number;
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null;
+	unitAmount: number;
+	discountPercentage: number | null;
+	finalAmount: number;
+	attributes: Record<string, string>;
+	product: {
+		name: string;
+		slug: string | null;
+		images: string | null;
+		unitOfMeasurement: string | null;
+	};
+	variation?: { id: number; sku: string };
+}
+
+/**
+ * Load order items with product and variation details for the dashboard,
+ * grouped by order ID
+ */
+export async function getDashboardOrderItems(
+	db: SqliteRemoteDatabase<typeof schema>,
+	orderIds: number[],
+): Promise<Map<number, DashboardOrderItem[]>> {
+	const itemsByOrderId = new Map<number, DashboardOrderItem[]>();
+	if (orderIds.length === 0) {
+		return itemsByOrderId;
+	}
+
+	const allItemsResult = await db
+		.select({
+			// Order item fields
+			id: orderItems.id,
+			orderId: orderItems.orderId,
+			productId: orderItems.productId,
+			productVariationId: orderItems.productVariationId,
+			quantity: orderItems.quantity,
+			saleUnit: orderItems.saleUnit,
+			squareMetersPerPack: orderItems.squareMetersPerPack,
+			unitAmount: orderItems.unitAmount,
+			discountPercentage: orderItems.discountPercentage,
+			finalAmount: orderItems.finalAmount,
+			attributes: orderItems.attributes,
+			createdAt: orderItems.createdAt,
+
+			// Product fields
+			productName: products.name,
+			productSlug: products.slug,
+			productImages: products.images,
+			productUnitOfMeasurement: products.unitOfMeasurement,
+
+			// Variation fields
+			variationId: productVariations.id,
+			variationSku: productVariations.sku,
+		})
+		.from(orderItems)
+		.leftJoin(products, eq(orderItems.productId, products.id))
+		.leftJoin(
+			productVariations,
+			eq(orderItems.productVariationId, productVariations.id),
+		)
+		.where(inArray(orderItems.orderId, orderIds));
+
+	// Group items by order ID in memory (fast)
+	for (const item of allItemsResult) {
+		if (!itemsByOrderId.has(item.orderId)) {
+			itemsByOrderId.set(item.orderId, []);
+		}
+		itemsByOrderId.get(item.orderId)?.push({
+			id: item.id,
+			orderId: item.orderId,
+			productId: item.productId,
+			quantity: item.quantity,
+			saleUnit: item.saleUnit === "pack" ? "pack" : "unit",
+			squareMetersPerPack: item.squareMetersPerPack,
+			unitAmount: item.unitAmount,
+			discountPercentage: item.discountPercentage,
+			finalAmount: item.finalAmount,
+			attributes: item.attributes ? JSON.parse(item.attributes) : {},
+			product: {
+				name: item.productName || "Unknown Product",
+				slug: item.productSlug,
+				images: item.productImages,
+				unitOfMeasurement: item.productUnitOfMeasurement,
+			},
+			variation: item.variationId
+				? {
+						id: item.variationId,
+						sku: item.variationSku || "",
+					}
+				: undefined,
+		});
+	}
+
+	return itemsByOrderId;
+}
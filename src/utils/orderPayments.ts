@@ -0,0 +1,191 @@
+import { and, eq } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import {
+	canTransitionPaymentStatus,
+	type PaymentStatus,
+} from "~/constants/paymentStatuses";
+import { DB } from "~/db";
+import type * as schema from "~/schema";
+import { orderAuditLog, orders, paymentAttempts } from "~/schema";
+import type { Order } from "~/types";
+import type { PaymentAuditChanges } from "~/utils/paymentAudit";
+import { getPaymentProvider } from "~/utils/paymentProvider";
+
+/**
+ * Order payment status updates
+ *
+ * paymentStatus is changed only here: by provider webhooks, by admin refunds
+ * and when the customer retries a failed payment. Every started payment is
+ * kept in payment_attempts, so a webhook for any attempt of the order is
+ * accepted. Repeated webhooks are ignored, so providers can safely retry them.
+ */
+
+// The payment an order status change belongs to
+export interface OrderPaymentRef {
+	paymentMethod: string;
+	paymentId: string;
+}
+
+export type PaymentStatusUpdateResult =
+	| { updated: true; order: Order }
+	| { updated: false; reason: string };
+
+export async function applyPaymentStatus(
+	db: SqliteRemoteDatabase<typeof schema>,
+	order: Order,
+	status: PaymentStatus,
+	changedBy: string | null = null,
+	payment: OrderPaymentRef | null = null,
+): Promise<PaymentStatusUpdateResult> {
+	if (order.paymentStatus === status) {
+		return { updated: false, reason: "Payment status is already set" };
+	}
+
+	if (!canTransitionPaymentStatus(order.paymentStatus, status)) {
+		return {
+			updated: false,
+			reason: `Payment status can't change from ${order.paymentStatus} to ${status}`,
+		};
+	}
+
+	// The order also switches to the attempt the status came from
+	const paymentRef = payment ?? {
+		paymentMethod: order.paymentMethod,
+		paymentId: order.paymentId,
+	};
+
+	// Conditional on the status checked above, a concurrent webhook wins
+	const [updatedOrder] = await db
+		.update(orders)
+		.set({ ...paymentRef, paymentStatus: status })
+		.where(
+			and(
+				eq(orders.id, order.id),
+				eq(orders.paymentStatus, order.paymentStatus),
+			),
+		)
+		.returning();
+
+	if (!updatedOrder) {
+		return {
+			updated: false,
+			reason: "Payment status was changed concurrently",
+		};
+	}
+
+	const changes: PaymentAuditChanges = {
+		from: order.paymentStatus,
+		to: status,
+		paymentId: paymentRef.paymentId,
+		provider: paymentRef.paymentMethod,
+	};
+	await db.insert(orderAuditLog).values({
+		orderId: order.id,
+		action: "payment_status_changed",
+		changedBy,
+		changes: JSON.stringify(changes),
+		comment: null,
+		createdAt: new Date(),
+	});
+
+	return { updated: true, order: updatedOrder };
+}
+
+/**
+ * Handle a webhook from the payment provider named in the URL.
+ * Invalid signatures get 400; events that don't apply (unknown payment,
+ * repeated or out-of-order status) are acknowledged with 200 so the provider
+ * stops retrying them.
+ */
+export async function handlePaymentWebhook(
+	providerName: string,
+	request: Request,
+): Promise<Response> {
+	// Only the configured provider is accepted, e.g. no mock webhooks in production
+	const provider = getPaymentProvider();
+	if (!provider || provider.name !== providerName) {
+		return new Response("Unknown payment provider", { status: 404 });
+	}
+
+	let event: Awaited<ReturnType<typeof provider.verifyWebhook>>;
+	try {
+		event = await provider.verifyWebhook(request);
+	} catch (error) {
+		console.warn(`[payment:${provider.name}] rejected webhook:`, error);
+		return new Response("Invalid webhook", { status: 400 });
+	}
+
+	const db = DB();
+	const [attempt] = await db
+		.select()
+		.from(paymentAttempts)
+		.where(
+			and(
+				eq(paymentAttempts.provider, provider.name),
+				eq(paymentAttempts.paymentId, event.paymentId),
+				eq(paymentAttempts.orderId, event.orderId),
+			),
+		)
+		.limit(1);
+
+	const [order] = attempt
+		? await db
+				.select()
+				.from(orders)
+				.where(eq(orders.id, attempt.orderId))
+				.limit(1)
+		: [];
+
+	if (!attempt || !order) {
+		console.warn(
+			`[payment:${provider.name}] webhook for unknown payment ${event.paymentId}`,
+		);
+		return Response.json({ received: true, applied: false });
+	}
+
+	// Paid amount must match the order, totals can change while the payment page is open
+	if (
+		event.status === "paid" &&
+		Math.abs(event.amount - order.totalAmount) >= 0.01
+	) {
+		console.error(
+			`[payment:${provider.name}] order #${order.id} paid ${event.amount}, expected ${order.totalAmount}`,
+		);
+		return Response.json({ received: true, applied: false });
+	}
+
+	await db
+		.update(paymentAttempts)
+		.set({ status: event.status, updatedAt: new Date() })
+		.where(eq(paymentAttempts.id, attempt.id));
+
+	const isCurrentAttempt =
+		order.paymentMethod === attempt.provider &&
+		order.paymentId === attempt.paymentId;
+
+	// Any attempt can pay the order, other statuses only count for the
+	// attempt the order is on: an old tab failing doesn't fail a new payment
+	if (event.status !== "paid" && !isCurrentAttempt) {
+		console.warn(
+			`[payment:${provider.name}] order #${order.id}: ${event.status} for an earlier attempt ${attempt.paymentId}`,
+		);
+		return Response.json({ received: true, applied: false });
+	}
+
+	const result = await applyPaymentStatus(db, order, event.status, null, {
+		paymentMethod: attempt.provider,
+		paymentId: attempt.paymentId,
+	});
+	if (!result.updated) {
+		// Two attempts paid: the second one has to be refunded by hand
+		const log =
+			event.status === "paid" && !isCurrentAttempt
+				? console.error
+				: console.warn;
+		log(
+			`[payment:${provider.name}] order #${order.id}, payment ${attempt.paymentId}: ${result.reason}`,
+		);
+	}
+
+	return Response.json({ received: true, applied: result.updated });
+}
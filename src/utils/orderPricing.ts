@@ -0,0 +1,223 @@
+import { inArray } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import type * as schema from "~/schema";
+import { products, productVariations } from "~/schema";
+import { parseImages, parseVariationAttributes } from "~/utils/productParsing";
+import {
+	getPackPrice,
+	getSaleUnit,
+	isValidSaleQuantity,
+	type SaleUnit,
+} from "~/utils/units";
+
+/**
+ * Server-side order pricing
+ *
+ * Cart lines coming from the browser only tell us WHAT the customer wants
+ * (product, variation, quantity). Prices, discounts, names and availability
+ * are always loaded from the database so a tampered request can't change them.
+ * Quantities are multiples of the sale unit's step: flooring is sold in
+ * whole packs priced per pack, linear metres by 0.1 m (see ~/utils/units).
+ */
+
+export interface OrderLineInput {
+	productId: number;
+	variationId?: number | null;
+	quantity: number;
+}
+
+export type OrderLineErrorCode =
+	| "product_not_found"
+	| "product_inactive"
+	| "variation_required"
+	| "variation_not_supported"
+	| "variation_not_found"
+	| "invalid_quantity";
+
+export interface OrderLineError {
+	productId: number;
+	variationId: number | null;
+	code: OrderLineErrorCode;
+	message: string;
+}
+
+export interface PricedOrderLine {
+	productId: number;
+	variationId: number | null;
+	quantity: number; // In saleUnit
+	saleUnit: SaleUnit;
+	squareMetersPerPack: number | null; // Set for pack lines
+	unitOfMeasurement: string | null; // products.unit_of_measurement, see ~/utils/units
+	productName: string;
+	productSlug: string;
+	sku: string | null;
+	image: string | null;
+	unitAmount: number; // Base price per saleUnit before discount
+	discountPercentage: number | null;
+	subtotalAmount: number; // unitAmount × quantity
+	discountAmount: number;
+	finalAmount: number; // subtotalAmount - discountAmount
+	attributes: Record<string, string>;
+}
+
+export interface PricedOrder {
+	items: PricedOrderLine[];
+	errors: OrderLineError[];
+	subtotalAmount: number;
+	discountAmount: number;
+}
+
+const ERROR_MESSAGES: Record<OrderLineErrorCode, string> = {
+	product_not_found: "Товар больше не существует",
+	product_inactive: "Товар больше не доступен для заказа",
+	variation_required: "Необходимо выбрать вариант товара",
+	variation_not_supported: "У товара нет вариантов",
+	variation_not_found: "Выбранный вариант товара больше не доступен",
+	invalid_quantity: "Некорректное количество",
+};
+
+// Message without the product name, for lists where the name is shown anyway
+export const getOrderLineErrorMessage = (code: OrderLineErrorCode) =>
+	ERROR_MESSAGES[code];
+
+function lineError(
+	line: OrderLineInput,
+	code: OrderLineErrorCode,
+	productName?: string,
+): OrderLineError {
+	return {
+		productId: line.productId,
+		variationId: line.variationId ?? null,
+		code,
+		message: productName
+			? `${productName}: ${ERROR_MESSAGES[code]}`
+			: ERROR_MESSAGES[code],
+	};
+}
+
+/**
+ * Valid discount is a percentage in the (0, 100] range, anything else means "no discount"
+ */
+function normalizeDiscount(discount: number | null | undefined): number | null {
+	if (!discount || discount <= 0 || discount > 100) return null;
+	return discount;
+}
+
+/**
+ * Loads products and variations referenced by the cart lines and prices every line.
+ * Lines that can't be ordered are returned in `errors` instead of throwing,
+ * so the caller can show the customer exactly which items need attention.
+ */
+export async function priceOrderLines(
+	db: SqliteRemoteDatabase<typeof schema>,
+	lines: OrderLineInput[],
+): Promise<PricedOrder> {
+	const productIds = [...new Set(lines.map((line) => line.productId))];
+	const variationIds = [
+		...new Set(
+			lines
+				.map((line) => line.variationId)
+				.filter((id): id is number => typeof id === "number"),
+		),
+	];
+
+	const [productRows, variationRows] = await Promise.all([
+		productIds.length > 0
+			? db.select().from(products).where(inArray(products.id, productIds))
+			: Promise.resolve([]),
+		variationIds.length > 0
+			? db
+					.select()
+					.from(productVariations)
+					.where(inArray(productVariations.id, variationIds))
+			: Promise.resolve([]),
+	]);
+
+	const productMap = new Map(productRows.map((p) => [p.id, p]));
+	const variationMap = new Map(variationRows.map((v) => [v.id, v]));
+
+	const items: PricedOrderLine[] = [];
+	const errors: OrderLineError[] = [];
+
+	for (const line of lines) {
+		const product = productMap.get(line.productId);
+		if (!product) {
+			errors.push(lineError(line, "product_not_found"));
+			continue;
+		}
+
+		if (!product.isActive) {
+			errors.push(lineError(line, "product_inactive", product.name));
+			continue;
+		}
+
+		if (!isValidSaleQuantity(line.quantity, product)) {
+			errors.push(lineError(line, "invalid_quantity", product.name));
+			continue;
+		}
+
+		if (product.hasVariations && !line.variationId) {
+			errors.push(lineError(line, "variation_required", product.name));
+			continue;
+		}
+
+		if (!product.hasVariations && line.variationId) {
+			errors.push(lineError(line, "variation_not_supported", product.name));
+			continue;
+		}
+
+		const variation = line.variationId
+			? variationMap.get(line.variationId)
+			: undefined;
+		if (line.variationId && variation?.productId !== product.id) {
+			errors.push(lineError(line, "variation_not_found", product.name));
+			continue;
+		}
+
+		// Flooring prices are per m², a pack line is priced per pack
+		const saleUnit = getSaleUnit(product.squareMetersPerPack);
+		const unitAmount = getPackPrice(
+			variation ? variation.price : product.price,
+			product.squareMetersPerPack,
+		);
+		const discountPercentage = normalizeDiscount(
+			variation?.discount ?? product.discount,
+		);
+		const subtotalAmount = unitAmount * line.quantity;
+		const discountAmount = discountPercentage
+			? subtotalAmount * (discountPercentage / 100)
+			: 0;
+
+		items.push({
+			productId: product.id,
+			variationId: variation?.id ?? null,
+			quantity: line.quantity,
+			saleUnit,
+			squareMetersPerPack:
+				saleUnit === "pack" ? product.squareMetersPerPack : null,
+			unitOfMeasurement: product.unitOfMeasurement,
+			productName: product.name,
+			productSlug: product.slug,
+			sku: variation?.sku ?? product.sku,
+			image: parseImages(product.images)[0] ?? null,
+			unitAmount,
+			discountPercentage,
+			subtotalAmount,
+			discountAmount,
+			finalAmount: subtotalAmount - discountAmount,
+			attributes: Object.fromEntries(
+				parseVariationAttributes(variation?.variationAttributes).map((attr) => [
+					attr.attributeId,
+					attr.value,
+				]),
+			),
+		});
+	}
+
+	return {
+		items,
+		errors,
+		subtotalAmount: items.reduce((sum, item) => sum + item.subtotalAmount, 0),
+		discountAmount: items.reduce((sum, item) => sum + item.discountAmount, 0),
+	};
+}
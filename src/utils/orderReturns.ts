@@ -0,0 +1,164 @@
+import { isValidSaleQuantity, type UnitProduct } from "~/utils/units";
+
+/**
+ * Order returns (RMA)
+ *
+ * A return lists order items and how many units come back. The refund is the
+ * price paid for those units, minus their share of the promo code discount and
+ * an optional restocking fee (e.g. for opened packs). Shipping isn't refunded.
+ * The amounts are fixed when the return is created; the order's refundedAmount
+ * grows when the return reaches "refunded", and an order paid online gets
+ * the money back through the payment provider at that moment.
+ */
+
+// Pack size and unit give the step the returned quantity is a multiple of
+export interface ReturnOrderLine extends UnitProduct {
+	id: number; // Order item ID
+	quantity: number;
+	finalAmount: number; // Line total after product discount
+}
+
+export interface ReturnLineInput {
+	orderItemId: number;
+	quantity: number;
+}
+
+export interface ReturnLineRefund extends ReturnLineInput {
+	amount: number;
+}
+
+export interface ReturnRefundCalculation {
+	lines: ReturnLineRefund[];
+	itemsAmount: number;
+	couponAmount: number;
+	restockingFee: number;
+	refundAmount: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Part of the order total that hasn't been refunded yet
+ */
+export const getRefundableAmount = (order: {
+	totalAmount: number;
+	refundedAmount: number;
+}) => Math.max(0, roundMoney(order.totalAmount - order.refundedAmount));
+
+/**
+ * Units of each order item that can still be returned,
+ * given the lines of the order's active (not rejected) returns
+ */
+export function getReturnableQuantities(
+	orderLines: ReturnOrderLine[],
+	returnedLines: ReturnLineInput[],
+): Map<number, number> {
+	const returnable = new Map(
+		orderLines.map((line) => [line.id, line.quantity]),
+	);
+	for (const returned of returnedLines) {
+		const left = returnable.get(returned.orderItemId);
+		if (left !== undefined) {
+			// Fractional units (2.5 m − 0.3 m) leave float noise behind
+			returnable.set(
+				returned.orderItemId,
+				Math.max(0, Number((left - returned.quantity).toFixed(6))),
+			);
+		}
+	}
+	return returnable;
+}
+
+/**
+ * Validate the returned quantities and calculate the refund.
+ * Used for the preview in OrderDrawer and again by createOrderReturn.
+ */
+export function calculateReturnRefund(
+	orderLines: ReturnOrderLine[],
+	couponDiscountAmount: number,
+	returnLines: ReturnLineInput[],
+	returnable: Map<number, number>,
+	restockingFeePercent: number,
+):
+	| { success: true; calculation: ReturnRefundCalculation }
+	| { success: false; error: string } {
+	const lines = returnLines.filter((line) => line.quantity !== 0);
+	if (lines.length === 0) {
+		return { success: false, error: "Укажите количество возвращаемых товаров" };
+	}
+
+	if (
+		!Number.isFinite(restockingFeePercent) ||
+		restockingFeePercent < 0 ||
+		restockingFeePercent > 100
+	) {
+		return {
+			success: false,
+			error: "Сбор за возврат должен быть от 0 до 100%",
+		};
+	}
+
+	const orderLinesById = new Map(orderLines.map((line) => [line.id, line]));
+	const refundLines: ReturnLineRefund[] = [];
+
+	for (const line of lines) {
+		const orderLine = orderLinesById.get(line.orderItemId);
+		if (!orderLine) {
+			return { success: false, error: "Позиция не найдена в заказе" };
+		}
+		if (!isValidSaleQuantity(line.quantity, orderLine)) {
+			return { success: false, error: "Некорректное количество" };
+		}
+		if (line.quantity > (returnable.get(orderLine.id) ?? 0)) {
+			return {
+				success: false,
+				error: "Количество больше, чем можно вернуть по этой позиции",
+			};
+		}
+		if (refundLines.some((refund) => refund.orderItemId === orderLine.id)) {
+			return { success: false, error: "Позиция указана дважды" };
+		}
+
+		refundLines.push({
+			orderItemId: orderLine.id,
+			quantity: line.quantity,
+			amount: roundMoney(
+				(orderLine.finalAmount / orderLine.quantity) * line.quantity,
+			),
+		});
+	}
+
+	const itemsAmount = roundMoney(
+		refundLines.reduce((sum, line) => sum + line.amount, 0),
+	);
+
+	// The promo code discount was spread over all lines of the order
+	const orderItemsTotal = orderLines.reduce(
+		(sum, line) => sum + line.finalAmount,
+		0,
+	);
+	const couponAmount =
+		orderItemsTotal > 0
+			? roundMoney(
+					Math.min(couponDiscountAmount, orderItemsTotal) *
+						(itemsAmount / orderItemsTotal),
+				)
+			: 0;
+
+	const restockingFee = roundMoney(
+		(itemsAmount - couponAmount) * (restockingFeePercent / 100),
+	);
+
+	return {
+		success: true,
+		calculation: {
+			lines: refundLines,
+			itemsAmount,
+			couponAmount,
+			restockingFee,
+			refundAmount: roundMoney(
+				Math.max(0, itemsAmount - couponAmount - restockingFee),
+			),
+		},
+	};
+}
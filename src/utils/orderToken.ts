@@ -0,0 +1,21 @@
+/**
+ * Public order tokens
+ *
+ * Customers open their order through /order/<token> instead of the sequential ID,
+ * so order pages can't be enumerated. 16 random bytes, base64url encoded (22 chars).
+ */
+
+const TOKEN_BYTES = 16;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+export function generateOrderToken(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+export const isOrderToken = (value: string) => TOKEN_PATTERN.test(value);
+
+export const isNumericOrderId = (value: string) => /^\d+$/.test(value);
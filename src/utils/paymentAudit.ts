@@ -0,0 +1,28 @@
+import {
+	getPaymentStatusName,
+	type PaymentStatus,
+} from "~/constants/paymentStatuses";
+
+// Stored in order_audit_log.changes for "payment_status_changed"
+export interface PaymentAuditChanges {
+	from: string;
+	to: PaymentStatus;
+	paymentId: string | null;
+	provider: string | null;
+}
+
+export function parsePaymentAuditChanges(
+	changes: string | null,
+): PaymentAuditChanges | null {
+	if (!changes) return null;
+	try {
+		return JSON.parse(changes) as PaymentAuditChanges;
+	} catch {
+		return null;
+	}
+}
+
+export const describePaymentChange = (changes: PaymentAuditChanges) =>
+	`${getPaymentStatusName(changes.from)} → ${getPaymentStatusName(changes.to)}${
+		changes.provider ? ` (${changes.provider})` : ""
+	}`;
@@ -0,0 +1,170 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { PaymentStatus } from "~/constants/paymentStatuses";
+import { env } from "~/utils/env";
+
+/**
+ * Payment Provider
+ *
+ * Thin wrapper around the acquirer so server functions and the webhook route
+ * don't talk to it directly. A real acquirer is added by implementing
+ * PaymentProvider and registering it in PAYMENT_PROVIDERS.
+ * Set PAYMENT_PROVIDER=mock to use the offline mock provider
+ * (used automatically in development when no provider is configured).
+ */
+
+export interface CreatePaymentRequest {
+	orderId: number;
+	orderToken: string; // Public order token, used for the return URL
+	amount: number;
+	currency: string;
+	description: string;
+}
+
+export interface CreatePaymentResult {
+	paymentId: string;
+	confirmationUrl: string; // Where the customer pays
+}
+
+export interface RefundRequest {
+	paymentId: string;
+	amount: number;
+}
+
+export interface RefundResult {
+	refundId?: string;
+	error?: string;
+}
+
+// Verified webhook payload, already mapped to our payment statuses
+export interface PaymentWebhookEvent {
+	paymentId: string;
+	orderId: number;
+	status: Exclude<PaymentStatus, "pending">;
+	amount: number;
+}
+
+export interface PaymentProvider {
+	name: string;
+	createPayment: (
+		request: CreatePaymentRequest,
+	) => Promise<CreatePaymentResult>;
+	/** Throws when the signature or the payload is invalid */
+	verifyWebhook: (request: Request) => Promise<PaymentWebhookEvent>;
+	refund: (request: RefundRequest) => Promise<RefundResult>;
+}
+
+// Mock provider: no network calls, the "payment page" is /payment/mock
+const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+const MOCK_WEBHOOK_STATUSES: PaymentWebhookEvent["status"][] = [
+	"paid",
+	"failed",
+	"refunded",
+];
+
+function getMockSecret(): string {
+	if (env.MOCK_PAYMENT_SECRET) return env.MOCK_PAYMENT_SECRET;
+	// A known secret would let anyone mark orders as paid
+	if (process.env.NODE_ENV === "production") {
+		throw new Error("MOCK_PAYMENT_SECRET is required in production");
+	}
+	return "bfloor-mock-secret";
+}
+
+const signMockPayload = (body: string) =>
+	createHmac("sha256", getMockSecret()).update(body).digest("hex");
+
+/**
+ * Build the webhook request the mock payment page sends, signed like a real one,
+ * so it goes through the same verification as webhooks from an acquirer
+ */
+export function createMockWebhookRequest(event: PaymentWebhookEvent): Request {
+	const body = JSON.stringify(event);
+	return new Request(`${env.BETTER_AUTH_URL}/api/payments/webhook/mock`, {
+		method: "POST",
+		headers: {
+			"content-type": "application/json",
+			[MOCK_SIGNATURE_HEADER]: signMockPayload(body),
+		},
+		body,
+	});
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+	name: "mock",
+	createPayment: async (request) => {
+		const paymentId = `mock_${randomUUID()}`;
+		const params = new URLSearchParams({
+			paymentId,
+			order: request.orderToken,
+		});
+		console.log(
+			`[payment:mock] created ${paymentId} for order #${request.orderId}: ${request.amount} ${request.currency}`,
+		);
+		return {
+			paymentId,
+			confirmationUrl: `/payment/mock?${params.toString()}`,
+		};
+	},
+	verifyWebhook: async (request) => {
+		const body = await request.text();
+		const signature = request.headers.get(MOCK_SIGNATURE_HEADER) ?? "";
+		const expected = signMockPayload(body);
+
+		if (
+			signature.length !== expected.length ||
+			!timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+		) {
+			throw new Error("Invalid webhook signature");
+		}
+
+		const event = JSON.parse(body) as PaymentWebhookEvent;
+		if (
+			typeof event.paymentId !== "string" ||
+			!Number.isInteger(event.orderId) ||
+			typeof event.amount !== "number" ||
+			!MOCK_WEBHOOK_STATUSES.includes(event.status)
+		) {
+			throw new Error("Invalid webhook payload");
+		}
+		return event;
+	},
+	refund: async (request) => {
+		console.log(
+			`[payment:mock] refunded ${request.paymentId}: ${request.amount}`,
+		);
+		return { refundId: `mock_refund_${randomUUID()}` };
+	},
+};
+
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+	mock: mockPaymentProvider,
+};
+
+/**
+ * Provider by name, e.g. from orders.paymentMethod or the webhook URL
+ */
+export function getPaymentProviderByName(
+	name: string | null | undefined,
+): PaymentProvider | null {
+	return (name && PAYMENT_PROVIDERS[name]) || null;
+}
+
+/**
+ * Provider for new payments, or null when online payment is not configured.
+ * Outside production the mock provider is used by default.
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+	if (env.PAYMENT_PROVIDER) {
+		const provider = getPaymentProviderByName(env.PAYMENT_PROVIDER);
+		if (!provider) {
+			console.error(`Unknown PAYMENT_PROVIDER: ${env.PAYMENT_PROVIDER}`);
+		}
+		return provider;
+	}
+
+	if (process.env.NODE_ENV !== "production") {
+		return mockPaymentProvider;
+	}
+
+	return null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Phone number utilities for customer contact details
+ */
+
+/**
+ * Normalizes a Russian phone number to the +7XXXXXXXXXX format.
+ * Accepts any formatting (spaces, dashes, brackets) and the domestic "8" prefix.
+ * Other international numbers are kept as "+" followed by their digits.
+ * @returns Normalized phone number or null if the input is not a valid number
+ */
+export function normalizePhone(
+	phone: string | null | undefined,
+): string | null {
+	if (!phone) return null;
+
+	const digits = phone.replace(/\D/g, "");
+
+	if (digits.length === 10) {
+		return `+7${digits}`;
+	}
+
+	if (digits.length === 11 && (digits[0] === "7" || digits[0] === "8")) {
+		return `+7${digits.slice(1)}`;
+	}
+
+	if (
+		phone.trim().startsWith("+") &&
+		digits.length >= 10 &&
+		digits.length <= 15
+	) {
+		return `+${digits}`;
+	}
+
+	return null;
+}
+
+/**
+ * Formats a normalized phone number for display: +7 908 541-43-81
+ * Numbers that are not Russian are returned unchanged.
+ */
+export function formatPhone(phone: string | null | undefined): string {
+	if (!phone) return "";
+
+	const match = phone.match(/^\+7(\d{3})(\d{3})(\d{2})(\d{2})$/);
+	if (!match) return phone;
+
+	return `+7 ${match[1]} ${match[2]}-${match[3]}-${match[4]}`;
+}
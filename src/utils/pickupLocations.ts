@@ -0,0 +1,46 @@
+import { inArray } from "drizzle-orm";
+import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
+import {
+	getStoreLocationsByIds,
+	type StoreLocation,
+} from "~/data/storeLocations";
+import type * as schema from "~/schema";
+import { productStoreLocations } from "~/schema";
+
+/**
+ * Store locations where the whole order can be picked up:
+ * only locations linked to EVERY product through productStoreLocations.
+ * A product without any linked location makes pickup unavailable.
+ */
+export async function getPickupLocationsForProducts(
+	db: SqliteRemoteDatabase<typeof schema>,
+	productIds: number[],
+): Promise<StoreLocation[]> {
+	const uniqueProductIds = [...new Set(productIds)];
+	if (uniqueProductIds.length === 0) return [];
+
+	const links = await db
+		.select({
+			productId: productStoreLocations.productId,
+			storeLocationId: productStoreLocations.storeLocationId,
+		})
+		.from(productStoreLocations)
+		.where(inArray(productStoreLocations.productId, uniqueProductIds));
+
+	const locationsByProduct = new Map<number, Set<number>>();
+	for (const link of links) {
+		if (link.productId === null || link.storeLocationId === null) continue;
+		const locations = locationsByProduct.get(link.productId) ?? new Set();
+		locations.add(link.storeLocationId);
+		locationsByProduct.set(link.productId, locations);
+	}
+
+	const [first, ...rest] = uniqueProductIds.map(
+		(id) => locationsByProduct.get(id) ?? new Set<number>(),
+	);
+	const commonIds = [...first].filter((locationId) =>
+		rest.every((locations) => locations.has(locationId)),
+	);
+
+	return getStoreLocationsByIds(commonIds);
+}
@@ -104,6 +104,7 @@ export function transformProductToFormData(
 		tags: parsedTags,
 		price: product.price.toString(),
 		squareMetersPerPack: product.squareMetersPerPack?.toString() || "",
+		linearMetersPerPack: product.linearMetersPerPack?.toString() || "",
 		unitOfMeasurement: product.unitOfMeasurement || "упаковка",
 		categorySlug: product.categorySlug || "",
 		brandSlug: product.brandSlug || "",
@@ -0,0 +1,113 @@
+import type { ProjectAccessory } from "~/constants/projectAccessories";
+import { getRoomArea, type RoomInput } from "~/utils/roomCalculator";
+import {
+	getSaleQuantity,
+	getSaleUnitCode,
+	type UnitProduct,
+} from "~/utils/units";
+
+/**
+ * Renovation project estimate
+ *
+ * From the rooms and doors we get the floor area and the wall length that
+ * needs plinths (perimeter without doorways). Every accessory needs either
+ * an area, a length or a count, which is converted into whole cart units
+ * of the product (see ~/utils/units).
+ */
+
+export interface ProjectMeasurements {
+	area: number;
+	perimeter: number;
+	plinthLength: number; // Perimeter without doorways
+	doorCount: number;
+	doorWidth: number; // Sum of the doorway widths
+}
+
+// Extra for cuts and joints
+const ACCESSORY_WASTE_PERCENTAGE = 5;
+// Typical sizes for products without their own pack sizes
+const PLINTH_PIECE_LENGTH = 2.5;
+const GLUE_LITRES_PER_SQUARE_METER = 0.3;
+
+/**
+ * An L-shape has the same perimeter as its bounding rectangle
+ */
+export function getRoomPerimeter(room: RoomInput): number | null {
+	return getRoomArea(room) === null ? null : 2 * (room.length + room.width);
+}
+
+export function getProjectMeasurements(
+	rooms: RoomInput[],
+	doorWidths: number[],
+): ProjectMeasurements {
+	const doors = doorWidths.filter((width) => width > 0);
+	const area = rooms.reduce((sum, room) => sum + (getRoomArea(room) ?? 0), 0);
+	const perimeter = rooms.reduce(
+		(sum, room) => sum + (getRoomPerimeter(room) ?? 0),
+		0,
+	);
+	const doorWidth = doors.reduce((sum, width) => sum + width, 0);
+
+	return {
+		area,
+		perimeter,
+		plinthLength: Math.max(0, perimeter - doorWidth),
+		doorCount: doors.length,
+		doorWidth,
+	};
+}
+
+const withWaste = (amount: number) =>
+	amount * (1 + ACCESSORY_WASTE_PERCENTAGE / 100);
+
+/**
+ * Cart quantity of the accessory, null when the product's unit
+ * can't be derived from the measurements (or nothing is needed)
+ */
+export function getAccessoryQuantity(
+	accessory: ProjectAccessory,
+	measurements: ProjectMeasurements,
+	product: UnitProduct,
+): number | null {
+	const saleUnit = getSaleUnitCode(product);
+	const isPiece = saleUnit === "pcs" || saleUnit === "pack";
+	let quantity: number | null = null;
+
+	switch (accessory) {
+		case "underlay":
+		case "glue": {
+			const area =
+				accessory === "underlay"
+					? withWaste(measurements.area)
+					: measurements.area;
+			quantity =
+				accessory === "glue" && saleUnit === "l"
+					? getSaleQuantity(area * GLUE_LITRES_PER_SQUARE_METER, "l", product)
+					: getSaleQuantity(area, "m2", product);
+			if (measurements.area <= 0) quantity = null;
+			break;
+		}
+		case "plinth": {
+			const length = withWaste(measurements.plinthLength);
+			quantity = getSaleQuantity(
+				length,
+				"lm",
+				saleUnit === "pcs" && !product.linearMetersPerPack
+					? { ...product, linearMetersPerPack: PLINTH_PIECE_LENGTH }
+					: product,
+			);
+			if (measurements.plinthLength <= 0) quantity = null;
+			break;
+		}
+		case "threshold": {
+			// One threshold per doorway unless sold by length
+			quantity = isPiece
+				? measurements.doorCount
+				: getSaleQuantity(measurements.doorWidth, "lm", product);
+			if (measurements.doorCount === 0) quantity = null;
+			break;
+		}
+	}
+
+	return quantity && quantity > 0 ? quantity : null;
+}
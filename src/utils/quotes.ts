@@ -0,0 +1,49 @@
+/**
+ * Saved quotes
+ *
+ * A designer or installer saves a cart and sends the client a short link
+ * (/quote/<token>). The quote keeps the prices of the moment it was saved;
+ * the quote page compares every line with the current price and availability.
+ * Tokens are short on purpose (they are read out over the phone), 8 characters
+ * without look-alike letters and digits.
+ */
+
+const TOKEN_LENGTH = 8;
+const TOKEN_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyz"; // 32 characters, no 0/o/1/l
+const TOKEN_PATTERN = new RegExp(`^[${TOKEN_ALPHABET}]{${TOKEN_LENGTH}}$`);
+
+export const QUOTE_MAX_ITEMS = 100;
+export const QUOTE_TITLE_MAX_LENGTH = 120;
+
+export function generateQuoteToken(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH));
+	return Array.from(
+		bytes,
+		(byte) => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length],
+	).join("");
+}
+
+export const isQuoteToken = (value: string) => TOKEN_PATTERN.test(value);
+
+/**
+ * unchanged - same price and discount as in the quote
+ * price_changed - the product can be ordered, but the price or discount differs
+ * unavailable - the product or variation can't be ordered any more
+ */
+export type QuoteLineChange = "unchanged" | "price_changed" | "unavailable";
+
+interface QuoteLinePrice {
+	unitAmount: number;
+	discountPercentage: number | null;
+}
+
+export function getQuoteLineChange(
+	saved: QuoteLinePrice,
+	current: QuoteLinePrice | null,
+): QuoteLineChange {
+	if (!current) return "unavailable";
+	return Math.abs(saved.unitAmount - current.unitAmount) < 0.005 &&
+		(saved.discountPercentage ?? null) === (current.discountPercentage ?? null)
+		? "unchanged"
+		: "price_changed";
+}
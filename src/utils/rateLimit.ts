@@ -0,0 +1,123 @@
+import { sql } from "drizzle-orm";
+import { DB } from "~/db";
+import { rateLimitBuckets } from "~/schema";
+import { env } from "~/utils/env";
+
+/**
+ * Rate Limit Store
+ *
+ * Fixed-window request counters behind a small interface so the limiter
+ * doesn't care where they live. The memory store only counts requests of one
+ * server process, which is enough locally; serverless instances don't share
+ * memory, so production counts in the database.
+ * Set RATE_LIMIT_STORE=memory or RATE_LIMIT_STORE=database to choose
+ * (memory is used automatically in development).
+ */
+
+export interface RateLimit {
+	limit: number; // Requests allowed per window
+	windowMs: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	count: number; // Requests in the current window, this one included
+	resetAt: number; // End of the window in ms
+}
+
+export interface RateLimitStore {
+	name: string;
+	/** Count one request for the key, the window starts with the first one */
+	hit: (
+		key: string,
+		windowMs: number,
+	) => Promise<{ count: number; resetAt: number }>;
+}
+
+// Expired windows are dropped once the map grows past this size
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+	const buckets = new Map<string, { count: number; resetAt: number }>();
+
+	return {
+		name: "memory",
+		hit: async (key, windowMs) => {
+			const now = Date.now();
+
+			if (buckets.size > MEMORY_STORE_SWEEP_SIZE) {
+				for (const [bucketKey, bucket] of buckets) {
+					if (bucket.resetAt <= now) buckets.delete(bucketKey);
+				}
+			}
+
+			const bucket = buckets.get(key);
+			if (!bucket || bucket.resetAt <= now) {
+				const fresh = { count: 1, resetAt: now + windowMs };
+				buckets.set(key, fresh);
+				return fresh;
+			}
+
+			bucket.count += 1;
+			return { ...bucket };
+		},
+	};
+}
+
+const databaseRateLimitStore: RateLimitStore = {
+	name: "database",
+	hit: async (key, windowMs) => {
+		const now = Date.now();
+		const resetAt = now + windowMs;
+
+		// One upsert, so concurrent requests can't both read the old count
+		const [bucket] = await DB()
+			.insert(rateLimitBuckets)
+			.values({ key, count: 1, resetAt })
+			.onConflictDoUpdate({
+				target: rateLimitBuckets.key,
+				set: {
+					count: sql`case when ${rateLimitBuckets.resetAt} <= ${now} then 1 else ${rateLimitBuckets.count} + 1 end`,
+					resetAt: sql`case when ${rateLimitBuckets.resetAt} <= ${now} then ${resetAt} else ${rateLimitBuckets.resetAt} end`,
+				},
+			})
+			.returning({
+				count: rateLimitBuckets.count,
+				resetAt: rateLimitBuckets.resetAt,
+			});
+
+		return bucket ?? { count: 1, resetAt };
+	},
+};
+
+let memoryStore: RateLimitStore | null = null;
+
+/**
+ * Pick the store for the current environment
+ */
+export function getRateLimitStore(): RateLimitStore {
+	const configured =
+		env.RATE_LIMIT_STORE ??
+		(process.env.NODE_ENV === "production" ? "database" : "memory");
+
+	if (configured === "database") {
+		return databaseRateLimitStore;
+	}
+
+	if (configured !== "memory") {
+		console.error(`Unknown RATE_LIMIT_STORE "${configured}", using memory`);
+	}
+
+	// Kept for the life of the process, a new store would reset the counters
+	memoryStore ??= createMemoryRateLimitStore();
+	return memoryStore;
+}
+
+export async function hitRateLimit(
+	store: RateLimitStore,
+	key: string,
+	{ limit, windowMs }: RateLimit,
+): Promise<RateLimitResult> {
+	const { count, resetAt } = await store.hit(key, windowMs);
+	return { allowed: count <= limit, count, resetAt };
+}
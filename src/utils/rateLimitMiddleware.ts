@@ -0,0 +1,233 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { createMiddleware } from "@tanstack/react-start";
+import {
+	getRequestHeader,
+	getRequestIP,
+	setResponseStatus,
+} from "@tanstack/react-start/server";
+import type {
+	BlockedAttemptReason,
+	ProtectedAction,
+} from "~/constants/blockedAttempts";
+import { DB } from "~/db";
+import { blockedAttempts } from "~/schema";
+import { env } from "~/utils/env";
+import { normalizePhone } from "~/utils/phone";
+import {
+	getRateLimitStore,
+	hitRateLimit,
+	type RateLimit,
+} from "~/utils/rateLimit";
+
+/**
+ * Checkout anti-spam
+ *
+ * createOrder and createQuote are public, so they are limited per IP (orders
+ * also per phone number), and the checkout form carries a honeypot field and
+ * a token signed by the server when the form was opened. The token's nonce is
+ * the order's idempotency key, so one token creates at most one order.
+ * Blocked requests are saved to blocked_attempts for the dashboard.
+ * Middleware runs before the server function's inputValidator, so the phone
+ * and form fields are read from the raw input.
+ */
+
+// Sent by the checkout form with createOrder
+export interface CheckoutFormGuard {
+	website: string; // Honeypot: hidden from people, bots fill in every field
+	token: string; // From issueCheckoutFormToken, when the form was opened
+}
+
+interface RateLimitMiddlewareOptions {
+	action: ProtectedAction;
+	ipLimit: RateLimit;
+	phoneLimit?: RateLimit;
+	getPhone?: (data: unknown) => unknown;
+}
+
+// Nobody fills in contacts and delivery faster than this
+const MIN_CHECKOUT_FILL_MS = 3000;
+// An older token means the checkout page has to be reloaded
+const MAX_CHECKOUT_FORM_AGE_MS = 24 * 60 * 60 * 1000;
+
+const BLOCKED_MESSAGE =
+	"Слишком много попыток. Пожалуйста, подождите и попробуйте ещё раз";
+const SPAM_MESSAGE =
+	"Не удалось оформить заказ. Обновите страницу и попробуйте ещё раз";
+
+/**
+ * X-Forwarded-For can be sent by anyone, so it is only read behind a known
+ * proxy. The proxy appends the address it saw, the last value is the client.
+ */
+const getClientIp = () => {
+	if (env.TRUST_PROXY === "true" || process.env.VERCEL) {
+		const forwarded = getRequestHeader("x-forwarded-for")
+			?.split(",")
+			.at(-1)
+			?.trim();
+		if (forwarded) return forwarded;
+	}
+	return getRequestIP() ?? null;
+};
+
+function getFormTokenSecret(): string {
+	if (env.BETTER_AUTH_SECRET) return env.BETTER_AUTH_SECRET;
+	// A known secret would let bots sign their own start time
+	if (process.env.NODE_ENV === "production") {
+		throw new Error("BETTER_AUTH_SECRET is required in production");
+	}
+	return "bfloor-checkout-form-secret";
+}
+
+const signFormToken = (issuedAt: string, nonce: string) =>
+	createHmac("sha256", getFormTokenSecret())
+		.update(`checkout-form:${issuedAt}:${nonce}`)
+		.digest("hex");
+
+/**
+ * Token with the time the checkout form was opened and a random nonce,
+ * signed so the browser can't move the time back or pick the nonce
+ */
+export function issueCheckoutFormToken(): string {
+	const issuedAt = Date.now().toString(36);
+	const nonce = randomBytes(16).toString("hex");
+	return `${issuedAt}.${nonce}.${signFormToken(issuedAt, nonce)}`;
+}
+
+/**
+ * How long ago the form was opened and the token's nonce,
+ * null when the token is missing or forged
+ */
+function readCheckoutFormToken(
+	token: unknown,
+): { age: number; nonce: string } | null {
+	if (typeof token !== "string") return null;
+
+	const [issuedAt = "", nonce = "", signature = ""] = token.split(".");
+	const expected = signFormToken(issuedAt, nonce);
+	if (
+		!nonce ||
+		signature.length !== expected.length ||
+		!timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+	) {
+		return null;
+	}
+
+	const issuedAtMs = Number.parseInt(issuedAt, 36);
+	return Number.isSafeInteger(issuedAtMs)
+		? { age: Date.now() - issuedAtMs, nonce }
+		: null;
+}
+
+/**
+ * Saving a blocked attempt must never fail the request handling
+ */
+async function recordBlockedAttempt(
+	action: ProtectedAction,
+	reason: BlockedAttemptReason,
+	ip: string | null,
+	phone: string | null,
+) {
+	try {
+		await DB()
+			.insert(blockedAttempts)
+			.values({
+				action,
+				reason,
+				ip,
+				phone,
+				userAgent: getRequestHeader("user-agent")?.slice(0, 500) ?? null,
+				createdAt: new Date(),
+			});
+	} catch (error) {
+		console.error("Error recording blocked attempt:", error);
+	}
+}
+
+const toPhone = (value: unknown) =>
+	typeof value === "string" ? normalizePhone(value) : null;
+
+export const createRateLimitMiddleware = ({
+	action,
+	ipLimit,
+	phoneLimit,
+	getPhone,
+}: RateLimitMiddlewareOptions) =>
+	createMiddleware({ type: "function" }).server(async ({ next, data }) => {
+		const ip = getClientIp();
+		const phone = toPhone(getPhone?.(data));
+		const checks: [BlockedAttemptReason, string, RateLimit][] = [];
+		if (ip) checks.push(["ip_rate_limit", `${action}:ip:${ip}`, ipLimit]);
+		if (phone && phoneLimit) {
+			checks.push(["phone_rate_limit", `${action}:phone:${phone}`, phoneLimit]);
+		}
+
+		const store = getRateLimitStore();
+		for (const [reason, key, limit] of checks) {
+			let result: Awaited<ReturnType<typeof hitRateLimit>>;
+			try {
+				result = await hitRateLimit(store, key, limit);
+			} catch (error) {
+				// A broken counter shouldn't stop real customers from ordering
+				console.error(`Rate limit store "${store.name}" failed:`, error);
+				break;
+			}
+
+			if (!result.allowed) {
+				// Only the first blocked request of a window, a flood stays one row
+				if (result.count === limit.limit + 1) {
+					await recordBlockedAttempt(action, reason, ip, phone);
+				}
+				setResponseStatus(429);
+				throw new Error(BLOCKED_MESSAGE);
+			}
+		}
+
+		return next();
+	});
+
+/**
+ * Honeypot and signed fill time of the checkout form, after the rate limit
+ * so a flood of these is limited too. Passes the token's nonce on as
+ * checkoutFormNonce, createOrder uses it as the idempotency key.
+ */
+export const checkoutFormMiddleware = createMiddleware({
+	type: "function",
+}).server(async ({ next, data }) => {
+	const input = data as
+		| {
+				formGuard?: Partial<CheckoutFormGuard>;
+				customerInfo?: { phone?: unknown };
+		  }
+		| undefined;
+	const guard = input?.formGuard;
+
+	const form = readCheckoutFormToken(guard?.token);
+
+	let reason: BlockedAttemptReason | null = null;
+	if (guard?.website) {
+		reason = "honeypot";
+	} else if (form === null) {
+		reason = "invalid_form_token";
+	} else if (form.age < MIN_CHECKOUT_FILL_MS) {
+		reason = "too_fast";
+	}
+
+	if (reason) {
+		await recordBlockedAttempt(
+			"create_order",
+			reason,
+			getClientIp(),
+			toPhone(input?.customerInfo?.phone),
+		);
+		setResponseStatus(400);
+		throw new Error(SPAM_MESSAGE);
+	}
+
+	// A page left open for a day isn't spam, it only has to be reloaded
+	if (!form || form.age > MAX_CHECKOUT_FORM_AGE_MS) {
+		setResponseStatus(400);
+		throw new Error(SPAM_MESSAGE);
+	}
+
+	return next({ context: { checkoutFormNonce: form.nonce } });
+});
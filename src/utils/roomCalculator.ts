@@ -0,0 +1,80 @@
+import {
+	LAYING_PATTERN_WASTE,
+	type LayingPattern,
+} from "~/constants/layingPatterns";
+import { getPacksArea, getPacksForArea } from "~/utils/units";
+
+/**
+ * Flooring calculator
+ *
+ * Rooms are rectangles or L-shapes. An L-shape is its bounding rectangle
+ * with a rectangular corner cut out, which is how people usually measure it.
+ * All sizes are in metres.
+ */
+
+export type RoomShape = "rectangle" | "l-shape";
+
+export interface RoomInput {
+	shape: RoomShape;
+	length: number;
+	width: number;
+	cutoutLength?: number; // L-shape only
+	cutoutWidth?: number;
+}
+
+export interface FlooringEstimate {
+	area: number; // Sum of the rooms
+	wastePercentage: number;
+	requiredArea: number; // area + waste
+	packs: number;
+	packsArea: number;
+	totalPrice: number;
+}
+
+const isPositive = (value: number | undefined): value is number =>
+	typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Floor area of a room, null while the sizes are incomplete or impossible
+ */
+export function getRoomArea(room: RoomInput): number | null {
+	if (!isPositive(room.length) || !isPositive(room.width)) return null;
+	const area = room.length * room.width;
+	if (room.shape === "rectangle") return area;
+
+	if (!isPositive(room.cutoutLength) || !isPositive(room.cutoutWidth)) {
+		return null;
+	}
+	// The cutout must leave both legs of the L
+	if (room.cutoutLength >= room.length || room.cutoutWidth >= room.width) {
+		return null;
+	}
+	return area - room.cutoutLength * room.cutoutWidth;
+}
+
+/**
+ * Packs for the rooms. Rooms with incomplete sizes are left out,
+ * null when there is nothing to count yet.
+ */
+export function estimateFlooring(
+	rooms: RoomInput[],
+	pattern: LayingPattern,
+	squareMetersPerPack: number,
+	packPrice: number,
+): FlooringEstimate | null {
+	const area = rooms.reduce((sum, room) => sum + (getRoomArea(room) ?? 0), 0);
+	if (area <= 0) return null;
+
+	const wastePercentage = LAYING_PATTERN_WASTE[pattern];
+	const requiredArea = area * (1 + wastePercentage / 100);
+	const packs = getPacksForArea(requiredArea, squareMetersPerPack);
+
+	return {
+		area,
+		wastePercentage,
+		requiredArea,
+		packs,
+		packsArea: getPacksArea(packs, squareMetersPerPack),
+		totalPrice: packs * packPrice,
+	};
+}
@@ -0,0 +1,30 @@
+/**
+ * Store calendar dates
+ *
+ * Dates picked in the dashboard (<input type="date">, YYYY-MM-DD) are calendar
+ * days in the store's time zone: Vladivostok, UTC+10, no DST.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const STORE_UTC_OFFSET = "+10:00";
+const STORE_UTC_OFFSET_MS = 10 * 60 * 60 * 1000;
+
+/**
+ * Start of the day in the store's time zone
+ */
+export const parseStoreDate = (date: string) =>
+	new Date(`${date}T00:00:00${STORE_UTC_OFFSET}`);
+
+/**
+ * Start of the next day, the exclusive end of an inclusive date
+ */
+export const getStoreDayEnd = (date: string) =>
+	new Date(parseStoreDate(date).getTime() + DAY_MS);
+
+/**
+ * Calendar day of a moment in the store's time zone, as YYYY-MM-DD
+ */
+export const toStoreDate = (date: Date) =>
+	new Date(new Date(date).getTime() + STORE_UTC_OFFSET_MS)
+		.toISOString()
+		.slice(0, 10);
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+	getSaleQuantity,
+	isValidSaleQuantity,
+	normalizeSaleQuantity,
+} from "~/utils/units";
+
+const laminate = {
+	unitOfMeasurement: "квадратный метр",
+	squareMetersPerPack: 2.159,
+};
+const plinth = { unitOfMeasurement: "погонный метр" };
+
+describe("sale unit step", () => {
+	it("accepts whole packs and tenths of a linear metre only", () => {
+		expect(isValidSaleQuantity(3, laminate)).toBe(true);
+		expect(isValidSaleQuantity(2.5, laminate)).toBe(false);
+		expect(isValidSaleQuantity(2.5, plinth)).toBe(true);
+		expect(isValidSaleQuantity(0.3, plinth)).toBe(true);
+		expect(isValidSaleQuantity(2.55, plinth)).toBe(false);
+		expect(isValidSaleQuantity(0, plinth)).toBe(false);
+		expect(isValidSaleQuantity(Number.NaN, plinth)).toBe(false);
+	});
+
+	it("rounds typed quantities to the step, at least one step", () => {
+		expect(normalizeSaleQuantity(0.1 + 0.2, plinth)).toBe(0.3);
+		expect(normalizeSaleQuantity(2.54, plinth)).toBe(2.5);
+		expect(normalizeSaleQuantity(0, plinth)).toBe(0.1);
+		expect(normalizeSaleQuantity(1.4, laminate)).toBe(1);
+		expect(normalizeSaleQuantity(0, laminate)).toBe(1);
+	});
+
+	it("covers an amount with whole steps", () => {
+		expect(getSaleQuantity(6.477, "m2", laminate)).toBe(3);
+		expect(getSaleQuantity(6.5, "m2", laminate)).toBe(4);
+		expect(getSaleQuantity(12.34, "lm", plinth)).toBe(12.4);
+		expect(getSaleQuantity(12.3, "lm", plinth)).toBe(12.3);
+	});
+});
@@ -0,0 +1,257 @@
+import { getUnitCode, UNITS, type UnitCode } from "~/constants/units";
+
+/**
+ * Units of measurement
+ *
+ * Products are stored with a unit_of_measurement name (see ~/constants/units)
+ * and optionally the amount of one pack or piece in m² (squareMetersPerPack)
+ * and in linear metres (linearMetersPerPack). Those amounts are what lets a
+ * quantity be converted between m², packs and linear metres.
+ *
+ * Flooring is priced per m² (products.price) but only whole packs of
+ * squareMetersPerPack can be bought. The customer enters the area they need,
+ * it is rounded up to whole packs, and from then on the quantity is a number
+ * of packs priced at price × squareMetersPerPack. Cart and order quantities
+ * are multiples of the sale unit's step: whole packs and pieces, 0.1 m for
+ * linear metres.
+ */
+
+export interface UnitProduct {
+	unitOfMeasurement?: string | null;
+	squareMetersPerPack?: number | null;
+	linearMetersPerPack?: number | null;
+}
+
+// Stored in order_items.saleUnit: whole packs of squareMetersPerPack,
+// or the product's own unit
+export type SaleUnit = "pack" | "unit";
+
+// Float noise in converted amounts (e.g. 3 × 2.159 = 6.477000000000001)
+const ROUNDING_EPSILON = 1e-6;
+
+const isPositive = (value: number | null | undefined): value is number =>
+	typeof value === "number" && value > 0;
+
+export const isPackProduct = (
+	squareMetersPerPack: number | null | undefined,
+): squareMetersPerPack is number => isPositive(squareMetersPerPack);
+
+export const getSaleUnit = (
+	squareMetersPerPack: number | null | undefined,
+): SaleUnit => (isPackProduct(squareMetersPerPack) ? "pack" : "unit");
+
+/**
+ * Russian plural form: 1 упаковка, 2 упаковки, 5 упаковок.
+ * Fractional amounts take the "few" form (2,5 упаковки).
+ */
+export function pluralizeUnit(count: number, code: UnitCode): string {
+	const [one, few, many] = UNITS[code].forms;
+	if (!Number.isInteger(count)) return few;
+
+	const abs = Math.abs(count);
+	const lastTwo = abs % 100;
+	const last = abs % 10;
+	if (lastTwo >= 11 && lastTwo <= 14) return many;
+	if (last === 1) return one;
+	if (last >= 2 && last <= 4) return few;
+	return many;
+}
+
+const roundToPrecision = (quantity: number, code: UnitCode) =>
+	Number(quantity.toFixed(UNITS[code].precision));
+
+/**
+ * "6,477 м²" with the short label, "3 упаковки" with the long one
+ */
+export function formatQuantity(
+	quantity: number,
+	code: UnitCode,
+	{ short = true }: { short?: boolean } = {},
+): string {
+	const rounded = roundToPrecision(quantity, code);
+	const label = short ? UNITS[code].shortLabel : pluralizeUnit(rounded, code);
+	return `${rounded.toLocaleString("ru-RU")} ${label}`;
+}
+
+/**
+ * Short label of a stored unit_of_measurement value: the value itself
+ * when it isn't a known unit, pieces when there is none
+ */
+export const getUnitShortLabel = (name: string | null | undefined) => {
+	if (!name?.trim()) return UNITS.pcs.shortLabel;
+	const code = getUnitCode(name);
+	return code ? UNITS[code].shortLabel : name;
+};
+
+/**
+ * Unit a product is put in the cart in: packs for flooring sold by area,
+ * the product's own unit otherwise
+ */
+export function getSaleUnitCode(product: UnitProduct): UnitCode {
+	if (isPackProduct(product.squareMetersPerPack)) return "pack";
+	return getUnitCode(product.unitOfMeasurement) ?? "pcs";
+}
+
+/**
+ * Smallest quantity of the product that can be ordered, and the increment
+ * of the quantity inputs
+ */
+export const getSaleStep = (product: UnitProduct) =>
+	UNITS[getSaleUnitCode(product)].step;
+
+// Drops the float noise of multiplying by a fractional step (3 × 0.1)
+const roundToStep = (quantity: number, step: number) =>
+	Number((Math.round(quantity / step) * step).toFixed(6));
+
+/**
+ * Whether a cart or order quantity is a positive multiple of the step
+ */
+export function isValidSaleQuantity(
+	quantity: number,
+	product: UnitProduct,
+): boolean {
+	if (!Number.isFinite(quantity) || quantity <= 0) return false;
+	const steps = quantity / getSaleStep(product);
+	return Math.abs(steps - Math.round(steps)) < ROUNDING_EPSILON;
+}
+
+/**
+ * Quantity typed or stepped by the customer, rounded to the step,
+ * at least one step
+ */
+export function normalizeSaleQuantity(
+	quantity: number,
+	product: UnitProduct,
+): number {
+	const step = getSaleStep(product);
+	if (!Number.isFinite(quantity)) return step;
+	return Math.max(step, roundToStep(quantity, step));
+}
+
+/**
+ * Amount of a unit in one sale unit of the product, null when unknown
+ */
+function getAmountPerSaleUnit(
+	code: UnitCode,
+	product: UnitProduct,
+): number | null {
+	const saleUnit = getSaleUnitCode(product);
+	if (code === saleUnit) return 1;
+
+	switch (code) {
+		case "m2":
+			return isPackProduct(product.squareMetersPerPack)
+				? product.squareMetersPerPack
+				: null;
+		case "lm":
+			return isPositive(product.linearMetersPerPack)
+				? product.linearMetersPerPack
+				: null;
+		case "pack":
+		case "pcs":
+			// A piece sold on its own is its own pack
+			if (saleUnit === "pack" || saleUnit === "pcs") return 1;
+			return saleUnit === "lm" && isPositive(product.linearMetersPerPack)
+				? 1 / product.linearMetersPerPack
+				: null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Converts a quantity between m², packs (or pieces) and linear metres
+ * using the product's pack sizes. Null when the product doesn't have the
+ * data for the conversion.
+ */
+export function convertQuantity(
+	quantity: number,
+	from: UnitCode,
+	to: UnitCode,
+	product: UnitProduct,
+): number | null {
+	if (from === to) return quantity;
+
+	const fromAmount = getAmountPerSaleUnit(from, product);
+	const toAmount = getAmountPerSaleUnit(to, product);
+	if (fromAmount === null || toAmount === null) return null;
+
+	return (quantity / fromAmount) * toAmount;
+}
+
+/**
+ * Sale units (the cart quantity) that cover an amount in another unit,
+ * rounded up to the step, null when the amount can't be converted
+ */
+export function getSaleQuantity(
+	amount: number,
+	from: UnitCode,
+	product: UnitProduct,
+): number | null {
+	const quantity = convertQuantity(
+		amount,
+		from,
+		getSaleUnitCode(product),
+		product,
+	);
+	if (quantity === null) return null;
+	const step = getSaleStep(product);
+	return roundToStep(
+		Math.ceil(quantity / step - ROUNDING_EPSILON) * step,
+		step,
+	);
+}
+
+/**
+ * Whole packs that cover the area, at least one
+ */
+export function getPacksForArea(
+	area: number,
+	squareMetersPerPack: number,
+): number {
+	if (!Number.isFinite(area) || area <= 0) return 1;
+	return Math.max(1, getSaleQuantity(area, "m2", { squareMetersPerPack }) ?? 1);
+}
+
+export const getPacksArea = (packs: number, squareMetersPerPack: number) =>
+	packs * squareMetersPerPack;
+
+/**
+ * Price of one pack from the price per m²
+ */
+export const getPackPrice = (
+	pricePerSquareMeter: number,
+	squareMetersPerPack: number | null | undefined,
+) =>
+	isPackProduct(squareMetersPerPack)
+		? pricePerSquareMeter * squareMetersPerPack
+		: pricePerSquareMeter;
+
+/**
+ * Area typed by the customer, comma or dot as decimal separator
+ */
+export function parseArea(value: string): number | null {
+	const area = Number.parseFloat(value.replace(",", "."));
+	return Number.isFinite(area) && area > 0 ? area : null;
+}
+
+export const formatArea = (area: number) => formatQuantity(area, "m2");
+
+/**
+ * Cart or order quantity in words: "3 упаковки (6,477 м²)" for packs,
+ * "5 погонных метров" for other units, the plain number when the unit
+ * is unknown
+ */
+export function formatSaleQuantity(
+	quantity: number,
+	product: UnitProduct,
+): string {
+	if (isPackProduct(product.squareMetersPerPack)) {
+		const area = getPacksArea(quantity, product.squareMetersPerPack);
+		return `${formatQuantity(quantity, "pack", { short: false })} (${formatQuantity(area, "m2")})`;
+	}
+	const code = getUnitCode(product.unitOfMeasurement);
+	return code
+		? formatQuantity(quantity, code, { short: false })
+		: String(quantity);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Cart, CartItem } from "~/lib/cartContext";
+import { mergeCarts } from "~/utils/userCart";
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+const item = (productId: number, quantity: number): CartItem => ({
+	productId,
+	quantity,
+	addedAt: NOW,
+	productName: `Товар ${productId}`,
+	productSlug: `product-${productId}`,
+	price: 1000,
+	cachedAt: NOW,
+});
+
+const cart = (items: CartItem[], ownerId?: string): Cart => ({
+	items,
+	lastUpdated: NOW,
+	ownerId,
+});
+
+describe("mergeCarts", () => {
+	it("combines a guest cart with the server cart", () => {
+		const merged = mergeCarts(
+			cart([item(1, 2), item(2, 1)]),
+			cart([item(1, 3)], "user-b"),
+			"user-b",
+			NOW,
+		);
+
+		expect(merged.ownerId).toBe("user-b");
+		expect(
+			merged.items.map(({ productId, quantity }) => [productId, quantity]),
+		).toEqual([
+			[1, 3],
+			[2, 1],
+		]);
+	});
+
+	it("discards the cart of another user", () => {
+		const serverCart = cart([item(3, 1)], "user-b");
+
+		expect(
+			mergeCarts(cart([item(1, 2)], "user-a"), serverCart, "user-b", NOW),
+		).toEqual({ ...serverCart, ownerId: "user-b" });
+		expect(
+			mergeCarts(cart([item(1, 2)], "user-a"), null, "user-b", NOW),
+		).toEqual({ items: [], lastUpdated: NOW, ownerId: "user-b" });
+	});
+});
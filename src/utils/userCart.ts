@@ -0,0 +1,136 @@
+import type { Cart, CartItem } from "~/lib/cartContext";
+
+/**
+ * Server-backed cart of signed-in users
+ *
+ * The cookie cart is still the working copy. For a signed-in user it is also
+ * saved on the server, and the two are merged when the user's data loads
+ * (right after login or on another device):
+ * - a cookie cart that already mirrors this user's cart is replaced by the
+ *   server cart, unless it was changed later (e.g. offline)
+ * - a guest cart is combined with the server cart, a product in both keeps
+ *   the larger quantity so a cart isn't doubled by logging in twice
+ * - a cart of another user (shared browser, logout not cleaned up) is
+ *   discarded, it must never end up in this user's account
+ * On logout the cookie cart is cleared, see clearSavedCart in ~/lib/cartContext.
+ */
+
+export const USER_CART_MAX_ITEMS = 200;
+const MAX_QUANTITY = 100_000;
+
+const isPositiveInteger = (value: unknown, max = Number.MAX_SAFE_INTEGER) =>
+	typeof value === "number" &&
+	Number.isInteger(value) &&
+	value > 0 &&
+	value <= max;
+
+// Quantities are fractional for units sold by 0.1 m, see ~/utils/units
+const isPositiveQuantity = (value: unknown) =>
+	typeof value === "number" &&
+	Number.isFinite(value) &&
+	value > 0 &&
+	value <= MAX_QUANTITY;
+
+/**
+ * Keep only well-formed cart items. Used for carts coming from the browser
+ * and for carts read back from the database.
+ */
+export function sanitizeCartItems(value: unknown): CartItem[] {
+	if (!Array.isArray(value)) return [];
+
+	const items: CartItem[] = [];
+	for (const raw of value.slice(0, USER_CART_MAX_ITEMS)) {
+		if (!raw || typeof raw !== "object") continue;
+		const item = raw as Record<string, unknown>;
+
+		if (
+			!isPositiveInteger(item.productId) ||
+			!isPositiveQuantity(item.quantity) ||
+			(item.variationId != null && !isPositiveInteger(item.variationId)) ||
+			typeof item.productName !== "string" ||
+			typeof item.productSlug !== "string" ||
+			typeof item.price !== "number" ||
+			!Number.isFinite(item.price)
+		) {
+			continue;
+		}
+
+		items.push({
+			productId: item.productId as number,
+			variationId: (item.variationId as number | null) ?? undefined,
+			quantity: item.quantity as number,
+			addedAt: typeof item.addedAt === "number" ? item.addedAt : 0,
+			productName: item.productName,
+			productSlug: item.productSlug,
+			price: item.price,
+			images:
+				typeof item.images === "string" || Array.isArray(item.images)
+					? (item.images as string | string[])
+					: null,
+			discount: typeof item.discount === "number" ? item.discount : null,
+			attributes:
+				item.attributes && typeof item.attributes === "object"
+					? (item.attributes as Record<string, string>)
+					: undefined,
+			squareMetersPerPack:
+				typeof item.squareMetersPerPack === "number"
+					? item.squareMetersPerPack
+					: null,
+			unitOfMeasurement:
+				typeof item.unitOfMeasurement === "string"
+					? item.unitOfMeasurement
+					: null,
+			cachedAt: typeof item.cachedAt === "number" ? item.cachedAt : 0,
+		});
+	}
+	return items;
+}
+
+const itemKey = (item: CartItem) =>
+	`${item.productId}-${item.variationId ?? ""}`;
+
+export function mergeCarts(
+	cookieCart: Cart,
+	serverCart: Cart | null,
+	userId: string,
+	now = Date.now(),
+): Cart {
+	if (cookieCart.ownerId && cookieCart.ownerId !== userId) {
+		return serverCart
+			? { ...serverCart, ownerId: userId }
+			: { items: [], lastUpdated: now, ownerId: userId };
+	}
+
+	if (!serverCart) {
+		return { ...cookieCart, ownerId: userId };
+	}
+
+	if (cookieCart.ownerId === userId) {
+		return cookieCart.lastUpdated > serverCart.lastUpdated
+			? cookieCart
+			: { ...serverCart, ownerId: userId };
+	}
+
+	const merged = new Map(serverCart.items.map((item) => [itemKey(item), item]));
+	for (const item of cookieCart.items) {
+		const existing = merged.get(itemKey(item));
+		if (!existing) {
+			merged.set(itemKey(item), item);
+			continue;
+		}
+		// Display data from the fresher copy
+		const fresher = item.cachedAt > existing.cachedAt ? item : existing;
+		merged.set(itemKey(item), {
+			...fresher,
+			quantity: Math.max(item.quantity, existing.quantity),
+			addedAt: Math.min(item.addedAt, existing.addedAt),
+		});
+	}
+
+	return {
+		items: Array.from(merged.values()),
+		couponCode: cookieCart.couponCode ?? serverCart.couponCode,
+		lastUpdated: now,
+		ownerId: userId,
+	};
+}
@@ -0,0 +1,15 @@
+import tsConfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Unit tests only need the ~ alias, not the app plugins from vite.config.ts
+export default defineConfig({
+	plugins: [
+		tsConfigPaths({
+			projects: ["./tsconfig.json"],
+		}),
+	],
+	test: {
+		include: ["src/**/*.test.ts"],
+		environment: "node",
+	},
+});